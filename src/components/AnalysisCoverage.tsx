@@ -0,0 +1,74 @@
+import { useMemo } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { SentimentResult } from '@/types/sentiment';
+import { computeCoverage, RESULT_STATUS_LABELS } from '@/utils/sentiment/results/resultStatus';
+
+interface AnalysisCoverageProps {
+  results: SentimentResult[];
+}
+
+export function AnalysisCoverage({ results }: AnalysisCoverageProps) {
+  const coverage = useMemo(() => computeCoverage(results), [results]);
+  const percent = Math.round(coverage.coverage * 1000) / 10;
+
+  const getCoverageColor = () => {
+    if (coverage.coverage >= 0.95) return 'text-sentiment-positive';
+    if (coverage.coverage >= 0.8) return 'text-yellow-500';
+    return 'text-sentiment-negative';
+  };
+
+  const flagged = (['retried', 'recovered-from-malformed', 'defaulted'] as const)
+    .filter(status => coverage.byStatus[status] > 0);
+
+  return (
+    <div className="relative bg-black/80 backdrop-blur-xl rounded-lg border border-white/10 p-4 font-mono">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4 text-muted-foreground" />
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">Coverage</span>
+        </div>
+        <span className={`text-sm tabular-nums ${getCoverageColor()}`}>{percent}%</span>
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-2">
+        {coverage.scored} of {coverage.total} texts were scored by the analyzer.
+        {coverage.byStatus.defaulted > 0 && ' Defaulted texts got no usable model output and are left out of every score.'}
+      </p>
+
+      {coverage.partiallySeen > 0 && (
+        <p className="text-xs text-muted-foreground mt-1">
+          {coverage.partiallySeen} long text{coverage.partiallySeen !== 1 ? 's were' : ' was'} scored on excerpts;
+          the model saw {Math.round(coverage.textSeen * 1000) / 10}% of the text on average.
+        </p>
+      )}
+
+      {coverage.cached > 0 && (
+        <p className="text-xs text-muted-foreground mt-1">
+          {coverage.cached} text{coverage.cached !== 1 ? 's were' : ' was'} scored from the result cache of an earlier run.
+        </p>
+      )}
+
+      {coverage.routedToLLM > 0 && (
+        <p className="text-xs text-muted-foreground mt-1">
+          Hybrid run: {coverage.routedToLLM} uncertain text{coverage.routedToLLM !== 1 ? 's were' : ' was'} sent on to the LLM
+          {coverage.agreement !== null && `; local and LLM scores agreed ${Math.round(coverage.agreement * 1000) / 10}% on average`}.
+        </p>
+      )}
+
+      {flagged.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {flagged.map(status => (
+            <Badge
+              key={status}
+              variant="outline"
+              className={`text-[10px] px-1.5 py-0 h-4 ${status === 'defaulted' ? 'border-sentiment-negative/50 text-sentiment-negative' : 'border-white/20 text-muted-foreground'}`}
+            >
+              {RESULT_STATUS_LABELS[status]}: {coverage.byStatus[status]}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
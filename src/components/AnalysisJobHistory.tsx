@@ -0,0 +1,126 @@
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Calendar, BarChart2, Layers, RefreshCw, Trash2, Workflow } from 'lucide-react';
+import { useAnalysisJobs, type AnalysisJobRecord } from '@/hooks/useAnalysisJobs';
+import { format } from 'date-fns';
+
+interface AnalysisJobHistoryProps {
+  sourceType: 'reddit' | 'papers';
+  onResumeJob: (job: AnalysisJobRecord) => void;
+}
+
+const STOP_REASON_LABELS: Record<string, string> = {
+  rate_limit: 'Rate limited',
+  credits_exhausted: 'Credits exhausted',
+  spend_cap: 'Spend cap reached',
+  batch_errors: 'Failed batches',
+};
+
+export function AnalysisJobHistory({ sourceType, onResumeJob }: AnalysisJobHistoryProps) {
+  const { jobs: allJobs, isRefreshing, deleteJob, refreshJobs } = useAnalysisJobs();
+  const jobs = allJobs.filter(job => job.source_type === sourceType);
+
+  // Stored statuses go stale while the archive is closed
+  useEffect(() => {
+    refreshJobs();
+  }, [refreshJobs]);
+
+  if (jobs.length === 0) return null;
+
+  const getStatusBadge = (job: AnalysisJobRecord) => {
+    if (job.status === 'completed') {
+      return <Badge variant="outline" className="text-[10px] font-mono border-sentiment-positive/50 text-sentiment-positive">Completed</Badge>;
+    }
+    if (job.status === 'running' && job.active) {
+      return <Badge variant="outline" className="text-[10px] font-mono border-blue-500/50 text-blue-400">Running</Badge>;
+    }
+    return (
+      <Badge variant="outline" className="text-[10px] font-mono border-yellow-500/50 text-yellow-500">
+        Paused{job.stop_reason ? ` · ${STOP_REASON_LABELS[job.stop_reason] ?? job.stop_reason}` : ''}
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="mb-10">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Workflow className="w-4 h-4 text-muted-foreground" />
+          <h2 className="text-sm font-mono text-muted-foreground uppercase tracking-wider">Analysis Jobs</h2>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={refreshJobs}
+          disabled={isRefreshing}
+          className="h-8 w-8 text-muted-foreground hover:text-foreground"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {jobs.map(job => {
+          // A 'running' job whose invocation died stops updating and can be resumed like a paused one
+          const canResume = job.status === 'paused' || (job.status === 'running' && !job.active);
+          const actionLabel = canResume ? 'Resume' : job.status === 'running' ? 'Reconnect' : 'View Results';
+
+          return (
+            <Card
+              key={job.id}
+              className="p-4 bg-card/60 backdrop-blur-sm border-border/50 hover:border-border transition-all"
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-2 flex-wrap">
+                    {getStatusBadge(job)}
+                    <span className="text-xs text-muted-foreground font-mono truncate">
+                      {job.node_names.slice(0, 3).join(', ')}
+                      {job.node_names.length > 3 && ` +${job.node_names.length - 3} more`}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3 text-xs text-muted-foreground font-mono">
+                    <span className="flex items-center gap-1">
+                      <Calendar className="w-3 h-3" />
+                      {format(new Date(job.created_at), 'MMM d, yyyy HH:mm')}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <BarChart2 className="w-3 h-3" />
+                      {job.total_texts} texts
+                    </span>
+                    {job.total_batches !== undefined && (
+                      <span className="flex items-center gap-1">
+                        <Layers className="w-3 h-3" />
+                        {job.completed_batches ?? 0}/{job.total_batches} batches
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onResumeJob(job)}
+                    className="font-mono text-xs"
+                  >
+                    {actionLabel}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteJob(job.id)}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
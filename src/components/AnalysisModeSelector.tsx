@@ -0,0 +1,287 @@
+import { Brain, Coins, Cpu, Database, Languages, Layers, MessageSquareQuote, Sparkles, Target } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import type { AnalysisSettings } from '@/utils/sentiment/analyzers/analysisSettings';
+import type { EnsembleConfig } from '@/utils/sentiment/analyzers/ensemble';
+import { SENTIMENT_MODELS } from '@/utils/sentiment/models/sentimentModelRegistry';
+
+interface AnalysisModeSelectorProps {
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+  onClearCache?: () => void;
+}
+
+export function AnalysisModeSelector({ settings, onChange, onClearCache }: AnalysisModeSelectorProps) {
+  const hybrid = settings.mode === 'ensemble';
+  const { llmWeight, maxLLMShare } = settings.ensemble;
+
+  const updateEnsemble = (patch: Partial<EnsembleConfig>) =>
+    onChange({ ...settings, ensemble: { ...settings.ensemble, ...patch } });
+
+  // An empty field removes the cap; zero, negative or unparsable amounts are ignored
+  const updateSpendCap = (value: string) => {
+    if (value.trim() === '') {
+      onChange({ ...settings, maxCostUsd: null });
+      return;
+    }
+    const amount = Number(value);
+    if (Number.isFinite(amount) && amount > 0) onChange({ ...settings, maxCostUsd: amount });
+  };
+
+  return (
+    <div className="w-full mt-8 p-4 rounded-xl border border-border/50 bg-card/60 backdrop-blur-sm">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          {hybrid ? <Cpu className="w-4 h-4 text-primary" /> : <Sparkles className="w-4 h-4 text-primary" />}
+          <div>
+            <Label htmlFor="hybrid-analysis" className="text-sm font-semibold text-foreground">
+              Hybrid analysis
+            </Label>
+            <p className="text-xs text-muted-foreground font-mono">
+              {hybrid
+                ? 'Local model scores everything; only uncertain texts go to the LLM'
+                : 'Every text is scored by the LLM'}
+            </p>
+          </div>
+        </div>
+        <Switch
+          id="hybrid-analysis"
+          checked={hybrid}
+          onCheckedChange={(checked) => onChange({ ...settings, mode: checked ? 'ensemble' : 'server' })}
+        />
+      </div>
+
+      {hybrid && (
+        <div className="flex items-center justify-between gap-4 mt-4">
+          <div className="flex items-center gap-3">
+            <Brain className="w-4 h-4 text-primary" />
+            <div>
+              <Label htmlFor="sentiment-model" className="text-sm font-semibold text-foreground">
+                Local sentiment model
+              </Label>
+              <p className="text-xs text-muted-foreground font-mono">
+                {SENTIMENT_MODELS.find(model => model.id === settings.sentimentModel)?.description}
+              </p>
+            </div>
+          </div>
+          <Select
+            value={settings.sentimentModel}
+            onValueChange={(value) => onChange({ ...settings, sentimentModel: value })}
+          >
+            <SelectTrigger id="sentiment-model" className="w-56 h-8 font-mono text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SENTIMENT_MODELS.map(model => (
+                <SelectItem key={model.id} value={model.id} className="font-mono text-xs">
+                  {model.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {hybrid && (
+        <div className="flex items-center justify-between gap-4 mt-4">
+          <div className="flex items-center gap-3">
+            <Languages className="w-4 h-4 text-primary" />
+            <div>
+              <Label htmlFor="multilingual" className="text-sm font-semibold text-foreground">
+                Multilingual local models
+              </Label>
+              <p className="text-xs text-muted-foreground font-mono">
+                Non-English texts are scored locally with multilingual models instead of the English ones
+              </p>
+            </div>
+          </div>
+          <Switch
+            id="multilingual"
+            checked={settings.multilingual}
+            onCheckedChange={(checked) => onChange({ ...settings, multilingual: checked })}
+          />
+        </div>
+      )}
+
+      {hybrid && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Layers className="w-4 h-4 text-primary" />
+              <div>
+                <Label htmlFor="multi-label" className="text-sm font-semibold text-foreground">
+                  Score every mentioned node
+                </Label>
+                <p className="text-xs text-muted-foreground font-mono">
+                  Texts touching several nodes get a score per node from the sentences about it (local model only)
+                </p>
+              </div>
+            </div>
+            <Switch
+              id="multi-label"
+              checked={settings.multiLabel}
+              onCheckedChange={(checked) => onChange({ ...settings, multiLabel: checked })}
+            />
+          </div>
+          {settings.multiLabel && (
+            <div className="mt-3 pl-7">
+              <Label className="mb-3 block text-xs font-mono text-muted-foreground">
+                Count a node as mentioned from {settings.nodeSimilarityThreshold.toFixed(2)} similarity
+              </Label>
+              <Slider
+                min={0.1}
+                max={0.9}
+                step={0.05}
+                value={[settings.nodeSimilarityThreshold]}
+                onValueChange={([value]) => onChange({ ...settings, nodeSimilarityThreshold: value })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mt-4">
+        <div className="flex items-center gap-3">
+          <Target className="w-4 h-4 text-primary" />
+          <div>
+            <span className="text-sm font-semibold text-foreground">Off-topic floor</span>
+            <p className="text-xs text-muted-foreground font-mono">
+              Texts matching no node this well go to Unassigned. LLM confidence and local similarity are
+              on different scales, so each has its own floor.
+            </p>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-3 pl-7">
+          <div>
+            <Label className="mb-3 block text-xs font-mono text-muted-foreground">
+              LLM node confidence below {settings.minNodeConfidence.toFixed(2)}
+            </Label>
+            <Slider
+              min={0}
+              max={0.9}
+              step={0.05}
+              value={[settings.minNodeConfidence]}
+              onValueChange={([value]) => onChange({ ...settings, minNodeConfidence: value })}
+            />
+          </div>
+          {hybrid && (
+            <div>
+              <Label className="mb-3 block text-xs font-mono text-muted-foreground">
+                Local node similarity below {settings.minNodeSimilarity.toFixed(2)}
+              </Label>
+              <Slider
+                min={0}
+                max={0.6}
+                step={0.05}
+                value={[settings.minNodeSimilarity]}
+                onValueChange={([value]) => onChange({ ...settings, minNodeSimilarity: value })}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 mt-4">
+        <div className="flex items-center gap-3">
+          <MessageSquareQuote className="w-4 h-4 text-primary" />
+          <div>
+            <Label htmlFor="explain-scores" className="text-sm font-semibold text-foreground">
+              Explain scores
+            </Label>
+            <p className="text-xs text-muted-foreground font-mono">
+              LLM adds a rationale and quotes the words behind each score (slower)
+            </p>
+          </div>
+        </div>
+        <Switch
+          id="explain-scores"
+          checked={settings.explain}
+          onCheckedChange={(checked) => onChange({ ...settings, explain: checked })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-4 mt-4">
+        <div className="flex items-center gap-3">
+          <Database className="w-4 h-4 text-primary" />
+          <div>
+            <Label htmlFor="use-cache" className="text-sm font-semibold text-foreground">
+              Reuse cached scores
+            </Label>
+            <p className="text-xs text-muted-foreground font-mono">
+              Texts already scored against these nodes are not sent to the LLM again
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {onClearCache && (
+            <Button variant="ghost" size="sm" onClick={onClearCache} className="font-mono text-xs text-muted-foreground">
+              Clear
+            </Button>
+          )}
+          <Switch
+            id="use-cache"
+            checked={settings.useCache}
+            onCheckedChange={(checked) => onChange({ ...settings, useCache: checked })}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 mt-4">
+        <div className="flex items-center gap-3">
+          <Coins className="w-4 h-4 text-primary" />
+          <div>
+            <Label htmlFor="spend-cap" className="text-sm font-semibold text-foreground">
+              Spend cap per run
+            </Label>
+            <p className="text-xs text-muted-foreground font-mono">
+              Stop and keep partial results once LLM calls cost this much (USD)
+            </p>
+          </div>
+        </div>
+        <Input
+          id="spend-cap"
+          type="number"
+          min={0}
+          step={0.05}
+          placeholder="None"
+          defaultValue={settings.maxCostUsd ?? ''}
+          onChange={(event) => updateSpendCap(event.target.value)}
+          className="w-24 h-8 font-mono text-xs"
+        />
+      </div>
+
+      {hybrid && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-5">
+          <div>
+            <Label className="mb-3 block text-xs font-mono text-muted-foreground">
+              Send at most {Math.round(maxLLMShare * 100)}% of texts to the LLM
+            </Label>
+            <Slider
+              min={0}
+              max={1}
+              step={0.05}
+              value={[maxLLMShare]}
+              onValueChange={([value]) => updateEnsemble({ maxLLMShare: value })}
+            />
+          </div>
+          <div>
+            <Label className="mb-3 block text-xs font-mono text-muted-foreground">
+              LLM weight when merging: {Math.round(llmWeight * 100)}%
+            </Label>
+            <Slider
+              min={0}
+              max={1}
+              step={0.05}
+              value={[llmWeight]}
+              onValueChange={([value]) => updateEnsemble({ llmWeight: value })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,23 @@
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Home, Radio, BookOpen, Calendar, BarChart2, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Home, Radio, BookOpen, Calendar, BarChart2, Trash2, Coins } from 'lucide-react';
 import { useScrapeHistory, ScrapeRecord } from '@/hooks/useScrapeHistory';
 import { usePaperHistory } from '@/hooks/usePaperHistory';
+import type { AnalysisJobRecord } from '@/hooks/useAnalysisJobs';
+import { AnalysisJobHistory } from '@/components/AnalysisJobHistory';
 import { format } from 'date-fns';
 
 interface ArchivePageProps {
   sourceType: 'reddit' | 'papers';
   onGoHome: () => void;
   onLoadScrape: (data: any) => void;
+  onResumeJob: (job: AnalysisJobRecord) => void;
 }
 
-export function ArchivePage({ sourceType, onGoHome, onLoadScrape }: ArchivePageProps) {
+export function ArchivePage({ sourceType, onGoHome, onLoadScrape, onResumeJob }: ArchivePageProps) {
+  const navigate = useNavigate();
   const { scrapes: redditScrapes, deleteScrape: deleteRedditScrape, getScrapeData } = useScrapeHistory();
   const { scrapes: paperScrapes, deleteScrape: deletePaperScrape } = usePaperHistory();
 
@@ -63,6 +68,10 @@ export function ArchivePage({ sourceType, onGoHome, onLoadScrape }: ArchivePageP
               </span>
             </div>
           </div>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/usage')} className="gap-2 font-mono text-xs">
+            <Coins className="w-4 h-4" />
+            LLM usage
+          </Button>
         </div>
       </div>
 
@@ -78,6 +87,8 @@ export function ArchivePage({ sourceType, onGoHome, onLoadScrape }: ArchivePageP
             </p>
           </div>
 
+          <AnalysisJobHistory sourceType={sourceType} onResumeJob={onResumeJob} />
+
           {scrapes.length > 0 ? (
             <div className="space-y-3">
               {scrapes.map((scrape: any) => (
@@ -0,0 +1,60 @@
+import { Coins } from 'lucide-react';
+import { useLLMPricing } from '@/hooks/useLLMUsage';
+import type { AnalysisSettings } from '@/utils/sentiment/analyzers/analysisSettings';
+import { estimateRunCost, formatTokens, formatUsd } from '@/utils/sentiment/analyzers/costEstimate';
+
+interface CostEstimateProps {
+  // Expected texts from the scrape and their mean length; both are upper-end guesses
+  textCount: number;
+  avgChars: number;
+  nodeCount: number;
+  kpiCount: number;
+  settings: AnalysisSettings;
+}
+
+export function CostEstimate({ textCount, avgChars, nodeCount, kpiCount, settings }: CostEstimateProps) {
+  const pricing = useLLMPricing();
+  // No estimate without a price, e.g. when the usage function is not deployed
+  if (!pricing) return null;
+
+  const estimate = estimateRunCost({
+    textCount,
+    avgChars,
+    kpiCount,
+    nodeCount,
+    explain: settings.explain,
+    llmShare: settings.mode === 'ensemble' ? settings.ensemble.maxLLMShare : 1,
+    price: pricing.price,
+  });
+
+  const runCaps = [settings.maxCostUsd, pricing.caps.perRunUsd].filter((cap): cap is number => cap !== null);
+  const runCap = runCaps.length > 0 ? Math.min(...runCaps) : null;
+  const dayLeft = pricing.caps.perDayUsd !== null ? Math.max(0, pricing.caps.perDayUsd - pricing.spentTodayUsd) : null;
+  const overRunCap = runCap !== null && estimate.costUsd > runCap;
+  const overDayCap = dayLeft !== null && estimate.costUsd > dayLeft;
+
+  return (
+    <div className="p-3 rounded-lg bg-background/30 border border-border/50 font-mono text-xs">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Coins className="w-4 h-4" />
+          <span>Estimated analysis cost</span>
+        </div>
+        <span className="text-sm text-foreground tabular-nums">~{formatUsd(estimate.costUsd)}</span>
+      </div>
+      <p className="text-muted-foreground mt-1">
+        Up to {estimate.llmTexts} texts to {pricing.model}: ~{formatTokens(estimate.promptTokens)} prompt
+        + {formatTokens(estimate.completionTokens)} completion tokens
+        {settings.useCache && '; cached texts cost nothing'}
+      </p>
+      {(overRunCap || overDayCap) && (
+        <p className="text-yellow-500 mt-1">
+          {overRunCap
+            ? `Above the ${formatUsd(runCap ?? 0)} per-run spend cap`
+            : `Above the ${formatUsd(dayLeft ?? 0)} left under today's spend cap`}
+          ; the run will stop there and return partial results.
+        </p>
+      )}
+    </div>
+  );
+}
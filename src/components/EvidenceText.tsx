@@ -0,0 +1,79 @@
+import type { ReactNode } from 'react';
+import type { EvidenceSpan, KPIDefinition } from '@/types/sentiment';
+
+interface EvidenceTextProps {
+  text: string;
+  evidence?: EvidenceSpan[];
+  // Truncate to this many characters; the window moves to the first evidence span if it would be cut off
+  maxLength?: number;
+  // Labels KPI evidence in the highlight tooltip
+  kpis?: KPIDefinition[];
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  supports: string[];
+}
+
+// Overlapping spans merge so every character is highlighted at most once
+function mergeSpans(evidence: EvidenceSpan[]): Segment[] {
+  const merged: Segment[] = [];
+  [...evidence].sort((a, b) => a.start - b.start).forEach(span => {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+      if (!last.supports.includes(span.supports)) last.supports.push(span.supports);
+    } else {
+      merged.push({ start: span.start, end: span.end, supports: [span.supports] });
+    }
+  });
+  return merged;
+}
+
+export function EvidenceText({ text, evidence = [], maxLength, kpis = [] }: EvidenceTextProps) {
+  let windowStart = 0;
+  let windowEnd = text.length;
+  if (maxLength !== undefined && text.length > maxLength) {
+    const first = evidence.reduce<EvidenceSpan | undefined>((earliest, span) =>
+      !earliest || span.start < earliest.start ? span : earliest, undefined);
+    if (first && first.end > maxLength) {
+      windowStart = Math.max(0, Math.min(first.start - Math.floor(maxLength / 4), text.length - maxLength));
+    }
+    windowEnd = windowStart + maxLength;
+  }
+
+  const label = (supports: string) => {
+    if (supports === 'polarity') return 'Sentiment';
+    if (supports === 'node') return 'Node';
+    return kpis.find(kpi => kpi.id === supports)?.label ?? supports;
+  };
+
+  const parts: ReactNode[] = [];
+  let cursor = windowStart;
+  mergeSpans(evidence).forEach((segment, i) => {
+    const start = Math.max(segment.start, windowStart);
+    const end = Math.min(segment.end, windowEnd);
+    if (end <= start) return;
+    if (start > cursor) parts.push(<span key={`t${i}`}>{text.slice(cursor, start)}</span>);
+    parts.push(
+      <mark
+        key={`e${i}`}
+        title={segment.supports.map(label).join(', ')}
+        className="bg-yellow-500/20 text-foreground rounded-sm px-0.5"
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < windowEnd) parts.push(<span key="rest">{text.slice(cursor, windowEnd)}</span>);
+
+  return (
+    <>
+      {windowStart > 0 && '...'}
+      {parts}
+      {windowEnd < text.length && '...'}
+    </>
+  );
+}
@@ -1,14 +1,20 @@
 import { Badge } from '@/components/ui/badge';
 import { Quote } from 'lucide-react';
-import type { SentimentResult } from '@/types/sentiment';
+import type { KPIDefinition, SentimentResult } from '@/types/sentiment';
+import { isUnassigned } from '@/utils/sentiment/nodes/nodeAssignment';
+import { EvidenceText } from '@/components/EvidenceText';
+
+// Off-topic texts shown when inspecting the Unassigned bucket
+const UNASSIGNED_SAMPLE_SIZE = 5;
 
 interface ExemplarQuotesProps {
   results: SentimentResult[];
   nodeId: string;
   nodeName: string;
+  kpis?: KPIDefinition[];
 }
 
-export function ExemplarQuotes({ results, nodeId, nodeName }: ExemplarQuotesProps) {
+export function ExemplarQuotes({ results, nodeId, nodeName, kpis }: ExemplarQuotesProps) {
   const nodeResults = results.filter(r => r.nodeId === nodeId);
   
   const positive = nodeResults
@@ -19,10 +25,16 @@ export function ExemplarQuotes({ results, nodeId, nodeName }: ExemplarQuotesProp
     .filter(r => r.polarity === 'negative')
     .sort((a, b) => a.polarityScore - b.polarityScore)[0];
 
-  const quotes = [
-    { quote: positive, sentiment: 'positive', label: '+' },
-    { quote: negative, sentiment: 'negative', label: '−' },
-  ].filter(q => q.quote);
+  // For the Unassigned bucket, list the closest misses so the threshold can be judged
+  const quotes = isUnassigned(nodeId)
+    ? [...nodeResults]
+        .sort((a, b) => (b.nodeConfidence ?? 0) - (a.nodeConfidence ?? 0))
+        .slice(0, UNASSIGNED_SAMPLE_SIZE)
+        .map(quote => ({ quote, sentiment: quote.polarity, label: '?' }))
+    : [
+        { quote: positive, sentiment: 'positive', label: '+' },
+        { quote: negative, sentiment: 'negative', label: '−' },
+      ].filter(q => q.quote);
 
   if (quotes.length === 0) return null;
 
@@ -40,6 +52,9 @@ export function ExemplarQuotes({ results, nodeId, nodeName }: ExemplarQuotesProp
       <div className="flex items-center gap-2 mb-3">
         <Quote className="w-4 h-4 text-muted-foreground" />
         <span className="text-xs text-muted-foreground uppercase tracking-wider truncate">{nodeName}</span>
+        {isUnassigned(nodeId) && (
+          <span className="text-[10px] text-muted-foreground ml-auto tabular-nums">{nodeResults.length} texts</span>
+        )}
       </div>
 
       <div className="space-y-3">
@@ -55,10 +70,20 @@ export function ExemplarQuotes({ results, nodeId, nodeName }: ExemplarQuotesProp
               <span className="text-[10px] text-muted-foreground tabular-nums">
                 {quote!.polarityScore > 0 ? '+' : ''}{quote!.polarityScore.toFixed(2)}
               </span>
+              {quote!.nodeConfidence !== undefined && (
+                <span className="text-[10px] text-muted-foreground tabular-nums ml-auto">
+                  match {quote!.nodeConfidence.toFixed(2)}
+                </span>
+              )}
             </div>
             <p className="text-xs text-muted-foreground leading-relaxed">
-              "{quote!.text.slice(0, 120)}{quote!.text.length > 120 ? '...' : ''}"
+              "<EvidenceText text={quote!.text} evidence={quote!.explanation?.evidence} maxLength={120} kpis={kpis} />"
             </p>
+            {quote!.explanation?.rationale && (
+              <p className="text-[10px] text-muted-foreground/80 italic leading-relaxed mt-1">
+                {quote!.explanation.rationale}
+              </p>
+            )}
           </div>
         ))}
       </div>
@@ -0,0 +1,237 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, Download, Gauge, Plus, RotateCcw, Save, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { isValidKPI } from '@/utils/sentiment/kpis/kpiRegistry';
+import type { KPIDefinition } from '@/types/sentiment';
+
+interface KPIEditorProps {
+  kpis: KPIDefinition[];
+  // Validates and stores the set; throws when a definition is invalid
+  onSave: (kpis: KPIDefinition[]) => void;
+  onReset: () => void;
+}
+
+// Concepts are edited as one comma-separated field
+interface DraftKPI {
+  id: string;
+  label: string;
+  polarity: KPIDefinition['polarity'];
+  description: string;
+  concepts: string;
+  weights?: Record<string, number>;
+}
+
+const toDraft = (kpi: KPIDefinition): DraftKPI => ({
+  id: kpi.id,
+  label: kpi.label,
+  polarity: kpi.polarity,
+  description: kpi.description ?? '',
+  concepts: kpi.concepts.join(', '),
+  weights: kpi.weights,
+});
+
+function fromDraft(draft: DraftKPI): KPIDefinition {
+  const concepts = Array.from(new Set(
+    draft.concepts.split(',').map(concept => concept.trim().toLowerCase()).filter(Boolean)
+  ));
+  // Weights of concepts that were removed are dropped with them
+  const weights = draft.weights
+    ? Object.fromEntries(Object.entries(draft.weights).filter(([concept]) => concepts.includes(concept)))
+    : undefined;
+  return {
+    id: draft.id,
+    label: draft.label.trim(),
+    polarity: draft.polarity,
+    ...(draft.description.trim() && { description: draft.description.trim() }),
+    concepts,
+    ...(weights && Object.keys(weights).length > 0 && { weights }),
+  };
+}
+
+// Ids must match /^[a-z][a-z0-9_]*$/ and stay unique; they key stored scores, so existing ones never change
+function kpiIdFor(label: string, taken: string[]): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '') || 'kpi';
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}_${n}`;
+  return id;
+}
+
+export function KPIEditor({ kpis, onSave, onReset }: KPIEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [drafts, setDrafts] = useState<DraftKPI[]>(() => kpis.map(toDraft));
+  const [newLabel, setNewLabel] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDrafts(kpis.map(toDraft));
+  }, [kpis]);
+
+  const updateDraft = (id: string, patch: Partial<DraftKPI>) =>
+    setDrafts(prev => prev.map(draft => (draft.id === id ? { ...draft, ...patch } : draft)));
+
+  const addKPI = () => {
+    if (!newLabel.trim()) return;
+    const id = kpiIdFor(newLabel, drafts.map(draft => draft.id));
+    setDrafts(prev => [...prev, { id, label: newLabel.trim(), polarity: 'positive', description: '', concepts: '' }]);
+    setNewLabel('');
+  };
+
+  const handleSave = () => {
+    try {
+      onSave(drafts.map(fromDraft));
+      toast({ title: 'KPIs saved', description: `${drafts.length} KPIs are used from the next analysis run.` });
+    } catch (error) {
+      toast({
+        title: 'Could not save KPIs',
+        description: `${error instanceof Error ? error.message : 'Invalid KPI set'}. Each KPI needs a label and at least one concept.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleReset = () => {
+    onReset();
+    toast({ title: 'KPIs reset', description: 'Restored the default KPI set.' });
+  };
+
+  // Imported sets replace the draft; they are stored once saved
+  const handleImport = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!Array.isArray(parsed) || parsed.length === 0 || !parsed.every(isValidKPI)) {
+        throw new Error('Expected a JSON array of KPI definitions with id, label, polarity and concepts');
+      }
+      setDrafts((parsed as KPIDefinition[]).map(toDraft));
+      toast({ title: 'KPIs imported', description: `Loaded ${parsed.length} KPIs. Save to use them.` });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Could not read the file',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(drafts.map(fromDraft), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'kpis.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="w-full mt-4 p-4 rounded-xl border border-border/50 bg-card/60 backdrop-blur-sm">
+      <button className="w-full flex items-center justify-between gap-4" onClick={() => setOpen(!open)}>
+        <div className="flex items-center gap-3 text-left">
+          <Gauge className="w-4 h-4 text-primary" />
+          <div>
+            <span className="text-sm font-semibold text-foreground">KPIs</span>
+            <p className="text-xs text-muted-foreground font-mono">
+              {kpis.map(kpi => kpi.label).join(', ')}
+            </p>
+          </div>
+        </div>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          {drafts.map(draft => (
+            <div key={draft.id} className="space-y-2 p-3 rounded-lg border border-border/50 bg-background/30">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={draft.label}
+                  onChange={(event) => updateDraft(draft.id, { label: event.target.value })}
+                  className="h-8 text-sm font-semibold"
+                  aria-label="KPI label"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 font-mono text-xs shrink-0"
+                  title="Inverted KPIs are bad when present, e.g. frustration"
+                  onClick={() => updateDraft(draft.id, { polarity: draft.polarity === 'positive' ? 'inverted' : 'positive' })}
+                >
+                  {draft.polarity}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 shrink-0"
+                  disabled={drafts.length <= 1}
+                  onClick={() => setDrafts(prev => prev.filter(d => d.id !== draft.id))}
+                  aria-label={`Remove ${draft.label}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+              <Input
+                value={draft.description}
+                onChange={(event) => updateDraft(draft.id, { description: event.target.value })}
+                placeholder="What the KPI measures (guides the LLM)"
+                className="h-8 text-xs"
+              />
+              <Textarea
+                value={draft.concepts}
+                onChange={(event) => updateDraft(draft.id, { concepts: event.target.value })}
+                placeholder="Concepts, comma-separated: burnout, exhausted, overworked..."
+                className="min-h-[60px] text-xs font-mono"
+              />
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Input
+              value={newLabel}
+              onChange={(event) => setNewLabel(event.target.value)}
+              onKeyDown={(event) => event.key === 'Enter' && addKPI()}
+              placeholder="New KPI, e.g. Burnout"
+              className="h-8 text-sm"
+            />
+            <Button variant="outline" size="sm" className="h-8" onClick={addKPI} disabled={!newLabel.trim()}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) handleImport(file);
+                  event.target.value = '';
+                }}
+              />
+              <Button variant="ghost" size="sm" className="font-mono text-xs" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-3.5 h-3.5 mr-1" /> Import
+              </Button>
+              <Button variant="ghost" size="sm" className="font-mono text-xs" onClick={handleExport}>
+                <Download className="w-3.5 h-3.5 mr-1" /> Export
+              </Button>
+              <Button variant="ghost" size="sm" className="font-mono text-xs" onClick={handleReset}>
+                <RotateCcw className="w-3.5 h-3.5 mr-1" /> Defaults
+              </Button>
+            </div>
+            <Button size="sm" onClick={handleSave}>
+              <Save className="w-3.5 h-3.5 mr-1" /> Save KPIs
+            </Button>
+          </div>
+          <p className="text-[10px] font-mono text-muted-foreground">
+            Label changes keep the KPI's id, so earlier results stay comparable.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,19 @@
+import { useMemo } from 'react';
 import { Grid3X3 } from 'lucide-react';
-import type { NodeAnalysis } from '@/types/sentiment';
+import type { NodeAnalysis, KPIDefinition } from '@/types/sentiment';
+import { inferKPIIds, resolveKPIs } from '@/utils/sentiment/kpis/kpiRegistry';
+import { isUnassigned } from '@/utils/sentiment/nodes/nodeAssignment';
 
 interface KPIHeatmapProps {
   data: NodeAnalysis[];
+  kpis?: KPIDefinition[];
 }
 
-export function KPIHeatmap({ data }: KPIHeatmapProps) {
-  const kpis = [
-    { key: 'trust', label: 'Trust' },
-    { key: 'optimism', label: 'Optimism' },
-    { key: 'frustration', label: 'Frustration' },
-    { key: 'clarity', label: 'Clarity' },
-    { key: 'access', label: 'Access' },
-    { key: 'fairness', label: 'Fairness' },
-  ];
+export function KPIHeatmap({ data, kpis: kpiDefinitions }: KPIHeatmapProps) {
+  const kpis = useMemo(
+    () => kpiDefinitions ?? resolveKPIs(inferKPIIds(data.map(node => node.avgKpiScores))),
+    [kpiDefinitions, data]
+  );
 
   const getCellColor = (value: number) => {
     if (value > 0.3) return 'bg-sentiment-positive/60 text-white';
@@ -37,7 +37,7 @@ export function KPIHeatmap({ data }: KPIHeatmapProps) {
             <tr>
               <th className="text-left p-1.5 text-muted-foreground font-normal border-b border-white/10">Node</th>
               {kpis.map((kpi) => (
-                <th key={kpi.key} className="text-center p-1.5 text-muted-foreground font-normal border-b border-white/10 min-w-[70px]">
+                <th key={kpi.id} className="text-center p-1.5 text-muted-foreground font-normal border-b border-white/10 min-w-[70px]">
                   {kpi.label}
                 </th>
               ))}
@@ -45,12 +45,18 @@ export function KPIHeatmap({ data }: KPIHeatmapProps) {
           </thead>
           <tbody>
             {data.map((node) => (
-              <tr key={node.nodeId} className="border-b border-white/5 last:border-0">
-                <td className="p-1.5 whitespace-nowrap">{node.nodeName}</td>
+              <tr
+                key={node.nodeId}
+                className={`border-b border-white/5 last:border-0 ${isUnassigned(node.nodeId) ? 'opacity-60' : ''}`}
+              >
+                <td className={`p-1.5 whitespace-nowrap ${isUnassigned(node.nodeId) ? 'italic text-muted-foreground' : ''}`}>
+                  {node.nodeName}
+                  <span className="ml-1 text-[10px] text-muted-foreground tabular-nums">({node.totalTexts})</span>
+                </td>
                 {kpis.map((kpi) => {
-                  const value = node.avgKpiScores[kpi.key as keyof typeof node.avgKpiScores];
+                  const value = node.avgKpiScores[kpi.id] ?? 0;
                   return (
-                    <td key={kpi.key} className="p-0.5">
+                    <td key={kpi.id} className="p-0.5">
                       <div className={`p-1.5 text-center tabular-nums rounded ${getCellColor(value)}`}>
                         {value > 0 ? '+' : ''}{value.toFixed(1)}
                       </div>
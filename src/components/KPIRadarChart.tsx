@@ -9,25 +9,26 @@ import {
   ResponsiveContainer,
   Tooltip,
 } from 'recharts';
-import type { NodeAnalysis } from '@/types/sentiment';
+import type { NodeAnalysis, KPIDefinition } from '@/types/sentiment';
+import { inferKPIIds, resolveKPIs } from '@/utils/sentiment/kpis/kpiRegistry';
 
 interface KPIRadarChartProps {
   data: NodeAnalysis[];
+  kpis?: KPIDefinition[];
 }
 
-export function KPIRadarChart({ data }: KPIRadarChartProps) {
+export function KPIRadarChart({ data, kpis }: KPIRadarChartProps) {
   const chartData = useMemo(() => {
-    const kpiNames = ['Trust', 'Optimism', 'Frustration', 'Clarity', 'Access', 'Fairness'];
+    const kpiList = kpis ?? resolveKPIs(inferKPIIds(data.map(node => node.avgKpiScores)));
     
-    return kpiNames.map(kpi => {
-      const dataPoint: any = { kpi };
+    return kpiList.map(kpiDef => {
+      const dataPoint: Record<string, string | number> = { kpi: kpiDef.label };
       data.slice(0, 3).forEach((node, idx) => {
-        const kpiKey = kpi.toLowerCase() as keyof typeof node.avgKpiScores;
-        dataPoint[`node${idx}`] = ((node.avgKpiScores[kpiKey] + 1) / 2) * 100;
+        dataPoint[`node${idx}`] = (((node.avgKpiScores[kpiDef.id] ?? 0) + 1) / 2) * 100;
       });
       return dataPoint;
     });
-  }, [data]);
+  }, [data, kpis]);
 
   const colors = useMemo(() => [
     'hsl(0, 0%, 100%)',
@@ -9,15 +9,23 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import type { NodeAnalysis } from '@/types/sentiment';
+import type { NodeAnalysis, KPIDefinition } from '@/types/sentiment';
+import { inferKPIIds, resolveKPIs } from '@/utils/sentiment/kpis/kpiRegistry';
+import { isUnassigned } from '@/utils/sentiment/nodes/nodeAssignment';
 
-type SortField = 'nodeName' | 'totalTexts' | 'avgPolarity' | 'trust' | 'optimism' | 'frustration' | 'clarity' | 'access' | 'fairness';
+// KPI columns are keyed as `kpi:<id>` so user-defined ids cannot collide with the fixed columns
+type SortField = 'nodeName' | 'totalTexts' | 'avgPolarity' | 'avgNodeConfidence' | `kpi:${string}`;
 
 interface KPISortableTableProps {
   data: NodeAnalysis[];
+  kpis?: KPIDefinition[];
 }
 
-export function KPISortableTable({ data }: KPISortableTableProps) {
+export function KPISortableTable({ data, kpis: kpiDefinitions }: KPISortableTableProps) {
+  const kpis = useMemo(
+    () => kpiDefinitions ?? resolveKPIs(inferKPIIds(data.map(node => node.avgKpiScores))),
+    [kpiDefinitions, data]
+  );
   const [sortField, setSortField] = useState<SortField>('avgPolarity');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
 
@@ -39,6 +47,10 @@ export function KPISortableTable({ data }: KPISortableTableProps) {
 
   const sortedData = useMemo(() => {
     return [...data].sort((a, b) => {
+      // The Unassigned bucket always stays below the real nodes
+      const bucketOrder = Number(isUnassigned(a.nodeId)) - Number(isUnassigned(b.nodeId));
+      if (bucketOrder !== 0) return bucketOrder;
+
       let aVal: number, bVal: number;
       
       switch (sortField) {
@@ -54,32 +66,16 @@ export function KPISortableTable({ data }: KPISortableTableProps) {
           aVal = a.avgPolarity;
           bVal = b.avgPolarity;
           break;
-        case 'trust':
-          aVal = a.avgKpiScores.trust;
-          bVal = b.avgKpiScores.trust;
-          break;
-        case 'optimism':
-          aVal = a.avgKpiScores.optimism;
-          bVal = b.avgKpiScores.optimism;
-          break;
-        case 'frustration':
-          aVal = a.avgKpiScores.frustration;
-          bVal = b.avgKpiScores.frustration;
-          break;
-        case 'clarity':
-          aVal = a.avgKpiScores.clarity;
-          bVal = b.avgKpiScores.clarity;
-          break;
-        case 'access':
-          aVal = a.avgKpiScores.access;
-          bVal = b.avgKpiScores.access;
+        case 'avgNodeConfidence':
+          aVal = a.avgNodeConfidence ?? 0;
+          bVal = b.avgNodeConfidence ?? 0;
           break;
-        case 'fairness':
-          aVal = a.avgKpiScores.fairness;
-          bVal = b.avgKpiScores.fairness;
+        default: {
+          const kpiId = sortField.slice('kpi:'.length);
+          aVal = a.avgKpiScores[kpiId] ?? 0;
+          bVal = b.avgKpiScores[kpiId] ?? 0;
           break;
-        default:
-          return 0;
+        }
       }
       
       return sortDirection === 'asc' ? aVal - bVal : bVal - aVal;
@@ -104,7 +100,9 @@ export function KPISortableTable({ data }: KPISortableTableProps) {
       <div className="flex items-center gap-2 px-4 py-3 border-b border-blue-500/20 bg-blue-500/5">
         <BarChart3 className="w-4 h-4 text-blue-400" />
         <span className="text-xs text-blue-400 uppercase tracking-wider">KPI Analysis</span>
-        <span className="text-xs text-muted-foreground ml-auto">{data.length} nodes</span>
+        <span className="text-xs text-muted-foreground ml-auto">
+          {data.filter(node => !isUnassigned(node.nodeId)).length} nodes
+        </span>
       </div>
 
       <div className="overflow-x-auto">
@@ -137,35 +135,34 @@ export function KPISortableTable({ data }: KPISortableTableProps) {
               </TableHead>
               <TableHead 
                 className="cursor-pointer hover:text-foreground text-right text-xs"
-                onClick={() => handleSort('trust')}
-              >
-                <div className="flex items-center justify-end gap-1">
-                  Trust {getSortIcon('trust')}
-                </div>
-              </TableHead>
-              <TableHead 
-                className="cursor-pointer hover:text-foreground text-right text-xs"
-                onClick={() => handleSort('optimism')}
+                onClick={() => handleSort('avgNodeConfidence')}
+                title="Average similarity between texts and the node they were assigned to"
               >
                 <div className="flex items-center justify-end gap-1">
-                  Optimism {getSortIcon('optimism')}
-                </div>
-              </TableHead>
-              <TableHead 
-                className="cursor-pointer hover:text-foreground text-right text-xs"
-                onClick={() => handleSort('frustration')}
-              >
-                <div className="flex items-center justify-end gap-1">
-                  Frustration {getSortIcon('frustration')}
+                  Match {getSortIcon('avgNodeConfidence')}
                 </div>
               </TableHead>
+              {kpis.map((kpi) => (
+                <TableHead 
+                  key={kpi.id}
+                  className="cursor-pointer hover:text-foreground text-right text-xs"
+                  onClick={() => handleSort(`kpi:${kpi.id}`)}
+                >
+                  <div className="flex items-center justify-end gap-1">
+                    {kpi.label} {getSortIcon(`kpi:${kpi.id}`)}
+                  </div>
+                </TableHead>
+              ))}
               <TableHead className="text-xs">Distribution</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {sortedData.map((node) => (
-              <TableRow key={node.nodeId} className="border-white/5 hover:bg-white/5">
-                <TableCell className="text-xs font-medium max-w-[150px] truncate">
+              <TableRow
+                key={node.nodeId}
+                className={`border-white/5 hover:bg-white/5 ${isUnassigned(node.nodeId) ? 'border-t border-dashed border-t-white/20 opacity-70' : ''}`}
+              >
+                <TableCell className={`text-xs font-medium max-w-[150px] truncate ${isUnassigned(node.nodeId) ? 'italic text-muted-foreground' : ''}`}>
                   {node.nodeName}
                 </TableCell>
                 <TableCell className="text-right text-xs tabular-nums text-muted-foreground">
@@ -176,15 +173,17 @@ export function KPISortableTable({ data }: KPISortableTableProps) {
                     {node.avgPolarity > 0 ? '+' : ''}{node.avgPolarity.toFixed(2)}
                   </span>
                 </TableCell>
-                <TableCell className={`text-right text-xs tabular-nums ${getScoreColor(node.avgKpiScores.trust)}`}>
-                  {node.avgKpiScores.trust.toFixed(2)}
-                </TableCell>
-                <TableCell className={`text-right text-xs tabular-nums ${getScoreColor(node.avgKpiScores.optimism)}`}>
-                  {node.avgKpiScores.optimism.toFixed(2)}
-                </TableCell>
-                <TableCell className={`text-right text-xs tabular-nums ${getScoreColor(node.avgKpiScores.frustration)}`}>
-                  {node.avgKpiScores.frustration.toFixed(2)}
+                <TableCell className="text-right text-xs tabular-nums text-muted-foreground">
+                  {node.avgNodeConfidence !== undefined ? node.avgNodeConfidence.toFixed(2) : '—'}
                 </TableCell>
+                {kpis.map((kpi) => {
+                  const value = node.avgKpiScores[kpi.id] ?? 0;
+                  return (
+                    <TableCell key={kpi.id} className={`text-right text-xs tabular-nums ${getScoreColor(value)}`}>
+                      {value.toFixed(2)}
+                    </TableCell>
+                  );
+                })}
                 <TableCell>
                   <div className="flex gap-1">
                     <Badge variant="outline" className="text-[10px] px-1 py-0 h-4 bg-sentiment-positive/20 border-sentiment-positive/30 text-sentiment-positive">
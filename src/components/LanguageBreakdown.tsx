@@ -0,0 +1,57 @@
+import { useMemo } from 'react';
+import { Languages } from 'lucide-react';
+import type { SentimentResult } from '@/types/sentiment';
+import { computeLanguageBreakdown } from '@/utils/sentiment/results/languageBreakdown';
+import { languageName } from '@/utils/sentiment/utils/languageDetector';
+
+interface LanguageBreakdownProps {
+  // Scored results only
+  results: SentimentResult[];
+}
+
+export function LanguageBreakdown({ results }: LanguageBreakdownProps) {
+  const buckets = useMemo(() => computeLanguageBreakdown(results), [results]);
+
+  const getPolarityColor = (score: number) => {
+    if (score > 0.1) return 'text-sentiment-positive';
+    if (score < -0.1) return 'text-sentiment-negative';
+    return 'text-muted-foreground';
+  };
+
+  return (
+    <div className="relative bg-black/80 backdrop-blur-xl rounded-lg border border-white/10 p-4 font-mono">
+      <div className="flex items-center gap-2 mb-3">
+        <Languages className="w-4 h-4 text-muted-foreground" />
+        <span className="text-xs text-muted-foreground uppercase tracking-wider">Languages</span>
+        <span className="text-xs text-muted-foreground ml-auto tabular-nums">{buckets.length} detected</span>
+      </div>
+
+      <div className="space-y-3">
+        {buckets.map(bucket => {
+          const { positive, neutral, negative } = bucket.sentimentDistribution;
+          return (
+            <div key={bucket.language} className="space-y-1.5">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-foreground">{languageName(bucket.language)}</span>
+                <span className="tabular-nums text-muted-foreground">
+                  {bucket.count} ({Math.round(bucket.share * 1000) / 10}%) ·{' '}
+                  <span className={getPolarityColor(bucket.avgPolarity)}>
+                    {bucket.avgPolarity >= 0 ? '+' : ''}{bucket.avgPolarity.toFixed(2)}
+                  </span>
+                </span>
+              </div>
+              <div className="flex h-1.5 rounded-full overflow-hidden bg-white/10">
+                <div className="bg-sentiment-positive" style={{ width: `${(positive / bucket.count) * 100}%` }} />
+                <div className="bg-white/40" style={{ width: `${(neutral / bucket.count) * 100}%` }} />
+                <div className="bg-sentiment-negative" style={{ width: `${(negative / bucket.count) * 100}%` }} />
+              </div>
+              <div className="text-[10px] text-muted-foreground tabular-nums">
+                {positive} positive · {neutral} neutral · {negative} negative
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
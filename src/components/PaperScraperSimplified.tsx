@@ -24,18 +24,33 @@ import {
   ArrowLeft,
   Play,
 } from 'lucide-react';
+import { CostEstimate } from '@/components/CostEstimate';
 import type { AcademicPaper } from '@/types/paper';
 import type { Node } from '@/types/sentiment';
+import type { AnalysisSettings } from '@/utils/sentiment/analyzers/analysisSettings';
 
 interface PaperScraperSimplifiedProps {
   nodes: Node[];
   onScrapeAndAnalyze: (data: AcademicPaper[]) => void;
   onBack: () => void;
+  // Shown as a cost estimate before the run starts
+  analysisSettings?: AnalysisSettings;
+  kpiCount?: number;
 }
 
+const PAPER_LIMIT = 100;
+// For the cost estimate: title, abstract and TLDR of a paper
+const EXPECTED_AVG_CHARS = 1500;
+
 type SearchMode = 'nodes' | 'author' | 'combined';
 
-export function PaperScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: PaperScraperSimplifiedProps) {
+export function PaperScraperSimplified({
+  nodes,
+  onScrapeAndAnalyze,
+  onBack,
+  analysisSettings,
+  kpiCount = 6,
+}: PaperScraperSimplifiedProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [searchMode, setSearchMode] = useState<SearchMode>('nodes');
   const [authorQuery, setAuthorQuery] = useState('');
@@ -129,7 +144,7 @@ export function PaperScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: Pa
           authorQuery: searchAuthor,
           startDate: format(startDate, 'yyyy-MM-dd'),
           endDate: format(endDate, 'yyyy-MM-dd'),
-          limit: 100,
+          limit: PAPER_LIMIT,
           saveToDb: false,
         }
       });
@@ -340,6 +355,16 @@ export function PaperScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: Pa
           </div>
         )}
 
+        {analysisSettings && (
+          <CostEstimate
+            textCount={PAPER_LIMIT}
+            avgChars={EXPECTED_AVG_CHARS}
+            nodeCount={nodes.length}
+            kpiCount={kpiCount}
+            settings={analysisSettings}
+          />
+        )}
+
         {/* Action Button */}
         <Button
           className="w-full h-14 text-lg gap-3"
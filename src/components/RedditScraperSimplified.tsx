@@ -10,7 +10,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useScrapeHistory } from '@/hooks/useScrapeHistory';
 import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
-import { format } from 'date-fns';
+import { addDays, format, startOfDay } from 'date-fns';
 import {
   Radio,
   Loader2,
@@ -25,9 +25,14 @@ import {
   ArrowLeft,
   CalendarIcon,
   Play,
+  List,
+  Search,
+  Globe,
 } from 'lucide-react';
-import type { RedditData } from '@/types/reddit';
+import { CostEstimate } from '@/components/CostEstimate';
+import type { RedditCollectionMode, RedditData, ScrapeJobProgress } from '@/types/reddit';
 import type { Node } from '@/types/sentiment';
+import type { AnalysisSettings } from '@/utils/sentiment/analyzers/analysisSettings';
 
 // AI-specific subreddits (content always kept)
 const AI_SPECIFIC_SUBREDDITS = [
@@ -54,25 +59,75 @@ const FAST_MODE_SUBREDDITS = [
 
 const ALL_SUBREDDITS = [...AI_SPECIFIC_SUBREDDITS, ...GENERAL_SUBREDDITS];
 
+const POSTS_PER_SUBREDDIT = 25;
+// Comment trees of each subreddit's most commented posts, several reply levels deep
+const COMMENT_POSTS_PER_SUBREDDIT = 5;
+const COMMENT_DEPTH = 4;
+const MAX_COMMENTS_PER_POST = 40;
+// For the cost estimate: every post plus full comment trees; posts and comments average a few hundred characters
+const MAX_TEXTS_PER_SUBREDDIT = POSTS_PER_SUBREDDIT + COMMENT_POSTS_PER_SUBREDDIT * MAX_COMMENTS_PER_POST;
+const EXPECTED_AVG_CHARS = 400;
+// Search collection: queries per node (its name, then its keywords) and hits kept per source and query
+const QUERIES_PER_NODE = 5;
+const RESULTS_PER_QUERY = 25;
+// Reddit posts, Arctic Shift posts and comments, and comment trees of the two most commented hits
+const MAX_TEXTS_PER_QUERY = 3 * RESULTS_PER_QUERY + 2 * MAX_COMMENTS_PER_POST;
+// Custom date ranges are backfilled from the Arctic Shift archive, up to this many texts per subreddit
+const BACKFILL_POSTS_PER_SUBREDDIT = 200;
+const BACKFILL_COMMENTS_PER_SUBREDDIT = 400;
+// Scrapes run as background jobs on the server, one slice of subreddits per function invocation
+const SCRAPE_JOB_POLL_MS = 2000;
+// Consecutive failed status checks tolerated before giving up on a job
+const MAX_POLL_FAILURES = 5;
+
 type TimeRange = 'day' | '3days' | 'week' | 'month' | 'custom';
 type SortMode = 'top' | 'hot' | 'rising';
+type SearchScope = 'subreddits' | 'sitewide';
+
+// A finished scrape, whether it ran in one invocation or as a background job
+interface BulkScrapeResult {
+  summary: {
+    totalPosts: number;
+    totalComments: number;
+    subredditsScraped: number;
+    subredditStats: Record<string, { posts: number; comments: number; method: string }>;
+    // Backfill only: the range covered and items per day
+    corpus?: { startTime: string; endTime: string; dailyCounts: Record<string, { posts: number; comments: number }> };
+  };
+  data: RedditData[];
+}
 
 interface RedditScraperSimplifiedProps {
   nodes: Node[];
   onScrapeAndAnalyze: (data: RedditData[]) => void;
   onBack: () => void;
+  // Shown as a cost estimate before the run starts
+  analysisSettings?: AnalysisSettings;
+  kpiCount?: number;
 }
 
-export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: RedditScraperSimplifiedProps) {
+export function RedditScraperSimplified({
+  nodes,
+  onScrapeAndAnalyze,
+  onBack,
+  analysisSettings,
+  kpiCount = 6,
+}: RedditScraperSimplifiedProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [selectedTimeRange, setSelectedTimeRange] = useState<TimeRange>('day');
   const [selectedSortMode, setSelectedSortMode] = useState<SortMode>('top');
   const [progress, setProgress] = useState(0);
   const [currentBatch, setCurrentBatch] = useState<string[]>([]);
-  const [completedSubreddits, setCompletedSubreddits] = useState<string[]>([]);
+  // Subreddits, search queries in search mode, or subreddit date windows in a backfill
+  const [completedUnits, setCompletedUnits] = useState<string[]>([]);
+  const [totalUnits, setTotalUnits] = useState(0);
   const [fastMode, setFastMode] = useState(true);
+  const [collectMode, setCollectMode] = useState<RedditCollectionMode>('listing');
+  const [searchScope, setSearchScope] = useState<SearchScope>('subreddits');
   const [elapsedTime, setElapsedTime] = useState(0);
   const [showProgress, setShowProgress] = useState(false);
+  // Set once the server runs the scrape as a background job; its real progress replaces the simulation
+  const [jobInvocations, setJobInvocations] = useState<number | null>(null);
   const [customStartDate, setCustomStartDate] = useState<Date>(() => {
     const date = new Date();
     date.setDate(date.getDate() - 7);
@@ -80,10 +135,18 @@ export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: R
   });
   const [customEndDate, setCustomEndDate] = useState<Date>(new Date());
   const startTimeRef = useRef<number>(0);
+  const unmountedRef = useRef(false);
   const { toast } = useToast();
   const { addScrape } = useScrapeHistory();
 
   const activeSubreddits = fastMode ? FAST_MODE_SUBREDDITS : ALL_SUBREDDITS;
+  const isSearch = collectMode === 'search';
+  // A custom range is collected from the archive rather than the live listings
+  const isBackfill = !isSearch && selectedTimeRange === 'custom';
+  const unitLabel = isSearch ? 'queries' : isBackfill ? 'windows' : 'subreddits';
+  // Upper bound; the server also skips terms repeated across nodes
+  const plannedQueries = nodes.reduce((sum, node) => sum + Math.min(QUERIES_PER_NODE, 1 + node.keywords.length), 0);
+  const formatUnit = (unit: string) => (isSearch ? unit : `r/${unit}`);
 
   const timeRangeOptions: { value: TimeRange; label: string; description: string }[] = [
     { value: 'day', label: 'Today', description: 'Last 24 hours' },
@@ -99,7 +162,14 @@ export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: R
     { value: 'rising', label: 'Rising', icon: <ArrowUpRight className="w-3.5 h-3.5" /> },
   ];
 
-  // Progress simulation
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => { unmountedRef.current = true; };
+  }, []);
+
+  const tracksJob = jobInvocations !== null;
+
+  // Progress simulation, for listing scrapes the server runs in a single invocation
   useEffect(() => {
     if (!isLoading) return;
 
@@ -110,6 +180,7 @@ export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: R
     const interval = setInterval(() => {
       const elapsed = Date.now() - startTimeRef.current;
       setElapsedTime(Math.floor(elapsed / 1000));
+      if (tracksJob || isSearch || isBackfill) return;
 
       const currentBatchIndex = Math.min(
         Math.floor(elapsed / TIME_PER_BATCH_MS),
@@ -119,68 +190,131 @@ export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: R
       const batchStart = currentBatchIndex * BATCH_SIZE;
       const batchEnd = Math.min(batchStart + BATCH_SIZE, activeSubreddits.length);
       setCurrentBatch(activeSubreddits.slice(batchStart, batchEnd));
-      setCompletedSubreddits(activeSubreddits.slice(0, batchStart));
+      setCompletedUnits(activeSubreddits.slice(0, batchStart));
 
       const progressPercent = Math.min(((currentBatchIndex + 0.5) / totalBatches) * 95, 95);
       setProgress(progressPercent);
     }, 200);
 
     return () => clearInterval(interval);
-  }, [isLoading, activeSubreddits]);
+  }, [isLoading, activeSubreddits, tracksJob, isSearch, isBackfill]);
+
+  // Poll a background job until it finishes; null when the scanner was left in the meantime
+  const followScrapeJob = async (jobId: string): Promise<BulkScrapeResult | null> => {
+    let failures = 0;
+    while (!unmountedRef.current) {
+      await new Promise(resolve => setTimeout(resolve, SCRAPE_JOB_POLL_MS));
+      const { data, error } = await supabase.functions.invoke('scrape-reddit-bulk', {
+        body: { action: 'status', jobId, includeData: true }
+      });
+      if (error || !data?.job) {
+        failures++;
+        if (failures >= MAX_POLL_FAILURES) throw error ?? new Error(data?.error || 'Lost track of the scrape job');
+        continue;
+      }
+      failures = 0;
+
+      const job = data.job as ScrapeJobProgress;
+      setJobInvocations(job.invocations);
+      setCompletedUnits(job.units.slice(0, job.completedUnits));
+      setTotalUnits(job.units.length);
+      setCurrentBatch(job.currentBatch);
+      setProgress(Math.min((job.completedUnits / job.units.length) * 95, 95));
+
+      if (job.status === 'failed') throw new Error(job.error || 'Scrape job failed');
+      if (job.status === 'completed') {
+        return { summary: job.summary as BulkScrapeResult['summary'], data: data.data ?? [] };
+      }
+    }
+    return null;
+  };
 
   const handleScrapeAndAnalyze = async () => {
     setIsLoading(true);
     setProgress(0);
     setCurrentBatch([]);
-    setCompletedSubreddits([]);
+    setCompletedUnits([]);
+    setTotalUnits(isSearch ? plannedQueries : activeSubreddits.length);
     setElapsedTime(0);
+    setJobInvocations(null);
     startTimeRef.current = Date.now();
 
     try {
       const { data, error } = await supabase.functions.invoke('scrape-reddit-bulk', {
         body: {
           subreddits: undefined,
-          timeRange: selectedTimeRange === 'custom' ? 'month' : selectedTimeRange,
+          timeRange: isBackfill ? 'month' : selectedTimeRange,
           sortMode: selectedSortMode,
-          postsPerSubreddit: 25,
+          postsPerSubreddit: POSTS_PER_SUBREDDIT,
+          commentPostsPerSubreddit: COMMENT_POSTS_PER_SUBREDDIT,
+          commentDepth: COMMENT_DEPTH,
+          maxCommentsPerPost: MAX_COMMENTS_PER_POST,
           saveToDb: false,
-          fastMode: fastMode
+          fastMode: fastMode,
+          background: true,
+          ...(isSearch && {
+            mode: 'search',
+            nodeQueries: nodes.map(node => ({ nodeId: node.id, nodeName: node.name, keywords: node.keywords })),
+            queriesPerNode: QUERIES_PER_NODE,
+            resultsPerQuery: RESULTS_PER_QUERY,
+            searchScope,
+          }),
+          // Whole days in local time, the end day included
+          ...(isBackfill && {
+            mode: 'backfill',
+            startTime: Math.floor(startOfDay(customStartDate).getTime() / 1000),
+            endTime: Math.floor(addDays(startOfDay(customEndDate), 1).getTime() / 1000),
+            maxPostsPerSubreddit: BACKFILL_POSTS_PER_SUBREDDIT,
+            maxCommentsPerSubreddit: BACKFILL_COMMENTS_PER_SUBREDDIT,
+          })
         }
       });
 
       if (error) throw error;
       if (!data.success) throw new Error(data.error || 'Scrape failed');
 
+      // Without job storage the server scrapes in this request and answers with the data directly
+      if (data.jobId) {
+        setJobInvocations(0);
+        setTotalUnits(data.units?.length ?? 0);
+      }
+      const result: BulkScrapeResult | null = data.jobId ? await followScrapeJob(data.jobId) : data;
+      if (!result) return;
+
       setProgress(100);
-      setCompletedSubreddits(activeSubreddits);
+      if (!data.jobId && !isSearch && !isBackfill) setCompletedUnits(activeSubreddits);
       setCurrentBatch([]);
 
-      if (data.data && data.data.length > 0) {
+      if (result.data && result.data.length > 0) {
         // Save to history
-        const posts = data.data.filter((d: any) => d.dataType === 'post');
-        const comments = data.data.filter((d: any) => d.dataType === 'comment');
+        const posts = result.data.filter(d => d.dataType === 'post');
+        const comments = result.data.filter(d => d.dataType === 'comment');
+        const backfillRange = `${format(customStartDate, 'MMM d, yyyy')} to ${format(customEndDate, 'MMM d, yyyy')}`;
         addScrape({
-          name: `Reddit Scrape - ${selectedTimeRange}`,
-          item_count: data.data.length,
+          name: isSearch
+            ? `Reddit Search - ${selectedTimeRange}`
+            : isBackfill ? `Reddit Backfill - ${backfillRange}` : `Reddit Scrape - ${selectedTimeRange}`,
+          item_count: result.data.length,
           content: {
             posts,
             comments,
-            subredditStats: data.summary.subredditStats,
+            subredditStats: result.summary.subredditStats,
             timeRange: selectedTimeRange,
             sortMode: selectedSortMode,
             scrapedAt: new Date().toISOString(),
-            totalSubreddits: data.summary.subredditsScraped,
+            totalSubreddits: result.summary.subredditsScraped,
             fastMode,
+            ...(result.summary.corpus && { corpus: result.summary.corpus }),
           }
         });
 
         toast({
           title: 'Scrape Complete',
-          description: `Found ${data.summary.totalPosts} posts and ${data.summary.totalComments} comments. Starting analysis...`,
+          description: `Found ${result.summary.totalPosts} posts and ${result.summary.totalComments} comments. Starting analysis...`,
         });
 
         // Trigger analysis
-        onScrapeAndAnalyze(data.data);
+        onScrapeAndAnalyze(result.data);
       } else {
         toast({
           title: 'No Data Found',
@@ -215,7 +349,8 @@ export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: R
           <div>
             <h2 className="text-xl font-semibold">Reddit Scanner</h2>
             <p className="text-sm text-muted-foreground font-mono">
-              {nodes.length} nodes • {activeSubreddits.length} subreddits
+              {nodes.length} nodes • {isSearch && searchScope === 'sitewide' ? 'all of Reddit' : `${activeSubreddits.length} subreddits`}
+              {isSearch && ` • ${plannedQueries} queries`}
             </p>
           </div>
         </div>
@@ -244,6 +379,65 @@ export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: R
           </button>
         </div>
 
+        {/* Collection Mode */}
+        <div className="space-y-3">
+          <label className="text-sm font-medium">Collect By</label>
+          <div className="flex gap-2">
+            {([
+              { value: 'listing', label: 'Listings', icon: <List className="w-3.5 h-3.5" /> },
+              { value: 'search', label: 'Node Search', icon: <Search className="w-3.5 h-3.5" /> },
+            ] as const).map((option) => (
+              <button
+                key={option.value}
+                onClick={() => {
+                  setCollectMode(option.value);
+                  // Search has no backfill; a custom range falls back to the past month
+                  if (option.value === 'search' && selectedTimeRange === 'custom') setSelectedTimeRange('month');
+                }}
+                disabled={isLoading || (option.value === 'search' && nodes.length === 0)}
+                className={cn(
+                  "flex items-center gap-2 px-4 py-2 rounded-lg border text-sm font-medium transition-all",
+                  collectMode === option.value
+                    ? 'bg-primary/10 border-primary/30 text-foreground'
+                    : 'bg-background/30 border-border/50 text-muted-foreground hover:text-foreground',
+                  isLoading && 'opacity-50 cursor-not-allowed'
+                )}
+              >
+                {option.icon}
+                <span>{option.label}</span>
+              </button>
+            ))}
+          </div>
+          {isSearch && (
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-muted-foreground">
+                Searches Reddit and Arctic Shift for each node's name and keywords, up to {QUERIES_PER_NODE} queries per node.
+              </p>
+              <div className="flex gap-1 shrink-0">
+                {([
+                  { value: 'subreddits', label: 'Subreddits', icon: <Radio className="w-3 h-3" /> },
+                  { value: 'sitewide', label: 'All Reddit', icon: <Globe className="w-3 h-3" /> },
+                ] as const).map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setSearchScope(option.value)}
+                    disabled={isLoading}
+                    className={cn(
+                      "flex items-center gap-1.5 px-2.5 py-1 rounded-md border text-xs transition-all",
+                      searchScope === option.value
+                        ? 'bg-primary/10 border-primary/30 text-foreground'
+                        : 'bg-background/30 border-border/50 text-muted-foreground hover:text-foreground'
+                    )}
+                  >
+                    {option.icon}
+                    <span>{option.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Sort Mode */}
         <div className="space-y-3">
           <label className="text-sm font-medium">Sort By</label>
@@ -276,7 +470,7 @@ export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: R
               <button
                 key={option.value}
                 onClick={() => setSelectedTimeRange(option.value)}
-                disabled={isLoading}
+                disabled={isLoading || (option.value === 'custom' && isSearch)}
                 className={cn(
                   "flex flex-col items-center py-3 px-2 rounded-lg border text-sm transition-all",
                   selectedTimeRange === option.value
@@ -331,6 +525,25 @@ export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: R
             </Popover>
           </div>
         )}
+        {isBackfill && (
+          <p className="text-xs text-muted-foreground">
+            Backfills every post and comment in the range from the Arctic Shift archive, up to {BACKFILL_POSTS_PER_SUBREDDIT} posts
+            and {BACKFILL_COMMENTS_PER_SUBREDDIT} comments per subreddit spread evenly across it.
+          </p>
+        )}
+
+        {analysisSettings && (
+          <CostEstimate
+            textCount={
+              isSearch ? plannedQueries * MAX_TEXTS_PER_QUERY
+                : activeSubreddits.length * (isBackfill ? BACKFILL_POSTS_PER_SUBREDDIT + BACKFILL_COMMENTS_PER_SUBREDDIT : MAX_TEXTS_PER_SUBREDDIT)
+            }
+            avgChars={EXPECTED_AVG_CHARS}
+            nodeCount={nodes.length}
+            kpiCount={kpiCount}
+            settings={analysisSettings}
+          />
+        )}
 
         {/* Action Button */}
         <Button
@@ -359,7 +572,7 @@ export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: R
                 <div className="flex items-center gap-3">
                   <CircleDot className="w-4 h-4 text-orange-400 animate-pulse" />
                   <span className="font-mono">
-                    {completedSubreddits.length}/{activeSubreddits.length} subreddits • {elapsedTime}s
+                    {completedUnits.length}/{totalUnits} {unitLabel} • {elapsedTime}s
                   </span>
                 </div>
                 <div className="flex items-center gap-2">
@@ -371,6 +584,11 @@ export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: R
             <CollapsibleContent>
               <div className="mt-3 p-4 rounded-lg bg-background/30 border border-border/50 space-y-3">
                 <Progress value={progress} className="h-1.5" />
+                {tracksJob && (
+                  <div className="text-xs font-mono text-muted-foreground">
+                    Background job • {jobInvocations === 0 ? 'queued' : `invocation ${jobInvocations}`}
+                  </div>
+                )}
                 {currentBatch.length > 0 && (
                   <div className="flex flex-wrap gap-1.5">
                     {currentBatch.map((sub) => (
@@ -379,16 +597,16 @@ export function RedditScraperSimplified({ nodes, onScrapeAndAnalyze, onBack }: R
                         variant="outline"
                         className="text-xs animate-pulse border-orange-500/30 text-orange-400 bg-orange-500/10"
                       >
-                        r/{sub}
+                        {formatUnit(sub)}
                       </Badge>
                     ))}
                   </div>
                 )}
-                {completedSubreddits.length > 0 && (
+                {completedUnits.length > 0 && (
                   <div className="flex flex-wrap gap-1">
-                    {completedSubreddits.slice(-10).map((sub) => (
+                    {completedUnits.slice(-10).map((sub) => (
                       <Badge key={sub} variant="secondary" className="text-xs opacity-60">
-                        r/{sub} ✓
+                        {formatUnit(sub)} ✓
                       </Badge>
                     ))}
                   </div>
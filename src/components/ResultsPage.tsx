@@ -1,3 +1,4 @@
+import { useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { SentimentScore } from '@/components/SentimentScore';
@@ -9,9 +10,19 @@ import { ExemplarQuotes } from '@/components/ExemplarQuotes';
 import { SourceDistribution } from '@/components/SourceDistribution';
 import { ConfidenceDistribution } from '@/components/ConfidenceDistribution';
 import { TopicsList } from '@/components/TopicsList';
+import { TrendingThemes } from '@/components/TrendingThemes';
+import { SubredditKeyphrases } from '@/components/SubredditKeyphrases';
+import { TopicDiscoveryPanel } from '@/components/TopicDiscoveryPanel';
 import { ScoreExplanation } from '@/components/ScoreExplanation';
+import { AnalysisCoverage } from '@/components/AnalysisCoverage';
+import { LanguageBreakdown } from '@/components/LanguageBreakdown';
+import { ThreadExplorer } from '@/components/ThreadExplorer';
 import { Home, Archive, Radio, BookOpen } from 'lucide-react';
-import type { SentimentResult, NodeAnalysis } from '@/types/sentiment';
+import type { SentimentResult, NodeAnalysis, KPIDefinition, Node } from '@/types/sentiment';
+import type { RedditData } from '@/types/reddit';
+import type { TrendingTheme } from '@/utils/sentiment/extractors/keywordExtractor';
+import { isUnassigned } from '@/utils/sentiment/nodes/nodeAssignment';
+import { scoredResults } from '@/utils/sentiment/results/resultStatus';
 
 interface ResultsPageProps {
   sourceType: 'reddit' | 'papers';
@@ -20,6 +31,17 @@ interface ResultsPageProps {
   nodeAnalysis: NodeAnalysis[];
   timeSeriesData?: any[];
   sources: Array<{ name: string; value: number }>;
+  kpis?: KPIDefinition[];
+  // Top keyphrases per node id
+  topicKeyphrases?: Record<string, string[]>;
+  // Top keyphrases per subreddit (Reddit only)
+  subredditKeyphrases?: Record<string, string[]>;
+  trendingThemes?: TrendingTheme[];
+  // Nodes used for this analysis, for topic discovery coverage
+  nodes?: Node[];
+  // Scraped Reddit items, for the comment thread explorer
+  redditData?: RedditData[];
+  onPromoteNode?: (node: Node) => void;
   onGoHome: () => void;
   onViewArchive: () => void;
 }
@@ -31,10 +53,19 @@ export function ResultsPage({
   nodeAnalysis,
   timeSeriesData = [],
   sources,
+  kpis,
+  topicKeyphrases,
+  subredditKeyphrases = {},
+  trendingThemes = [],
+  nodes = [],
+  redditData = [],
+  onPromoteNode,
   onGoHome,
   onViewArchive,
 }: ResultsPageProps) {
   const isReddit = sourceType === 'reddit';
+  // Defaulted results are counted in coverage but kept out of every chart
+  const scored = useMemo(() => scoredResults(results), [results]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -77,6 +108,7 @@ export function ResultsPage({
                   label={isReddit ? "Community Sentiment Index" : "Academic Sentiment Index"} 
                 />
                 <ScoreExplanation score={overallSentiment} />
+                <AnalysisCoverage results={results} />
               </div>
 
               {/* Time Series Chart (Reddit only) */}
@@ -89,30 +121,53 @@ export function ResultsPage({
 
               {/* KPI Table */}
               {nodeAnalysis.length > 0 && (
-                <KPISortableTable data={nodeAnalysis} />
+                <KPISortableTable data={nodeAnalysis} kpis={kpis} />
               )}
 
               {/* Charts Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {nodeAnalysis.length > 0 && <KPIRadarChart data={nodeAnalysis} />}
+                {nodeAnalysis.length > 0 && <KPIRadarChart data={nodeAnalysis} kpis={kpis} />}
                 {sources.length > 0 && <SourceDistribution sources={sources} />}
-                {results.length > 0 && <ConfidenceDistribution results={results} />}
-                {nodeAnalysis.length > 0 && <TopicsList topics={nodeAnalysis} />}
+                {scored.length > 0 && <ConfidenceDistribution results={scored} />}
+                {scored.length > 0 && <LanguageBreakdown results={scored} />}
+                {nodeAnalysis.length > 0 && <TopicsList topics={nodeAnalysis} keyphrases={topicKeyphrases} />}
+                {isReddit && Object.keys(subredditKeyphrases).length > 0 && (
+                  <SubredditKeyphrases keyphrases={subredditKeyphrases} />
+                )}
               </div>
 
+              {/* Comment threads (Reddit only) */}
+              {isReddit && redditData.length > 0 && <ThreadExplorer data={redditData} results={results} />}
+
+              {/* Trending keyphrases */}
+              {trendingThemes.length > 0 && <TrendingThemes themes={trendingThemes} />}
+
+              {/* Topic discovery */}
+              <TopicDiscoveryPanel results={scored} nodes={nodes} onPromoteNode={onPromoteNode} />
+
               {/* Heatmap */}
-              {nodeAnalysis.length > 0 && <KPIHeatmap data={nodeAnalysis} />}
+              {nodeAnalysis.length > 0 && <KPIHeatmap data={nodeAnalysis} kpis={kpis} />}
 
               {/* Exemplar Quotes */}
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold font-mono">Key Quotes by Topic</h3>
                 <div className="grid grid-cols-1 gap-4">
-                  {nodeAnalysis.slice(0, 5).map((node) => (
+                  {nodeAnalysis.filter(node => !isUnassigned(node.nodeId)).slice(0, 5).map((node) => (
+                    <ExemplarQuotes
+                      key={node.nodeId}
+                      results={scored}
+                      nodeId={node.nodeId}
+                      nodeName={node.nodeName}
+                      kpis={kpis}
+                    />
+                  ))}
+                  {nodeAnalysis.filter(node => isUnassigned(node.nodeId)).map((node) => (
                     <ExemplarQuotes
                       key={node.nodeId}
-                      results={results}
+                      results={scored}
                       nodeId={node.nodeId}
                       nodeName={node.nodeName}
+                      kpis={kpis}
                     />
                   ))}
                 </div>
@@ -4,7 +4,10 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Download, FileText } from 'lucide-react';
-import type { SentimentResult, NodeAnalysis, Node } from '@/types/sentiment';
+import type { SentimentResult, NodeAnalysis, Node, KPIDefinition } from '@/types/sentiment';
+import { inferKPIIds, resolveKPIs } from '@/utils/sentiment/kpis/kpiRegistry';
+import { computeCoverage, isScored, resultStatus, RESULT_STATUS_LABELS, textSeenShare } from '@/utils/sentiment/results/resultStatus';
+import { resultLanguage } from '@/utils/sentiment/results/languageBreakdown';
 import {
   Table,
   TableBody,
@@ -13,6 +16,7 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { EvidenceText } from '@/components/EvidenceText';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
@@ -23,6 +27,7 @@ interface ResultsTableProps {
   overallSentiment: number;
   totalTexts: number;
   sources?: Array<{ name: string; value: number }>;
+  kpis?: KPIDefinition[];
 }
 
 export function ResultsTable({ 
@@ -31,8 +36,15 @@ export function ResultsTable({
   nodes, 
   overallSentiment, 
   totalTexts,
-  sources = [] 
+  sources = [],
+  kpis: kpiDefinitions
 }: ResultsTableProps) {
+  const kpis = useMemo(
+    () => kpiDefinitions ?? resolveKPIs(inferKPIIds(results.map(r => r.kpiScores))),
+    [kpiDefinitions, results]
+  );
+  const coverage = useMemo(() => computeCoverage(results), [results]);
+
   const getSentimentColor = (polarity: string) => {
     switch (polarity) {
       case 'positive':
@@ -51,7 +63,8 @@ export function ResultsTable({
   };
 
   const exportToJSON = () => {
-    const dataStr = JSON.stringify({ results, nodeAnalysis }, null, 2);
+    const sentimentModels = Array.from(new Set(results.map(r => r.sentimentModel).filter(Boolean)));
+    const dataStr = JSON.stringify({ kpis, sentimentModels, coverage, results, nodeAnalysis }, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(dataBlob);
     const link = document.createElement('a');
@@ -61,7 +74,7 @@ export function ResultsTable({
   };
 
   const exportSummaryCSV = () => {
-    const headers = ['Node', 'Total Texts', 'Avg Sentiment', 'Positive', 'Neutral', 'Negative', 'Trust', 'Optimism', 'Frustration', 'Clarity', 'Access', 'Fairness'];
+    const headers = ['Node', 'Total Texts', 'Avg Sentiment', 'Positive', 'Neutral', 'Negative', ...kpis.map(kpi => kpi.label)];
     const rows = nodeAnalysis.map(node => [
       node.nodeName,
       node.totalTexts,
@@ -69,12 +82,7 @@ export function ResultsTable({
       node.sentimentDistribution.positive,
       node.sentimentDistribution.neutral,
       node.sentimentDistribution.negative,
-      node.avgKpiScores.trust.toFixed(2),
-      node.avgKpiScores.optimism.toFixed(2),
-      node.avgKpiScores.frustration.toFixed(2),
-      node.avgKpiScores.clarity.toFixed(2),
-      node.avgKpiScores.access.toFixed(2),
-      node.avgKpiScores.fairness.toFixed(2),
+      ...kpis.map(kpi => (node.avgKpiScores[kpi.id] ?? 0).toFixed(2)),
     ]);
 
     const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
@@ -87,19 +95,26 @@ export function ResultsTable({
   };
 
   const exportToCSV = () => {
-    const headers = ['Text', 'Node', 'Polarity', 'Score', 'Trust', 'Optimism', 'Frustration', 'Clarity', 'Access', 'Fairness', 'Confidence'];
+    // Every row keeps its provenance so defaulted placeholders can be filtered out downstream
+    const headers = ['Text', 'Node', 'Polarity', 'Score', ...kpis.map(kpi => kpi.label), 'Confidence', 'Status', 'Analyzer', 'Model', 'Language', 'Text Seen', 'Local Score', 'LLM Score', 'Agreement', 'LLM Route', 'Rationale', 'Evidence'];
     const rows = results.map(r => [
       `"${r.text.replace(/"/g, '""')}"`,
       r.nodeName,
       r.polarity,
       r.polarityScore.toFixed(3),
-      r.kpiScores.trust.toFixed(3),
-      r.kpiScores.optimism.toFixed(3),
-      r.kpiScores.frustration.toFixed(3),
-      r.kpiScores.clarity.toFixed(3),
-      r.kpiScores.access.toFixed(3),
-      r.kpiScores.fairness.toFixed(3),
+      ...kpis.map(kpi => (r.kpiScores[kpi.id] ?? 0).toFixed(3)),
       r.confidence.toFixed(3),
+      resultStatus(r),
+      r.analyzer ?? '',
+      r.model ?? '',
+      resultLanguage(r),
+      isScored(r) ? textSeenShare(r).toFixed(3) : '',
+      r.ensemble?.local?.polarityScore.toFixed(3) ?? '',
+      r.ensemble?.llm?.polarityScore.toFixed(3) ?? '',
+      r.ensemble?.agreement?.toFixed(3) ?? '',
+      r.ensemble?.routeReason ?? '',
+      `"${(r.explanation?.rationale ?? '').replace(/"/g, '""')}"`,
+      `"${(r.explanation?.evidence ?? []).map(span => `${span.supports}: ${span.quote}`).join(' | ').replace(/"/g, '""')}"`,
     ]);
 
     const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
@@ -138,6 +153,31 @@ export function ResultsTable({
     doc.setFont('helvetica', 'normal');
     doc.text(`Total Texts Analyzed: ${totalTexts}`, 14, yPosition);
     yPosition += 6;
+    doc.text(
+      `Coverage: ${(coverage.coverage * 100).toFixed(1)}% (${coverage.scored}/${coverage.total} scored; ` +
+      `${coverage.byStatus.defaulted} defaulted and excluded, ${coverage.byStatus['recovered-from-malformed']} recovered, ` +
+      `${coverage.byStatus.retried} retried)`,
+      14,
+      yPosition
+    );
+    yPosition += 6;
+    if (coverage.partiallySeen > 0) {
+      doc.text(
+        `Text seen by the model: ${(coverage.textSeen * 100).toFixed(1)}% on average (${coverage.partiallySeen} texts scored on excerpts)`,
+        14,
+        yPosition
+      );
+      yPosition += 6;
+    }
+    if (coverage.routedToLLM > 0) {
+      doc.text(
+        `Hybrid run: ${coverage.routedToLLM} texts sent to the LLM` +
+        (coverage.agreement !== null ? `, ${(coverage.agreement * 100).toFixed(1)}% mean local/LLM agreement` : ''),
+        14,
+        yPosition
+      );
+      yPosition += 6;
+    }
     doc.text(`Number of Nodes: ${nodes.length}`, 14, yPosition);
     yPosition += 6;
     doc.text(`Overall Sentiment Score: ${overallSentiment.toFixed(2)}`, 14, yPosition);
@@ -213,15 +253,10 @@ export function ResultsTable({
 
     autoTable(doc, {
       startY: yPosition,
-      head: [['Node', 'Trust', 'Optimism', 'Frustration', 'Clarity', 'Access', 'Fairness']],
+      head: [['Node', ...kpis.map(kpi => kpi.label)]],
       body: nodeAnalysis.map(node => [
         node.nodeName,
-        node.avgKpiScores.trust.toFixed(2),
-        node.avgKpiScores.optimism.toFixed(2),
-        node.avgKpiScores.frustration.toFixed(2),
-        node.avgKpiScores.clarity.toFixed(2),
-        node.avgKpiScores.access.toFixed(2),
-        node.avgKpiScores.fairness.toFixed(2),
+        ...kpis.map(kpi => (node.avgKpiScores[kpi.id] ?? 0).toFixed(2)),
       ]),
       theme: 'grid',
       headStyles: { fillColor: [59, 130, 246], textColor: 255 },
@@ -263,12 +298,9 @@ export function ResultsTable({
               <TableHead className="w-[40%]">Text</TableHead>
               <TableHead>Node</TableHead>
               <TableHead>Sentiment</TableHead>
-              <TableHead className="text-right">Trust</TableHead>
-              <TableHead className="text-right">Optimism</TableHead>
-              <TableHead className="text-right">Frustration</TableHead>
-              <TableHead className="text-right">Clarity</TableHead>
-              <TableHead className="text-right">Access</TableHead>
-              <TableHead className="text-right">Fairness</TableHead>
+              {kpis.map((kpi) => (
+                <TableHead key={kpi.id} className="text-right">{kpi.label}</TableHead>
+              ))}
             </TableRow>
           </TableHeader>
           <TableBody style={{ height: `${rowVirtualizer.getTotalSize()}px`, position: 'relative' }}>
@@ -286,9 +318,8 @@ export function ResultsTable({
                     transform: `translateY(${virtualRow.start}px)`,
                   }}
                 >
-                  <TableCell className="font-mono text-xs">
-                    {result.text.slice(0, 100)}
-                    {result.text.length > 100 && '...'}
+                  <TableCell className="font-mono text-xs" title={result.explanation?.rationale}>
+                    <EvidenceText text={result.text} evidence={result.explanation?.evidence} maxLength={100} kpis={kpis} />
                   </TableCell>
                   <TableCell>
                     <Badge variant="outline">{result.nodeName}</Badge>
@@ -297,25 +328,23 @@ export function ResultsTable({
                     <Badge className={getSentimentColor(result.polarity)}>
                       {result.polarity}
                     </Badge>
+                    {resultStatus(result) !== 'analyzed' && (
+                      <Badge
+                        variant="outline"
+                        className={`ml-1 text-[10px] ${isScored(result) ? '' : 'border-sentiment-negative/50 text-sentiment-negative'}`}
+                      >
+                        {RESULT_STATUS_LABELS[resultStatus(result)]}
+                      </Badge>
+                    )}
                   </TableCell>
-                  <TableCell className={`text-right font-medium ${getScoreColor(result.kpiScores.trust)}`}>
-                    {result.kpiScores.trust.toFixed(2)}
-                  </TableCell>
-                  <TableCell className={`text-right font-medium ${getScoreColor(result.kpiScores.optimism)}`}>
-                    {result.kpiScores.optimism.toFixed(2)}
-                  </TableCell>
-                  <TableCell className={`text-right font-medium ${getScoreColor(result.kpiScores.frustration)}`}>
-                    {result.kpiScores.frustration.toFixed(2)}
-                  </TableCell>
-                  <TableCell className={`text-right font-medium ${getScoreColor(result.kpiScores.clarity)}`}>
-                    {result.kpiScores.clarity.toFixed(2)}
-                  </TableCell>
-                  <TableCell className={`text-right font-medium ${getScoreColor(result.kpiScores.access)}`}>
-                    {result.kpiScores.access.toFixed(2)}
-                  </TableCell>
-                  <TableCell className={`text-right font-medium ${getScoreColor(result.kpiScores.fairness)}`}>
-                    {result.kpiScores.fairness.toFixed(2)}
-                  </TableCell>
+                  {kpis.map((kpi) => {
+                    const value = result.kpiScores[kpi.id] ?? 0;
+                    return (
+                      <TableCell key={kpi.id} className={`text-right font-medium ${getScoreColor(value)}`}>
+                        {value.toFixed(2)}
+                      </TableCell>
+                    );
+                  })}
                 </TableRow>
               );
             })}
@@ -1,3 +1,4 @@
+import type { ReactNode } from 'react';
 import { Radio, BookOpen, ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
@@ -6,9 +7,11 @@ export type SourceType = 'reddit' | 'papers';
 interface SourceSelectorProps {
   onSelect: (source: SourceType) => void;
   onBack?: () => void;
+  // Rendered below the source cards, e.g. analysis settings
+  children?: ReactNode;
 }
 
-export function SourceSelector({ onSelect, onBack }: SourceSelectorProps) {
+export function SourceSelector({ onSelect, onBack, children }: SourceSelectorProps) {
   return (
     <div className="flex flex-col items-center justify-center min-h-[60vh] w-full max-w-3xl mx-auto px-4 animate-fade-in">
       {/* Back Button */}
@@ -86,6 +89,8 @@ export function SourceSelector({ onSelect, onBack }: SourceSelectorProps) {
           </div>
         </button>
       </div>
+
+      {children}
     </div>
   );
 }
@@ -0,0 +1,36 @@
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { MessagesSquare } from 'lucide-react';
+
+interface SubredditKeyphrasesProps {
+  // Top keyphrases per subreddit name
+  keyphrases: Record<string, string[]>;
+}
+
+export function SubredditKeyphrases({ keyphrases }: SubredditKeyphrasesProps) {
+  const subreddits = Object.keys(keyphrases)
+    .filter(subreddit => keyphrases[subreddit].length > 0)
+    .sort((a, b) => a.localeCompare(b));
+
+  return (
+    <div className="relative bg-black/80 backdrop-blur-xl rounded-lg border border-white/10 p-4 font-mono">
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-3">
+        <MessagesSquare className="w-4 h-4 text-muted-foreground" />
+        <span className="text-xs text-muted-foreground uppercase tracking-wider">Subreddits</span>
+      </div>
+
+      <ScrollArea className="h-[180px]">
+        <div className="space-y-2">
+          {subreddits.map(subreddit => (
+            <div key={subreddit} className="py-1.5 border-b border-white/5 last:border-0 min-w-0">
+              <span className="text-xs truncate block">r/{subreddit}</span>
+              <span className="text-[10px] text-muted-foreground truncate block">
+                {keyphrases[subreddit].join(' · ')}
+              </span>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useMemo, useState } from 'react';
+import { GitBranch, ExternalLink } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { RedditComment, RedditData } from '@/types/reddit';
+import type { SentimentResult } from '@/types/sentiment';
+import { isScored } from '@/utils/sentiment/results/resultStatus';
+import { buildCommentThreads, type CommentThread, type ThreadNode } from '@/utils/sentiment/threads/threadAnalysis';
+
+// Threads listed for selection, most controversial first
+const MAX_LISTED_THREADS = 20;
+// Deeper replies stop indenting so long chains stay readable
+const MAX_INDENT_DEPTH = 6;
+
+interface ThreadExplorerProps {
+  data: RedditData[];
+  results: SentimentResult[];
+}
+
+const formatSigned = (value: number | null, digits: number = 2) =>
+  value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const formatShare = (value: number | null) => (value === null ? '-' : `${Math.round(value * 100)}%`);
+
+function getBorderColor(node: ThreadNode) {
+  if (!node.result || !isScored(node.result)) return 'border-l-white/10';
+  switch (node.result.polarity) {
+    case 'positive': return 'border-l-sentiment-positive';
+    case 'negative': return 'border-l-sentiment-negative';
+    default: return 'border-l-white/40';
+  }
+}
+
+// Depth-first order, so each reply renders right under its parent
+function flattenThread(node: ThreadNode): ThreadNode[] {
+  return [node, ...node.children.flatMap(flattenThread)];
+}
+
+function ThreadNodeRow({ node }: { node: ThreadNode }) {
+  const text = node.item.dataType === 'post' ? node.item.title : (node.item as RedditComment).body;
+  const scored = node.result && isScored(node.result);
+
+  return (
+    <div style={{ marginLeft: node.depth > 0 ? `${Math.min(node.depth, MAX_INDENT_DEPTH) * 12}px` : 0 }}>
+      <div className={`border-l-2 pl-3 py-1 ${getBorderColor(node)}`}>
+        <div className="flex items-center gap-2 text-[10px] text-muted-foreground">
+          <span className="truncate">u/{node.item.username}</span>
+          <span className="tabular-nums">{node.item.upVotes} pts</span>
+          {scored ? (
+            <span className="tabular-nums">{formatSigned(node.result!.polarityScore)}</span>
+          ) : (
+            <span>not scored</span>
+          )}
+          {node.detached && <span title="Parent comment was not scraped">detached</span>}
+        </div>
+        <p className="text-xs text-muted-foreground leading-relaxed line-clamp-3">{text}</p>
+      </div>
+    </div>
+  );
+}
+
+function ThreadMetricsView({ thread }: { thread: CommentThread }) {
+  const { metrics } = thread;
+  const stats = [
+    { label: 'Comments', value: `${metrics.scoredComments}/${metrics.comments}`, hint: 'Scored / scraped' },
+    { label: 'Depth', value: String(metrics.maxDepth), hint: 'Deepest reply level' },
+    { label: 'Drift', value: formatSigned(metrics.sentimentDrift), hint: 'Leaf comments minus the post' },
+    { label: 'Agreement', value: formatShare(metrics.replyAgreement), hint: 'How closely replies match their parent' },
+    { label: 'Stance kept', value: formatShare(metrics.stancePropagation), hint: 'Replies with their parent\'s polarity' },
+    { label: 'Controversy', value: formatShare(metrics.controversy), hint: 'Vote split and polarity variance' },
+    { label: 'Escalation', value: formatSigned(metrics.escalation), hint: 'Polarity lost per reply level' },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+      {stats.map(stat => (
+        <div key={stat.label} className="rounded border border-white/10 px-2 py-1" title={stat.hint}>
+          <div className="text-[10px] text-muted-foreground uppercase tracking-wider">{stat.label}</div>
+          <div className="text-sm tabular-nums text-foreground">{stat.value}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ThreadExplorer({ data, results }: ThreadExplorerProps) {
+  const threads = useMemo(
+    () => buildCommentThreads(data, results)
+      .sort((a, b) => b.metrics.controversy - a.metrics.controversy)
+      .slice(0, MAX_LISTED_THREADS),
+    [data, results]
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = threads.find(thread => thread.root.id === selectedId) ?? threads[0];
+
+  if (!selected) return null;
+
+  return (
+    <div className="relative bg-black/80 backdrop-blur-xl rounded-lg border border-white/10 p-4 font-mono">
+      <div className="flex items-center gap-2 mb-3">
+        <GitBranch className="w-4 h-4 text-muted-foreground" />
+        <span className="text-xs text-muted-foreground uppercase tracking-wider">Threads</span>
+        <span className="text-xs text-muted-foreground ml-auto tabular-nums">{threads.length} with comments</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {threads.map(thread => (
+          <Badge
+            key={thread.root.id}
+            variant="outline"
+            onClick={() => setSelectedId(thread.root.id)}
+            className={`cursor-pointer max-w-[16rem] truncate text-[10px] ${thread === selected ? 'border-white/60 text-foreground' : 'border-white/20 text-muted-foreground'}`}
+            title={thread.post.title}
+          >
+            {thread.post.title} · {thread.metrics.comments}
+          </Badge>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 mb-2 text-xs">
+        <span className="text-foreground truncate">{selected.post.title}</span>
+        {selected.post.url && (
+          <a href={selected.post.url} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </div>
+
+      <ThreadMetricsView thread={selected} />
+
+      <ScrollArea className="h-96 pr-2">
+        <div className="space-y-1">
+          {flattenThread(selected.root).map(node => <ThreadNodeRow key={node.id} node={node} />)}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
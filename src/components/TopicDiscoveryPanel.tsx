@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Compass, Loader2, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  clusterToNode,
+  type TopicCluster,
+  type TopicCoverage,
+} from '@/utils/sentiment/topics/topicDiscovery';
+import { discoverTopicsInWorker } from '@/utils/sentiment/topics/topicWorkerClient';
+import type { Node, SentimentResult } from '@/types/sentiment';
+
+interface TopicDiscoveryPanelProps {
+  results: SentimentResult[];
+  nodes: Node[];
+  onPromoteNode?: (node: Node) => void;
+}
+
+const COVERAGE_LABELS: Record<TopicCoverage, string> = {
+  covered: 'Covered',
+  partial: 'Partly covered',
+  uncovered: 'Not covered',
+};
+
+export function TopicDiscoveryPanel({ results, nodes, onPromoteNode }: TopicDiscoveryPanelProps) {
+  const [clusters, setClusters] = useState<TopicCluster[] | null>(null);
+  const [status, setStatus] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [promoted, setPromoted] = useState<Set<number>>(new Set());
+  const { toast } = useToast();
+
+  const runDiscovery = async () => {
+    setIsRunning(true);
+    try {
+      const discovery = await discoverTopicsInWorker(
+        results.map(r => r.text),
+        nodes,
+        { polarityScores: results.map(r => r.polarityScore), onStatus: setStatus }
+      );
+      // Least covered first: those are the candidates for new nodes
+      setClusters([...discovery.clusters].sort((a, b) => b.uncoveredShare - a.uncoveredShare));
+      setPromoted(new Set());
+    } catch (error) {
+      toast({
+        title: 'Topic discovery failed',
+        description: error instanceof Error ? error.message : 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRunning(false);
+      setStatus('');
+    }
+  };
+
+  const promote = (cluster: TopicCluster) => {
+    if (!onPromoteNode) return;
+    const node = clusterToNode(cluster);
+    onPromoteNode(node);
+    setPromoted(prev => new Set(prev).add(cluster.id));
+    toast({
+      title: 'Node created',
+      description: `"${node.name}" will be available in node selection.`,
+    });
+  };
+
+  const getCoverageColor = (coverage: TopicCoverage) => {
+    switch (coverage) {
+      case 'uncovered': return 'border-sentiment-negative/50 text-sentiment-negative';
+      case 'partial': return 'border-yellow-500/50 text-yellow-500';
+      default: return 'border-white/20 text-muted-foreground';
+    }
+  };
+
+  return (
+    <div className="relative bg-black/80 backdrop-blur-xl rounded-lg border border-white/10 p-4 font-mono">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2">
+          <Compass className="w-4 h-4 text-muted-foreground" />
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">Discovered Topics</span>
+        </div>
+        <Button variant="outline" size="sm" onClick={runDiscovery} disabled={isRunning} className="h-7 text-xs gap-1">
+          {isRunning && <Loader2 className="w-3 h-3 animate-spin" />}
+          {isRunning ? status || 'Running...' : clusters ? 'Re-run' : 'Discover topics'}
+        </Button>
+      </div>
+
+      {!clusters && !isRunning && (
+        <p className="text-xs text-muted-foreground">
+          Clusters the analyzed texts by meaning to find themes your nodes don't cover.
+        </p>
+      )}
+
+      {clusters && (
+        <div className="space-y-3">
+          {clusters.map(cluster => (
+            <div key={cluster.id} className="border-b border-white/5 last:border-0 pb-3 last:pb-0">
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-xs truncate">{cluster.keyphrases.slice(0, 3).join(' · ') || `Topic ${cluster.id + 1}`}</span>
+                  <span className="text-[10px] text-muted-foreground tabular-nums">{cluster.size}</span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant="outline" className={`text-[10px] px-1.5 py-0 h-4 ${getCoverageColor(cluster.coverage)}`}>
+                    {COVERAGE_LABELS[cluster.coverage]}
+                  </Badge>
+                  {onPromoteNode && cluster.coverage !== 'covered' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-[10px] gap-1"
+                      disabled={promoted.has(cluster.id)}
+                      onClick={() => promote(cluster)}
+                    >
+                      <Plus className="w-3 h-3" />
+                      {promoted.has(cluster.id) ? 'Added' : 'Add as node'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {cluster.bestNode && (
+                <div className="text-[10px] text-muted-foreground mb-1">
+                  Closest node: {cluster.bestNode.nodeName} ({cluster.bestNode.similarity.toFixed(2)})
+                </div>
+              )}
+              <p className="text-[10px] text-muted-foreground/80 leading-relaxed">
+                "{cluster.exemplars[0]?.slice(0, 120)}{(cluster.exemplars[0]?.length ?? 0) > 120 ? '...' : ''}"
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,11 @@ import type { NodeAnalysis } from '@/types/sentiment';
 
 interface TopicsListProps {
   topics: NodeAnalysis[];
+  // Top keyphrases per node id
+  keyphrases?: Record<string, string[]>;
 }
 
-export function TopicsList({ topics }: TopicsListProps) {
+export function TopicsList({ topics, keyphrases = {} }: TopicsListProps) {
   const getScoreColor = (score: number) => {
     if (score > 0.2) return 'text-sentiment-positive';
     if (score < -0.2) return 'text-sentiment-negative';
@@ -32,7 +34,14 @@ export function TopicsList({ topics }: TopicsListProps) {
             >
               <div className="flex items-center gap-2 min-w-0 flex-1">
                 <span className="text-xs text-muted-foreground tabular-nums w-4">{idx + 1}</span>
-                <span className="text-xs truncate">{topic.nodeName}</span>
+                <div className="min-w-0">
+                  <span className="text-xs truncate block">{topic.nodeName}</span>
+                  {keyphrases[topic.nodeId]?.length > 0 && (
+                    <span className="text-[10px] text-muted-foreground truncate block">
+                      {keyphrases[topic.nodeId].slice(0, 3).join(' · ')}
+                    </span>
+                  )}
+                </div>
               </div>
               <div className="flex items-center gap-3 text-xs">
                 <span className="text-muted-foreground tabular-nums">{topic.totalTexts}</span>
@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { AnalysisJobStatus } from '@/types/sentiment';
+import { analysisRequestHeaders, type ServerJobUpdate } from '@/utils/sentiment/analyzers/sentimentAnalyzer';
+
+const STORAGE_KEY = 'analysis-job-history';
+const MAX_JOBS = 20;
+
+export interface AnalysisJobRecord {
+  id: string;                 // Server job id
+  created_at: string;
+  updated_at: string;
+  source_type: 'reddit' | 'papers';
+  total_texts: number;
+  node_names: string[];
+  status: AnalysisJobStatus;
+  stop_reason?: string | null;
+  completed_batches?: number;
+  total_batches?: number;
+  // Another invocation is processing the job right now
+  active?: boolean;
+}
+
+export type AnalysisJobContext = Pick<AnalysisJobRecord, 'source_type' | 'total_texts' | 'node_names'>;
+
+// Server-side summary returned by analyze-sentiment's status action
+interface ServerJobSummary {
+  id: string;
+  status: AnalysisJobStatus;
+  stop_reason: string | null;
+  total_batches: number;
+  completed_batches: number;
+  active: boolean;
+  updated_at: string;
+}
+
+// Read straight from storage so updates fired during a run never see a stale list
+function readJobs(): AnalysisJobRecord[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Error loading analysis jobs:', error);
+    return [];
+  }
+}
+
+export function useAnalysisJobs() {
+  const [jobs, setJobs] = useState<AnalysisJobRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Load from localStorage on mount
+  useEffect(() => {
+    setJobs(readJobs());
+    setIsLoading(false);
+  }, []);
+
+  const saveJobs = useCallback((newJobs: AnalysisJobRecord[]) => {
+    try {
+      const trimmed = newJobs.slice(0, MAX_JOBS);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(trimmed));
+      setJobs(trimmed);
+    } catch (error) {
+      console.error('Error saving analysis jobs:', error);
+    }
+  }, []);
+
+  // Called with every job update from a server run; the context is only used for new records
+  const recordJob = useCallback((update: ServerJobUpdate, context: AnalysisJobContext) => {
+    const current = readJobs();
+    const now = new Date().toISOString();
+    const existing = current.find(job => job.id === update.jobId);
+    const record: AnalysisJobRecord = {
+      ...(existing ?? { id: update.jobId, created_at: now, ...context }),
+      updated_at: now,
+      status: update.status,
+      stop_reason: update.stopReason ?? null,
+      active: update.status === 'running',
+    };
+    saveJobs([record, ...current.filter(job => job.id !== update.jobId)]);
+  }, [saveJobs]);
+
+  const deleteJob = useCallback((id: string) => {
+    saveJobs(readJobs().filter(job => job.id !== id));
+  }, [saveJobs]);
+
+  // Pull current status and batch progress for the stored jobs from the server
+  const refreshJobs = useCallback(async () => {
+    const current = readJobs();
+    if (current.length === 0) return;
+
+    const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+    const SUPABASE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+    if (!SUPABASE_URL || !SUPABASE_KEY) return;
+
+    setIsRefreshing(true);
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/analyze-sentiment`, {
+        method: 'POST',
+        headers: await analysisRequestHeaders(SUPABASE_KEY),
+        body: JSON.stringify({ action: 'status', jobIds: current.map(job => job.id) }),
+      });
+      if (!response.ok) throw new Error(`Job status failed: ${response.status}`);
+
+      const { jobs: summaries = [] } = await response.json() as { jobs?: ServerJobSummary[] };
+      const byId = new Map(summaries.map(summary => [summary.id, summary]));
+      saveJobs(current.map(job => {
+        const summary = byId.get(job.id);
+        if (!summary) return job;
+        return {
+          ...job,
+          status: summary.status,
+          stop_reason: summary.stop_reason,
+          completed_batches: summary.completed_batches,
+          total_batches: summary.total_batches,
+          active: summary.active,
+          updated_at: summary.updated_at,
+        };
+      }));
+    } catch (error) {
+      console.error('Error refreshing analysis jobs:', error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [saveJobs]);
+
+  return {
+    jobs,
+    isLoading,
+    isRefreshing,
+    recordJob,
+    deleteJob,
+    refreshJobs,
+  };
+}
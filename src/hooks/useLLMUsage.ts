@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { LLMPricing, LLMUsageSummary } from '@/types/usage';
+
+// Posts an action to the llm-usage function; pricing is public, summaries need a signed-in user
+async function invokeUsage<T>(body: { action: 'summary' | 'pricing' } & Record<string, unknown>): Promise<T> {
+  const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+  const SUPABASE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    throw new Error('Supabase configuration missing');
+  }
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session && body.action === 'summary') {
+    throw new Error('Sign in to see LLM usage');
+  }
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/llm-usage`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token ?? SUPABASE_KEY}`,
+      'apikey': SUPABASE_KEY,
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(errorData.error || `Usage request failed: ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+// Price of the analysis model, fetched once per mount; null until loaded or when unavailable
+export function useLLMPricing(model?: string) {
+  const [pricing, setPricing] = useState<LLMPricing | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    invokeUsage<LLMPricing>({ action: 'pricing', ...(model && { model }) })
+      .then(result => { if (!cancelled) setPricing(result); })
+      .catch(error => console.error('Error loading LLM pricing:', error));
+    return () => { cancelled = true; };
+  }, [model]);
+
+  return pricing;
+}
+
+export function useLLMUsage(days: number) {
+  const [summary, setSummary] = useState<LLMUsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSummary(await invokeUsage<LLMUsageSummary>({ action: 'summary', days }));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading LLM usage:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { summary, isLoading, error, refresh };
+}
@@ -14,6 +14,102 @@ export type Database = {
   }
   public: {
     Tables: {
+      analysis_jobs: {
+        Row: {
+          batch_bounds: Json | null
+          batch_size: number | null
+          batch_status: Json
+          cached_results: Json
+          created_at: string
+          explain: boolean
+          id: string
+          input_hash: string
+          items: Json
+          kpis: Json
+          model: string | null
+          nodes: Json
+          results: Json
+          status: string
+          stop_reason: string | null
+          total_batches: number
+          total_texts: number
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          batch_bounds?: Json | null
+          batch_size?: number | null
+          batch_status?: Json
+          cached_results?: Json
+          created_at?: string
+          explain?: boolean
+          id?: string
+          input_hash: string
+          items: Json
+          kpis: Json
+          model?: string | null
+          nodes: Json
+          results?: Json
+          status?: string
+          stop_reason?: string | null
+          total_batches: number
+          total_texts: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          batch_bounds?: Json | null
+          batch_size?: number | null
+          batch_status?: Json
+          cached_results?: Json
+          created_at?: string
+          explain?: boolean
+          id?: string
+          input_hash?: string
+          items?: Json
+          kpis?: Json
+          model?: string | null
+          nodes?: Json
+          results?: Json
+          status?: string
+          stop_reason?: string | null
+          total_batches?: number
+          total_texts?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      analysis_result_cache: {
+        Row: {
+          created_at: string
+          last_hit_at: string | null
+          model: string
+          node_fingerprint: string
+          prompt_version: string
+          result: Json
+          text_hash: string
+        }
+        Insert: {
+          created_at?: string
+          last_hit_at?: string | null
+          model: string
+          node_fingerprint: string
+          prompt_version: string
+          result: Json
+          text_hash: string
+        }
+        Update: {
+          created_at?: string
+          last_hit_at?: string | null
+          model?: string
+          node_fingerprint?: string
+          prompt_version?: string
+          result?: Json
+          text_hash?: string
+        }
+        Relationships: []
+      }
       data_sources: {
         Row: {
           content: Json | null
@@ -50,6 +146,60 @@ export type Database = {
         }
         Relationships: []
       }
+      llm_usage: {
+        Row: {
+          completion_tokens: number
+          cost_usd: number
+          created_at: string
+          error_kind: string | null
+          function_name: string
+          id: string
+          latency_ms: number
+          model: string
+          prompt_tokens: number
+          provider: string
+          retry: boolean
+          run_id: string
+          status: string
+          tokens_estimated: boolean
+          user_id: string | null
+        }
+        Insert: {
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          error_kind?: string | null
+          function_name: string
+          id?: string
+          latency_ms: number
+          model: string
+          prompt_tokens?: number
+          provider: string
+          retry?: boolean
+          run_id: string
+          status: string
+          tokens_estimated?: boolean
+          user_id?: string | null
+        }
+        Update: {
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          error_kind?: string | null
+          function_name?: string
+          id?: string
+          latency_ms?: number
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          retry?: boolean
+          run_id?: string
+          status?: string
+          tokens_estimated?: boolean
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       paper_scrapes: {
         Row: {
           author_query: string | null
@@ -169,6 +319,57 @@ export type Database = {
         }
         Relationships: []
       }
+      scrape_jobs: {
+        Row: {
+          created_at: string
+          data: Json | null
+          data_source_id: string | null
+          error: string | null
+          id: string
+          invocations: number
+          next_index: number
+          params: Json
+          results: Json
+          status: string
+          subreddits: Json
+          summary: Json | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          data?: Json | null
+          data_source_id?: string | null
+          error?: string | null
+          id?: string
+          invocations?: number
+          next_index?: number
+          params: Json
+          results?: Json
+          status?: string
+          subreddits: Json
+          summary?: Json | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          data?: Json | null
+          data_source_id?: string | null
+          error?: string | null
+          id?: string
+          invocations?: number
+          next_index?: number
+          params?: Json
+          results?: Json
+          status?: string
+          subreddits?: Json
+          summary?: Json | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       scrape_metrics: {
         Row: {
           comments_collected: number | null
@@ -222,7 +423,52 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_scrape_job: {
+        Args: {
+          p_job_id: string
+          p_stale_before: string
+        }
+        Returns: {
+            created_at: string
+            data: Json | null
+            data_source_id: string | null
+            error: string | null
+            id: string
+            invocations: number
+            next_index: number
+            params: Json
+            results: Json
+            status: string
+            subreddits: Json
+            summary: Json | null
+            updated_at: string
+            user_id: string | null
+        }[]
+      }
+      llm_spend_usd: {
+        Args: {
+          p_run_id?: string
+          p_since?: string
+        }
+        Returns: number
+      }
+      record_analysis_batch: {
+        Args: {
+          p_batch_index: number
+          p_job_id: string
+          p_results: Json
+          p_status: string
+        }
+        Returns: undefined
+      }
+      record_scrape_slice: {
+        Args: {
+          p_job_id: string
+          p_next_index: number
+          p_results: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
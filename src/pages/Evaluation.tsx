@@ -0,0 +1,269 @@
+import { useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ClipboardCopy, FlaskConical, Home, Loader2, SlidersHorizontal, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { loadKPIs } from "@/utils/sentiment/kpis/kpiRegistry";
+import { loadLabeledDataset, type LabeledDataset } from "@/utils/sentiment/evaluation/dataset";
+import {
+  evaluateAnalyzers,
+  formatEvaluationReport,
+  type AnalyzerKind,
+} from "@/utils/sentiment/evaluation/evaluator";
+import { fitScoringConstantsFromDataset, type FittedConstants } from "@/utils/sentiment/evaluation/thresholdFitter";
+import { DEFAULT_SENTIMENT_MODEL, SENTIMENT_MODELS } from "@/utils/sentiment/models/sentimentModelRegistry";
+import type { Node } from "@/types/sentiment";
+
+const ANALYZERS: AnalyzerKind[] = ["local", "server", "ensemble"];
+
+// Gold node labels are matched against the saved node list, the same one the analysis page uses
+function loadSavedNodes(): Node[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem("sentiment-nodes") ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+const formatConstant = (value: number | null) => (value === null ? "n/a" : value.toFixed(3));
+
+// Developer page: score the analyzers against a labelled JSONL/CSV file and propose scoring constants
+const Evaluation = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [dataset, setDataset] = useState<LabeledDataset | null>(null);
+  const [analyzers, setAnalyzers] = useState<AnalyzerKind[]>(["local"]);
+  const [sentimentModel, setSentimentModel] = useState(DEFAULT_SENTIMENT_MODEL);
+  const [status, setStatus] = useState("");
+  const [isRunning, setIsRunning] = useState(false);
+  const [report, setReport] = useState<string | null>(null);
+  const [fitted, setFitted] = useState<FittedConstants | null>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      const loaded = await loadLabeledDataset(file);
+      setFileName(file.name);
+      setDataset(loaded);
+      setReport(null);
+      setFitted(null);
+    } catch (error) {
+      toast({
+        title: "Could not read dataset",
+        description: error instanceof Error ? error.message : "Unsupported file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleAnalyzer = (analyzer: AnalyzerKind) =>
+    setAnalyzers(prev => (prev.includes(analyzer) ? prev.filter(a => a !== analyzer) : [...prev, analyzer]));
+
+  const runTask = async (task: () => Promise<void>) => {
+    setIsRunning(true);
+    try {
+      await task();
+    } catch (error) {
+      toast({
+        title: "Evaluation failed",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+      setStatus("");
+    }
+  };
+
+  const handleEvaluate = () => runTask(async () => {
+    if (!dataset) return;
+    const result = await evaluateAnalyzers(dataset.examples, loadSavedNodes(), {
+      analyzers,
+      kpis: loadKPIs(),
+      sentimentModel,
+      onStatus: setStatus,
+    });
+    setReport(formatEvaluationReport(result));
+  });
+
+  const handleFit = () => runTask(async () => {
+    if (!dataset) return;
+    setStatus("Running the local models over the labelled texts...");
+    setFitted(await fitScoringConstantsFromDataset(dataset.examples, loadKPIs()));
+  });
+
+  const copyReport = async () => {
+    if (!report) return;
+    await navigator.clipboard.writeText(report);
+    toast({ title: "Report copied", description: "Markdown copied to the clipboard." });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Evaluation</h1>
+            <p className="text-muted-foreground">
+              Score the analyzers against a labelled dataset and fit the local scoring constants
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => navigate("/")} className="gap-2">
+            <Home className="w-4 h-4" />
+            Home
+          </Button>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Dataset</CardTitle>
+            <CardDescription>
+              JSONL with text, polarity and optional node, polarityScore and kpis, or CSV with the same columns
+              (kpi_&lt;id&gt; per KPI)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-3">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".jsonl,.json,.csv,.txt"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) handleFile(file);
+                  event.target.value = "";
+                }}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isRunning} className="gap-2">
+                <Upload className="w-4 h-4" />
+                Load file
+              </Button>
+              {dataset && (
+                <span className="text-sm text-muted-foreground font-mono">
+                  {fileName}: {dataset.examples.length} examples
+                  {dataset.skipped.length > 0 && `, ${dataset.skipped.length} skipped`}
+                </span>
+              )}
+            </div>
+            {dataset && dataset.skipped.length > 0 && (
+              <ul className="text-xs text-muted-foreground font-mono max-h-24 overflow-y-auto">
+                {dataset.skipped.map(entry => (
+                  <li key={entry.line}>Line {entry.line}: {entry.reason}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">Analyzers</span>
+              {ANALYZERS.map(analyzer => (
+                <Button
+                  key={analyzer}
+                  variant={analyzers.includes(analyzer) ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => toggleAnalyzer(analyzer)}
+                  disabled={isRunning}
+                >
+                  {analyzer}
+                </Button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">Local model</span>
+              {SENTIMENT_MODELS.map(model => (
+                <Button
+                  key={model.id}
+                  variant={model.id === sentimentModel ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setSentimentModel(model.id)}
+                  disabled={isRunning}
+                  title={model.description}
+                >
+                  {model.label}
+                </Button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button onClick={handleEvaluate} disabled={!dataset || isRunning || analyzers.length === 0} className="gap-2">
+                {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+                Evaluate
+              </Button>
+              <Button variant="outline" onClick={handleFit} disabled={!dataset || isRunning} className="gap-2">
+                <SlidersHorizontal className="w-4 h-4" />
+                Fit constants
+              </Button>
+              {status && <span className="text-xs text-muted-foreground font-mono">{status}</span>}
+            </div>
+          </CardContent>
+        </Card>
+
+        {report && (
+          <Card className="mb-6">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Report</CardTitle>
+              <Button variant="outline" size="sm" onClick={copyReport} className="gap-2">
+                <ClipboardCopy className="w-4 h-4" />
+                Copy markdown
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <pre className="text-xs font-mono whitespace-pre-wrap text-muted-foreground">{report}</pre>
+            </CardContent>
+          </Card>
+        )}
+
+        {fitted && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Proposed scoring constants</CardTitle>
+              <CardDescription>Fitted on {fitted.sampleSize} labelled texts with the local models</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Constant</TableHead>
+                    <TableHead className="text-right">Current</TableHead>
+                    <TableHead className="text-right">Proposed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(Object.keys(fitted.current) as Array<keyof FittedConstants["current"]>).map(key => (
+                    <TableRow key={key}>
+                      <TableCell className="font-mono">{key}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatConstant(fitted.current[key])}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatConstant(fitted.proposed[key])}
+                        {fitted.proposed[key] !== fitted.current[key] && <Badge variant="outline" className="ml-2">changed</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {([
+                    ["Polarity macro-F1", fitted.polarityMacroF1],
+                    ["Short-text score MSE", fitted.shortTextScoreMSE],
+                    ["Mean KPI correlation", fitted.meanKPICorrelation],
+                  ] as const).map(([label, objective]) => (
+                    <TableRow key={label}>
+                      <TableCell className="text-muted-foreground">{label}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatConstant(objective.current)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatConstant(objective.proposed)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Evaluation;
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { NodeSelectionPage } from '@/components/NodeSelectionPage';
 import { SourceSelector, SourceType } from '@/components/SourceSelector';
@@ -7,18 +7,63 @@ import { PaperScraperSimplified } from '@/components/PaperScraperSimplified';
 import { ResultsPage } from '@/components/ResultsPage';
 import { ArchivePage } from '@/components/ArchivePage';
 import { AnalysisLoadingOverlay } from '@/components/AnalysisLoadingOverlay';
+import { AnalysisModeSelector } from '@/components/AnalysisModeSelector';
+import { KPIEditor } from '@/components/KPIEditor';
 import AnimatedLogo from '@/components/AnimatedLogo';
 import { ParticleBackground } from '@/components/ParticleBackground';
 import { useToast } from '@/hooks/use-toast';
-import { performSentimentAnalysisServer, aggregateNodeAnalysis } from '@/utils/sentiment/analyzers/sentimentAnalyzer';
+import { useAnalysisJobs, type AnalysisJobContext, type AnalysisJobRecord } from '@/hooks/useAnalysisJobs';
+import {
+  invalidateAnalysisCache,
+  performEnsembleAnalysis,
+  performSentimentAnalysisServer,
+  resumeSentimentAnalysisJob,
+  aggregateNodeAnalysis,
+  type ServerJobUpdate,
+} from '@/utils/sentiment/analyzers/sentimentAnalyzer';
+import { DEFAULT_KPIS, loadKPIs, resetKPIs, saveKPIs } from '@/utils/sentiment/kpis/kpiRegistry';
+import {
+  loadAnalysisSettings,
+  saveAnalysisSettings,
+  type AnalysisSettings,
+} from '@/utils/sentiment/analyzers/analysisSettings';
+import { computeCoverage, scoredResults } from '@/utils/sentiment/results/resultStatus';
+import {
+  extractKeyphrasesByGroup,
+  extractTrendingThemes,
+  type Keyphrase,
+  type KeyphraseDocument,
+  type TrendingTheme,
+} from '@/utils/sentiment/extractors/keywordExtractor';
+import { diversifyKeyphrasesInWorker } from '@/utils/sentiment/topics/topicWorkerClient';
 import { parseRedditJSON, extractTimeSeriesData } from '@/utils/redditParser';
-import type { Node, SentimentResult, NodeAnalysis } from '@/types/sentiment';
+import type { Node, SentimentResult, NodeAnalysis, KPIDefinition, AnalysisTextItem } from '@/types/sentiment';
 import type { RedditData, RedditPost } from '@/types/reddit';
 import type { AcademicPaper } from '@/types/paper';
 
+// Keyphrases shown per node or subreddit, picked by MMR from a larger ranked list
+const KEYPHRASES_SHOWN = 5;
+const KEYPHRASE_CANDIDATES = 15;
+
+// Original text, subreddit and date per text id; the analysed text can carry thread context
+type TextMetadata = Partial<Pick<KeyphraseDocument, 'text' | 'subreddit' | 'timestamp'>>;
+
+const toPhraseRecord = (groups: Map<string, Keyphrase[]>, limit: number) =>
+  Object.fromEntries(Array.from(groups, ([group, keyphrases]) => [group, keyphrases.slice(0, limit).map(k => k.phrase)]));
+
 // App Flow Steps
 type AppStep = 'intro' | 'nodes' | 'source' | 'scraper' | 'loading' | 'results' | 'archive';
 
+// Scrapes can return the same post or paper twice; the analysis needs unique ids
+function uniqueById(items: AnalysisTextItem[]): AnalysisTextItem[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    if (seen.has(item.id)) return false;
+    seen.add(item.id);
+    return true;
+  });
+}
+
 const Index = () => {
   // Flow state
   const [currentStep, setCurrentStep] = useState<AppStep>('intro');
@@ -26,6 +71,8 @@ const Index = () => {
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [selectedNodes, setSelectedNodes] = useState<Node[]>([]);
   const [selectedSource, setSelectedSource] = useState<SourceType | null>(null);
+  const [kpis, setKpis] = useState<KPIDefinition[]>(() => loadKPIs());
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(() => loadAnalysisSettings());
 
   // Intro animation state
   const [logoVisible, setLogoVisible] = useState(false);
@@ -47,6 +94,12 @@ const Index = () => {
   const [timeSeriesData, setTimeSeriesData] = useState<any[]>([]);
   const [overallSentiment, setOverallSentiment] = useState<number>(0);
   const [sources, setSources] = useState<Array<{ name: string; value: number }>>([]);
+  const [topicKeyphrases, setTopicKeyphrases] = useState<Record<string, string[]>>({});
+  const [subredditKeyphrases, setSubredditKeyphrases] = useState<Record<string, string[]>>({});
+  // Bumped per results view, so a late diversification never overwrites a newer run's keyphrases
+  const keyphraseRun = useRef(0);
+  const [trendingThemes, setTrendingThemes] = useState<TrendingTheme[]>([]);
+  const [redditData, setRedditData] = useState<RedditData[]>([]);
 
   // Loading overlay state
   const [progress, setProgress] = useState(0);
@@ -55,6 +108,7 @@ const Index = () => {
   const [scrapedDataCount, setScrapedDataCount] = useState(0);
 
   const { toast } = useToast();
+  const { recordJob } = useAnalysisJobs();
   const TOTAL_STEPS = 5;
 
   // Default nodes configuration
@@ -118,12 +172,121 @@ const Index = () => {
     transitionToStep('source');
   };
 
+  const handleAnalysisSettingsChange = (settings: AnalysisSettings) => {
+    setAnalysisSettings(settings);
+    saveAnalysisSettings(settings);
+  };
+
+  // saveKPIs throws on an invalid set, before the current one is replaced
+  const handleKPIsSave = (updated: KPIDefinition[]) => {
+    saveKPIs(updated);
+    setKpis(updated);
+  };
+
+  const handleKPIsReset = () => {
+    resetKPIs();
+    setKpis(DEFAULT_KPIS);
+  };
+
+  // Forget cached server results for the selected nodes, e.g. after changing what a node covers
+  const handleClearAnalysisCache = async () => {
+    try {
+      const deleted = await invalidateAnalysisCache(selectedNodes);
+      toast({ title: 'Cache cleared', description: `Removed ${deleted} cached results for these nodes.` });
+    } catch (error) {
+      toast({
+        title: 'Could not clear cache',
+        description: error instanceof Error ? error.message : 'An error occurred',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Source selection handler
   const handleSourceSelect = (source: SourceType) => {
     setSelectedSource(source);
     transitionToStep('scraper');
   };
 
+  // Aggregate analysis results into the results page state
+  const showAnalysisResults = (
+    analysisResults: SentimentResult[],
+    sourceType: SourceType,
+    textMetadata: Map<string, TextMetadata>,
+    redditData?: RedditData[]
+  ) => {
+    // Defaulted results hold placeholder scores; the index and themes use scored texts only
+    const scored = scoredResults(analysisResults);
+    const avgSentiment = scored.length > 0 ? scored.reduce((sum, r) => sum + r.polarityScore, 0) / scored.length : 0;
+    const nodeAnalysisData = aggregateNodeAnalysis(analysisResults, kpis);
+
+    // Keyphrases come from each item's own text; without metadata (resumed jobs) the analysed text is used
+    const keyphraseDocuments: KeyphraseDocument[] = scored.map(r => {
+      const metadata = r.id !== undefined ? textMetadata.get(r.id) : undefined;
+      return {
+        ...metadata,
+        text: metadata?.text || r.text,
+        polarityScore: r.polarityScore,
+        nodeId: r.nodeId,
+      };
+    });
+    const nodeKeyphrases = extractKeyphrasesByGroup(keyphraseDocuments, d => d.nodeId, { maxPhrases: KEYPHRASE_CANDIDATES });
+    const communityKeyphrases = sourceType === 'reddit'
+      ? extractKeyphrasesByGroup(keyphraseDocuments, d => d.subreddit, { maxPhrases: KEYPHRASE_CANDIDATES })
+      : new Map<string, Keyphrase[]>();
+
+    // Update time series with results for Reddit
+    if (redditData && redditData.length > 0) {
+      try {
+        const timeSeries = extractTimeSeriesData(redditData, scored);
+        setTimeSeriesData(timeSeries);
+      } catch {
+        // Keep existing time series
+      }
+    }
+
+    setProgress(100);
+    setResults(analysisResults);
+    setRedditData(redditData ?? []);
+    setOverallSentiment(avgSentiment * 100);
+    setNodeAnalysis(nodeAnalysisData);
+    // Ranked keyphrases show at once; MMR-diversified ones replace them when the worker finishes
+    setTopicKeyphrases(toPhraseRecord(nodeKeyphrases, KEYPHRASES_SHOWN));
+    setSubredditKeyphrases(toPhraseRecord(communityKeyphrases, KEYPHRASES_SHOWN));
+    const run = ++keyphraseRun.current;
+    Promise.all([
+      diversifyKeyphrasesInWorker(nodeKeyphrases, KEYPHRASES_SHOWN),
+      diversifyKeyphrasesInWorker(communityKeyphrases, KEYPHRASES_SHOWN),
+    ])
+      .then(([nodes, communities]) => {
+        if (run !== keyphraseRun.current) return;
+        setTopicKeyphrases(toPhraseRecord(nodes, KEYPHRASES_SHOWN));
+        setSubredditKeyphrases(toPhraseRecord(communities, KEYPHRASES_SHOWN));
+      })
+      .catch(error => console.warn('Keyphrase diversification failed, keeping ranked keyphrases:', error));
+    setTrendingThemes(extractTrendingThemes(keyphraseDocuments, 20, sourceType === 'papers' ? 'year' : 'day'));
+    return nodeAnalysisData;
+  };
+
+  // Completion toast; a paused job gets a warning pointing at the archive to resume it
+  const notifyAnalysisOutcome = (analysisResults: SentimentResult[], topicCount: number, job: ServerJobUpdate | null) => {
+    const coverage = computeCoverage(analysisResults);
+    const summary = `Analyzed ${coverage.scored} of ${coverage.total} texts (${Math.round(coverage.coverage * 100)}% coverage) across ${topicCount} topics.`;
+
+    if (job?.status === 'paused') {
+      const reason = job.stopReason === 'rate_limit' ? 'rate limited'
+        : job.stopReason === 'credits_exhausted' ? 'out of AI credits'
+        : job.stopReason === 'spend_cap' ? 'stopped at the spend cap'
+        : 'stopped after failed batches';
+      toast({
+        title: 'Analysis paused',
+        description: `${summary} The job was ${reason}; resume it from the archive to finish the remaining batches.`,
+      });
+      return;
+    }
+    toast({ title: 'Analysis complete', description: summary });
+  };
+
   // Combined scrape + analyze handler
   const handleScrapeAndAnalyze = async (data: any[], sourceType: SourceType) => {
     if (data.length === 0) {
@@ -142,7 +305,9 @@ const Index = () => {
     setAnalysisStatus('Initializing...');
 
     try {
-      let textsToAnalyze: string[] = [];
+      let textsToAnalyze: AnalysisTextItem[] = [];
+      // Original text, subreddit and date per text id, for keyphrases
+      const textMetadata = new Map<string, TextMetadata>();
 
       // Step 2: Preparing data
       setLoadingStep(2);
@@ -152,7 +317,8 @@ const Index = () => {
       if (sourceType === 'reddit') {
         const rawData = data as RedditData[];
         const parsed = parseRedditJSON(rawData);
-        textsToAnalyze = parsed.allText;
+        textsToAnalyze = uniqueById(parsed.texts.map(t => ({ id: t.id, text: t.text })));
+        parsed.texts.forEach(t => textMetadata.set(t.id, { text: t.body, subreddit: t.subreddit, timestamp: t.timestamp }));
         setSources([{ name: 'Reddit', value: textsToAnalyze.length }]);
 
         // Extract time series for Reddit
@@ -165,7 +331,13 @@ const Index = () => {
       } else {
         // Papers - extract combined text from each paper
         const papers = data as AcademicPaper[];
-        textsToAnalyze = papers.map(p => p.combinedText).filter(t => t && t.length > 0);
+        textsToAnalyze = uniqueById(
+          papers.filter(p => p.combinedText && p.combinedText.length > 0).map(p => ({ id: p.id, text: p.combinedText }))
+        );
+        papers.forEach(p => {
+          const timestamp = p.publicationDate || (p.year ? `${p.year}-01-01` : undefined);
+          textMetadata.set(p.id, { text: p.combinedText, timestamp });
+        });
         setSources([{ name: 'Semantic Scholar', value: textsToAnalyze.length }]);
         setTimeSeriesData([]);
       }
@@ -175,42 +347,66 @@ const Index = () => {
       setAnalysisStatus('Sending to AI...');
       setProgress(20);
 
-      // Step 4: Analyzing sentiment (server-side)
+      // Step 4: Analyzing sentiment (server-side, or local first in hybrid mode)
       setLoadingStep(4);
-      const analysisResults = await performSentimentAnalysisServer(
-        textsToAnalyze,
-        selectedNodes,
-        (p) => setProgress(20 + p * 0.65),
-        (status) => setAnalysisStatus(status)
-      );
+      let finalJob: ServerJobUpdate | null = null;
+      const jobContext: AnalysisJobContext = {
+        source_type: sourceType,
+        total_texts: textsToAnalyze.length,
+        node_names: selectedNodes.map(node => node.name),
+      };
+      const onJob = (update: ServerJobUpdate) => {
+        finalJob = update;
+        recordJob(update, jobContext);
+      };
+      const analysisResults = analysisSettings.mode === 'ensemble'
+        ? await performEnsembleAnalysis(
+          textsToAnalyze,
+          selectedNodes,
+          (p) => setProgress(20 + p * 0.65),
+          (status) => setAnalysisStatus(status),
+          {
+            kpis,
+            ...analysisSettings.ensemble,
+            sentimentModel: analysisSettings.sentimentModel,
+            multilingual: analysisSettings.multilingual,
+            multiLabel: analysisSettings.multiLabel,
+            nodeSimilarityThreshold: analysisSettings.nodeSimilarityThreshold,
+            minNodeSimilarity: analysisSettings.minNodeSimilarity,
+            minNodeConfidence: analysisSettings.minNodeConfidence,
+            explain: analysisSettings.explain,
+            useCache: analysisSettings.useCache,
+            maxCostUsd: analysisSettings.maxCostUsd ?? undefined,
+            onJob,
+          }
+        )
+        : await performSentimentAnalysisServer(
+          textsToAnalyze,
+          selectedNodes,
+          (p) => setProgress(20 + p * 0.65),
+          (status) => setAnalysisStatus(status),
+          {
+            kpis,
+            minNodeConfidence: analysisSettings.minNodeConfidence,
+            explain: analysisSettings.explain,
+            useCache: analysisSettings.useCache,
+            maxCostUsd: analysisSettings.maxCostUsd ?? undefined,
+            onJob,
+          }
+        );
 
       // Step 5: Aggregating results
       setLoadingStep(5);
       setAnalysisStatus('Aggregating results...');
       setProgress(90);
 
-      const avgSentiment = analysisResults.reduce((sum, r) => sum + r.polarityScore, 0) / analysisResults.length;
-      const nodeAnalysisData = aggregateNodeAnalysis(analysisResults);
-
-      // Update time series with results for Reddit
-      if (sourceType === 'reddit' && data.length > 0) {
-        try {
-          const timeSeries = extractTimeSeriesData(data as RedditData[], analysisResults);
-          setTimeSeriesData(timeSeries);
-        } catch {
-          // Keep existing time series
-        }
-      }
-
-      setProgress(100);
-      setResults(analysisResults);
-      setOverallSentiment(avgSentiment * 100);
-      setNodeAnalysis(nodeAnalysisData);
-
-      toast({
-        title: 'Analysis complete',
-        description: `Analyzed ${textsToAnalyze.length} texts across ${nodeAnalysisData.length} topics.`,
-      });
+      const nodeAnalysisData = showAnalysisResults(
+        analysisResults,
+        sourceType,
+        textMetadata,
+        sourceType === 'reddit' ? data as RedditData[] : undefined
+      );
+      notifyAnalysisOutcome(analysisResults, nodeAnalysisData.length, finalJob);
 
       // Switch to results
       setCurrentStep('results');
@@ -229,6 +425,15 @@ const Index = () => {
     }
   };
 
+  // Add a node promoted from topic discovery to the saved node list
+  const handlePromoteNode = (node: Node) => {
+    setAllNodes(prev => {
+      const updated = [...prev, node];
+      localStorage.setItem('sentiment-nodes', JSON.stringify(updated));
+      return updated;
+    });
+  };
+
   // Navigation handlers
   const handleGoHome = () => {
     transitionToStep('source');
@@ -246,6 +451,56 @@ const Index = () => {
     }
   };
 
+  // Resume a paused job (or reconnect to a running one) from the archive; the server holds its inputs
+  const handleResumeJob = async (job: AnalysisJobRecord) => {
+    setScrapedDataCount(job.total_texts);
+    setCurrentStep('loading');
+    setProgress(0);
+    setLoadingStep(4);
+    setAnalysisStatus('Reconnecting to analysis job...');
+
+    try {
+      let finalJob: ServerJobUpdate | null = null;
+      const analysisResults = await resumeSentimentAnalysisJob(
+        job.id,
+        (p) => setProgress(20 + p * 0.65),
+        (status) => setAnalysisStatus(status),
+        {
+          minNodeConfidence: analysisSettings.minNodeConfidence,
+          maxCostUsd: analysisSettings.maxCostUsd ?? undefined,
+          onJob: (update) => {
+            finalJob = update;
+            recordJob(update, job);
+          },
+        }
+      );
+
+      setLoadingStep(5);
+      setAnalysisStatus('Aggregating results...');
+      setProgress(90);
+
+      // The original scrape is not kept with the job, so there is no per-text metadata or time series
+      setSources([{ name: job.source_type === 'reddit' ? 'Reddit' : 'Semantic Scholar', value: analysisResults.length }]);
+      setTimeSeriesData([]);
+      const nodeAnalysisData = showAnalysisResults(analysisResults, job.source_type, new Map());
+      notifyAnalysisOutcome(analysisResults, nodeAnalysisData.length, finalJob);
+
+      setCurrentStep('results');
+    } catch (error) {
+      console.error('Resume error:', error);
+      toast({
+        title: 'Resume failed',
+        description: error instanceof Error ? error.message : 'An error occurred',
+        variant: 'destructive',
+      });
+      setCurrentStep('archive');
+    } finally {
+      setProgress(0);
+      setLoadingStep(1);
+      setAnalysisStatus('');
+    }
+  };
+
   // Render based on current step
   const renderContent = () => {
     switch (currentStep) {
@@ -271,7 +526,14 @@ const Index = () => {
       case 'source':
         return (
           <div className={`relative z-10 w-full transition-all duration-300 ${isTransitioning ? 'opacity-0 scale-95' : 'opacity-100 scale-100'}`}>
-            <SourceSelector onSelect={handleSourceSelect} onBack={() => transitionToStep('nodes')} />
+            <SourceSelector onSelect={handleSourceSelect} onBack={() => transitionToStep('nodes')}>
+              <AnalysisModeSelector
+                settings={analysisSettings}
+                onChange={handleAnalysisSettingsChange}
+                onClearCache={handleClearAnalysisCache}
+              />
+              <KPIEditor kpis={kpis} onSave={handleKPIsSave} onReset={handleKPIsReset} />
+            </SourceSelector>
           </div>
         );
 
@@ -281,12 +543,16 @@ const Index = () => {
             {selectedSource === 'reddit' ? (
               <RedditScraperSimplified
                 nodes={selectedNodes}
+                kpiCount={kpis.length}
+                analysisSettings={analysisSettings}
                 onScrapeAndAnalyze={(data) => handleScrapeAndAnalyze(data, 'reddit')}
                 onBack={() => transitionToStep('source')}
               />
             ) : (
               <PaperScraperSimplified
                 nodes={selectedNodes}
+                kpiCount={kpis.length}
+                analysisSettings={analysisSettings}
                 onScrapeAndAnalyze={(data) => handleScrapeAndAnalyze(data, 'papers')}
                 onBack={() => transitionToStep('source')}
               />
@@ -306,6 +572,13 @@ const Index = () => {
             nodeAnalysis={nodeAnalysis}
             timeSeriesData={timeSeriesData}
             sources={sources}
+            kpis={kpis}
+            topicKeyphrases={topicKeyphrases}
+            subredditKeyphrases={subredditKeyphrases}
+            trendingThemes={trendingThemes}
+            nodes={selectedNodes}
+            redditData={redditData}
+            onPromoteNode={handlePromoteNode}
             onGoHome={handleGoHome}
             onViewArchive={handleViewArchive}
           />
@@ -317,6 +590,7 @@ const Index = () => {
             sourceType={selectedSource || 'reddit'}
             onGoHome={handleGoHome}
             onLoadScrape={handleArchiveLoad}
+            onResumeJob={handleResumeJob}
           />
         );
 
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Coins, Home, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useLLMUsage } from "@/hooks/useLLMUsage";
+import { formatTokens, formatUsd } from "@/utils/sentiment/analyzers/costEstimate";
+import type { UsageBucket } from "@/types/usage";
+
+const PERIODS = [7, 30, 90];
+
+const averageLatency = (bucket: UsageBucket) =>
+  bucket.calls > 0 ? `${(bucket.latencyMs / bucket.calls / 1000).toFixed(1)}s` : "-";
+
+const Usage = () => {
+  const navigate = useNavigate();
+  const [days, setDays] = useState(30);
+  const { summary, isLoading, error, refresh } = useLLMUsage(days);
+
+  const caps = summary?.caps;
+  const capLabel = (cap: number | null | undefined) => (cap == null ? "None" : formatUsd(cap));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">LLM Usage</h1>
+            <p className="text-muted-foreground">
+              Tokens, latency and estimated cost of the model calls made by analysis and keyword generation
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => refresh()} disabled={isLoading} className="gap-2">
+              <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate("/")} className="gap-2">
+              <Home className="w-4 h-4" />
+              Home
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          {PERIODS.map(period => (
+            <Button
+              key={period}
+              variant={period === days ? "default" : "outline"}
+              size="sm"
+              onClick={() => setDays(period)}
+            >
+              Last {period} days
+            </Button>
+          ))}
+        </div>
+
+        {error && (
+          <Card className="mb-6 border-destructive/50">
+            <CardContent className="py-4 text-sm text-destructive">{error}</CardContent>
+          </Card>
+        )}
+
+        {summary && !summary.stored && (
+          <Card className="mb-6">
+            <CardContent className="py-4 text-sm text-muted-foreground">
+              The server has no database access configured, so no usage is being recorded.
+            </CardContent>
+          </Card>
+        )}
+
+        {summary && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Estimated cost</CardDescription>
+                  <CardTitle className="text-2xl tabular-nums">{formatUsd(summary.totals.costUsd)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Tokens (prompt / completion)</CardDescription>
+                  <CardTitle className="text-2xl tabular-nums">
+                    {formatTokens(summary.totals.promptTokens)} / {formatTokens(summary.totals.completionTokens)}
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Calls (retries, errors)</CardDescription>
+                  <CardTitle className="text-2xl tabular-nums">
+                    {summary.totals.calls} ({summary.totals.retries}, {summary.totals.errors})
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Spent today (UTC)</CardDescription>
+                  <CardTitle className="text-2xl tabular-nums">{formatUsd(summary.spentTodayUsd)}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground font-mono">
+                  Caps: {capLabel(caps?.perRunUsd)} per run, {capLabel(caps?.perDayUsd)} per day
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Coins className="w-5 h-5" />
+                  Per day
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {summary.byDay.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No model calls in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Day</TableHead>
+                        <TableHead className="text-right">Calls</TableHead>
+                        <TableHead className="text-right">Retries</TableHead>
+                        <TableHead className="text-right">Prompt tokens</TableHead>
+                        <TableHead className="text-right">Completion tokens</TableHead>
+                        <TableHead className="text-right">Avg latency</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {summary.byDay.map(day => (
+                        <TableRow key={day.date}>
+                          <TableCell className="font-mono">{day.date}</TableCell>
+                          <TableCell className="text-right tabular-nums">{day.calls}</TableCell>
+                          <TableCell className="text-right tabular-nums">{day.retries}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatTokens(day.promptTokens)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatTokens(day.completionTokens)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{averageLatency(day)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatUsd(day.costUsd)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Per run</CardTitle>
+                <CardDescription>An analysis job, or a single keyword request</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {summary.byRun.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No runs in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Started</TableHead>
+                        <TableHead>Function</TableHead>
+                        <TableHead>Model</TableHead>
+                        <TableHead className="text-right">Calls</TableHead>
+                        <TableHead className="text-right">Tokens</TableHead>
+                        <TableHead className="text-right">Avg latency</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {summary.byRun.map(run => (
+                        <TableRow key={run.runId}>
+                          <TableCell className="font-mono" title={run.runId}>
+                            {format(new Date(run.startedAt), "MMM d, HH:mm")}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="font-mono text-xs">{run.functionName}</Badge>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{run.model}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {run.calls}
+                            {(run.retries > 0 || run.errors > 0) && (
+                              <span className="text-muted-foreground"> ({run.retries} retries, {run.errors} errors)</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatTokens(run.promptTokens + run.completionTokens)}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{averageLatency(run)}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatUsd(run.costUsd)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Usage;
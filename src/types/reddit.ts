@@ -1,3 +1,5 @@
+import type { EnhancedText } from '@/utils/sentiment/utils/textPreprocessor';
+
 export interface RedditPost {
   id: string;
   parsedId: string;
@@ -20,6 +22,9 @@ export interface RedditPost {
   thumbnailUrl: string;
   createdAt: string;
   scrapedAt: string;
+  // Search collection: the query that found the item, and the node it was generated for
+  matchedQuery?: string;
+  matchedNodeId?: string;
   dataType: 'post';
 }
 
@@ -38,6 +43,11 @@ export interface RedditComment {
   scrapedAt: string;
   upVotes: number;
   numberOfreplies: number;
+  // Reply level below the post (0 = top-level); missing when the source has no thread structure
+  depth?: number;
+  // Search collection: the query that found the comment (or its post), and the node it was generated for
+  matchedQuery?: string;
+  matchedNodeId?: string;
   html: string;
   dataType: 'comment';
 }
@@ -48,5 +58,38 @@ export interface ParsedRedditData {
   posts: RedditPost[];
   comments: RedditComment[];
   allText: string[];
+  // Per-text metadata aligned with allText
+  texts: EnhancedText[];
   participants: Map<string, { username: string; count: number; totalUpvotes: number }>;
 }
+
+export type ScrapeJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// listing: subreddit top/hot/rising listings; search: Reddit and Arctic Shift search by node keywords;
+// backfill: everything the Arctic Shift archive has for the subreddits over an explicit date range
+export type RedditCollectionMode = 'listing' | 'search' | 'backfill';
+
+// Progress of a background bulk scrape, from scrape-reddit-bulk's status action
+export interface ScrapeJobProgress {
+  id: string;
+  status: ScrapeJobStatus;
+  error: string | null;
+  mode: RedditCollectionMode;
+  // The subreddits listed, or the search scope
+  subreddits: string[];
+  // What the job works through: subreddits, "<node>: <term>" search queries, or
+  // "<subreddit> <YYYY-MM-DD>" backfill windows
+  units: string[];
+  // Units scraped and checkpointed so far, from the start of the list
+  completedUnits: number;
+  currentBatch: string[];
+  // Function invocations the job has used; each scrapes a slice of the list
+  invocations: number;
+  // An invocation is scraping right now
+  active: boolean;
+  // The synchronous response's summary, once completed
+  summary: Record<string, unknown> | null;
+  dataSourceId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -5,36 +5,141 @@ export interface Node {
 }
 
 /**
- * KPI scores measure specific qualities in the text.
+ * A KPI dimension scored for every text.
+ *
+ * - positive: the KPI rises with positive sentiment (e.g. trust)
+ * - inverted: the KPI rises with negative sentiment (e.g. frustration)
+ */
+export type KPIPolarity = 'positive' | 'inverted';
+
+export interface KPIDefinition {
+  id: string;           // Stable key used in KPIScore, exports and the server tool schema
+  label: string;
+  polarity: KPIPolarity;
+  description?: string; // Short guidance passed to the LLM
+  concepts: string[];   // Lexicon used for concept embeddings and keyword matching
+  weights?: Record<string, number>; // Per-concept keyword weights (default 1.0)
+}
+
+/**
+ * KPI scores measure specific qualities in the text, keyed by KPIDefinition.id.
  * Range: -1.0 (strongly negative) to +1.0 (strongly positive)
  * 
  * - Positive values indicate presence of the quality with positive sentiment
  * - Negative values indicate discussion of the quality with negative sentiment
  * - Values near 0 indicate neutral or absent discussion
  */
-export interface KPIScore {
-  trust: number;      // -1.0 to +1.0
-  optimism: number;   // -1.0 to +1.0
-  frustration: number; // -1.0 to +1.0
-  clarity: number;    // -1.0 to +1.0
-  access: number;     // -1.0 to +1.0
-  fairness: number;   // -1.0 to +1.0
+export type KPIScore = Record<string, number>;
+
+/**
+ * Aspect-level scores for one node mentioned in a text (multi-label mode).
+ * Polarity and KPIs are computed on the sentences attributed to this node, not the whole text.
+ */
+export interface NodeScore {
+  nodeId: string;
+  nodeName: string;
+  similarity: number;   // Cosine similarity between the whole text and the node
+  weight: number;       // Share of the text attributed to this node; weights sum to 1 per text
+  polarity: 'positive' | 'neutral' | 'negative';
+  polarityScore: number;
+  kpiScores: KPIScore;
+  confidence: number;
+  span: string;         // Sentences attributed to this node
 }
 
-export interface SentimentResult {
+/**
+ * How a result was produced.
+ *
+ * - analyzed: scored on the first attempt
+ * - retried: scored on a retry after the first attempt failed or came back mostly empty
+ * - recovered-from-malformed: salvaged from malformed model output (broken tool call or free text)
+ * - defaulted: no model output matched the text; neutral placeholder values, excluded from aggregates
+ */
+export type ResultStatus = 'analyzed' | 'retried' | 'recovered-from-malformed' | 'defaulted';
+
+export type AnalyzerKind = 'local' | 'server' | 'ensemble';
+
+// A text sent for server analysis, with the caller's id (Reddit item id, paper id) for joining results back
+export interface AnalysisTextItem {
+  id: string;
   text: string;
+}
+
+// How much of a text the server's model saw: long texts are sent as sentence chunks,
+// and texts with more chunks than fit are excerpted
+export interface TextCoverage {
+  seenChars: number;     // Characters in chunks the model returned a score for
+  totalChars: number;
+  chunks: number;        // Chunks the text was split into (1 for texts sent whole)
+  chunksScored: number;
+}
+
+// Why the ensemble sent a text to the LLM
+export type EnsembleRouteReason = 'local-failed' | 'low-confidence' | 'weak-node-match' | 'signal-disagreement';
+
+// One analyzer's verdict on a text, kept on ensemble results next to the merged scores
+export interface AnalyzerVerdict {
   nodeId: string;
+  polarity: 'positive' | 'neutral' | 'negative';
+  polarityScore: number;
+  kpiScores: KPIScore;
+  confidence: number;
+  model?: string;
+}
+
+export interface EnsembleDetail {
+  local?: AnalyzerVerdict;     // Missing when the local model failed on the text
+  llm?: AnalyzerVerdict;       // Missing when the text was not routed or the LLM returned nothing usable
+  routeReason?: EnsembleRouteReason;
+  llmWeight: number;           // Weight the LLM verdict got in the merge (0 when there is none)
+  agreement?: number;          // 0..1 polarity agreement between the two verdicts, when both exist
+  sameNode?: boolean;
+}
+
+// A verbatim span of a text backing part of its verdict; start/end are character offsets into the text
+export interface EvidenceSpan {
+  quote: string;
+  supports: 'polarity' | 'node' | string; // A KPI id for KPI evidence
+  start: number;
+  end: number;
+}
+
+// Explain mode: the LLM's reasoning for a result
+export interface ResultExplanation {
+  rationale: string;
+  evidence: EvidenceSpan[];
+}
+
+// Server analysis job lifecycle; paused jobs stopped early (rate limit, credits, failed batches) and can be resumed
+export type AnalysisJobStatus = 'running' | 'paused' | 'completed';
+
+export interface SentimentResult {
+  id?: string;          // AnalysisTextItem id the result belongs to (server analysis)
+  text: string;
+  nodeId: string;       // Best matching node, or 'unassigned' when no node clears the minimum similarity
   nodeName: string;
+  nodeConfidence?: number; // Node-match similarity (local: cosine to the node embedding; server: model-reported)
   polarity: 'positive' | 'neutral' | 'negative';
   polarityScore: number;
   kpiScores: KPIScore;
   confidence: number;
+  nodeScores?: NodeScore[]; // Present when the text matched more than one node in multi-label mode
+  sentimentModel?: string;  // Local sentiment model registry id that produced polarity
+  status?: ResultStatus;    // Missing on results saved before provenance was recorded; treated as analyzed
+  analyzer?: AnalyzerKind;
+  model?: string;           // Model that produced the scores (Hugging Face id locally, LLM id on the server)
+  textCoverage?: TextCoverage; // Server results only; missing means the whole text was scored
+  ensemble?: EnsembleDetail;   // Ensemble results only
+  explanation?: ResultExplanation; // Server results from explain mode
+  cached?: boolean;         // Server result reused from the result cache instead of a new model call
+  language?: string;        // Detected ISO 639-1 code, or 'und'; missing on results saved before detection
 }
 
 export interface NodeAnalysis {
   nodeId: string;
   nodeName: string;
   totalTexts: number;
+  avgNodeConfidence?: number; // Mean node-match confidence over texts that report one
   avgPolarity: number;
   avgKpiScores: KPIScore;
   sentimentDistribution: {
@@ -0,0 +1,66 @@
+// LLM usage as reported by the edge functions (analyze-sentiment events, llm-usage summaries)
+
+export interface LLMUsageTotals {
+  calls: number;
+  retries: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  // Summed over calls; parallel calls overlap, so this exceeds wall-clock time
+  latencyMs: number;
+}
+
+// List price in USD per million tokens
+export interface ModelPrice {
+  inputPerM: number;
+  outputPerM: number;
+}
+
+// Server-side spend caps in USD; null when not configured
+export interface SpendCaps {
+  perRunUsd: number | null;
+  perDayUsd: number | null;
+}
+
+export interface UsageBucket extends LLMUsageTotals {
+  errors: number;
+}
+
+export interface DailyUsage extends UsageBucket {
+  date: string;         // UTC day, YYYY-MM-DD
+}
+
+export interface RunUsage extends UsageBucket {
+  runId: string;        // Analysis job id, or a per-request id
+  functionName: string;
+  model: string;
+  startedAt: string;
+  endedAt: string;
+}
+
+export interface LLMUsageSummary {
+  days: number;
+  totals: UsageBucket;
+  byDay: DailyUsage[];  // Most recent first
+  byRun: RunUsage[];    // Most recent first, capped server-side
+  caps: SpendCaps;
+  spentTodayUsd: number;
+  // False when the server has no database access and keeps no usage rows
+  stored: boolean;
+}
+
+// Price of the analysis model, for estimating a run before it starts
+export interface LLMPricing {
+  provider: string;
+  model: string;
+  price: ModelPrice;
+  caps: SpendCaps;
+  spentTodayUsd: number;
+}
+
+export interface RunCostEstimate {
+  llmTexts: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
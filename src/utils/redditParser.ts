@@ -44,6 +44,7 @@ export function parseRedditJSON(jsonData: RedditData[]): ParsedRedditData {
     posts,
     comments,
     allText,
+    texts: enhancedTexts,
     participants,
   };
 }
@@ -0,0 +1,110 @@
+import { DEFAULT_ENSEMBLE_CONFIG, type EnsembleConfig } from './ensemble';
+import { DEFAULT_NODE_SIMILARITY_THRESHOLD } from './localAnalyzer';
+import { DEFAULT_MIN_NODE_CONFIDENCE, DEFAULT_MIN_NODE_SIMILARITY } from '../nodes/nodeAssignment';
+import { DEFAULT_SENTIMENT_MODEL, SENTIMENT_MODELS } from '../models/sentimentModelRegistry';
+
+const STORAGE_KEY = 'sentiment-analysis-settings';
+
+// 'server' sends every text to the LLM; 'ensemble' scores locally and sends only uncertain texts
+export type AnalysisMode = 'server' | 'ensemble';
+
+export interface AnalysisSettings {
+  mode: AnalysisMode;
+  ensemble: EnsembleConfig;
+  // Ask the LLM for a rationale and evidence spans per text
+  explain: boolean;
+  // Reuse server results cached from earlier runs over the same texts and nodes
+  useCache: boolean;
+  // Stop a run once its LLM calls cost this much (USD); null leaves only the server's caps
+  maxCostUsd: number | null;
+  // Hybrid runs: local sentiment model registry id, see models/sentimentModelRegistry.ts
+  sentimentModel: string;
+  // Hybrid runs: score non-English texts locally with the multilingual models
+  multilingual: boolean;
+  // Hybrid runs: also score every node whose similarity clears nodeSimilarityThreshold on the
+  // sentences about it. The LLM picks a single node, so server-only runs ignore both.
+  multiLabel: boolean;
+  nodeSimilarityThreshold: number;
+  // Texts below these go to the Unassigned bucket: MiniLM cosine to the best node for local
+  // results (hybrid runs), the LLM's reported node confidence for server results
+  minNodeSimilarity: number;
+  minNodeConfidence: number;
+}
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  mode: 'server',
+  ensemble: DEFAULT_ENSEMBLE_CONFIG,
+  explain: false,
+  useCache: true,
+  maxCostUsd: null,
+  sentimentModel: DEFAULT_SENTIMENT_MODEL,
+  multilingual: true,
+  multiLabel: false,
+  nodeSimilarityThreshold: DEFAULT_NODE_SIMILARITY_THRESHOLD,
+  minNodeSimilarity: DEFAULT_MIN_NODE_SIMILARITY,
+  minNodeConfidence: DEFAULT_MIN_NODE_CONFIDENCE,
+};
+
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+const isSentimentModel = (value: unknown): value is string =>
+  SENTIMENT_MODELS.some(model => model.id === value);
+
+const isSpendCap = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Stored values are kept field by field; anything missing or out of range falls back to the default
+export function loadAnalysisSettings(): AnalysisSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      const storedEnsemble = parsed?.ensemble ?? {};
+      const ensemble = { ...DEFAULT_ENSEMBLE_CONFIG };
+      (Object.keys(ensemble) as Array<keyof EnsembleConfig>).forEach(key => {
+        if (isFraction(storedEnsemble[key])) ensemble[key] = storedEnsemble[key];
+      });
+      return {
+        mode: parsed?.mode === 'ensemble' ? 'ensemble' : 'server',
+        ensemble,
+        explain: parsed?.explain === true,
+        useCache: parsed?.useCache !== false,
+        maxCostUsd: isSpendCap(parsed?.maxCostUsd) ? parsed.maxCostUsd : null,
+        sentimentModel: isSentimentModel(parsed?.sentimentModel) ? parsed.sentimentModel : DEFAULT_SENTIMENT_MODEL,
+        multilingual: parsed?.multilingual !== false,
+        multiLabel: parsed?.multiLabel === true,
+        nodeSimilarityThreshold: isFraction(parsed?.nodeSimilarityThreshold)
+          ? parsed.nodeSimilarityThreshold
+          : DEFAULT_NODE_SIMILARITY_THRESHOLD,
+        minNodeSimilarity: isFraction(parsed?.minNodeSimilarity) ? parsed.minNodeSimilarity : DEFAULT_MIN_NODE_SIMILARITY,
+        minNodeConfidence: isFraction(parsed?.minNodeConfidence) ? parsed.minNodeConfidence : DEFAULT_MIN_NODE_CONFIDENCE,
+      };
+    }
+  } catch {
+    // Corrupt or inaccessible storage - use defaults
+  }
+  return DEFAULT_ANALYSIS_SETTINGS;
+}
+
+export function saveAnalysisSettings(settings: AnalysisSettings): void {
+  const invalid = (Object.keys(settings.ensemble) as Array<keyof EnsembleConfig>).find(
+    key => !isFraction(settings.ensemble[key])
+  );
+  if (invalid) {
+    throw new Error(`Ensemble setting ${invalid} must be between 0 and 1`);
+  }
+  if (!isSentimentModel(settings.sentimentModel)) {
+    throw new Error(`Unknown sentiment model ${settings.sentimentModel}`);
+  }
+  if (!isFraction(settings.nodeSimilarityThreshold)) {
+    throw new Error('Node similarity threshold must be between 0 and 1');
+  }
+  if (!isFraction(settings.minNodeSimilarity) || !isFraction(settings.minNodeConfidence)) {
+    throw new Error('Minimum node similarity and confidence must be between 0 and 1');
+  }
+  if (settings.maxCostUsd !== null && !isSpendCap(settings.maxCostUsd)) {
+    throw new Error('Spend cap must be a positive amount');
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,180 @@
+import type { Node, SentimentResult } from '@/types/sentiment';
+import type { SentimentWorkerRequest, SentimentWorkerResponse } from '@/workers/sentimentWorker';
+import { ANALYSIS_CANCELLED_MESSAGE, type LocalAnalysisConfig } from './localAnalyzer';
+
+// Each worker holds its own copy of both models (~100MB), so keep the pool small
+const MAX_WORKERS = 4;
+// Below this many texts per shard, model start-up dominates and extra workers only cost memory
+const MIN_TEXTS_PER_WORKER = 200;
+
+interface PendingJob {
+  slot: number;
+  onStatus: (status: string) => void;
+  onBatch: (results: SentimentResult[], processedCount: number) => void;
+  resolve: (results: SentimentResult[]) => void;
+  reject: (error: Error) => void;
+}
+
+const workers: Array<Worker | null> = [];
+let jobCounter = 0;
+const pendingJobs = new Map<number, PendingJob>();
+
+export interface WorkerPoolOptions {
+  workerCount?: number;
+  config?: LocalAnalysisConfig;
+  signal?: AbortSignal;
+  onProgress?: (processedCount: number) => void;
+  onStatus?: (status: string) => void;
+  onBatch?: (results: SentimentResult[]) => void;
+}
+
+export function isWorkerPoolSupported(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+export function getDefaultWorkerCount(textCount: number): number {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2;
+  // Leave one core for the UI thread
+  const byCores = Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+  const byWorkload = Math.max(1, Math.ceil(textCount / MIN_TEXTS_PER_WORKER));
+  return Math.min(byCores, byWorkload);
+}
+
+function getWorker(slot: number): Worker {
+  let worker = workers[slot];
+  if (!worker) {
+    worker = new Worker(new URL('../../../workers/sentimentWorker.ts', import.meta.url), {
+      type: 'module'
+    });
+
+    worker.onmessage = (e: MessageEvent<SentimentWorkerResponse>) => {
+      const message = e.data;
+      const job = pendingJobs.get(message.id);
+
+      if (!job) return;
+
+      if (message.type === 'status') {
+        job.onStatus(message.status);
+      } else if (message.type === 'batch') {
+        job.onBatch(message.results, message.processedCount);
+      } else if (message.type === 'complete') {
+        job.resolve(message.results);
+        pendingJobs.delete(message.id);
+      } else if (message.type === 'error') {
+        job.reject(new Error(message.error));
+        pendingJobs.delete(message.id);
+      }
+    };
+
+    worker.onerror = (error) => {
+      console.error(`Sentiment worker ${slot} error:`, error);
+      pendingJobs.forEach((job, id) => {
+        if (job.slot !== slot) return;
+        job.reject(new Error('Sentiment worker crashed'));
+        pendingJobs.delete(id);
+      });
+      workers[slot] = null;
+    };
+
+    workers[slot] = worker;
+  }
+  return worker;
+}
+
+function cancelJobs(jobIds: number[]) {
+  jobIds.forEach((id) => {
+    const job = pendingJobs.get(id);
+    if (!job) return;
+    const cancel: SentimentWorkerRequest = { type: 'cancel', id };
+    workers[job.slot]?.postMessage(cancel);
+    pendingJobs.delete(id);
+  });
+}
+
+function splitIntoShards(texts: string[], shardCount: number): string[][] {
+  const shardSize = Math.ceil(texts.length / shardCount);
+  const shards: string[][] = [];
+  for (let i = 0; i < texts.length; i += shardSize) {
+    shards.push(texts.slice(i, i + shardSize));
+  }
+  return shards;
+}
+
+/**
+ * Shards texts across a pool of sentiment workers and streams results back per batch.
+ * Results are returned in the same order as the input texts (failed texts are dropped, as in the in-thread path).
+ */
+export async function analyzeInWorkerPool(
+  texts: string[],
+  nodes: Node[],
+  options: WorkerPoolOptions = {}
+): Promise<SentimentResult[]> {
+  const { signal, onProgress, onStatus, onBatch, config = {} } = options;
+
+  if (signal?.aborted) {
+    throw new Error(ANALYSIS_CANCELLED_MESSAGE);
+  }
+
+  const workerCount = Math.max(1, Math.min(options.workerCount ?? getDefaultWorkerCount(texts.length), MAX_WORKERS));
+  const shards = splitIntoShards(texts, workerCount);
+  const processedPerShard = shards.map(() => 0);
+  const jobIds: number[] = [];
+  const startTime = Date.now();
+
+  console.log(`Dispatching ${texts.length} texts to ${shards.length} sentiment worker(s)`);
+
+  const reportBatch = (shardIndex: number, results: SentimentResult[], processedCount: number) => {
+    processedPerShard[shardIndex] = processedCount;
+    const processed = processedPerShard.reduce((sum, count) => sum + count, 0);
+
+    if (onBatch) onBatch(results);
+    if (onProgress) onProgress(processed);
+
+    if (onStatus) {
+      const rate = processed / (Date.now() - startTime);
+      const etaSeconds = rate > 0 ? Math.round((texts.length - processed) / rate / 1000) : 0;
+      onStatus(`Analyzed ${processed}/${texts.length} texts across ${shards.length} worker(s) • ETA: ${etaSeconds}s`);
+    }
+  };
+
+  const shardPromises = shards.map((shardTexts, shardIndex) => {
+    const id = ++jobCounter;
+    jobIds.push(id);
+
+    return new Promise<SentimentResult[]>((resolve, reject) => {
+      pendingJobs.set(id, {
+        slot: shardIndex,
+        // Phase updates are identical across workers, so only surface the first one's until batches arrive
+        onStatus: (status) => {
+          if (shardIndex === 0 && processedPerShard.every(count => count === 0) && onStatus) onStatus(status);
+        },
+        onBatch: (results, processedCount) => reportBatch(shardIndex, results, processedCount),
+        resolve,
+        reject,
+      });
+
+      const request: SentimentWorkerRequest = { type: 'analyze', id, texts: shardTexts, nodes, config };
+      getWorker(shardIndex).postMessage(request);
+    });
+  });
+
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      cancelJobs(jobIds);
+      reject(new Error(ANALYSIS_CANCELLED_MESSAGE));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    const shardResults = await Promise.race([Promise.all(shardPromises), aborted]);
+    return shardResults.flat();
+  } catch (error) {
+    // A failing shard should not leave its siblings burning CPU
+    cancelJobs(jobIds);
+    throw error;
+  } finally {
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+  }
+}
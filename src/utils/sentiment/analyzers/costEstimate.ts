@@ -0,0 +1,78 @@
+import type { ModelPrice, RunCostEstimate } from '@/types/usage';
+
+// Mirrors analyze-sentiment's batch planning, assuming a large-context model
+const CHARS_PER_TOKEN = 4;
+const MAX_OUTPUT_TOKENS = 30000;
+const MAX_BATCH_INPUT_TOKENS = 24000;
+const MAX_UNITS_PER_BATCH = 100;
+const CHUNK_TOKENS = 400;
+const MAX_CHUNKS_PER_TEXT = 8;
+const RESULT_BASE_TOKENS = 60;
+const RESULT_TOKENS_PER_KPI = 6;
+const RESULT_EXPLAIN_TOKENS = 150;
+// The "[i] id=..." prefix each text gets in the prompt
+const UNIT_PREFIX_TOKENS = 10;
+// System prompt: fixed instructions plus one line per KPI and a short entry per node
+const SYSTEM_BASE_TOKENS = 250;
+const SYSTEM_TOKENS_PER_KPI = 30;
+const SYSTEM_TOKENS_PER_NODE = 8;
+const SYSTEM_EXPLAIN_TOKENS = 60;
+
+export interface RunCostInput {
+  textCount: number;
+  // Mean characters per text
+  avgChars: number;
+  kpiCount: number;
+  nodeCount: number;
+  explain: boolean;
+  // Share of texts sent to the LLM: 1 for server runs, maxLLMShare for hybrid runs
+  llmShare: number;
+  price: ModelPrice;
+}
+
+/**
+ * Rough tokens and cost of an analysis run before it starts. Texts are sized at the mean
+ * length; retries and cache hits are not counted, so cached reruns cost less than this.
+ */
+export function estimateRunCost(input: RunCostInput): RunCostEstimate {
+  const llmTexts = Math.ceil(input.textCount * Math.min(1, Math.max(0, input.llmShare)));
+  if (llmTexts === 0 || input.avgChars <= 0) {
+    return { llmTexts, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+  }
+
+  // Long texts are scored in chunks, each chunk a result of its own; very long ones are excerpted
+  const textTokens = Math.ceil(input.avgChars / CHARS_PER_TOKEN);
+  const chunks = Math.min(MAX_CHUNKS_PER_TEXT, Math.max(1, Math.ceil(textTokens / CHUNK_TOKENS)));
+  const seenTokens = Math.min(textTokens, chunks * CHUNK_TOKENS);
+  const units = llmTexts * chunks;
+  const unitTokens = seenTokens / chunks + UNIT_PREFIX_TOKENS;
+
+  const resultTokens = RESULT_BASE_TOKENS + RESULT_TOKENS_PER_KPI * input.kpiCount
+    + (input.explain ? RESULT_EXPLAIN_TOKENS : 0);
+  const unitsPerBatch = Math.max(1, Math.min(
+    MAX_UNITS_PER_BATCH,
+    Math.floor(MAX_OUTPUT_TOKENS / resultTokens),
+    Math.floor(MAX_BATCH_INPUT_TOKENS / unitTokens)
+  ));
+  const batches = Math.ceil(units / unitsPerBatch);
+  const systemTokens = SYSTEM_BASE_TOKENS + SYSTEM_TOKENS_PER_KPI * input.kpiCount
+    + SYSTEM_TOKENS_PER_NODE * input.nodeCount + (input.explain ? SYSTEM_EXPLAIN_TOKENS : 0);
+
+  const promptTokens = Math.round(units * unitTokens + batches * systemTokens);
+  const completionTokens = units * resultTokens;
+  const costUsd = (promptTokens * input.price.inputPerM + completionTokens * input.price.outputPerM) / 1_000_000;
+  return { llmTexts, promptTokens, completionTokens, costUsd };
+}
+
+// "$0.0042", "$1.25"; small amounts keep enough digits to be told apart from zero
+export function formatUsd(amount: number): string {
+  if (amount === 0) return '$0.00';
+  if (amount < 0.01) return `$${amount.toFixed(4)}`;
+  return `$${amount.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
@@ -0,0 +1,170 @@
+import type {
+  AnalyzerVerdict,
+  EnsembleRouteReason,
+  KPIDefinition,
+  SentimentResult,
+} from '@/types/sentiment';
+import { isScored } from '../results/resultStatus';
+
+export interface EnsembleConfig {
+  // Local results below this sentiment confidence go to the LLM
+  confidenceThreshold: number;
+  // ...or below this node-match confidence
+  nodeConfidenceThreshold: number;
+  // ...or whose local signals disagree at least this much (0..1, see localDisagreement)
+  disagreementThreshold: number;
+  // At most this share of all texts is sent to the LLM; the most uncertain go first.
+  // Texts the local model failed on are always sent and do not count against it.
+  maxLLMShare: number;
+  // Weight of the LLM verdict when merging (0..1); the local verdict gets the rest
+  llmWeight: number;
+}
+
+export const DEFAULT_ENSEMBLE_CONFIG: EnsembleConfig = {
+  confidenceThreshold: 0.7,
+  nodeConfidenceThreshold: 0.3,
+  disagreementThreshold: 0.5,
+  maxLLMShare: 0.3,
+  llmWeight: 0.7,
+};
+
+export interface EnsembleRoute {
+  id: string;
+  reason: EnsembleRouteReason;
+  // 0..1, how far past its threshold the text is; decides who fits under maxLLMShare
+  uncertainty: number;
+}
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+/**
+ * How much the local result's own signals contradict each other (0..1): polarity against the
+ * KPI scores read in the positive direction, and, for multi-label results, polarity spread
+ * across the nodes the text mentions.
+ */
+export function localDisagreement(result: SentimentResult, kpis: KPIDefinition[]): number {
+  const oriented = kpis
+    .filter(kpi => result.kpiScores[kpi.id] !== undefined)
+    .map(kpi => (kpi.polarity === 'inverted' ? -result.kpiScores[kpi.id] : result.kpiScores[kpi.id]));
+  const kpiDisagreement = oriented.length > 0 ? Math.abs(result.polarityScore - mean(oriented)) / 2 : 0;
+
+  const aspectScores = (result.nodeScores ?? []).map(score => score.polarityScore);
+  const aspectSpread = aspectScores.length > 1 ? (Math.max(...aspectScores) - Math.min(...aspectScores)) / 2 : 0;
+
+  return Math.min(1, Math.max(kpiDisagreement, aspectSpread));
+}
+
+/**
+ * Pick the texts the LLM should see. `localById` holds the local result per text id;
+ * ids without one are local failures and always routed.
+ */
+export function selectForLLM(
+  ids: string[],
+  localById: Map<string, SentimentResult>,
+  kpis: KPIDefinition[],
+  config: EnsembleConfig
+): EnsembleRoute[] {
+  const failed: EnsembleRoute[] = [];
+  const candidates: EnsembleRoute[] = [];
+
+  ids.forEach(id => {
+    const local = localById.get(id);
+    if (!local || !isScored(local)) {
+      failed.push({ id, reason: 'local-failed', uncertainty: 1 });
+      return;
+    }
+
+    // Each check scores how far past its threshold the text is; the largest one names the reason
+    const checks: Array<[EnsembleRouteReason, number]> = [
+      ['low-confidence', (config.confidenceThreshold - local.confidence) / Math.max(config.confidenceThreshold, 1e-6)],
+      ['weak-node-match', local.nodeConfidence === undefined
+        ? -1
+        : (config.nodeConfidenceThreshold - local.nodeConfidence) / Math.max(config.nodeConfidenceThreshold, 1e-6)],
+      ['signal-disagreement', (localDisagreement(local, kpis) - config.disagreementThreshold) / Math.max(1 - config.disagreementThreshold, 1e-6)],
+    ];
+    const [reason, excess] = checks.reduce((worst, check) => (check[1] > worst[1] ? check : worst));
+    if (excess >= 0) candidates.push({ id, reason, uncertainty: Math.min(1, excess) });
+  });
+
+  const budget = Math.floor(ids.length * Math.max(0, Math.min(1, config.maxLLMShare)));
+  const chosen = candidates.sort((a, b) => b.uncertainty - a.uncertainty).slice(0, budget);
+  return [...failed, ...chosen];
+}
+
+export function toVerdict(result: SentimentResult): AnalyzerVerdict {
+  return {
+    nodeId: result.nodeId,
+    polarity: result.polarity,
+    polarityScore: result.polarityScore,
+    kpiScores: result.kpiScores,
+    confidence: result.confidence,
+    model: result.model,
+  };
+}
+
+// 1 when both polarity scores match, 0 when they sit at opposite ends of -1..+1
+export function polarityAgreement(a: AnalyzerVerdict, b: AnalyzerVerdict): number {
+  return 1 - Math.min(2, Math.abs(a.polarityScore - b.polarityScore)) / 2;
+}
+
+/**
+ * Weighted merge of a routed text's local and LLM results. Scores are blended by llmWeight;
+ * the node, label and node confidence come from whichever side carries more weight.
+ */
+export function mergeEnsembleResult(
+  local: SentimentResult,
+  llm: SentimentResult,
+  reason: EnsembleRouteReason,
+  llmWeight: number
+): SentimentResult {
+  const w = Math.max(0, Math.min(1, llmWeight));
+  const blend = (localValue: number, llmValue: number) => (1 - w) * localValue + w * llmValue;
+  const leading = w >= 0.5 ? llm : local;
+  const kpiIds = Array.from(new Set([...Object.keys(local.kpiScores), ...Object.keys(llm.kpiScores)]));
+  const localVerdict = toVerdict(local);
+  const llmVerdict = toVerdict(llm);
+
+  return {
+    id: llm.id ?? local.id,
+    text: local.text,
+    nodeId: leading.nodeId,
+    nodeName: leading.nodeName,
+    nodeConfidence: leading.nodeConfidence,
+    polarity: local.polarity === llm.polarity ? local.polarity : leading.polarity,
+    polarityScore: blend(local.polarityScore, llm.polarityScore),
+    kpiScores: Object.fromEntries(kpiIds.map(id => [id, blend(local.kpiScores[id] ?? 0, llm.kpiScores[id] ?? 0)])),
+    confidence: blend(local.confidence, llm.confidence),
+    // Multi-label aspects only exist locally and would disagree with an LLM-chosen node
+    ...(leading === local && local.nodeScores && { nodeScores: local.nodeScores }),
+    sentimentModel: local.sentimentModel,
+    status: llm.status,
+    analyzer: 'ensemble',
+    model: [local.model, llm.model].filter(Boolean).join(' + '),
+    textCoverage: llm.textCoverage,
+    explanation: llm.explanation,
+    ...(llm.cached && { cached: true }),
+    language: local.language ?? llm.language,
+    ensemble: {
+      local: localVerdict,
+      llm: llmVerdict,
+      routeReason: reason,
+      llmWeight: w,
+      agreement: polarityAgreement(localVerdict, llmVerdict),
+      sameNode: local.nodeId === llm.nodeId,
+    },
+  };
+}
+
+// A text kept on one analyzer's verdict: not routed, or routed with only one side usable
+export function singleVerdictResult(result: SentimentResult, reason?: EnsembleRouteReason): SentimentResult {
+  const fromLLM = result.analyzer === 'server';
+  return {
+    ...result,
+    analyzer: 'ensemble',
+    ensemble: {
+      ...(isScored(result) && (fromLLM ? { llm: toVerdict(result) } : { local: toVerdict(result) })),
+      routeReason: reason,
+      llmWeight: fromLLM && isScored(result) ? 1 : 0,
+    },
+  };
+}
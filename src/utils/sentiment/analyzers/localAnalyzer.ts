@@ -0,0 +1,691 @@
+import type { Node, SentimentResult, KPIScore, KPIDefinition, NodeScore } from '@/types/sentiment';
+import { analyzeSentiment, analyzeSentimentBatch, initializeSentimentModel, type SentimentOutput } from '../models/sentimentModel';
+import { DEFAULT_MULTILINGUAL_SENTIMENT_MODEL, getSentimentModel, type SentimentModelDefinition } from '../models/sentimentModelRegistry';
+import {
+  generateBatchEmbeddings,
+  cosineSimilarity,
+  initializeEmbeddingModel,
+  EMBEDDING_MODEL_ID,
+  MULTILINGUAL_EMBEDDING_MODEL_ID,
+  type Embedding,
+} from '../models/embeddingModel';
+import { normalizeText, isShortText, isLongText, chunkLongText, splitSentences } from '../utils/textNormalizer';
+import { detectLanguage, isEnglishLike } from '../utils/languageDetector';
+import { DEFAULT_KPIS, createEmptyKPIScore } from '../kpis/kpiRegistry';
+import { DEFAULT_MIN_NODE_SIMILARITY, UNASSIGNED_NODE_ID, UNASSIGNED_NODE_NAME } from '../nodes/nodeAssignment';
+
+// Node keyword embeddings for the current node set, keyed by embedding model id, then node id.
+// Text, node and KPI embeddings are also persisted across sessions by embeddingStore.ts.
+const nodeEmbeddingCache = new Map<string, Map<string, Embedding>>();
+
+// Concept embeddings keyed by embedding model id, then the concept prompt, so edited KPI lexicons are re-embedded
+const kpiEmbeddingCache = new Map<string, Map<string, Embedding>>();
+
+// Vectors from different embedding models live in different spaces, so every cache is per model
+function modelCache(cache: Map<string, Map<string, Embedding>>, embeddingModelId: string): Map<string, Embedding> {
+  let entries = cache.get(embeddingModelId);
+  if (!entries) {
+    entries = new Map();
+    cache.set(embeddingModelId, entries);
+  }
+  return entries;
+}
+
+// The embedding and sentiment models a text is scored with, chosen from its detected language
+interface ModelRoute {
+  embeddingModelId: string;
+  sentimentModel: SentimentModelDefinition;
+}
+
+function buildKPIConceptText(kpi: KPIDefinition): string {
+  const name = kpi.label.toLowerCase();
+  return `This represents ${name}. It relates to: ${kpi.concepts.join(', ')}. Key aspects include ${kpi.concepts.slice(0, 3).join(' and ')}.`;
+}
+
+async function getKPIEmbeddings(
+  kpis: KPIDefinition[],
+  embeddingModelId: string = EMBEDDING_MODEL_ID
+): Promise<Map<string, Embedding>> {
+  const cache = modelCache(kpiEmbeddingCache, embeddingModelId);
+  const conceptTexts = kpis.map(buildKPIConceptText);
+  const missing = conceptTexts.filter(conceptText => !cache.has(conceptText));
+
+  if (missing.length > 0) {
+    console.log('Generating KPI concept embeddings...');
+    const embeddings = await generateBatchEmbeddings(missing, { modelId: embeddingModelId });
+    missing.forEach(conceptText => {
+      cache.set(conceptText, embeddings.get(conceptText)!);
+    });
+  }
+
+  const kpiEmbeddings = new Map<string, Embedding>();
+  kpis.forEach((kpi, index) => {
+    kpiEmbeddings.set(kpi.id, cache.get(conceptTexts[index])!);
+  });
+  return kpiEmbeddings;
+}
+
+// Tunable scoring constants - fit them against labelled data with evaluation/thresholdFitter.ts
+export const SHORT_TEXT_POLARITY_DAMPING = 0.75;
+export const KPI_KEYWORD_BOOST = 0.20;
+
+// Negation words for context-aware keyword matching
+const NEGATION_WORDS = [
+  'not', 'no', 'never', 'dont', 'didnt', 'wont', 'cant', 'couldnt', 'shouldnt',
+  'wouldnt', 'isnt', 'arent', 'wasnt', 'werent', 'lack', 'without', 'absence',
+  'missing', 'barely', 'hardly', 'scarcely', 'neither', 'nor', 'none'
+];
+
+// Pre-build keyword frequency map with negation detection
+function buildKeywordFrequencyMap(text: string, kpis: KPIDefinition[]): Map<string, number> {
+  const normalized = normalizeText(text);
+  const words = normalized.split(/\s+/);
+  const frequencyMap = new Map<string, number>();
+  
+  for (const kpi of kpis) {
+    for (const keyword of kpi.concepts) {
+      const keywordIndex = normalized.indexOf(keyword);
+      if (keywordIndex !== -1) {
+        // Check for negation in the 3 words before the keyword
+        const wordsBeforeKeyword = normalized.slice(Math.max(0, keywordIndex - 30), keywordIndex).split(/\s+/).slice(-3);
+        const hasNegation = wordsBeforeKeyword.some(w => NEGATION_WORDS.includes(w));
+        
+        let weight = kpi.weights?.[keyword] || 1.0;
+        
+        // Invert weight if negation is detected
+        if (hasNegation) {
+          weight = -weight;
+        }
+        
+        frequencyMap.set(`${kpi.id}:${keyword}`, weight);
+      }
+    }
+  }
+  
+  return frequencyMap;
+}
+
+async function calculateKPIScores(
+  text: string,
+  normalizedText: string,
+  keywordFrequencyMap: Map<string, number>,
+  polarityScore: number, // Now expecting the actual polarity score (-1 to +1)
+  sentimentConfidence: number,
+  textEmbedding: Embedding,
+  kpis: KPIDefinition[],
+  embeddingModelId: string = EMBEDDING_MODEL_ID
+): Promise<KPIScore> {
+  const kpiEmbeddings = await getKPIEmbeddings(kpis, embeddingModelId);
+
+  const scores = createEmptyKPIScore(kpis);
+
+  for (const kpi of kpis) {
+    const kpiEmbedding = kpiEmbeddings.get(kpi.id)!;
+    const similarity = cosineSimilarity(textEmbedding, kpiEmbedding);
+    
+    // Efficient keyword matching with negation handling
+    const keywordSum = sumKPIKeywords(kpi, keywordFrequencyMap);
+    
+    scores[kpi.id] = combineKPIScore(similarity, keywordSum, polarityScore, kpi.polarity);
+  }
+
+  return scores;
+}
+
+function sumKPIKeywords(kpi: KPIDefinition, keywordFrequencyMap: Map<string, number>): number {
+  return kpi.concepts.reduce((sum, keyword) => {
+    return sum + (keywordFrequencyMap.get(`${kpi.id}:${keyword}`) || 0);
+  }, 0);
+}
+
+export function combineKPIScore(
+  similarity: number,
+  keywordSum: number,
+  polarityScore: number,
+  kpiPolarity: KPIDefinition['polarity'],
+  keywordBoostFactor: number = KPI_KEYWORD_BOOST
+): number {
+  // Base score from semantic similarity
+  const baseScore = similarity;
+  
+  // Keyword contribution (can be negative due to negation detection)
+  const keywordBoost = Math.max(-0.5, Math.min(0.5, keywordSum * keywordBoostFactor));
+  
+  // Combine semantic similarity with keyword signals
+  let score = baseScore + keywordBoost;
+  
+  // CRITICAL: Make KPI scores sentiment-aware
+  // For positive KPIs (e.g. trust, optimism): 
+  // multiply by (1 + polarityScore) so negative sentiment reduces the score
+  // For inverted KPIs (e.g. frustration): 
+  // multiply by (1 - polarityScore) so negative sentiment increases the score
+  
+  if (kpiPolarity === 'inverted') {
+    // Negative sentiment increases inverted KPIs
+    score = score * (1 - polarityScore);
+  } else {
+    // Positive KPIs: negative sentiment reduces them
+    score = score * (1 + polarityScore);
+  }
+  
+  // Normalize to -1.0 to +1.0 range (KPIs can now be negative)
+  return Math.max(-1.0, Math.min(1.0, score));
+}
+
+// Pre-compute node embeddings with richer context.
+// Resolved on every run (cheap once persisted) so edited node keywords are re-embedded.
+async function precomputeNodeEmbeddings(
+  nodes: Node[],
+  embeddingModelId: string = EMBEDDING_MODEL_ID
+): Promise<Map<string, Embedding>> {
+  console.log('Precomputing node embeddings...');
+  const cache = modelCache(nodeEmbeddingCache, embeddingModelId);
+  const contextTexts = nodes.map(node =>
+    `This topic is about: ${node.keywords.slice(0, 5).join(', ')}. It relates to ${node.keywords.slice(5).join(' and ')}.`
+  );
+  
+  const embeddings = await generateBatchEmbeddings(contextTexts, { modelId: embeddingModelId });
+  
+  nodes.forEach((node, index) => {
+    cache.set(node.id, embeddings.get(contextTexts[index])!);
+  });
+  return cache;
+}
+
+// Node embeddings for callers outside the analysis run (e.g. topic discovery coverage)
+export async function getNodeEmbeddings(
+  nodes: Node[],
+  embeddingModelId: string = EMBEDDING_MODEL_ID
+): Promise<Map<string, Embedding>> {
+  const cache = await precomputeNodeEmbeddings(nodes, embeddingModelId);
+  return new Map(nodes.map(node => [node.id, cache.get(node.id)!]));
+}
+
+// Vectorized node matching - compute all similarities at once.
+// Falls back to the Unassigned bucket when no node reaches minSimilarity.
+function findBestMatchingNodeVectorized(
+  textEmbedding: Embedding,
+  nodes: Node[],
+  nodeEmbeddings: Map<string, Embedding>,
+  minSimilarity: number = DEFAULT_MIN_NODE_SIMILARITY
+): { nodeId: string; nodeName: string; confidence: number } {
+  let bestMatch = { nodeId: UNASSIGNED_NODE_ID, nodeName: UNASSIGNED_NODE_NAME, confidence: 0 };
+
+  for (const node of nodes) {
+    const nodeEmbedding = nodeEmbeddings.get(node.id);
+    if (!nodeEmbedding) continue;
+
+    const similarity = cosineSimilarity(textEmbedding, nodeEmbedding);
+
+    if (similarity > bestMatch.confidence) {
+      bestMatch = {
+        nodeId: node.id,
+        nodeName: node.name,
+        confidence: similarity,
+      };
+    }
+  }
+
+  if (bestMatch.confidence < minSimilarity) {
+    return { nodeId: UNASSIGNED_NODE_ID, nodeName: UNASSIGNED_NODE_NAME, confidence: bestMatch.confidence };
+  }
+  return bestMatch;
+}
+
+// Every node whose similarity clears the threshold, most similar first
+function findMatchingNodes(
+  textEmbedding: Embedding,
+  nodes: Node[],
+  nodeEmbeddings: Map<string, Embedding>,
+  threshold: number
+): Array<{ node: Node; similarity: number }> {
+  return nodes
+    .filter(node => nodeEmbeddings.has(node.id))
+    .map(node => ({ node, similarity: cosineSimilarity(textEmbedding, nodeEmbeddings.get(node.id)!) }))
+    .filter(match => match.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+function averageEmbeddings(embeddings: Embedding[]): Embedding {
+  return embeddings[0].map((_, idx) =>
+    embeddings.reduce((sum, emb) => sum + emb[idx], 0) / embeddings.length
+  );
+}
+
+// Map raw model output to polarity through the model's adapter, applying the short-text damping
+function scorePolarity(text: string, sentimentResult: SentimentOutput, sentimentModel: SentimentModelDefinition) {
+  const { polarity, polarityScore: rawPolarityScore } = sentimentModel.toPolarity(sentimentResult);
+  let polarityScore = rawPolarityScore;
+
+  // Reduced penalty for short texts - more lenient
+  let adjustedSentimentScore = sentimentResult.score;
+  if (isShortText(text)) {
+    adjustedSentimentScore = Math.min(0.80, sentimentResult.score * 0.90);
+    polarityScore *= SHORT_TEXT_POLARITY_DAMPING;
+  }
+
+  return { polarityScore, polarity, adjustedSentimentScore };
+}
+
+// Texts are split into at most this many sentences for aspect attribution
+const MAX_ASPECT_SENTENCES = 40;
+
+export const DEFAULT_NODE_SIMILARITY_THRESHOLD = 0.3;
+
+/**
+ * Multi-label scoring: attributes each sentence to the most similar matched node,
+ * then scores polarity and KPIs per node on its own span.
+ * Returns undefined when fewer than two nodes clear the threshold.
+ */
+async function scoreNodeAspects(
+  text: string,
+  textEmbedding: Embedding,
+  nodes: Node[],
+  threshold: number,
+  kpis: KPIDefinition[],
+  route: ModelRoute
+): Promise<NodeScore[] | undefined> {
+  const { embeddingModelId, sentimentModel } = route;
+  const nodeEmbeddings = modelCache(nodeEmbeddingCache, embeddingModelId);
+  const matches = findMatchingNodes(textEmbedding, nodes, nodeEmbeddings, threshold);
+  if (matches.length < 2) return undefined;
+
+  const sentences = splitSentences(text).slice(0, MAX_ASPECT_SENTENCES);
+  const normalizedSentences = sentences.map(normalizeText);
+  const sentenceEmbeddings = await generateBatchEmbeddings(normalizedSentences, { modelId: embeddingModelId });
+
+  const spans = new Map<string, { sentences: string[]; embeddings: Embedding[] }>();
+  sentences.forEach((sentence, idx) => {
+    const embedding = sentenceEmbeddings.get(normalizedSentences[idx]);
+    if (!embedding) return;
+
+    let best = matches[0];
+    let bestSimilarity = -Infinity;
+    for (const match of matches) {
+      const similarity = cosineSimilarity(embedding, nodeEmbeddings.get(match.node.id)!);
+      if (similarity > bestSimilarity) {
+        best = match;
+        bestSimilarity = similarity;
+      }
+    }
+
+    const span = spans.get(best.node.id) || { sentences: [], embeddings: [] };
+    span.sentences.push(sentence);
+    span.embeddings.push(embedding);
+    spans.set(best.node.id, span);
+  });
+
+  // A node that matched the whole text but won no sentence is scored on the full text
+  const spanTexts = matches.map(match => spans.get(match.node.id)?.sentences.join(' ') ?? text);
+  const spanSentiments = await analyzeSentimentBatch(
+    spanTexts.map(normalizeText),
+    sentimentModel.modelId,
+    sentimentModel.allScores
+  );
+  const totalSimilarity = matches.reduce((sum, match) => sum + match.similarity, 0);
+
+  return Promise.all(matches.map(async (match, idx) => {
+    const span = spanTexts[idx];
+    const spanEmbeddings = spans.get(match.node.id)?.embeddings;
+    const spanEmbedding = spanEmbeddings && spanEmbeddings.length > 0 ? averageEmbeddings(spanEmbeddings) : textEmbedding;
+    const { polarityScore, polarity, adjustedSentimentScore } = scorePolarity(span, spanSentiments[idx], sentimentModel);
+
+    const kpiScores = await calculateKPIScores(
+      span,
+      normalizeText(span),
+      buildKeywordFrequencyMap(span, kpis),
+      polarityScore,
+      adjustedSentimentScore,
+      spanEmbedding,
+      kpis,
+      embeddingModelId
+    );
+
+    return {
+      nodeId: match.node.id,
+      nodeName: match.node.name,
+      similarity: match.similarity,
+      weight: totalSimilarity > 0 ? match.similarity / totalSimilarity : 1 / matches.length,
+      polarity,
+      polarityScore,
+      kpiScores,
+      confidence: Math.min(0.95, adjustedSentimentScore),
+      span,
+    };
+  }));
+}
+
+export const ANALYSIS_CANCELLED_MESSAGE = 'Analysis cancelled';
+
+export interface LocalAnalysisConfig {
+  // KPI dimensions to score (defaults to the built-in six)
+  kpis?: KPIDefinition[];
+  // Score every node whose similarity clears nodeSimilarityThreshold, not just the best match
+  multiLabel?: boolean;
+  nodeSimilarityThreshold?: number;
+  // Below this best-node similarity a text goes to the Unassigned bucket
+  minNodeSimilarity?: number;
+  // Sentiment model registry id (defaults to the binary SST-2 model)
+  sentimentModel?: string;
+  // Route texts detected as non-English to the multilingual embedding and sentiment models (default on)
+  multilingual?: boolean;
+  // Registry id used for non-English texts when sentimentModel is English-only
+  multilingualSentimentModel?: string;
+}
+
+export interface LocalAnalysisCallbacks {
+  // Called after each internal batch with that batch's results and the number of texts processed so far
+  onBatch?: (results: SentimentResult[], processedCount: number) => void;
+  onStatus?: (status: string) => void;
+  // Polled between phases and batches; returning true aborts the run
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Runs the transformers.js pipeline in the current thread.
+ * Used directly inside sentiment workers, and as a fallback where workers are unavailable.
+ */
+export async function runLocalAnalysis(
+  texts: string[],
+  nodes: Node[],
+  callbacks: LocalAnalysisCallbacks = {},
+  config: LocalAnalysisConfig = {}
+): Promise<SentimentResult[]> {
+  const { onBatch, onStatus, isCancelled } = callbacks;
+  const {
+    kpis = DEFAULT_KPIS,
+    multiLabel = false,
+    nodeSimilarityThreshold = DEFAULT_NODE_SIMILARITY_THRESHOLD,
+    minNodeSimilarity = DEFAULT_MIN_NODE_SIMILARITY,
+    multilingual = true,
+  } = config;
+  const sentimentModel = getSentimentModel(config.sentimentModel);
+  const throwIfCancelled = () => {
+    if (isCancelled?.()) throw new Error(ANALYSIS_CANCELLED_MESSAGE);
+  };
+
+  // English and undetermined texts keep the configured models; the rest go to the multilingual ones
+  const languages = texts.map(text => detectLanguage(text).language);
+  const englishRoute: ModelRoute = { embeddingModelId: EMBEDDING_MODEL_ID, sentimentModel };
+  const multilingualRoute: ModelRoute = {
+    embeddingModelId: MULTILINGUAL_EMBEDDING_MODEL_ID,
+    sentimentModel: sentimentModel.multilingual
+      ? sentimentModel
+      : getSentimentModel(config.multilingualSentimentModel ?? DEFAULT_MULTILINGUAL_SENTIMENT_MODEL),
+  };
+  const textRoutes = languages.map(language =>
+    multilingual && !isEnglishLike(language) ? multilingualRoute : englishRoute
+  );
+  const routes = Array.from(new Set(textRoutes));
+
+  console.log(`Starting sentiment analysis on ${texts.length} texts across ${nodes.length} nodes with ${sentimentModel.id}`);
+  const routedCount = textRoutes.filter(route => route === multilingualRoute).length;
+  if (routedCount > 0) {
+    console.log(`${routedCount} non-English texts routed to ${multilingualRoute.embeddingModelId} and ${multilingualRoute.sentimentModel.id}`);
+  }
+  
+  const results: SentimentResult[] = [];
+  
+  // Adaptive batch size based on dataset size and average text length
+  const avgTextLength = texts.reduce((sum, t) => sum + t.length, 0) / texts.length;
+  let batchSize = 250; // Default
+  
+  if (texts.length < 100) {
+    batchSize = 50; // Smaller batches for small datasets
+  } else if (avgTextLength > 1000) {
+    batchSize = 100; // Smaller batches for long texts
+  } else if (texts.length > 10000) {
+    batchSize = 500; // Larger batches for huge datasets
+  }
+  
+  console.log(`Using adaptive batch size: ${batchSize} (avg text length: ${Math.round(avgTextLength)} chars)`);
+  const startTime = Date.now();
+  let successCount = 0;
+
+  try {
+    // PHASE 1: Pre-initialize models
+    if (onStatus) onStatus('Loading AI models...');
+    await Promise.all(routes.flatMap(route => [
+      initializeSentimentModel(route.sentimentModel.modelId),
+      initializeEmbeddingModel(route.embeddingModelId),
+      getKPIEmbeddings(kpis, route.embeddingModelId),
+    ]));
+    
+    throwIfCancelled();
+
+    // PHASE 2: Precompute node embeddings
+    if (onStatus) onStatus('Preparing node embeddings...');
+    const nodeEmbeddingsByModel = new Map<string, Map<string, Embedding>>();
+    for (const route of routes) {
+      nodeEmbeddingsByModel.set(route.embeddingModelId, await precomputeNodeEmbeddings(nodes, route.embeddingModelId));
+    }
+    
+    // PHASE 3: Normalize texts and pre-detect long texts
+    if (onStatus) onStatus('Preparing texts...');
+    const normalizedTextCache = new Map<string, string>();
+    const keywordFrequencyCache = new Map<string, Map<string, number>>();
+    const longTextIndices = new Set<number>();
+    const longTextChunks = new Map<number, string[]>(); // Cache chunk lists
+    const textsToEmbedByModel = new Map<string, string[]>(routes.map(route => [route.embeddingModelId, []]));
+    const normalizedTextsArray: string[] = []; // For batch sentiment
+    
+    texts.forEach((text, index) => {
+      const normalized = normalizeText(text);
+      const textsToEmbed = textsToEmbedByModel.get(textRoutes[index].embeddingModelId)!;
+      normalizedTextCache.set(text, normalized);
+      normalizedTextsArray.push(normalized);
+      keywordFrequencyCache.set(text, buildKeywordFrequencyMap(text, kpis));
+      
+      if (isLongText(text)) {
+        longTextIndices.add(index);
+        const chunks = chunkLongText(text, 500).map(normalizeText);
+        longTextChunks.set(index, chunks);
+        textsToEmbed.push(...chunks);
+      }
+      
+      textsToEmbed.push(normalized);
+    });
+    
+    // PHASE 4: Batch generate ALL embeddings (full texts + chunks), one pass per embedding model
+    throwIfCancelled();
+    if (onStatus) onStatus('Generating text embeddings...');
+    const textEmbeddingsByModel = new Map<string, Map<string, Embedding>>();
+    for (const [embeddingModelId, textsToEmbed] of textsToEmbedByModel) {
+      textEmbeddingsByModel.set(embeddingModelId, await generateBatchEmbeddings(textsToEmbed, { modelId: embeddingModelId }));
+    }
+    
+    // PHASE 5: Batch analyze sentiment for all texts, one pass per sentiment model
+    if (onStatus) onStatus('Analyzing sentiment (batch mode)...');
+    const allSentimentResults: SentimentOutput[] = new Array(texts.length);
+    for (const route of routes) {
+      const indices = textRoutes.flatMap((textRoute, index) => (textRoute === route ? [index] : []));
+      const routeResults = await analyzeSentimentBatch(
+        indices.map(index => normalizedTextsArray[index]),
+        route.sentimentModel.modelId,
+        route.sentimentModel.allScores
+      );
+      indices.forEach((index, position) => { allSentimentResults[index] = routeResults[position]; });
+    }
+    
+    // PHASE 6: Process results in batches
+    for (let i = 0; i < texts.length; i += batchSize) {
+      throwIfCancelled();
+      const batch = texts.slice(i, Math.min(i + batchSize, texts.length));
+      const batchNum = Math.floor(i / batchSize) + 1;
+      const totalBatches = Math.ceil(texts.length / batchSize);
+      
+      // Calculate ETA
+      if (results.length > 0) {
+        const elapsed = Date.now() - startTime;
+        const rate = results.length / elapsed;
+        const remaining = texts.length - results.length;
+        const etaMs = remaining / rate;
+        const etaSeconds = Math.round(etaMs / 1000);
+        
+        if (onStatus) {
+          onStatus(`Analyzing batch ${batchNum}/${totalBatches} • ${successCount}/${results.length} successful • ETA: ${etaSeconds}s`);
+        }
+      } else {
+        if (onStatus) onStatus(`Analyzing batch ${batchNum}/${totalBatches}...`);
+      }
+      
+      const batchResults = await Promise.all(
+        batch.map(async (text, batchIndex) => {
+          try {
+            const globalIndex = i + batchIndex;
+            const route = textRoutes[globalIndex];
+            const textEmbeddings = textEmbeddingsByModel.get(route.embeddingModelId)!;
+            const normalizedText = normalizedTextCache.get(text)!;
+            const keywordFrequencyMap = keywordFrequencyCache.get(text)!;
+            
+            let finalEmbedding = textEmbeddings.get(normalizedText);
+            
+            if (!finalEmbedding) {
+              throw new Error('Embedding not found');
+            }
+
+            // Use pre-computed chunk embeddings for long texts
+            if (longTextIndices.has(globalIndex)) {
+              const cachedChunks = longTextChunks.get(globalIndex);
+              if (cachedChunks && cachedChunks.length > 0) {
+                const chunkEmbeddings = cachedChunks
+                  .map(chunk => textEmbeddings.get(chunk))
+                  .filter((emb): emb is Embedding => emb !== undefined);
+                
+                if (chunkEmbeddings.length > 0) {
+                  finalEmbedding = averageEmbeddings(chunkEmbeddings);
+                }
+              }
+            }
+
+            // Get cached sentiment result and find node match
+            const sentimentResult = allSentimentResults[globalIndex];
+            const nodeMatch = findBestMatchingNodeVectorized(
+              finalEmbedding,
+              nodes,
+              nodeEmbeddingsByModel.get(route.embeddingModelId)!,
+              minNodeSimilarity
+            );
+
+            const { polarityScore, polarity, adjustedSentimentScore } = scorePolarity(text, sentimentResult, route.sentimentModel);
+
+            // Calculate KPI scores with cached data
+            const kpiScores = await calculateKPIScores(
+              text,
+              normalizedText,
+              keywordFrequencyMap,
+              polarityScore,
+              adjustedSentimentScore,
+              finalEmbedding,
+              kpis,
+              route.embeddingModelId
+            );
+
+            // Separate sentiment and node confidence - no penalty for disagreement
+            // These are independent signals: a text can be confidently negative while weakly matched to a node
+            const sentimentConfidence = adjustedSentimentScore;
+            const nodeMatchConfidence = nodeMatch.confidence;
+            const confidence = sentimentConfidence; // Use only sentiment confidence
+
+            const nodeScores = multiLabel && nodeMatch.nodeId !== UNASSIGNED_NODE_ID
+              ? await scoreNodeAspects(text, finalEmbedding, nodes, nodeSimilarityThreshold, kpis, route)
+              : undefined;
+
+            successCount++;
+            return {
+              text,
+              nodeId: nodeMatch.nodeId,
+              nodeName: nodeMatch.nodeName,
+              nodeConfidence: nodeMatchConfidence,
+              polarity,
+              polarityScore,
+              kpiScores,
+              confidence: Math.min(0.95, confidence),
+              sentimentModel: route.sentimentModel.id,
+              status: 'analyzed',
+              analyzer: 'local',
+              model: route.sentimentModel.modelId,
+              language: languages[globalIndex],
+              ...(nodeScores && { nodeScores }),
+            } as SentimentResult;
+          } catch (error) {
+            console.error(`Error analyzing text ${i + batchIndex}:`, error);
+            return null;
+          }
+        })
+      );
+
+      // Filter out failed analyses
+      const validResults = batchResults.filter((r): r is SentimentResult => r !== null);
+      results.push(...validResults);
+
+      if (onBatch) onBatch(validResults, i + batch.length);
+    }
+
+    if (onStatus) onStatus('Finalizing results...');
+    
+    // Log success rate
+    const successRate = (successCount / texts.length) * 100;
+    console.log(`Sentiment analysis complete: ${successCount}/${texts.length} successful (${successRate.toFixed(1)}%)`);
+    
+    if (successRate < 90) {
+      console.warn(`Warning: Success rate below 90% (${successRate.toFixed(1)}%)`);
+    }
+    
+    return results;
+  } catch (error) {
+    if (error instanceof Error && error.message === ANALYSIS_CANCELLED_MESSAGE) {
+      console.log(`Sentiment analysis cancelled after ${results.length}/${texts.length} texts`);
+    } else {
+      console.error('Fatal error in sentiment analysis:', error);
+    }
+    throw error;
+  }
+}
+
+
+export interface CalibrationFeatures {
+  text: string;
+  label: string;      // Raw sentiment model label
+  score: number;      // Raw sentiment model score
+  isShort: boolean;
+  // Per KPI: semantic similarity to the concept embedding and signed keyword sum, before combination
+  kpiComponents: Record<string, { similarity: number; keywordSum: number }>;
+}
+
+/**
+ * Raw model signals behind local scoring, so evaluation can re-score texts with candidate constants.
+ * Uses whole-text embeddings (no long-text chunk averaging).
+ */
+export async function extractCalibrationFeatures(
+  texts: string[],
+  kpis: KPIDefinition[] = DEFAULT_KPIS
+): Promise<CalibrationFeatures[]> {
+  await Promise.all([initializeSentimentModel(), initializeEmbeddingModel()]);
+  const kpiEmbeddings = await getKPIEmbeddings(kpis);
+
+  const normalizedTexts = texts.map(normalizeText);
+  const textEmbeddings = await generateBatchEmbeddings(normalizedTexts);
+  const sentimentResults = await analyzeSentimentBatch(normalizedTexts);
+
+  return texts.map((text, index) => {
+    const embedding = textEmbeddings.get(normalizedTexts[index])!;
+    const keywordFrequencyMap = buildKeywordFrequencyMap(text, kpis);
+    const kpiComponents: CalibrationFeatures['kpiComponents'] = {};
+
+    kpis.forEach(kpi => {
+      kpiComponents[kpi.id] = {
+        similarity: cosineSimilarity(embedding, kpiEmbeddings.get(kpi.id)!),
+        keywordSum: sumKPIKeywords(kpi, keywordFrequencyMap),
+      };
+    });
+
+    return {
+      text,
+      label: sentimentResults[index].label,
+      score: sentimentResults[index].score,
+      isShort: isShortText(text),
+      kpiComponents,
+    };
+  });
+}
@@ -1,453 +1,423 @@
-import type { Node, SentimentResult, KPIScore, NodeAnalysis } from '@/types/sentiment';
-import { analyzeSentiment, analyzeSentimentBatch, calculatePolarityScore, initializeSentimentModel } from '../models/sentimentModel';
-import { generateEmbedding, generateBatchEmbeddings, cosineSimilarity, initializeEmbeddingModel } from '../models/embeddingModel';
+import { supabase } from '@/integrations/supabase/client';
+import type { Node, SentimentResult, NodeAnalysis, KPIDefinition, AnalysisTextItem, AnalysisJobStatus } from '@/types/sentiment';
+import type { LLMUsageTotals } from '@/types/usage';
 import { extractKeywords } from '../extractors/keywordExtractor';
-import { normalizeText, isShortText, isLongText, chunkLongText } from '../utils/textNormalizer';
-
-// Cache for node keyword embeddings
-const nodeEmbeddingCache = new Map<string, number[]>();
-
-// Cache for text embeddings to avoid redundant generation
-const textEmbeddingCache = new Map<string, number[]>();
-
-// KPI concept definitions - based on NRC emotion lexicon, VADER, and LIWC research lexicons
-const KPI_CONCEPTS = {
-  trust: [
-    'trust', 'reliable', 'honest', 'transparent', 'credible', 'dependable', 'authentic',
-    'trustworthy', 'confidence', 'faith', 'integrity', 'truthful', 'genuine', 'legitimate',
-    'reputable', 'believable', 'verified', 'validated', 'secure', 'safe', 'consistent',
-    'accountability', 'responsible', 'ethical', 'sincere', 'loyal', 'faithful'
-  ],
-  optimism: [
-    'hope', 'optimistic', 'positive', 'encouraging', 'promising', 'bright', 'confident',
-    'hopeful', 'upbeat', 'favorable', 'beneficial', 'advantageous', 'constructive',
-    'enthusiastic', 'motivated', 'inspired', 'excited', 'eager', 'cheerful', 'happy',
-    'joy', 'pleased', 'satisfied', 'success', 'improve', 'progress', 'forward', 'better',
-    'opportunity', 'potential', 'possible', 'achieve', 'accomplish', 'thrive', 'flourish'
-  ],
-  frustration: [
-    'frustration', 'annoying', 'difficult', 'problem', 'issue', 'struggle', 'challenging',
-    'frustrated', 'irritating', 'aggravating', 'exasperating', 'troublesome', 'bothersome',
-    'obstacle', 'barrier', 'hindrance', 'impediment', 'setback', 'delay', 'stuck',
-    'blocked', 'prevented', 'limited', 'constrained', 'restricted', 'complicated',
-    'confusing', 'unclear', 'ambiguous', 'vague', 'uncertain', 'inconsistent', 'unreliable',
-    'fail', 'failure', 'error', 'mistake', 'wrong', 'broken', 'ineffective', 'inadequate'
-  ],
-  clarity: [
-    'clear', 'understand', 'simple', 'obvious', 'transparent', 'straightforward', 'explicit',
-    'understandable', 'comprehensible', 'intelligible', 'lucid', 'coherent', 'logical',
-    'rational', 'reasonable', 'sensible', 'plain', 'evident', 'apparent', 'manifest',
-    'unambiguous', 'precise', 'accurate', 'exact', 'specific', 'defined', 'explained',
-    'articulated', 'expressed', 'communicated', 'distinct', 'definite', 'certain'
-  ],
-  access: [
-    'access', 'available', 'easy', 'convenient', 'reachable', 'obtainable', 'open',
-    'accessible', 'usable', 'approachable', 'attainable', 'achievable', 'feasible',
-    'practical', 'simple', 'effortless', 'straightforward', 'user-friendly', 'intuitive',
-    'navigate', 'find', 'locate', 'retrieve', 'get', 'obtain', 'acquire', 'procure',
-    'enable', 'permit', 'allow', 'facilitate', 'support', 'accommodate', 'inclusive'
-  ],
-  fairness: [
-    'fair', 'equal', 'just', 'equitable', 'balanced', 'impartial', 'unbiased',
-    'justice', 'equality', 'equity', 'fairness', 'objectivity', 'neutral', 'evenhanded',
-    'unprejudiced', 'nondiscriminatory', 'inclusive', 'representative', 'diverse',
-    'proportional', 'reasonable', 'appropriate', 'legitimate', 'lawful', 'rightful',
-    'ethical', 'moral', 'principled', 'integrity', 'honest', 'truthful', 'transparent'
-  ],
-};
-
-const kpiEmbeddingCache = new Map<string, number[]>();
-
-async function getKPIEmbeddings() {
-  if (kpiEmbeddingCache.size === 0) {
-    console.log('Generating KPI concept embeddings in parallel...');
-    const kpiEntries = Object.entries(KPI_CONCEPTS);
-    const embeddings = await Promise.all(
-      kpiEntries.map(([kpi, concepts]) => {
-        const conceptText = `This represents ${kpi}. It relates to: ${concepts.join(', ')}. Key aspects include ${concepts.slice(0, 3).join(' and ')}.`;
-        return generateEmbedding(conceptText);
-      })
-    );
-    kpiEntries.forEach(([kpi], index) => {
-      kpiEmbeddingCache.set(kpi, embeddings[index]);
-    });
-  }
-  return kpiEmbeddingCache;
+import { DEFAULT_KPIS, createEmptyKPIScore, inferKPIIds } from '../kpis/kpiRegistry';
+import { runLocalAnalysis, type LocalAnalysisConfig } from './localAnalyzer';
+import { analyzeInWorkerPool, isWorkerPoolSupported } from './analysisWorkerPool';
+import {
+  applyMinNodeConfidence,
+  DEFAULT_MIN_NODE_CONFIDENCE,
+  isUnassigned,
+  UNASSIGNED_NODE_ID,
+  UNASSIGNED_NODE_NAME,
+} from '../nodes/nodeAssignment';
+import { isScored } from '../results/resultStatus';
+import {
+  DEFAULT_ENSEMBLE_CONFIG,
+  mergeEnsembleResult,
+  selectForLLM,
+  singleVerdictResult,
+  type EnsembleConfig,
+} from './ensemble';
+import { formatUsd } from './costEstimate';
+import { detectLanguage } from '../utils/languageDetector';
+
+export interface LocalAnalysisOptions {
+  // Aborts the run; pending workers stop at their next batch boundary
+  signal?: AbortSignal;
+  // Number of workers to shard texts across (defaults to a value derived from hardwareConcurrency)
+  workerCount?: number;
+  // Streams each completed batch as soon as any worker reports it
+  onBatch?: (results: SentimentResult[]) => void;
+  // KPI dimensions to score (defaults to the built-in six)
+  kpis?: KPIDefinition[];
+  // Score every node a text mentions (similarity >= nodeSimilarityThreshold) on its own sentences
+  multiLabel?: boolean;
+  nodeSimilarityThreshold?: number;
+  // Texts whose best node cosine similarity is below this go to the Unassigned bucket
+  minNodeSimilarity?: number;
+  // Sentiment model registry id, see models/sentimentModelRegistry.ts
+  sentimentModel?: string;
+  // Score non-English texts with the multilingual embedding and sentiment models
+  multilingual?: boolean;
 }
 
-// Negation words for context-aware keyword matching
-const NEGATION_WORDS = [
-  'not', 'no', 'never', 'dont', 'didnt', 'wont', 'cant', 'couldnt', 'shouldnt',
-  'wouldnt', 'isnt', 'arent', 'wasnt', 'werent', 'lack', 'without', 'absence',
-  'missing', 'barely', 'hardly', 'scarcely', 'neither', 'nor', 'none'
-];
-
-// Pre-build keyword frequency map with negation detection
-function buildKeywordFrequencyMap(text: string): Map<string, number> {
-  const normalized = normalizeText(text);
-  const words = normalized.split(/\s+/);
-  const frequencyMap = new Map<string, number>();
-  
-  const domainWeights: Record<string, Record<string, number>> = {
-    trust: { 
-      trustworthy: 1.4, credible: 1.3, reliable: 1.3, authentic: 1.2, verified: 1.2,
-      integrity: 1.3, accountability: 1.2, ethical: 1.2
-    },
-    optimism: { 
-      hope: 1.4, optimistic: 1.3, hopeful: 1.3, promising: 1.2, encouraging: 1.2,
-      potential: 1.2, opportunity: 1.2, progress: 1.2, thrive: 1.3
-    },
-    frustration: { 
-      frustration: 1.4, frustrated: 1.3, obstacle: 1.3, barrier: 1.3, blocked: 1.3,
-      fail: 1.4, failure: 1.3, error: 1.2, broken: 1.2, inadequate: 1.2
-    },
-    clarity: { 
-      clear: 1.4, understandable: 1.3, comprehensible: 1.3, explicit: 1.2,
-      unambiguous: 1.3, precise: 1.2, coherent: 1.2, logical: 1.2
-    },
-    access: { 
-      accessible: 1.4, available: 1.3, reachable: 1.3, usable: 1.3,
-      'user-friendly': 1.3, intuitive: 1.2, facilitate: 1.2, inclusive: 1.2
-    },
-    fairness: { 
-      fair: 1.4, equitable: 1.3, just: 1.3, impartial: 1.3, unbiased: 1.3,
-      equality: 1.3, justice: 1.3, inclusive: 1.2, representative: 1.2
-    },
+export interface ServerAnalysisOptions {
+  // KPI dimensions to score (defaults to the built-in six)
+  kpis?: KPIDefinition[];
+  // Texts whose model-reported node confidence is below this go to the Unassigned bucket
+  minNodeConfidence?: number;
+  // LLM model for this run (server provider default when omitted); may be restricted server-side
+  model?: string;
+  // Ask the LLM for a rationale and verbatim evidence spans per text (larger, slower responses)
+  explain?: boolean;
+  // false re-scores every text instead of reusing cached results (fresh results still refresh the cache)
+  useCache?: boolean;
+  // Stop the run once its LLM calls cost this much (USD); the server's own caps apply regardless
+  maxCostUsd?: number;
+  // Running token and cost totals, after every batch and once more on completion
+  onUsage?: (usage: LLMUsageTotals) => void;
+  // Called when the server opens the run's job and again with its final status
+  onJob?: (update: ServerJobUpdate) => void;
+}
+
+export interface ServerJobUpdate {
+  jobId: string;
+  status: AnalysisJobStatus;
+  // Batches already completed by an earlier run of the same job
+  resumedBatches?: number;
+  // True when another invocation is processing the job and this one only follows it
+  following?: boolean;
+  // Why a paused job stopped: rate_limit, credits_exhausted, spend_cap or batch_errors
+  stopReason?: string | null;
+}
+
+export interface EnsembleAnalysisOptions extends Partial<EnsembleConfig> {
+  kpis?: KPIDefinition[];
+  // Unassigned floors: cosine similarity for local results, LLM node confidence for server results
+  minNodeSimilarity?: number;
+  minNodeConfidence?: number;
+  // Local side, see LocalAnalysisOptions; multi-label aspects are kept only on texts the local
+  // verdict leads (see mergeEnsembleResult)
+  sentimentModel?: string;
+  multilingual?: boolean;
+  multiLabel?: boolean;
+  nodeSimilarityThreshold?: number;
+  workerCount?: number;
+  signal?: AbortSignal;
+  // LLM side, see ServerAnalysisOptions
+  model?: string;
+  explain?: boolean;
+  useCache?: boolean;
+  maxCostUsd?: number;
+  onUsage?: (usage: LLMUsageTotals) => void;
+  onJob?: (update: ServerJobUpdate) => void;
+}
+
+/**
+ * Headers for a call to analyze-sentiment. Signed-in users send their session token, which
+ * ties jobs and LLM usage to them; anonymous callers fall back to the publishable key.
+ */
+export async function analysisRequestHeaders(publishableKey: string): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token ?? publishableKey}`,
+    'apikey': publishableKey,
   };
-  
-  for (const [kpi, keywords] of Object.entries(KPI_CONCEPTS)) {
-    for (const keyword of keywords) {
-      const keywordIndex = normalized.indexOf(keyword);
-      if (keywordIndex !== -1) {
-        // Check for negation in the 3 words before the keyword
-        const wordsBeforeKeyword = normalized.slice(Math.max(0, keywordIndex - 30), keywordIndex).split(/\s+/).slice(-3);
-        const hasNegation = wordsBeforeKeyword.some(w => NEGATION_WORDS.includes(w));
-        
-        let weight = domainWeights[kpi]?.[keyword] || 1.0;
-        
-        // Invert weight if negation is detected
-        if (hasNegation) {
-          weight = -weight;
-        }
-        
-        frequencyMap.set(`${kpi}:${keyword}`, weight);
-      }
-    }
-  }
-  
-  return frequencyMap;
 }
 
-async function calculateKPIScores(
-  text: string,
-  normalizedText: string,
-  keywordFrequencyMap: Map<string, number>,
-  polarityScore: number, // Now expecting the actual polarity score (-1 to +1)
-  sentimentConfidence: number,
-  textEmbedding: number[]
-): Promise<KPIScore> {
-  const kpiEmbeddings = await getKPIEmbeddings();
-
-  const scores: KPIScore = {
-    trust: 0,
-    optimism: 0,
-    frustration: 0,
-    clarity: 0,
-    access: 0,
-    fairness: 0,
+// Only the parts of a KPI definition the LLM needs, to keep request bodies small
+function toServerKPI(kpi: KPIDefinition) {
+  return {
+    id: kpi.id,
+    label: kpi.label,
+    polarity: kpi.polarity,
+    description: kpi.description,
+    concepts: kpi.concepts.slice(0, 8),
   };
+}
 
-  for (const [kpi, kpiEmbedding] of kpiEmbeddings.entries()) {
-    const similarity = cosineSimilarity(textEmbedding, kpiEmbedding);
-    
-    // Base score from semantic similarity
-    let baseScore = similarity;
-    
-    // Efficient keyword matching with negation handling
-    const keywords = KPI_CONCEPTS[kpi as keyof typeof KPI_CONCEPTS];
-    const keywordSum = keywords.reduce((sum, keyword) => {
-      return sum + (keywordFrequencyMap.get(`${kpi}:${keyword}`) || 0);
-    }, 0);
-    
-    // Keyword contribution (can be negative due to negation detection)
-    const keywordBoost = Math.max(-0.5, Math.min(0.5, keywordSum * 0.20));
-    
-    // Combine semantic similarity with keyword signals
-    let score = baseScore + keywordBoost;
-    
-    // CRITICAL: Make KPI scores sentiment-aware
-    // For positive KPIs (trust, optimism, clarity, access, fairness): 
-    // multiply by (1 + polarityScore) so negative sentiment reduces the score
-    // For negative KPI (frustration): 
-    // multiply by (1 - polarityScore) so negative sentiment increases frustration
-    
-    if (kpi === 'frustration') {
-      // Negative sentiment increases frustration
-      score = score * (1 - polarityScore);
-    } else {
-      // Positive KPIs: negative sentiment reduces them
-      score = score * (1 + polarityScore);
-    }
-    
-    // Normalize to -1.0 to +1.0 range (KPIs can now be negative)
-    scores[kpi as keyof KPIScore] = Math.max(-1.0, Math.min(1.0, score));
+// Local sentiment analysis using transformers.js, sharded across a pool of Web Workers
+export async function performSentimentAnalysis(
+  texts: string[],
+  nodes: Node[],
+  onProgress?: (progress: number) => void,
+  onStatus?: (status: string) => void,
+  options: LocalAnalysisOptions = {}
+): Promise<SentimentResult[]> {
+  const {
+    signal,
+    workerCount,
+    onBatch,
+    kpis = DEFAULT_KPIS,
+    multiLabel,
+    nodeSimilarityThreshold,
+    minNodeSimilarity,
+    sentimentModel,
+    multilingual,
+  } = options;
+  const config: LocalAnalysisConfig = {
+    kpis, multiLabel, nodeSimilarityThreshold, minNodeSimilarity, sentimentModel, multilingual,
+  };
+
+  if (texts.length === 0) return [];
+
+  const reportProgress = (processedCount: number) => {
+    if (onProgress) onProgress(Math.min(100, Math.round((processedCount / texts.length) * 100)));
+  };
+
+  if (!isWorkerPoolSupported()) {
+    console.warn('Web Workers unavailable, running sentiment analysis on the main thread');
+    return runLocalAnalysis(texts, nodes, {
+      onStatus,
+      onBatch: (results, processedCount) => {
+        if (onBatch) onBatch(results);
+        reportProgress(processedCount);
+      },
+      isCancelled: () => signal?.aborted ?? false,
+    }, config);
   }
 
-  return scores;
+  return analyzeInWorkerPool(texts, nodes, {
+    workerCount,
+    config,
+    signal,
+    onStatus,
+    onBatch,
+    onProgress: reportProgress,
+  });
 }
 
-// Pre-compute node embeddings with richer context in parallel
-async function precomputeNodeEmbeddings(nodes: Node[]): Promise<void> {
-  console.log('Precomputing node embeddings in parallel...');
-  const nodesToCompute = nodes.filter(node => !nodeEmbeddingCache.has(node.id));
-  
-  if (nodesToCompute.length === 0) return;
-  
-  const embeddings = await Promise.all(
-    nodesToCompute.map(node => {
-      const contextText = `This topic is about: ${node.keywords.slice(0, 5).join(', ')}. It relates to ${node.keywords.slice(5).join(' and ')}.`;
-      return generateEmbedding(contextText);
-    })
+// Plain strings are identified by their position in the input
+function toAnalysisItems(texts: Array<string | AnalysisTextItem>): AnalysisTextItem[] {
+  const items = texts.map((entry, index) =>
+    typeof entry === 'string' ? { id: String(index), text: entry } : { id: entry.id, text: entry.text }
   );
-  
-  nodesToCompute.forEach((node, index) => {
-    nodeEmbeddingCache.set(node.id, embeddings[index]);
-  });
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (seen.has(item.id)) throw new Error(`Duplicate text id: ${item.id}`);
+    seen.add(item.id);
+  }
+  return items;
 }
 
-// Vectorized node matching - compute all similarities at once
-function findBestMatchingNodeVectorized(
-  textEmbedding: number[],
-  nodes: Node[],
-  nodeEmbeddings: Map<string, number[]>
-): { nodeId: string; nodeName: string; confidence: number } {
-  let bestMatch = { nodeId: nodes[0].id, nodeName: nodes[0].name, confidence: 0 };
-
-  for (const node of nodes) {
-    const nodeEmbedding = nodeEmbeddings.get(node.id);
-    if (!nodeEmbedding) continue;
-
-    const similarity = cosineSimilarity(textEmbedding, nodeEmbedding);
-
-    if (similarity > bestMatch.confidence) {
-      bestMatch = {
-        nodeId: node.id,
-        nodeName: node.name,
-        confidence: similarity,
-      };
-    }
-  }
+// The LLM reads any language, so server results get the detected language for reporting only
+function withLanguage(result: SentimentResult): SentimentResult {
+  return result.language ? result : { ...result, language: detectLanguage(result.text).language };
+}
 
-  return bestMatch;
+// Stand-in for a text the server never returned a result for (failed batch, rate limiting)
+function defaultedServerResult(item: AnalysisTextItem, kpis: KPIDefinition[]): SentimentResult {
+  return {
+    id: item.id,
+    text: item.text,
+    nodeId: UNASSIGNED_NODE_ID,
+    nodeName: UNASSIGNED_NODE_NAME,
+    polarity: 'neutral',
+    polarityScore: 0,
+    kpiScores: createEmptyKPIScore(kpis),
+    confidence: 0,
+    status: 'defaulted',
+    analyzer: 'server',
+  };
 }
 
-export async function performSentimentAnalysis(
-  texts: string[],
+/**
+ * Server-side sentiment analysis through the configured LLM provider, with SSE streaming.
+ * Returns one result per input item, in input order and carrying the item's id. Items the
+ * model produced nothing for come back with status 'defaulted' so coverage stays honest.
+ * The run is stored as a job on the server; identical inputs resume the latest unfinished job.
+ */
+export async function performSentimentAnalysisServer(
+  texts: Array<string | AnalysisTextItem>,
   nodes: Node[],
   onProgress?: (progress: number) => void,
-  onStatus?: (status: string) => void
+  onStatus?: (status: string) => void,
+  options: ServerAnalysisOptions = {}
 ): Promise<SentimentResult[]> {
-  console.log(`Starting sentiment analysis on ${texts.length} texts across ${nodes.length} nodes`);
-  
-  const results: SentimentResult[] = [];
-  
-  // Adaptive batch size based on dataset size and average text length
-  const avgTextLength = texts.reduce((sum, t) => sum + t.length, 0) / texts.length;
-  let batchSize = 250; // Default
-  
-  if (texts.length < 100) {
-    batchSize = 50; // Smaller batches for small datasets
-  } else if (avgTextLength > 1000) {
-    batchSize = 100; // Smaller batches for long texts
-  } else if (texts.length > 10000) {
-    batchSize = 500; // Larger batches for huge datasets
-  }
-  
-  console.log(`Using adaptive batch size: ${batchSize} (avg text length: ${Math.round(avgTextLength)} chars)`);
-  const startTime = Date.now();
-  let successCount = 0;
+  const { kpis = DEFAULT_KPIS, minNodeConfidence = DEFAULT_MIN_NODE_CONFIDENCE, model, explain, useCache = true, maxCostUsd } = options;
+  const items = toAnalysisItems(texts);
+  console.log(`[Server] Starting streaming sentiment analysis: ${items.length} texts, ${nodes.length} nodes`);
+
+  const { resultsById } = await streamServerAnalysis(
+    {
+      items,
+      nodes,
+      kpis: kpis.map(toServerKPI),
+      ...(model && { model }),
+      ...(explain && { explain }),
+      ...(!useCache && { cache: false }),
+      ...(maxCostUsd && { maxCostUsd }),
+    },
+    onProgress,
+    onStatus,
+    options.onJob,
+    options.onUsage
+  );
 
-  try {
-    // PHASE 1: Pre-initialize models
-    if (onStatus) onStatus('Loading AI models...');
-    await Promise.all([
-      initializeSentimentModel(),
-      initializeEmbeddingModel(),
-      getKPIEmbeddings(),
-    ]);
-    
-    // PHASE 2: Precompute node embeddings
-    if (onStatus) onStatus('Preparing node embeddings...');
-    await precomputeNodeEmbeddings(nodes);
-    
-    // PHASE 3: Normalize texts and pre-detect long texts
-    if (onStatus) onStatus('Preparing texts...');
-    const normalizedTextCache = new Map<string, string>();
-    const keywordFrequencyCache = new Map<string, Map<string, number>>();
-    const longTextIndices = new Set<number>();
-    const longTextChunks = new Map<number, string[]>(); // Cache chunk lists
-    const allTextsToEmbed: string[] = [];
-    const normalizedTextsArray: string[] = []; // For batch sentiment
-    
-    texts.forEach((text, index) => {
-      const normalized = normalizeText(text);
-      normalizedTextCache.set(text, normalized);
-      normalizedTextsArray.push(normalized);
-      keywordFrequencyCache.set(text, buildKeywordFrequencyMap(text));
-      
-      if (isLongText(text)) {
-        longTextIndices.add(index);
-        const chunks = chunkLongText(text, 500).map(normalizeText);
-        longTextChunks.set(index, chunks);
-        allTextsToEmbed.push(...chunks);
-      }
-      
-      allTextsToEmbed.push(normalized);
-    });
-    
-    // PHASE 4: Batch generate ALL embeddings (full texts + chunks)
-    if (onStatus) onStatus('Generating text embeddings...');
-    const textEmbeddings = await generateBatchEmbeddings(allTextsToEmbed);
-    
-    // PHASE 5: Batch analyze sentiment for all texts
-    if (onStatus) onStatus('Analyzing sentiment (batch mode)...');
-    const allSentimentResults = await analyzeSentimentBatch(normalizedTextsArray);
-    
-    // PHASE 6: Process results in batches
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, Math.min(i + batchSize, texts.length));
-      const batchNum = Math.floor(i / batchSize) + 1;
-      const totalBatches = Math.ceil(texts.length / batchSize);
-      
-      // Calculate ETA
-      if (results.length > 0) {
-        const elapsed = Date.now() - startTime;
-        const rate = results.length / elapsed;
-        const remaining = texts.length - results.length;
-        const etaMs = remaining / rate;
-        const etaSeconds = Math.round(etaMs / 1000);
-        
-        if (onStatus) {
-          onStatus(`Analyzing batch ${batchNum}/${totalBatches} • ${successCount}/${results.length} successful • ETA: ${etaSeconds}s`);
-        }
-      } else {
-        if (onStatus) onStatus(`Analyzing batch ${batchNum}/${totalBatches}...`);
-      }
-      
-      const batchResults = await Promise.all(
-        batch.map(async (text, batchIndex) => {
-          try {
-            const globalIndex = i + batchIndex;
-            const normalizedText = normalizedTextCache.get(text)!;
-            const keywordFrequencyMap = keywordFrequencyCache.get(text)!;
-            
-            let finalEmbedding = textEmbeddings.get(normalizedText);
-            
-            if (!finalEmbedding) {
-              throw new Error('Embedding not found');
-            }
+  if (onStatus) onStatus('Finalizing...');
+  if (onProgress) onProgress(98);
 
-            // Use pre-computed chunk embeddings for long texts
-            if (longTextIndices.has(globalIndex)) {
-              const cachedChunks = longTextChunks.get(globalIndex);
-              if (cachedChunks && cachedChunks.length > 0) {
-                const chunkEmbeddings = cachedChunks
-                  .map(chunk => textEmbeddings.get(chunk))
-                  .filter((emb): emb is number[] => emb !== undefined);
-                
-                if (chunkEmbeddings.length > 0) {
-                  finalEmbedding = chunkEmbeddings[0].map((_, idx) => 
-                    chunkEmbeddings.reduce((sum, emb) => sum + emb[idx], 0) / chunkEmbeddings.length
-                  );
-                }
-              }
-            }
+  // Unknown ids (not in this request) are ignored
+  const allResults = items.map(item => resultsById.get(item.id) ?? defaultedServerResult(item, kpis));
 
-            // Get cached sentiment result and find node match
-            const sentimentResult = allSentimentResults[globalIndex];
-            const nodeMatch = findBestMatchingNodeVectorized(finalEmbedding, nodes, nodeEmbeddingCache);
+  console.log(`[Server] Streaming complete: ${allResults.length} total results`);
 
-            let { polarityScore, polarity } = calculatePolarityScore(
-              sentimentResult.label,
-              sentimentResult.score
-            );
+  // Defensive check: if we got suspiciously few scored results, log a warning
+  const resultRate = (allResults.filter(isScored).length / items.length) * 100;
+  if (resultRate < 50) {
+    console.warn(`[Server] WARNING: Only ${resultRate.toFixed(1)}% of texts were analyzed`);
+  }
 
-            // Reduced penalty for short texts - more lenient
-            let adjustedSentimentScore = sentimentResult.score;
-            if (isShortText(text)) {
-              adjustedSentimentScore = Math.min(0.80, sentimentResult.score * 0.90);
-              polarityScore *= 0.75;
-            }
+  return allResults.map(result => withLanguage(applyMinNodeConfidence(result, minNodeConfidence)));
+}
 
-            // Calculate KPI scores with cached data
-            const kpiScores = await calculateKPIScores(
-              text,
-              normalizedText,
-              keywordFrequencyMap,
-              polarityScore,
-              adjustedSentimentScore,
-              finalEmbedding
-            );
-
-            // Separate sentiment and node confidence - no penalty for disagreement
-            // These are independent signals: a text can be confidently negative while weakly matched to a node
-            const sentimentConfidence = adjustedSentimentScore;
-            const nodeMatchConfidence = nodeMatch.confidence;
-            const confidence = sentimentConfidence; // Use only sentiment confidence
-
-            successCount++;
-            return {
-              text,
-              nodeId: nodeMatch.nodeId,
-              nodeName: nodeMatch.nodeName,
-              polarity,
-              polarityScore,
-              kpiScores,
-              confidence: Math.min(0.95, confidence),
-            } as SentimentResult;
-          } catch (error) {
-            console.error(`Error analyzing text ${i + batchIndex}:`, error);
-            return null;
-          }
-        })
-      );
+/**
+ * Resume a paused job, or reconnect to one that is still running, by its id alone.
+ * The server keeps the job's texts, nodes and KPIs, so only batches that have not completed
+ * are sent to the model again. Results come back with the job's cache hits first, then its
+ * batches in order.
+ */
+export async function resumeSentimentAnalysisJob(
+  jobId: string,
+  onProgress?: (progress: number) => void,
+  onStatus?: (status: string) => void,
+  // The job keeps the model it was started with; a spend cap counts what the job spent before
+  options: Pick<ServerAnalysisOptions, 'minNodeConfidence' | 'maxCostUsd' | 'onUsage' | 'onJob'> = {}
+): Promise<SentimentResult[]> {
+  const { minNodeConfidence = DEFAULT_MIN_NODE_CONFIDENCE, maxCostUsd } = options;
+  console.log(`[Server] Resuming analysis job ${jobId}`);
+
+  const { resultsById, finalResults } = await streamServerAnalysis(
+    { jobId, ...(maxCostUsd && { maxCostUsd }) },
+    onProgress,
+    onStatus,
+    options.onJob,
+    options.onUsage
+  );
 
-      // Filter out failed analyses
-      const validResults = batchResults.filter((r): r is SentimentResult => r !== null);
-      results.push(...validResults);
+  if (onStatus) onStatus('Finalizing...');
+  if (onProgress) onProgress(98);
 
-      if (onProgress) {
-        const progress = Math.min(100, Math.round((results.length) / texts.length * 100));
-        onProgress(progress);
-      }
-    }
+  // Without the complete event (stream cut short) only the streamed batches are known
+  const allResults = finalResults ?? Array.from(resultsById.values());
+  console.log(`[Server] Resumed job ${jobId}: ${allResults.length} total results`);
 
-    if (onStatus) onStatus('Finalizing results...');
-    
-    // Log success rate
-    const successRate = (successCount / texts.length) * 100;
-    console.log(`Sentiment analysis complete: ${successCount}/${texts.length} successful (${successRate.toFixed(1)}%)`);
-    
-    if (successRate < 90) {
-      console.warn(`Warning: Success rate below 90% (${successRate.toFixed(1)}%)`);
-    }
-    
-    return results;
-  } catch (error) {
-    console.error('Fatal error in sentiment analysis:', error);
-    throw error;
+  return allResults.map(result => withLanguage(applyMinNodeConfidence(result, minNodeConfidence)));
+}
+
+/**
+ * Drop the server's cached results for a node set, so the next run re-scores every text
+ * against it. Returns how many cached results were removed.
+ */
+export async function invalidateAnalysisCache(nodes: Node[]): Promise<number> {
+  const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+  const SUPABASE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  if (!SUPABASE_URL || !SUPABASE_KEY) {
+    throw new Error('Supabase configuration missing');
+  }
+
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/analyze-sentiment`, {
+    method: 'POST',
+    headers: await analysisRequestHeaders(SUPABASE_KEY),
+    body: JSON.stringify({ action: 'invalidate_cache', nodes }),
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+    throw new Error(errorData.error || `Cache invalidation failed: ${response.status}`);
   }
+  const { deleted = 0 } = await response.json() as { deleted?: number };
+  return deleted;
 }
 
-// Server-side sentiment analysis using Lovable AI with SSE streaming
-export async function performSentimentAnalysisServer(
-  texts: string[],
+/**
+ * Hybrid analysis: the local model scores every text, and only texts it is unsure about
+ * (low confidence, weak node match, contradicting signals, or a local failure) go to the LLM,
+ * capped at maxLLMShare of the run. Routed texts get a weighted merge of both verdicts, with
+ * both kept on `ensemble` alongside their agreement. If the LLM call fails outright the run
+ * falls back to local scores. Returns one result per input item, in input order.
+ */
+export async function performEnsembleAnalysis(
+  texts: Array<string | AnalysisTextItem>,
   nodes: Node[],
   onProgress?: (progress: number) => void,
-  onStatus?: (status: string) => void
+  onStatus?: (status: string) => void,
+  options: EnsembleAnalysisOptions = {}
 ): Promise<SentimentResult[]> {
-  console.log(`[Server] Starting streaming sentiment analysis: ${texts.length} texts, ${nodes.length} nodes`);
-  
+  const {
+    kpis = DEFAULT_KPIS, minNodeSimilarity, minNodeConfidence, sentimentModel, multilingual, multiLabel, nodeSimilarityThreshold,
+    workerCount, signal, model, explain, useCache, maxCostUsd, onUsage, onJob,
+  } = options;
+  const config: EnsembleConfig = {
+    confidenceThreshold: options.confidenceThreshold ?? DEFAULT_ENSEMBLE_CONFIG.confidenceThreshold,
+    nodeConfidenceThreshold: options.nodeConfidenceThreshold ?? DEFAULT_ENSEMBLE_CONFIG.nodeConfidenceThreshold,
+    disagreementThreshold: options.disagreementThreshold ?? DEFAULT_ENSEMBLE_CONFIG.disagreementThreshold,
+    maxLLMShare: options.maxLLMShare ?? DEFAULT_ENSEMBLE_CONFIG.maxLLMShare,
+    llmWeight: options.llmWeight ?? DEFAULT_ENSEMBLE_CONFIG.llmWeight,
+  };
+  const items = toAnalysisItems(texts);
+  if (items.length === 0) return [];
+
+  // Local pass over everything: 0-60% of progress
+  if (onStatus) onStatus('Scoring all texts with the local model...');
+  const localResults = await performSentimentAnalysis(
+    items.map(item => item.text),
+    nodes,
+    (p) => onProgress?.(p * 0.6),
+    onStatus,
+    { kpis, minNodeSimilarity, sentimentModel, multilingual, multiLabel, nodeSimilarityThreshold, workerCount, signal }
+  );
+
+  // Local results carry no ids and skip failed texts, so they are matched back by text
+  const localByText = new Map<string, SentimentResult[]>();
+  localResults.forEach(result => {
+    const queue = localByText.get(result.text) ?? [];
+    queue.push(result);
+    localByText.set(result.text, queue);
+  });
+  const localById = new Map<string, SentimentResult>();
+  items.forEach(item => {
+    const result = localByText.get(item.text)?.shift();
+    if (result) localById.set(item.id, { ...result, id: item.id });
+  });
+
+  const routes = selectForLLM(items.map(item => item.id), localById, kpis, config);
+  const routeById = new Map(routes.map(route => [route.id, route]));
+  console.log(`[Ensemble] Routing ${routes.length}/${items.length} texts to the LLM`);
+
+  // LLM pass over the routed texts: 60-100%
+  const llmById = new Map<string, SentimentResult>();
+  if (routes.length > 0) {
+    if (onStatus) onStatus(`Sending ${routes.length} of ${items.length} uncertain texts to the LLM...`);
+    try {
+      const routedItems = items.filter(item => routeById.has(item.id));
+      const llmResults = await performSentimentAnalysisServer(
+        routedItems,
+        nodes,
+        (p) => onProgress?.(60 + p * 0.4),
+        onStatus,
+        { kpis, minNodeConfidence, model, explain, useCache, maxCostUsd, onUsage, onJob }
+      );
+      llmResults.forEach(result => {
+        if (result.id !== undefined) llmById.set(result.id, result);
+      });
+    } catch (error) {
+      console.warn('[Ensemble] LLM pass failed, keeping local scores:', error);
+      if (onStatus) onStatus('LLM unavailable - keeping local scores for routed texts');
+    }
+  }
+  if (onProgress) onProgress(100);
+
+  return items.map(item => {
+    const local = localById.get(item.id);
+    const llm = llmById.get(item.id);
+    const reason = routeById.get(item.id)?.reason;
+    const llmUsable = llm !== undefined && isScored(llm);
+
+    if (local && llmUsable && reason) return mergeEnsembleResult(local, llm, reason, config.llmWeight);
+    if (local) return singleVerdictResult(local, reason);
+    // Local failure: the LLM verdict alone, or a defaulted placeholder when there is none
+    return singleVerdictResult(llm ?? defaultedServerResult(item, kpis), reason);
+  });
+}
+
+interface ServerStreamOutcome {
+  // Results streamed per batch, keyed by item id
+  resultsById: Map<string, SentimentResult>;
+  // Every item's result in input order, from the complete event
+  finalResults: SentimentResult[] | null;
+}
+
+// Posts a request to analyze-sentiment and consumes its SSE stream
+async function streamServerAnalysis(
+  requestBody: Record<string, unknown>,
+  onProgress?: (progress: number) => void,
+  onStatus?: (status: string) => void,
+  onJob?: (update: ServerJobUpdate) => void,
+  onUsage?: (usage: LLMUsageTotals) => void
+): Promise<ServerStreamOutcome> {
   if (onStatus) onStatus('Connecting to AI service...');
   if (onProgress) onProgress(5);
 
@@ -458,7 +428,15 @@ export async function performSentimentAnalysisServer(
     throw new Error('Supabase configuration missing');
   }
 
-  const allResults: SentimentResult[] = [];
+  // Keyed by item id, so a result is joined to its text even if batches arrive out of order
+  const resultsById = new Map<string, SentimentResult>();
+  const addResults = (results: SentimentResult[]) => {
+    results.forEach(result => {
+      if (result.id !== undefined) resultsById.set(result.id, result);
+    });
+  };
+  let finalResults: SentimentResult[] | null = null;
+  let totalTexts = 0;
   let maxProgress = 10;
   let serverSuccessRate = 100; // Track server-reported success rate
   
@@ -470,16 +448,13 @@ export async function performSentimentAnalysisServer(
   };
   
   try {
-    if (onStatus) onStatus(`Starting analysis of ${texts.length} texts...`);
+    if (onStatus) onStatus('Starting analysis...');
     updateProgress(10);
 
     const response = await fetch(`${SUPABASE_URL}/functions/v1/analyze-sentiment`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${SUPABASE_KEY}`,
-      },
-      body: JSON.stringify({ texts, nodes }),
+      headers: await analysisRequestHeaders(SUPABASE_KEY),
+      body: JSON.stringify(requestBody),
     });
 
     if (!response.ok) {
@@ -491,6 +466,9 @@ export async function performSentimentAnalysisServer(
       if (response.status === 402) {
         throw new Error('AI credits exhausted. Please add credits to continue.');
       }
+      if (response.status === 404) {
+        throw new Error('Analysis job not found. It may have been deleted.');
+      }
       
       throw new Error(errorData.error || `Analysis failed: ${response.status}`);
     }
@@ -512,9 +490,21 @@ export async function performSentimentAnalysisServer(
         switch (eventName) {
           case 'progress':
             if (data.type === 'start') {
-              if (onStatus) onStatus(`Analyzing ${data.totalTexts} texts in ${data.totalBatches} batches...`);
-            } else if (data.type === 'batch_start') {
-              const progress = 10 + ((data.processedCount || 0) / texts.length) * 80;
+              totalTexts = data.totalTexts || 0;
+              if (data.jobId && onJob) {
+                onJob({ jobId: data.jobId, status: 'running', resumedBatches: data.resumedBatches, following: data.following });
+              }
+              if (onStatus) {
+                if (data.following) {
+                  onStatus(`Reconnected to running job (${data.resumedBatches}/${data.totalBatches} batches done)...`);
+                } else if (data.resumedBatches > 0) {
+                  onStatus(`Resuming job: ${data.resumedBatches}/${data.totalBatches} batches already done...`);
+                } else {
+                  onStatus(`Analyzing ${data.totalTexts} texts in ${data.totalBatches} batches...`);
+                }
+              }
+            } else if (data.type === 'batch_start' && totalTexts > 0) {
+              const progress = 10 + ((data.processedCount || 0) / totalTexts) * 80;
               updateProgress(progress);
               if (onStatus) onStatus(`Processing batch ${data.batch}/${data.totalBatches}...`);
             }
@@ -522,16 +512,18 @@ export async function performSentimentAnalysisServer(
 
           case 'batch_complete':
             if (data.results && Array.isArray(data.results)) {
-              allResults.push(...data.results);
+              addResults(data.results);
             }
             if (typeof data.processedCount === 'number' && typeof data.totalCount === 'number' && data.totalCount > 0) {
               const progress = 10 + (data.processedCount / data.totalCount) * 80;
               updateProgress(progress);
             }
+            if (data.usage && onUsage) onUsage(data.usage);
             if (onStatus && data.batch && data.totalBatches && data.processedCount && data.totalCount) {
-              onStatus(`Completed batch ${data.batch}/${data.totalBatches} (${data.processedCount}/${data.totalCount} texts)`);
+              const spent = data.usage?.costUsd > 0 ? `, ${formatUsd(data.usage.costUsd)} so far` : '';
+              onStatus(`Completed batch ${data.batch}/${data.totalBatches} (${data.processedCount}/${data.totalCount} texts${spent})`);
             }
-            console.log(`[Server] Batch ${data.batch} complete: ${data.results?.length || 0} results, total: ${allResults.length}`);
+            console.log(`[Server] Batch ${data.batch} complete: ${data.results?.length || 0} results, total: ${resultsById.size}`);
             break;
 
           case 'batch_error':
@@ -541,15 +533,33 @@ export async function performSentimentAnalysisServer(
           case 'error':
             if (data.type === 'rate_limit') {
               console.warn('[Server] Rate limited, returning partial results');
-              if (onStatus) onStatus('Rate limited - returning partial results');
+              if (onStatus) onStatus('Rate limited - returning partial results, resume the job later');
             } else if (data.type === 'credits_exhausted') {
-              throw new Error('AI credits exhausted. Please add credits to continue.');
+              console.warn('[Server] AI credits exhausted, returning partial results');
+              if (onStatus) onStatus('AI credits exhausted - returning partial results, resume the job once credits are added');
+            } else if (data.type === 'spend_cap') {
+              console.warn(`[Server] ${data.message}`);
+              if (onStatus) onStatus('Spend cap reached - returning partial results, resume the job once the cap allows');
             }
             break;
 
           case 'complete':
-            if (allResults.length === 0 && data.results) {
-              allResults.push(...data.results);
+            if (Array.isArray(data.results)) {
+              finalResults = data.results;
+              if (resultsById.size === 0) addResults(data.results);
+            }
+            if (data.usage) {
+              if (onUsage) onUsage(data.usage);
+              console.log(`[Server] LLM usage: ${data.usage.calls} calls (${data.usage.retries} retries), ${data.usage.promptTokens} prompt + ${data.usage.completionTokens} completion tokens, ${formatUsd(data.usage.costUsd)}`);
+            }
+            if (data.cache?.hits > 0) {
+              console.log(`[Server] ${data.cache.hits} results from cache, ${data.cache.misses} texts sent to the model`);
+            }
+            if (data.statusCounts?.defaulted > 0) {
+              console.warn(`[Server] ${data.statusCounts.defaulted} texts had no usable model result and were defaulted`);
+            }
+            if (data.jobId && data.jobStatus && onJob) {
+              onJob({ jobId: data.jobId, status: data.jobStatus, stopReason: data.stopReason ?? null });
             }
             // Track server-reported success rate
             if (typeof data.successRate === 'number') {
@@ -618,34 +628,43 @@ export async function performSentimentAnalysisServer(
       handleSseEvent(eventName, dataStr);
     }
 
-    if (onStatus) onStatus('Finalizing...');
-    if (onProgress) onProgress(98);
-
-    console.log(`[Server] Streaming complete: ${allResults.length} total results`);
-    
-    // Defensive check: if we got suspiciously low results, log a warning
-    const resultRate = (allResults.length / texts.length) * 100;
-    if (resultRate < 50) {
-      console.warn(`[Server] WARNING: Only ${resultRate.toFixed(1)}% of texts returned results`);
-    }
-    
-    // Always return what we have - the edge function now ensures we get results for all texts
-    return allResults;
+    return { resultsById, finalResults };
   } catch (error) {
     console.error('[Server] Sentiment analysis error:', error);
     throw error;
   }
 }
 
-export function aggregateNodeAnalysis(results: SentimentResult[]): NodeAnalysis[] {
-  const nodeMap = new Map<string, SentimentResult[]>();
+// One text's contribution to a node: the whole result, or one aspect of a multi-label result
+type NodeContribution = Pick<SentimentResult, 'nodeId' | 'nodeName' | 'nodeConfidence' | 'polarity' | 'polarityScore' | 'kpiScores'> & { weight: number };
+
+function toNodeContributions(result: SentimentResult): NodeContribution[] {
+  if (result.nodeScores && result.nodeScores.length > 0) {
+    return result.nodeScores.map(score => ({
+      nodeId: score.nodeId,
+      nodeName: score.nodeName,
+      nodeConfidence: score.similarity,
+      polarity: score.polarity,
+      polarityScore: score.polarityScore,
+      kpiScores: score.kpiScores,
+      weight: score.weight,
+    }));
+  }
+  return [{ ...result, weight: 1 }];
+}
+
+export function aggregateNodeAnalysis(results: SentimentResult[], kpis?: KPIDefinition[]): NodeAnalysis[] {
+  // Fall back to whatever KPIs the results carry, e.g. archived runs scored with an older KPI set
+  const kpiIds = kpis ? kpis.map(kpi => kpi.id) : inferKPIIds(results.map(r => r.kpiScores));
+  const nodeMap = new Map<string, NodeContribution[]>();
 
-  // Group results by node
-  results.forEach(result => {
-    if (!nodeMap.has(result.nodeId)) {
-      nodeMap.set(result.nodeId, []);
+  // Group results by node; multi-label results count toward every node they mention.
+  // Defaulted results only hold placeholder scores and are left out.
+  results.filter(isScored).flatMap(toNodeContributions).forEach(contribution => {
+    if (!nodeMap.has(contribution.nodeId)) {
+      nodeMap.set(contribution.nodeId, []);
     }
-    nodeMap.get(result.nodeId)!.push(result);
+    nodeMap.get(contribution.nodeId)!.push(contribution);
   });
 
   // Calculate aggregates for each node with validation
@@ -659,20 +678,16 @@ export function aggregateNodeAnalysis(results: SentimentResult[]): NodeAnalysis[
         return null;
       }
       
-      const avgPolarity = nodeResults.reduce((sum, r) => sum + r.polarityScore, 0) / totalTexts;
-
-    const avgKpiScores: KPIScore = {
-      trust: 0,
-      optimism: 0,
-      frustration: 0,
-      clarity: 0,
-      access: 0,
-      fairness: 0,
-    };
+      // Averages are weighted by each text's share attributed to this node (1 for single-label results)
+      const totalWeight = nodeResults.reduce((sum, r) => sum + r.weight, 0);
+      const weightOf = (r: NodeContribution) => (totalWeight > 0 ? r.weight / totalWeight : 1 / totalTexts);
+      const avgPolarity = nodeResults.reduce((sum, r) => sum + r.polarityScore * weightOf(r), 0);
+
+    const avgKpiScores = createEmptyKPIScore(kpiIds.map(id => ({ id })));
 
-    Object.keys(avgKpiScores).forEach(kpi => {
-      avgKpiScores[kpi as keyof KPIScore] = 
-        nodeResults.reduce((sum, r) => sum + r.kpiScores[kpi as keyof KPIScore], 0) / totalTexts;
+    kpiIds.forEach(kpi => {
+      avgKpiScores[kpi] = 
+        nodeResults.reduce((sum, r) => sum + (r.kpiScores[kpi] ?? 0) * weightOf(r), 0);
     });
 
     const sentimentDistribution = {
@@ -681,16 +696,24 @@ export function aggregateNodeAnalysis(results: SentimentResult[]): NodeAnalysis[
       negative: nodeResults.filter(r => r.polarity === 'negative').length,
     };
 
-    return {
+    const withNodeConfidence = nodeResults.filter(r => r.nodeConfidence !== undefined);
+    const avgNodeConfidence = withNodeConfidence.length > 0
+      ? withNodeConfidence.reduce((sum, r) => sum + r.nodeConfidence!, 0) / withNodeConfidence.length
+      : undefined;
+
+    const analysis: NodeAnalysis = {
       nodeId,
       nodeName: nodeResults[0].nodeName,
       totalTexts,
+      avgNodeConfidence,
       avgPolarity,
       avgKpiScores,
       sentimentDistribution,
     };
+    return analysis;
   })
-  .filter((analysis): analysis is NodeAnalysis => analysis !== null); // Filter out null results
+  .filter((analysis): analysis is NodeAnalysis => analysis !== null) // Filter out null results
+  .sort((a, b) => Number(isUnassigned(a.nodeId)) - Number(isUnassigned(b.nodeId))); // Unassigned bucket last
 }
 
 export { extractKeywords };
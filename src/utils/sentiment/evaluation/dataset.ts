@@ -0,0 +1,181 @@
+import type { SentimentResult } from '@/types/sentiment';
+
+type Polarity = SentimentResult['polarity'];
+
+/**
+ * One gold-labelled text.
+ *
+ * JSONL: {"text": "...", "polarity": "negative", "node": "4", "polarityScore": -0.6, "kpis": {"trust": -0.5}}
+ * CSV:   text,polarity,node,polarityScore,kpi_trust,kpi_frustration
+ *
+ * `node` may be a node id or name. Polarity also accepts pos/neu/neg and 1/0/-1.
+ */
+export interface LabeledExample {
+  id: string;
+  text: string;
+  polarity: Polarity;
+  polarityScore?: number;
+  node?: string;
+  kpis?: Record<string, number>;
+}
+
+export interface LabeledDataset {
+  examples: LabeledExample[];
+  // Entries that could not be parsed, with the reason (1-based JSONL line or CSV row numbers)
+  skipped: Array<{ line: number; reason: string }>;
+}
+
+const POLARITY_ALIASES: Record<string, Polarity> = {
+  positive: 'positive', pos: 'positive', '1': 'positive', '+1': 'positive',
+  neutral: 'neutral', neu: 'neutral', '0': 'neutral',
+  negative: 'negative', neg: 'negative', '-1': 'negative',
+};
+
+function parsePolarity(value: unknown): Polarity | null {
+  if (value === undefined || value === null) return null;
+  return POLARITY_ALIASES[String(value).trim().toLowerCase()] ?? null;
+}
+
+function parseOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toExample(raw: Record<string, unknown>, fallbackId: string): LabeledExample | string {
+  const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+  if (!text) return 'missing text';
+
+  const polarity = parsePolarity(raw.polarity ?? raw.label);
+  if (!polarity) return `unrecognized polarity "${raw.polarity ?? raw.label}"`;
+
+  const example: LabeledExample = {
+    id: raw.id !== undefined && raw.id !== '' ? String(raw.id) : fallbackId,
+    text,
+    polarity,
+  };
+
+  const polarityScore = parseOptionalNumber(raw.polarityScore);
+  if (polarityScore !== undefined) example.polarityScore = polarityScore;
+
+  const node = raw.node ?? raw.nodeId ?? raw.nodeName;
+  if (node !== undefined && node !== '') example.node = String(node);
+
+  const kpis: Record<string, number> = {};
+  if (raw.kpis && typeof raw.kpis === 'object') {
+    Object.entries(raw.kpis as Record<string, unknown>).forEach(([id, value]) => {
+      const score = parseOptionalNumber(value);
+      if (score !== undefined) kpis[id] = score;
+    });
+  }
+  // Flat CSV columns: kpi_<id>
+  Object.entries(raw).forEach(([key, value]) => {
+    if (!key.startsWith('kpi_')) return;
+    const score = parseOptionalNumber(value);
+    if (score !== undefined) kpis[key.slice('kpi_'.length)] = score;
+  });
+  if (Object.keys(kpis).length > 0) example.kpis = kpis;
+
+  return example;
+}
+
+export function parseJSONL(content: string): LabeledDataset {
+  const dataset: LabeledDataset = { examples: [], skipped: [] };
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      const result = toExample(JSON.parse(line), String(index + 1));
+      if (typeof result === 'string') {
+        dataset.skipped.push({ line: index + 1, reason: result });
+      } else {
+        dataset.examples.push(result);
+      }
+    } catch {
+      dataset.skipped.push({ line: index + 1, reason: 'invalid JSON' });
+    }
+  });
+
+  return dataset;
+}
+
+// RFC 4180 style: quoted fields may contain commas, newlines and doubled quotes
+function parseCSVRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export function parseCSV(content: string): LabeledDataset {
+  const dataset: LabeledDataset = { examples: [], skipped: [] };
+  const [header, ...rows] = parseCSVRows(content);
+  if (!header) return dataset;
+
+  const columns = header.map(column => column.trim());
+
+  rows.forEach((cells, index) => {
+    if (cells.every(cell => !cell.trim())) return;
+    const raw: Record<string, unknown> = {};
+    columns.forEach((column, columnIndex) => {
+      raw[column] = cells[columnIndex]?.trim() ?? '';
+    });
+
+    // +2: header row, and 1-based numbering
+    const line = index + 2;
+    const result = toExample(raw, String(line));
+    if (typeof result === 'string') {
+      dataset.skipped.push({ line, reason: result });
+    } else {
+      dataset.examples.push(result);
+    }
+  });
+
+  return dataset;
+}
+
+// Detect the format from the file name, falling back to sniffing the first character
+export function parseLabeledDataset(content: string, fileName?: string): LabeledDataset {
+  if (fileName?.toLowerCase().endsWith('.csv')) return parseCSV(content);
+  if (fileName?.toLowerCase().match(/\.jsonl?$/)) return parseJSONL(content);
+  return content.trimStart().startsWith('{') ? parseJSONL(content) : parseCSV(content);
+}
+
+export async function loadLabeledDataset(file: File): Promise<LabeledDataset> {
+  return parseLabeledDataset(await file.text(), file.name);
+}
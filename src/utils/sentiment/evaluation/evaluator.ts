@@ -0,0 +1,188 @@
+import type { AnalyzerKind, KPIDefinition, Node, SentimentResult } from '@/types/sentiment';
+import {
+  performEnsembleAnalysis,
+  performSentimentAnalysis,
+  performSentimentAnalysisServer,
+} from '../analyzers/sentimentAnalyzer';
+import { DEFAULT_KPIS } from '../kpis/kpiRegistry';
+import {
+  calibrationCurve,
+  classificationMetrics,
+  pearsonCorrelation,
+  type CalibrationCurve,
+  type ClassificationMetrics,
+} from './metrics';
+import type { LabeledExample } from './dataset';
+import { isScored } from '../results/resultStatus';
+
+export type { AnalyzerKind };
+
+export interface AnalyzerEvaluation {
+  analyzer: AnalyzerKind;
+  // Share of labelled texts the analyzer returned a scored (non-defaulted) result for
+  coverage: number;
+  polarity: ClassificationMetrics;
+  // Accuracy over examples that carry a gold node; null when none do
+  nodeAccuracy: number | null;
+  nodeLabelledCount: number;
+  // Per-KPI Pearson correlation with gold scores; null when undefined for that KPI
+  kpiCorrelations: Record<string, number | null>;
+  // Reported confidence against polarity correctness
+  calibration: CalibrationCurve;
+  durationMs: number;
+  error?: string;
+}
+
+export interface EvaluationReport {
+  sampleSize: number;
+  evaluations: AnalyzerEvaluation[];
+}
+
+export interface EvaluationOptions {
+  analyzers?: AnalyzerKind[];
+  kpis?: KPIDefinition[];
+  // Sentiment model registry id for the local analyzer
+  sentimentModel?: string;
+  onStatus?: (status: string) => void;
+}
+
+function matchesNode(result: SentimentResult, goldNode: string): boolean {
+  const gold = goldNode.trim().toLowerCase();
+  return result.nodeId.toLowerCase() === gold || result.nodeName.toLowerCase() === gold;
+}
+
+// Both analyzers echo the input text, so results are realigned by text rather than position
+function alignResults(examples: LabeledExample[], results: SentimentResult[]): Array<SentimentResult | undefined> {
+  const byText = new Map<string, SentimentResult[]>();
+  results.forEach(result => {
+    const queue = byText.get(result.text) ?? [];
+    queue.push(result);
+    byText.set(result.text, queue);
+  });
+  return examples.map(example => byText.get(example.text)?.shift());
+}
+
+export function scoreAnalyzerResults(
+  analyzer: AnalyzerKind,
+  examples: LabeledExample[],
+  results: SentimentResult[],
+  kpis: KPIDefinition[] = DEFAULT_KPIS,
+  durationMs: number = 0
+): AnalyzerEvaluation {
+  const aligned = alignResults(examples, results);
+  const pairs = examples
+    .map((example, i) => ({ example, result: aligned[i] }))
+    .filter((pair): pair is { example: LabeledExample; result: SentimentResult } =>
+      pair.result !== undefined && isScored(pair.result)
+    );
+
+  const polarity = classificationMetrics(
+    pairs.map(p => p.example.polarity),
+    pairs.map(p => p.result.polarity)
+  );
+
+  const nodeLabelled = pairs.filter(p => p.example.node !== undefined);
+  const nodeCorrect = nodeLabelled.filter(p => matchesNode(p.result, p.example.node!)).length;
+
+  const kpiCorrelations: Record<string, number | null> = {};
+  kpis.forEach(kpi => {
+    const labelled = pairs.filter(p => p.example.kpis?.[kpi.id] !== undefined);
+    kpiCorrelations[kpi.id] = pearsonCorrelation(
+      labelled.map(p => p.result.kpiScores[kpi.id] ?? 0),
+      labelled.map(p => p.example.kpis![kpi.id])
+    );
+  });
+
+  return {
+    analyzer,
+    coverage: examples.length > 0 ? pairs.length / examples.length : 0,
+    polarity,
+    nodeAccuracy: nodeLabelled.length > 0 ? nodeCorrect / nodeLabelled.length : null,
+    nodeLabelledCount: nodeLabelled.length,
+    kpiCorrelations,
+    calibration: calibrationCurve(
+      pairs.map(p => p.result.confidence),
+      pairs.map(p => p.result.polarity === p.example.polarity)
+    ),
+    durationMs,
+  };
+}
+
+/**
+ * Runs each analyzer over a labelled dataset and reports polarity, node-assignment,
+ * KPI and calibration metrics side by side. A failing analyzer is reported with its
+ * error instead of aborting the whole evaluation.
+ */
+export async function evaluateAnalyzers(
+  examples: LabeledExample[],
+  nodes: Node[],
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const { analyzers = ['local', 'server'], kpis = DEFAULT_KPIS, sentimentModel, onStatus } = options;
+  const texts = examples.map(example => example.text);
+  const evaluations: AnalyzerEvaluation[] = [];
+
+  for (const analyzer of analyzers) {
+    const start = performance.now();
+    const status = (message: string) => onStatus?.(`[${analyzer}] ${message}`);
+
+    try {
+      const results = analyzer === 'local'
+        ? await performSentimentAnalysis(texts, nodes, undefined, status, { kpis, sentimentModel })
+        : analyzer === 'ensemble'
+          ? await performEnsembleAnalysis(texts, nodes, undefined, status, { kpis, sentimentModel })
+          : await performSentimentAnalysisServer(texts, nodes, undefined, status, { kpis });
+      evaluations.push(scoreAnalyzerResults(analyzer, examples, results, kpis, performance.now() - start));
+    } catch (error) {
+      console.error(`Evaluation of ${analyzer} analyzer failed:`, error);
+      evaluations.push({
+        ...scoreAnalyzerResults(analyzer, examples, [], kpis, performance.now() - start),
+        error: error instanceof Error ? error.message : 'Analysis failed',
+      });
+    }
+  }
+
+  return { sampleSize: examples.length, evaluations };
+}
+
+const formatNumber = (value: number | null, digits: number = 3) =>
+  value === null ? 'n/a' : value.toFixed(digits);
+
+const formatPercent = (value: number | null) =>
+  value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+
+// Markdown summary suitable for pasting into a PR or issue when tuning constants
+export function formatEvaluationReport(report: EvaluationReport): string {
+  const lines: string[] = [`# Sentiment evaluation (${report.sampleSize} labelled texts)`, ''];
+
+  lines.push('| Analyzer | Coverage | Accuracy | Macro-F1 | Node accuracy | ECE | Time |');
+  lines.push('|---|---|---|---|---|---|---|');
+  report.evaluations.forEach(e => {
+    lines.push(
+      `| ${e.analyzer}${e.error ? ' (failed)' : ''} | ${formatPercent(e.coverage)} | ${formatPercent(e.polarity.accuracy)} | ` +
+      `${formatNumber(e.polarity.macroF1)} | ${formatPercent(e.nodeAccuracy)} | ${formatNumber(e.calibration.ece)} | ` +
+      `${(e.durationMs / 1000).toFixed(1)}s |`
+    );
+  });
+
+  report.evaluations.forEach(e => {
+    lines.push('', `## ${e.analyzer}`);
+    if (e.error) {
+      lines.push('', `Error: ${e.error}`);
+      return;
+    }
+
+    lines.push('', '| Gold \\ Predicted | ' + e.polarity.labels.join(' | ') + ' |');
+    lines.push('|---|' + e.polarity.labels.map(() => '---|').join(''));
+    e.polarity.labels.forEach((label, i) => {
+      lines.push(`| ${label} | ${e.polarity.confusion[i].join(' | ')} |`);
+    });
+
+    const kpiEntries = Object.entries(e.kpiCorrelations).filter(([, correlation]) => correlation !== null);
+    if (kpiEntries.length > 0) {
+      lines.push('', 'KPI correlation: ' + kpiEntries.map(([id, r]) => `${id} ${formatNumber(r)}`).join(', '));
+    }
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,130 @@
+export const POLARITY_LABELS = ['positive', 'neutral', 'negative'] as const;
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface ClassificationMetrics {
+  accuracy: number;
+  macroF1: number;
+  perClass: Record<string, ClassMetrics>;
+  // confusion[goldIndex][predictedIndex], indexed by `labels`
+  confusion: number[][];
+  labels: string[];
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  avgConfidence: number;
+  accuracy: number;
+}
+
+export interface CalibrationCurve {
+  bins: CalibrationBin[];
+  // Expected calibration error: count-weighted |accuracy - confidence| across bins
+  ece: number;
+}
+
+export function confusionMatrix(gold: string[], predicted: string[], labels: readonly string[]): number[][] {
+  const matrix = labels.map(() => labels.map(() => 0));
+  gold.forEach((label, i) => {
+    const goldIndex = labels.indexOf(label);
+    const predictedIndex = labels.indexOf(predicted[i]);
+    if (goldIndex !== -1 && predictedIndex !== -1) {
+      matrix[goldIndex][predictedIndex]++;
+    }
+  });
+  return matrix;
+}
+
+export function classificationMetrics(
+  gold: string[],
+  predicted: string[],
+  labels: readonly string[] = POLARITY_LABELS
+): ClassificationMetrics {
+  const confusion = confusionMatrix(gold, predicted, labels);
+  const total = gold.length;
+  const correct = labels.reduce((sum, _, i) => sum + confusion[i][i], 0);
+
+  const perClass: Record<string, ClassMetrics> = {};
+  labels.forEach((label, i) => {
+    const truePositives = confusion[i][i];
+    const predictedCount = confusion.reduce((sum, row) => sum + row[i], 0);
+    const support = confusion[i].reduce((sum, count) => sum + count, 0);
+    const precision = predictedCount > 0 ? truePositives / predictedCount : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    perClass[label] = { precision, recall, f1, support };
+  });
+
+  // Macro-F1 over classes that actually occur in the gold labels
+  const presentLabels = labels.filter(label => perClass[label].support > 0);
+  const macroF1 = presentLabels.length > 0
+    ? presentLabels.reduce((sum, label) => sum + perClass[label].f1, 0) / presentLabels.length
+    : 0;
+
+  return {
+    accuracy: total > 0 ? correct / total : 0,
+    macroF1,
+    perClass,
+    confusion,
+    labels: [...labels],
+  };
+}
+
+// Pearson correlation; null when undefined (fewer than 2 points or zero variance)
+export function pearsonCorrelation(x: number[], y: number[]): number | null {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return null;
+
+  const meanX = x.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+  const meanY = y.slice(0, n).reduce((sum, v) => sum + v, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  const denominator = Math.sqrt(varianceX * varianceY);
+  return denominator === 0 ? null : covariance / denominator;
+}
+
+export function calibrationCurve(confidences: number[], correct: boolean[], binCount: number = 10): CalibrationCurve {
+  const bins: CalibrationBin[] = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: 0,
+    avgConfidence: 0,
+    accuracy: 0,
+  }));
+
+  confidences.forEach((confidence, i) => {
+    const clamped = Math.max(0, Math.min(1, confidence));
+    const bin = bins[Math.min(binCount - 1, Math.floor(clamped * binCount))];
+    bin.count++;
+    bin.avgConfidence += clamped;
+    bin.accuracy += correct[i] ? 1 : 0;
+  });
+
+  const total = confidences.length;
+  let ece = 0;
+  bins.forEach(bin => {
+    if (bin.count === 0) return;
+    bin.avgConfidence /= bin.count;
+    bin.accuracy /= bin.count;
+    ece += (bin.count / total) * Math.abs(bin.accuracy - bin.avgConfidence);
+  });
+
+  return { bins, ece };
+}
@@ -0,0 +1,171 @@
+import type { KPIDefinition } from '@/types/sentiment';
+import { calculatePolarityScore, DEFAULT_POLARITY_PARAMS, type PolarityParams } from '../models/sentimentModel';
+import {
+  combineKPIScore,
+  extractCalibrationFeatures,
+  KPI_KEYWORD_BOOST,
+  SHORT_TEXT_POLARITY_DAMPING,
+  type CalibrationFeatures,
+} from '../analyzers/localAnalyzer';
+import { DEFAULT_KPIS } from '../kpis/kpiRegistry';
+import { classificationMetrics, pearsonCorrelation } from './metrics';
+import type { LabeledExample } from './dataset';
+
+export interface ScoringConstants extends PolarityParams {
+  shortTextDamping: number;
+  keywordBoost: number;
+}
+
+export interface FittedConstants {
+  current: ScoringConstants;
+  proposed: ScoringConstants;
+  // Objective values on the labelled set, before and after fitting
+  polarityMacroF1: { current: number; proposed: number };
+  shortTextScoreMSE: { current: number | null; proposed: number | null };
+  meanKPICorrelation: { current: number | null; proposed: number | null };
+  sampleSize: number;
+}
+
+const CURRENT_CONSTANTS: ScoringConstants = {
+  ...DEFAULT_POLARITY_PARAMS,
+  shortTextDamping: SHORT_TEXT_POLARITY_DAMPING,
+  keywordBoost: KPI_KEYWORD_BOOST,
+};
+
+function range(start: number, end: number, step: number): number[] {
+  const values: number[] = [];
+  for (let value = start; value <= end + 1e-9; value += step) {
+    values.push(Math.round(value * 1000) / 1000);
+  }
+  return values;
+}
+
+function polarityFor(feature: CalibrationFeatures, constants: ScoringConstants) {
+  const { polarity, polarityScore } = calculatePolarityScore(feature.label, feature.score, constants);
+  return {
+    polarity,
+    polarityScore: feature.isShort ? polarityScore * constants.shortTextDamping : polarityScore,
+  };
+}
+
+function polarityMacroF1(features: CalibrationFeatures[], examples: LabeledExample[], constants: ScoringConstants): number {
+  const predicted = features.map(feature => polarityFor(feature, constants).polarity);
+  return classificationMetrics(examples.map(e => e.polarity), predicted).macroF1;
+}
+
+// Only short texts with a gold polarityScore inform the damping factor
+function shortTextMSE(features: CalibrationFeatures[], examples: LabeledExample[], constants: ScoringConstants): number | null {
+  let sum = 0;
+  let count = 0;
+  features.forEach((feature, i) => {
+    const gold = examples[i].polarityScore;
+    if (!feature.isShort || gold === undefined) return;
+    const error = polarityFor(feature, constants).polarityScore - gold;
+    sum += error * error;
+    count++;
+  });
+  return count > 0 ? sum / count : null;
+}
+
+function meanKPICorrelation(
+  features: CalibrationFeatures[],
+  examples: LabeledExample[],
+  kpis: KPIDefinition[],
+  constants: ScoringConstants
+): number | null {
+  const correlations = kpis
+    .map(kpi => {
+      const predicted: number[] = [];
+      const gold: number[] = [];
+      features.forEach((feature, i) => {
+        const goldScore = examples[i].kpis?.[kpi.id];
+        if (goldScore === undefined) return;
+        const { similarity, keywordSum } = feature.kpiComponents[kpi.id];
+        const { polarityScore } = polarityFor(feature, constants);
+        predicted.push(combineKPIScore(similarity, keywordSum, polarityScore, kpi.polarity, constants.keywordBoost));
+        gold.push(goldScore);
+      });
+      return pearsonCorrelation(predicted, gold);
+    })
+    .filter((correlation): correlation is number => correlation !== null);
+
+  return correlations.length > 0
+    ? correlations.reduce((sum, correlation) => sum + correlation, 0) / correlations.length
+    : null;
+}
+
+/**
+ * Grid-searches the local scoring constants against labelled examples:
+ * polarity thresholds by macro-F1, short-text damping by MSE against gold polarityScore,
+ * and the KPI keyword boost by mean Pearson correlation against gold KPI labels.
+ * Each constant keeps its current value when the dataset has no labels for it.
+ */
+export function fitScoringConstants(
+  features: CalibrationFeatures[],
+  examples: LabeledExample[],
+  kpis: KPIDefinition[] = DEFAULT_KPIS
+): FittedConstants {
+  const proposed: ScoringConstants = { ...CURRENT_CONSTANTS };
+
+  let bestF1 = polarityMacroF1(features, examples, proposed);
+  for (const threshold of range(0.55, 0.95, 0.01)) {
+    for (const neutralThreshold of range(0.51, threshold, 0.01)) {
+      const candidate = { ...proposed, threshold, neutralThreshold };
+      const f1 = polarityMacroF1(features, examples, candidate);
+      if (f1 > bestF1) {
+        bestF1 = f1;
+        proposed.threshold = threshold;
+        proposed.neutralThreshold = neutralThreshold;
+      }
+    }
+  }
+
+  let bestMSE = shortTextMSE(features, examples, proposed);
+  if (bestMSE !== null) {
+    for (const shortTextDamping of range(0.3, 1, 0.05)) {
+      const mse = shortTextMSE(features, examples, { ...proposed, shortTextDamping })!;
+      if (mse < bestMSE) {
+        bestMSE = mse;
+        proposed.shortTextDamping = shortTextDamping;
+      }
+    }
+  }
+
+  let bestCorrelation = meanKPICorrelation(features, examples, kpis, proposed);
+  if (bestCorrelation !== null) {
+    for (const keywordBoost of range(0, 0.5, 0.02)) {
+      const correlation = meanKPICorrelation(features, examples, kpis, { ...proposed, keywordBoost })!;
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        proposed.keywordBoost = keywordBoost;
+      }
+    }
+  }
+
+  return {
+    current: CURRENT_CONSTANTS,
+    proposed,
+    polarityMacroF1: {
+      current: polarityMacroF1(features, examples, CURRENT_CONSTANTS),
+      proposed: bestF1,
+    },
+    shortTextScoreMSE: {
+      current: shortTextMSE(features, examples, CURRENT_CONSTANTS),
+      proposed: bestMSE,
+    },
+    meanKPICorrelation: {
+      current: meanKPICorrelation(features, examples, kpis, CURRENT_CONSTANTS),
+      proposed: bestCorrelation,
+    },
+    sampleSize: examples.length,
+  };
+}
+
+// Runs the local models over the labelled texts and fits constants in one step
+export async function fitScoringConstantsFromDataset(
+  examples: LabeledExample[],
+  kpis: KPIDefinition[] = DEFAULT_KPIS
+): Promise<FittedConstants> {
+  const features = await extractCalibrationFeatures(examples.map(e => e.text), kpis);
+  return fitScoringConstants(features, examples, kpis);
+}
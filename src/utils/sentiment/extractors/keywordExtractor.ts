@@ -1,4 +1,4 @@
-// Removed embedding imports for performance optimization
+import { generateBatchEmbeddings, cosineSimilarity } from '../models/embeddingModel';
 
 const STOP_WORDS = new Set([
   'the', 'be', 'to', 'of', 'and', 'a', 'in', 'that', 'have', 'i',
@@ -12,65 +12,360 @@ const STOP_WORDS = new Set([
   'back', 'after', 'use', 'two', 'how', 'our', 'work', 'first', 'well', 'way',
   'even', 'new', 'want', 'because', 'any', 'these', 'give', 'day', 'most', 'us',
   'is', 'was', 'are', 'been', 'has', 'had', 'were', 'said', 'did', 'having',
-  'may', 'should', 'am', 'being', 'very', 'much', 'more', 'really', 'too'
+  'may', 'should', 'am', 'being', 'very', 'much', 'more', 'really', 'too',
+  'im', 'ive', 'dont', 'doesnt', 'didnt', 'cant', 'wont', 'isnt', 'thats', 'youre',
+  'got', 'going', 'thing', 'things', 'lot', 'still', 'something', 'anyone', 'pretty', 'never'
 ]);
 
-function calculateTFIDF(text: string): Map<string, number> {
-  const words = tokenize(text);
-  const wordFrequency = new Map<string, number>();
-  
-  // Calculate term frequency
-  words.forEach(word => {
-    wordFrequency.set(word, (wordFrequency.get(word) || 0) + 1);
+export type KeyphraseScoring = 'tfidf' | 'rake';
+
+export interface KeyphraseOptions {
+  maxPhrases?: number;
+  // Longest n-gram considered (1 = unigrams only)
+  maxNgram?: number;
+  // Multi-word phrases must appear in at least this many documents of the group
+  minDocumentFrequency?: number;
+  // tfidf: summed per-document TF x corpus IDF; rake: RAKE word degree/frequency x corpus IDF
+  scoring?: KeyphraseScoring;
+}
+
+export interface Keyphrase {
+  phrase: string;
+  score: number;
+  // Documents in the group containing the phrase
+  documentFrequency: number;
+}
+
+// Document frequencies over the whole corpus, so group keyphrases are weighted by how distinctive they are
+export interface CorpusStats {
+  documentCount: number;
+  documentFrequency: Map<string, number>;
+  maxNgram: number;
+}
+
+export interface KeyphraseDocument {
+  text: string;
+  polarityScore?: number;
+  nodeId?: string;
+  subreddit?: string;
+  // ISO timestamp of the post/comment, or a publication date for papers
+  timestamp?: string;
+}
+
+export interface TrendingTheme {
+  word: string;
+  frequency: number;
+  sentiment: number;
+}
+
+const DEFAULT_OPTIONS: Required<KeyphraseOptions> = {
+  maxPhrases: 10,
+  maxNgram: 3,
+  minDocumentFrequency: 2,
+  scoring: 'tfidf',
+};
+
+// Letters (with combining marks) and digits of any script, as in textNormalizer
+const WORD_CHAR = '\\p{L}\\p{M}\\p{N}';
+
+function isCandidateWord(word: string): boolean {
+  return word.length > 2 && !STOP_WORDS.has(word) && !/^\p{N}+$/u.test(word);
+}
+
+// Stopword-free word runs; phrases never span punctuation (of any script, except hyphens) or stopwords
+function splitCandidateRuns(text: string): string[][] {
+  const runs: string[][] = [];
+  const segments = text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/['’]/g, '')
+    .split(/(?:[^\P{P}-]|[\n\r\t|])+/u);
+
+  for (const segment of segments) {
+    let run: string[] = [];
+    for (const word of segment.split(/[^\p{L}\p{M}\p{N}-]+/u)) {
+      const cleaned = word.replace(/^-+|-+$/g, '');
+      if (cleaned && isCandidateWord(cleaned)) {
+        run.push(cleaned);
+      } else if (run.length > 0) {
+        runs.push(run);
+        run = [];
+      }
+    }
+    if (run.length > 0) runs.push(run);
+  }
+
+  return runs;
+}
+
+// Counts of every 1..maxNgram phrase in one document (unigrams keep the old >3 character rule)
+function countNgrams(runs: string[][], maxNgram: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const run of runs) {
+    for (let n = 1; n <= maxNgram; n++) {
+      for (let i = 0; i + n <= run.length; i++) {
+        if (n === 1 && run[i].length <= 3) continue;
+        const phrase = run.slice(i, i + n).join(' ');
+        counts.set(phrase, (counts.get(phrase) || 0) + 1);
+      }
+    }
+  }
+  return counts;
+}
+
+export function buildCorpusStats(texts: string[], maxNgram: number = DEFAULT_OPTIONS.maxNgram): CorpusStats {
+  const documentFrequency = new Map<string, number>();
+  texts.forEach(text => {
+    countNgrams(splitCandidateRuns(text), maxNgram).forEach((_, phrase) => {
+      documentFrequency.set(phrase, (documentFrequency.get(phrase) || 0) + 1);
+    });
   });
-  
-  const maxFreq = Math.max(...Array.from(wordFrequency.values()), 1);
-  const scores = new Map<string, number>();
-  
-  // Normalize by max frequency for single document
-  wordFrequency.forEach((freq, word) => {
-    scores.set(word, freq / maxFreq);
+  return { documentCount: texts.length, documentFrequency, maxNgram };
+}
+
+function inverseDocumentFrequency(corpus: CorpusStats, phrase: string): number {
+  const df = corpus.documentFrequency.get(phrase) || 0;
+  return Math.log((corpus.documentCount + 1) / (df + 1)) + 1;
+}
+
+// RAKE word scores (degree / frequency) from every candidate run in the group
+function rakeWordScores(runsPerDocument: string[][][]): Map<string, number> {
+  const frequency = new Map<string, number>();
+  const degree = new Map<string, number>();
+  runsPerDocument.flat().forEach(run => {
+    run.forEach(word => {
+      frequency.set(word, (frequency.get(word) || 0) + 1);
+      degree.set(word, (degree.get(word) || 0) + run.length);
+    });
   });
-  
+
+  const scores = new Map<string, number>();
+  frequency.forEach((freq, word) => scores.set(word, degree.get(word)! / freq));
   return scores;
 }
 
-function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^\w\s]/g, ' ')
-    .split(/\s+/)
-    .filter(word => 
-      word.length > 3 && 
-      !STOP_WORDS.has(word) &&
-      !/^\d+$/.test(word)
+/**
+ * Keyphrases for a group of documents (a node, subreddit or time bucket) scored against
+ * corpus-wide IDF. Pass the same `corpus` to every group so scores are comparable.
+ */
+export function extractKeyphrases(
+  texts: string[],
+  options: KeyphraseOptions = {},
+  corpus?: CorpusStats
+): Keyphrase[] {
+  const { maxPhrases, maxNgram, minDocumentFrequency, scoring } = { ...DEFAULT_OPTIONS, ...options };
+  if (texts.length === 0) return [];
+
+  const stats = corpus ?? buildCorpusStats(texts, maxNgram);
+  const runsPerDocument = texts.map(splitCandidateRuns);
+  const rakeScores = scoring === 'rake' ? rakeWordScores(runsPerDocument) : null;
+
+  const termFrequency = new Map<string, number>();
+  const groupDocumentFrequency = new Map<string, number>();
+
+  runsPerDocument.forEach(runs => {
+    const counts = countNgrams(runs, Math.min(maxNgram, stats.maxNgram));
+    const documentLength = runs.reduce((sum, run) => sum + run.length, 0) || 1;
+    counts.forEach((count, phrase) => {
+      termFrequency.set(phrase, (termFrequency.get(phrase) || 0) + count / documentLength);
+      groupDocumentFrequency.set(phrase, (groupDocumentFrequency.get(phrase) || 0) + 1);
+    });
+  });
+
+  // Small groups can't meet a document-frequency floor, so relax it to what the group allows
+  const phraseFloor = Math.min(minDocumentFrequency, texts.length);
+
+  const candidates: Keyphrase[] = [];
+  termFrequency.forEach((tf, phrase) => {
+    const words = phrase.split(' ');
+    const documentFrequency = groupDocumentFrequency.get(phrase)!;
+    if (words.length > 1 && documentFrequency < phraseFloor) return;
+
+    const idf = inverseDocumentFrequency(stats, phrase);
+    const score = rakeScores
+      ? words.reduce((sum, word) => sum + (rakeScores.get(word) || 0), 0) * documentFrequency * idf
+      // sqrt(n) offsets the naturally lower counts of longer n-grams
+      : tf * idf * Math.sqrt(words.length);
+
+    candidates.push({ phrase, score, documentFrequency });
+  });
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  // Skip phrases already covered by a higher-ranked longer phrase ("battery" after "battery life")
+  const selected: Keyphrase[] = [];
+  for (const candidate of candidates) {
+    if (selected.length >= maxPhrases) break;
+    const covered = selected.some(s => ` ${s.phrase} `.includes(` ${candidate.phrase} `));
+    if (!covered) selected.push(candidate);
+  }
+
+  return selected;
+}
+
+/**
+ * Keyphrases for each group (node, subreddit, time bucket...), all scored against one
+ * corpus IDF computed over every document.
+ */
+export function extractKeyphrasesByGroup<T extends { text: string }>(
+  documents: T[],
+  groupOf: (document: T) => string | undefined,
+  options: KeyphraseOptions = {}
+): Map<string, Keyphrase[]> {
+  const corpus = buildCorpusStats(documents.map(d => d.text), options.maxNgram ?? DEFAULT_OPTIONS.maxNgram);
+  const groups = new Map<string, string[]>();
+
+  documents.forEach(document => {
+    const group = groupOf(document);
+    if (group === undefined) return;
+    const texts = groups.get(group) || [];
+    texts.push(document.text);
+    groups.set(group, texts);
+  });
+
+  const keyphrases = new Map<string, Keyphrase[]>();
+  groups.forEach((texts, group) => keyphrases.set(group, extractKeyphrases(texts, options, corpus)));
+  return keyphrases;
+}
+
+export type TimeBucketGranularity = 'day' | 'week' | 'month' | 'year';
+
+// Bucket key for a timestamp (weeks start on Monday, UTC); undefined for unparseable dates
+export function timeBucket(timestamp: string, granularity: TimeBucketGranularity = 'day'): string | undefined {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return undefined;
+
+  const iso = date.toISOString();
+  switch (granularity) {
+    case 'year':
+      return iso.slice(0, 4);
+    case 'month':
+      return iso.slice(0, 7);
+    case 'week': {
+      const monday = new Date(date);
+      monday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+      return monday.toISOString().slice(0, 10);
+    }
+    default:
+      return iso.slice(0, 10);
+  }
+}
+
+/**
+ * Maximal Marginal Relevance over phrase embeddings: trades keyphrase score against similarity
+ * to phrases already picked, so near-duplicates ("price", "prices", "pricing") don't crowd the list.
+ * `lambda` = 1 keeps the original ranking.
+ */
+export async function diversifyKeyphrases(
+  keyphrases: Keyphrase[],
+  maxPhrases: number,
+  lambda: number = 0.6
+): Promise<Keyphrase[]> {
+  if (keyphrases.length <= 1) return keyphrases.slice(0, maxPhrases);
+
+  const embeddings = await generateBatchEmbeddings(keyphrases.map(k => k.phrase));
+  const maxScore = keyphrases[0].score || 1;
+  const remaining = [...keyphrases];
+  const selected: Keyphrase[] = [remaining.shift()!];
+
+  while (selected.length < maxPhrases && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const embedding = embeddings.get(candidate.phrase)!;
+      const redundancy = Math.max(...selected.map(s => cosineSimilarity(embedding, embeddings.get(s.phrase)!)));
+      const value = lambda * (candidate.score / maxScore) - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected;
+}
+
+// diversifyKeyphrases over each group of extractKeyphrasesByGroup
+export async function diversifyKeyphraseGroups(
+  groups: Map<string, Keyphrase[]>,
+  maxPhrases: number,
+  lambda?: number
+): Promise<Map<string, Keyphrase[]>> {
+  const diversified = new Map<string, Keyphrase[]>();
+  for (const [group, keyphrases] of groups) {
+    diversified.set(group, await diversifyKeyphrases(keyphrases, maxPhrases, lambda));
+  }
+  return diversified;
+}
+
+/**
+ * Themes for the TrendingThemes cloud. With timestamps, phrases from the latest time bucket are
+ * ranked by lift over earlier buckets; otherwise by corpus keyphrase score. Frequency counts
+ * documents containing the phrase and sentiment averages their polarityScore.
+ */
+export function extractTrendingThemes(
+  documents: KeyphraseDocument[],
+  maxThemes: number = 20,
+  granularity: TimeBucketGranularity = 'day'
+): TrendingTheme[] {
+  if (documents.length === 0) return [];
+
+  const corpus = buildCorpusStats(documents.map(d => d.text));
+  const bucketOf = (d: KeyphraseDocument) => (d.timestamp ? timeBucket(d.timestamp, granularity) : undefined);
+  const buckets = Array.from(new Set(documents.map(bucketOf).filter((b): b is string => !!b))).sort();
+
+  let ranked: Keyphrase[];
+  if (buckets.length >= 2) {
+    const latest = buckets[buckets.length - 1];
+    const recent = documents.filter(d => bucketOf(d) === latest);
+    const earlierCount = documents.length - recent.length;
+
+    ranked = extractKeyphrases(recent.map(d => d.text), { maxPhrases: maxThemes * 3 }, corpus)
+      .map(keyphrase => {
+        const totalDocs = corpus.documentFrequency.get(keyphrase.phrase) || 0;
+        const earlierShare = (totalDocs - keyphrase.documentFrequency + 1) / (earlierCount + 1);
+        const recentShare = keyphrase.documentFrequency / recent.length;
+        return { ...keyphrase, score: keyphrase.score * (recentShare / earlierShare) };
+      })
+      .sort((a, b) => b.score - a.score);
+  } else {
+    ranked = extractKeyphrases(documents.map(d => d.text), { maxPhrases: maxThemes }, corpus);
+  }
+
+  return ranked.slice(0, maxThemes).map(({ phrase }) => {
+    // \b only knows ASCII word characters, so phrase edges are checked against any script
+    const pattern = new RegExp(
+      `(?<![${WORD_CHAR}])${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![${WORD_CHAR}])`,
+      'iu'
     );
+    const matching = documents.filter(d => pattern.test(d.text.replace(/['’]/g, '')));
+    const scored = matching.filter(d => d.polarityScore !== undefined);
+    return {
+      word: phrase,
+      frequency: matching.length,
+      sentiment: scored.length > 0
+        ? scored.reduce((sum, d) => sum + d.polarityScore!, 0) / scored.length
+        : 0,
+    };
+  });
 }
 
 export async function extractKeywords(
-  texts: string[], 
+  texts: string[],
   maxKeywords: number = 10
 ): Promise<string[]> {
   try {
     if (texts.length === 0) return [];
 
-    // Combine all texts for overall keyword extraction
-    const combinedText = texts.join(' ');
-    
-    // Use TF-IDF for keyword extraction (removed embedding diversification for performance)
-    const scores = calculateTFIDF(combinedText);
-    
-    if (!scores || scores.size === 0) {
-      return fallbackKeywordExtraction(combinedText, maxKeywords);
+    const keyphrases = extractKeyphrases(texts, { maxPhrases: maxKeywords });
+    if (keyphrases.length === 0) {
+      return fallbackKeywordExtraction(texts.join(' '), maxKeywords);
     }
 
-    // Get top keywords based on TF-IDF score
-    const keywords = Array.from(scores.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, maxKeywords)
-      .map(([word]) => word);
-    
-    return keywords;
+    return keyphrases.map(k => k.phrase);
   } catch (error) {
     console.error('Error in keyword extraction:', error);
     const combinedText = texts.join(' ');
@@ -78,10 +373,8 @@ export async function extractKeywords(
   }
 }
 
-// Removed diversifyKeywords function - no longer needed without embeddings
-
 function fallbackKeywordExtraction(text: string, maxKeywords: number): string[] {
-  const words = tokenize(text);
+  const words = splitCandidateRuns(text).flat().filter(word => word.length > 3);
   const frequency = new Map<string, number>();
 
   words.forEach(word => {
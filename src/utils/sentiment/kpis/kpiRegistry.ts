@@ -0,0 +1,175 @@
+import type { KPIDefinition, KPIScore } from '@/types/sentiment';
+
+const STORAGE_KEY = 'sentiment-kpis';
+
+// Default KPI definitions - concept lexicons based on NRC emotion lexicon, VADER, and LIWC research lexicons
+export const DEFAULT_KPIS: KPIDefinition[] = [
+  {
+    id: 'trust',
+    label: 'Trust',
+    polarity: 'positive',
+    description: 'Confidence in the reliability and honesty of people, institutions or systems',
+    concepts: [
+      'trust', 'reliable', 'honest', 'transparent', 'credible', 'dependable', 'authentic',
+      'trustworthy', 'confidence', 'faith', 'integrity', 'truthful', 'genuine', 'legitimate',
+      'reputable', 'believable', 'verified', 'validated', 'secure', 'safe', 'consistent',
+      'accountability', 'responsible', 'ethical', 'sincere', 'loyal', 'faithful'
+    ],
+    weights: {
+      trustworthy: 1.4, credible: 1.3, reliable: 1.3, authentic: 1.2, verified: 1.2,
+      integrity: 1.3, accountability: 1.2, ethical: 1.2,
+    },
+  },
+  {
+    id: 'optimism',
+    label: 'Optimism',
+    polarity: 'positive',
+    description: 'Hope and positive expectations about the future',
+    concepts: [
+      'hope', 'optimistic', 'positive', 'encouraging', 'promising', 'bright', 'confident',
+      'hopeful', 'upbeat', 'favorable', 'beneficial', 'advantageous', 'constructive',
+      'enthusiastic', 'motivated', 'inspired', 'excited', 'eager', 'cheerful', 'happy',
+      'joy', 'pleased', 'satisfied', 'success', 'improve', 'progress', 'forward', 'better',
+      'opportunity', 'potential', 'possible', 'achieve', 'accomplish', 'thrive', 'flourish'
+    ],
+    weights: {
+      hope: 1.4, optimistic: 1.3, hopeful: 1.3, promising: 1.2, encouraging: 1.2,
+      potential: 1.2, opportunity: 1.2, progress: 1.2, thrive: 1.3,
+    },
+  },
+  {
+    id: 'frustration',
+    label: 'Frustration',
+    polarity: 'inverted',
+    description: 'Irritation with obstacles, failures or things that do not work',
+    concepts: [
+      'frustration', 'annoying', 'difficult', 'problem', 'issue', 'struggle', 'challenging',
+      'frustrated', 'irritating', 'aggravating', 'exasperating', 'troublesome', 'bothersome',
+      'obstacle', 'barrier', 'hindrance', 'impediment', 'setback', 'delay', 'stuck',
+      'blocked', 'prevented', 'limited', 'constrained', 'restricted', 'complicated',
+      'confusing', 'unclear', 'ambiguous', 'vague', 'uncertain', 'inconsistent', 'unreliable',
+      'fail', 'failure', 'error', 'mistake', 'wrong', 'broken', 'ineffective', 'inadequate'
+    ],
+    weights: {
+      frustration: 1.4, frustrated: 1.3, obstacle: 1.3, barrier: 1.3, blocked: 1.3,
+      fail: 1.4, failure: 1.3, error: 1.2, broken: 1.2, inadequate: 1.2,
+    },
+  },
+  {
+    id: 'clarity',
+    label: 'Clarity',
+    polarity: 'positive',
+    description: 'How clear, understandable and well-explained things are',
+    concepts: [
+      'clear', 'understand', 'simple', 'obvious', 'transparent', 'straightforward', 'explicit',
+      'understandable', 'comprehensible', 'intelligible', 'lucid', 'coherent', 'logical',
+      'rational', 'reasonable', 'sensible', 'plain', 'evident', 'apparent', 'manifest',
+      'unambiguous', 'precise', 'accurate', 'exact', 'specific', 'defined', 'explained',
+      'articulated', 'expressed', 'communicated', 'distinct', 'definite', 'certain'
+    ],
+    weights: {
+      clear: 1.4, understandable: 1.3, comprehensible: 1.3, explicit: 1.2, unambiguous: 1.3,
+      precise: 1.2, coherent: 1.2, logical: 1.2,
+    },
+  },
+  {
+    id: 'access',
+    label: 'Access',
+    polarity: 'positive',
+    description: 'How available, reachable and easy to use resources or opportunities are',
+    concepts: [
+      'access', 'available', 'easy', 'convenient', 'reachable', 'obtainable', 'open',
+      'accessible', 'usable', 'approachable', 'attainable', 'achievable', 'feasible',
+      'practical', 'simple', 'effortless', 'straightforward', 'user-friendly', 'intuitive',
+      'navigate', 'find', 'locate', 'retrieve', 'get', 'obtain', 'acquire', 'procure',
+      'enable', 'permit', 'allow', 'facilitate', 'support', 'accommodate', 'inclusive'
+    ],
+    weights: {
+      accessible: 1.4, available: 1.3, reachable: 1.3, usable: 1.3, 'user-friendly': 1.3,
+      intuitive: 1.2, facilitate: 1.2, inclusive: 1.2,
+    },
+  },
+  {
+    id: 'fairness',
+    label: 'Fairness',
+    polarity: 'positive',
+    description: 'Perceived equity, impartiality and justice',
+    concepts: [
+      'fair', 'equal', 'just', 'equitable', 'balanced', 'impartial', 'unbiased',
+      'justice', 'equality', 'equity', 'fairness', 'objectivity', 'neutral', 'evenhanded',
+      'unprejudiced', 'nondiscriminatory', 'inclusive', 'representative', 'diverse',
+      'proportional', 'reasonable', 'appropriate', 'legitimate', 'lawful', 'rightful',
+      'ethical', 'moral', 'principled', 'integrity', 'honest', 'truthful', 'transparent'
+    ],
+    weights: {
+      fair: 1.4, equitable: 1.3, just: 1.3, impartial: 1.3, unbiased: 1.3,
+      equality: 1.3, justice: 1.3, inclusive: 1.2, representative: 1.2,
+    },
+  },
+];
+
+// Load the user's KPI set from localStorage, falling back to the defaults
+export function loadKPIs(): KPIDefinition[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed) && parsed.length > 0 && parsed.every(isValidKPI)) {
+        return parsed;
+      }
+    }
+  } catch {
+    // Corrupt or inaccessible storage - use defaults
+  }
+  return DEFAULT_KPIS;
+}
+
+export function saveKPIs(kpis: KPIDefinition[]): void {
+  const invalid = kpis.find(kpi => !isValidKPI(kpi));
+  if (invalid) {
+    throw new Error(`Invalid KPI definition: ${invalid.id || '(missing id)'}`);
+  }
+  const ids = new Set(kpis.map(kpi => kpi.id));
+  if (ids.size !== kpis.length) {
+    throw new Error('KPI ids must be unique');
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(kpis));
+}
+
+export function resetKPIs(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export function isValidKPI(kpi: KPIDefinition): boolean {
+  return (
+    !!kpi &&
+    typeof kpi.id === 'string' && /^[a-z][a-z0-9_]*$/.test(kpi.id) &&
+    typeof kpi.label === 'string' && kpi.label.length > 0 &&
+    (kpi.polarity === 'positive' || kpi.polarity === 'inverted') &&
+    Array.isArray(kpi.concepts) && kpi.concepts.length > 0
+  );
+}
+
+export function createEmptyKPIScore(kpis: Array<Pick<KPIDefinition, 'id'>>): KPIScore {
+  const scores: KPIScore = {};
+  kpis.forEach(kpi => {
+    scores[kpi.id] = 0;
+  });
+  return scores;
+}
+
+// KPI ids present on a set of scores, for results produced before the KPI set was known
+export function inferKPIIds(scores: KPIScore[]): string[] {
+  const ids = new Set<string>();
+  scores.forEach(score => Object.keys(score || {}).forEach(id => ids.add(id)));
+  return Array.from(ids);
+}
+
+// Resolve display definitions for KPI ids, keeping registry order and labelling unknown ids by their id
+export function resolveKPIs(ids: string[], kpis: KPIDefinition[] = loadKPIs()): KPIDefinition[] {
+  const known = kpis.filter(kpi => ids.includes(kpi.id));
+  const unknown = ids
+    .filter(id => !kpis.some(kpi => kpi.id === id))
+    .map(id => ({ id, label: id.charAt(0).toUpperCase() + id.slice(1), polarity: 'positive' as const, concepts: [id] }));
+  return [...known, ...unknown];
+}
@@ -1,60 +1,179 @@
 import { pipeline } from '@huggingface/transformers';
+import { getStoredEmbeddings, putStoredEmbeddings } from './embeddingStore';
 
-let embeddingPipeline: any = null;
+export const EMBEDDING_MODEL_ID = 'Xenova/all-MiniLM-L6-v2';
+// Same 384 dimensions, trained on 50+ languages; used for texts that are not in English
+export const MULTILINGUAL_EMBEDDING_MODEL_ID = 'Xenova/paraphrase-multilingual-MiniLM-L12-v2';
 
-export async function initializeEmbeddingModel() {
+// Views into the model's output tensor; copy before mutating or persisting
+export type Embedding = Float32Array;
+
+// Tokenizer truncation limit, so very long texts don't inflate padded batch estimates
+const MAX_SEQUENCE_TOKENS = 512;
+const DEFAULT_MAX_BATCH_SIZE = 32;
+// Padded tokens per forward pass (batch size x longest sequence in the batch)
+const DEFAULT_TOKEN_BUDGET = 8192;
+
+export interface BatchEmbeddingOptions {
+  // Hugging Face model id; embeddings from different models are not comparable
+  modelId?: string;
+  // Upper bound on texts per forward pass; long texts get smaller batches to respect tokenBudget
+  maxBatchSize?: number;
+  tokenBudget?: number;
+  // Skip the IndexedDB cache (benchmarks, evaluation against fresh embeddings)
+  persist?: boolean;
+  // Receives throughput stats once the call finishes
+  onBenchmark?: (stats: EmbeddingBenchmark) => void;
+}
+
+export interface EmbeddingBenchmark {
+  texts: number;
+  computed: number;
+  cached: number;
+  batches: number;
+  durationMs: number;
+  textsPerSecond: number;
+}
+
+// Loaded pipelines keyed by Hugging Face model id, so the English and multilingual models can coexist
+const embeddingPipelines = new Map<string, Promise<any>>();
+
+export async function initializeEmbeddingModel(modelId: string = EMBEDDING_MODEL_ID) {
+  let embeddingPipeline = embeddingPipelines.get(modelId);
   if (!embeddingPipeline) {
-    console.log('Initializing embedding model...');
-    try {
-      embeddingPipeline = await pipeline(
-        'feature-extraction',
-        'Xenova/all-MiniLM-L6-v2',
-        { device: 'wasm', dtype: 'q8' }
-      );
-      console.log('Embedding model initialized successfully');
-    } catch (error) {
-      console.error('Failed to initialize embedding model:', error);
-      throw new Error('Failed to load embedding model. Please refresh and try again.');
-    }
+    console.log(`Initializing embedding model ${modelId}...`);
+    embeddingPipeline = pipeline('feature-extraction', modelId, { device: 'wasm', dtype: 'q8' })
+      .then(loaded => {
+        console.log('Embedding model initialized successfully');
+        return loaded;
+      })
+      .catch(error => {
+        embeddingPipelines.delete(modelId);
+        console.error('Failed to initialize embedding model:', error);
+        throw new Error('Failed to load embedding model. Please refresh and try again.');
+      });
+    embeddingPipelines.set(modelId, embeddingPipeline);
   }
   return embeddingPipeline;
 }
 
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const model = await initializeEmbeddingModel();
+export async function generateEmbedding(text: string, modelId: string = EMBEDDING_MODEL_ID): Promise<Embedding> {
+  const model = await initializeEmbeddingModel(modelId);
   const output = await model(text, { pooling: 'mean', normalize: true }) as any;
-  return Array.from(output.data);
+  return output.data as Float32Array;
 }
 
-// Batch embedding generation for efficiency
-export async function generateBatchEmbeddings(texts: string[]): Promise<Map<string, number[]>> {
-  const model = await initializeEmbeddingModel();
-  const embeddingMap = new Map<string, number[]>();
-  
-  // Process in chunks to avoid memory issues
-  const chunkSize = 100;
-  
-  for (let i = 0; i < texts.length; i += chunkSize) {
-    const chunk = texts.slice(i, i + chunkSize);
-    
-    // Generate embeddings in parallel for the chunk
-    const results = await Promise.all(
-      chunk.map(async (text) => {
-        const output = await model(text, { pooling: 'mean', normalize: true }) as any;
-        return { text, embedding: Array.from(output.data) as number[] };
-      })
-    );
-    
-    // Add to map
-    results.forEach(({ text, embedding }) => {
+// Rough token estimate, same heuristic as chunkLongText
+function estimateTokens(text: string): number {
+  return Math.min(MAX_SEQUENCE_TOKENS, Math.max(1, Math.ceil(text.length / 4)));
+}
+
+// Sort by length and pack batches under the token budget, so each batch pads to a similar length
+function buildLengthBuckets(texts: string[], maxBatchSize: number, tokenBudget: number): string[][] {
+  const sorted = [...texts].sort((a, b) => a.length - b.length);
+  const batches: string[][] = [];
+  let current: string[] = [];
+
+  for (const text of sorted) {
+    // Sorted ascending, so this text is the longest in the batch it joins
+    const paddedTokens = (current.length + 1) * estimateTokens(text);
+    if (current.length > 0 && (current.length >= maxBatchSize || paddedTokens > tokenBudget)) {
+      batches.push(current);
+      current = [];
+    }
+    current.push(text);
+  }
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+/**
+ * Batch embedding generation: texts are length-bucketed and run through the pipeline as padded
+ * tensor batches. Embeddings persisted by earlier sessions are reused and new ones are stored.
+ */
+export async function generateBatchEmbeddings(
+  texts: string[],
+  options: BatchEmbeddingOptions = {}
+): Promise<Map<string, Embedding>> {
+  const {
+    modelId = EMBEDDING_MODEL_ID,
+    maxBatchSize = DEFAULT_MAX_BATCH_SIZE,
+    tokenBudget = DEFAULT_TOKEN_BUDGET,
+    persist = true,
+    onBenchmark,
+  } = options;
+  const start = performance.now();
+  const model = await initializeEmbeddingModel(modelId);
+  const embeddingMap = persist
+    ? await getStoredEmbeddings(modelId, texts)
+    : new Map<string, Embedding>();
+  const cachedCount = embeddingMap.size;
+  const missing = Array.from(new Set(texts.filter(text => !embeddingMap.has(text))));
+  const computed = new Map<string, Embedding>();
+
+  if (cachedCount > 0) {
+    console.log(`Reusing ${cachedCount} persisted embeddings, generating ${missing.length}`);
+  }
+
+  const batches = buildLengthBuckets(missing, maxBatchSize, tokenBudget);
+
+  for (const batch of batches) {
+    const output = await model(batch, { pooling: 'mean', normalize: true }) as any;
+    const data = output.data as Float32Array;
+    const dimension = output.dims[output.dims.length - 1] as number;
+
+    batch.forEach((text, index) => {
+      const embedding = data.subarray(index * dimension, (index + 1) * dimension);
       embeddingMap.set(text, embedding);
+      computed.set(text, embedding);
+    });
+  }
+
+  if (persist) {
+    await putStoredEmbeddings(modelId, computed);
+  }
+
+  if (onBenchmark) {
+    const durationMs = performance.now() - start;
+    onBenchmark({
+      texts: texts.length,
+      computed: missing.length,
+      cached: cachedCount,
+      batches: batches.length,
+      durationMs,
+      textsPerSecond: durationMs > 0 ? (missing.length / durationMs) * 1000 : 0,
     });
   }
   
   return embeddingMap;
 }
 
-export function cosineSimilarity(a: number[], b: number[]): number {
+/**
+ * Benchmark mode: embeds the same texts with the given batching and with one text per
+ * forward pass, bypassing the persistent cache, and reports texts/sec for both.
+ */
+export async function benchmarkEmbeddings(
+  texts: string[],
+  options: Pick<BatchEmbeddingOptions, 'maxBatchSize' | 'tokenBudget'> = {}
+): Promise<{ batched: EmbeddingBenchmark; unbatched: EmbeddingBenchmark; speedup: number }> {
+  await initializeEmbeddingModel();
+
+  let batched!: EmbeddingBenchmark;
+  let unbatched!: EmbeddingBenchmark;
+  await generateBatchEmbeddings(texts, { ...options, persist: false, onBenchmark: stats => { batched = stats; } });
+  await generateBatchEmbeddings(texts, { maxBatchSize: 1, persist: false, onBenchmark: stats => { unbatched = stats; } });
+
+  const speedup = unbatched.textsPerSecond > 0 ? batched.textsPerSecond / unbatched.textsPerSecond : 0;
+  console.log(
+    `Embedding benchmark (${texts.length} texts): batched ${batched.textsPerSecond.toFixed(1)} texts/s ` +
+    `in ${batched.batches} batches, unbatched ${unbatched.textsPerSecond.toFixed(1)} texts/s, ${speedup.toFixed(2)}x`
+  );
+
+  return { batched, unbatched, speedup };
+}
+
+export function cosineSimilarity(a: Embedding, b: Embedding): number {
   if (a.length !== b.length) return 0;
   
   let dotProduct = 0;
@@ -0,0 +1,232 @@
+import { NORMALIZATION_VERSION } from '../utils/textNormalizer';
+import type { Embedding } from './embeddingModel';
+
+// Persistent embedding cache in IndexedDB, shared by the main thread and analysis workers.
+// Entries are keyed by a SHA-256 of model id + normalization version + text, so a model swap
+// or a normalizeText change never serves stale vectors. Several models can share the store
+// (English and multilingual embeddings); LRU eviction reclaims vectors of models no longer used.
+
+const DB_NAME = 'sentiment-embeddings';
+const DB_VERSION = 1;
+const EMBEDDINGS_STORE = 'embeddings';
+const META_STORE = 'meta';
+const META_KEY = 'config';
+
+// ~1.5 KB per 384-dim vector, so this caps the store at roughly 75 MB
+export const MAX_STORED_EMBEDDINGS = 50000;
+// Evict down to this fraction of the cap so eviction doesn't run on every write
+const EVICTION_TARGET_RATIO = 0.9;
+
+interface StoredEmbedding {
+  key: string;
+  embedding: Float32Array;
+  lastUsed: number;
+}
+
+interface StoreConfig {
+  // Model that opened the store most recently
+  modelId: string;
+  normalizationVersion: number;
+}
+
+export interface EmbeddingStoreStats {
+  count: number;
+  maxEntries: number;
+  modelId: string | null;
+  normalizationVersion: number | null;
+}
+
+const dbPromises = new Map<string, Promise<IDBDatabase | null>>();
+
+export function isEmbeddingStoreSupported(): boolean {
+  return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(EMBEDDINGS_STORE)) {
+        const store = db.createObjectStore(EMBEDDINGS_STORE, { keyPath: 'key' });
+        store.createIndex('lastUsed', 'lastUsed');
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Open the store for a model, dropping every entry if it was written under another normalization
+async function initializeStore(modelId: string): Promise<IDBDatabase | null> {
+  if (!isEmbeddingStoreSupported()) return null;
+
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([EMBEDDINGS_STORE, META_STORE], 'readwrite');
+    const meta = transaction.objectStore(META_STORE);
+    const config = await requestToPromise(meta.get(META_KEY)) as StoreConfig | undefined;
+
+    if (!config || config.normalizationVersion !== NORMALIZATION_VERSION) {
+      if (config) console.log('Text normalization changed, clearing persisted embeddings');
+      transaction.objectStore(EMBEDDINGS_STORE).clear();
+    }
+    if (!config || config.modelId !== modelId || config.normalizationVersion !== NORMALIZATION_VERSION) {
+      meta.put({ modelId, normalizationVersion: NORMALIZATION_VERSION } satisfies StoreConfig, META_KEY);
+    }
+
+    await transactionDone(transaction);
+    return db;
+  } catch (error) {
+    console.warn('Persistent embedding cache unavailable, using in-memory embeddings only:', error);
+    return null;
+  }
+}
+
+function getDatabase(modelId: string): Promise<IDBDatabase | null> {
+  let dbPromise = dbPromises.get(modelId);
+  if (!dbPromise) {
+    dbPromise = initializeStore(modelId);
+    dbPromises.set(modelId, dbPromise);
+  }
+  return dbPromise;
+}
+
+async function hashKey(modelId: string, text: string): Promise<string> {
+  const data = new TextEncoder().encode(`${modelId}\u0000${NORMALIZATION_VERSION}\u0000${text}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Look up persisted embeddings for already-normalized texts. Hits are touched so LRU
+ * eviction keeps recently used vectors. Returns an empty map when IndexedDB is unavailable.
+ */
+export async function getStoredEmbeddings(modelId: string, texts: string[]): Promise<Map<string, Embedding>> {
+  const found = new Map<string, Embedding>();
+  const db = await getDatabase(modelId);
+  if (!db || texts.length === 0) return found;
+
+  try {
+    const uniqueTexts = Array.from(new Set(texts));
+    const keys = await Promise.all(uniqueTexts.map(text => hashKey(modelId, text)));
+    const now = Date.now();
+
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+    uniqueTexts.forEach((text, index) => {
+      const request = store.get(keys[index]);
+      request.onsuccess = () => {
+        const record = request.result as StoredEmbedding | undefined;
+        if (!record) return;
+        found.set(text, record.embedding);
+        store.put({ ...record, lastUsed: now });
+      };
+    });
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn('Failed to read persisted embeddings:', error);
+    found.clear();
+  }
+
+  return found;
+}
+
+export async function putStoredEmbeddings(modelId: string, embeddings: Map<string, Embedding>): Promise<void> {
+  const db = await getDatabase(modelId);
+  if (!db || embeddings.size === 0) return;
+
+  try {
+    const entries = Array.from(embeddings.entries());
+    const keys = await Promise.all(entries.map(([text]) => hashKey(modelId, text)));
+    const now = Date.now();
+
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+    entries.forEach(([, embedding], index) => {
+      // Copy out of the batch tensor view, otherwise the whole batch buffer would be cloned into the store
+      store.put({ key: keys[index], embedding: new Float32Array(embedding), lastUsed: now } satisfies StoredEmbedding);
+    });
+    await transactionDone(transaction);
+
+    await evictLeastRecentlyUsed(db);
+  } catch (error) {
+    // Quota errors land here too; the run continues with freshly computed embeddings
+    console.warn('Failed to persist embeddings:', error);
+  }
+}
+
+async function evictLeastRecentlyUsed(db: IDBDatabase): Promise<void> {
+  const countTransaction = db.transaction(EMBEDDINGS_STORE, 'readonly');
+  const count = await requestToPromise(countTransaction.objectStore(EMBEDDINGS_STORE).count());
+  if (count <= MAX_STORED_EMBEDDINGS) return;
+
+  let toDelete = count - Math.floor(MAX_STORED_EMBEDDINGS * EVICTION_TARGET_RATIO);
+  console.log(`Evicting ${toDelete} least recently used embeddings`);
+
+  const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+  const cursorRequest = transaction.objectStore(EMBEDDINGS_STORE).index('lastUsed').openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor || toDelete <= 0) return;
+    cursor.delete();
+    toDelete--;
+    cursor.continue();
+  };
+  await transactionDone(transaction);
+}
+
+// Manual invalidation, e.g. after changing normalization without bumping NORMALIZATION_VERSION
+export async function clearEmbeddingStore(): Promise<void> {
+  if (!isEmbeddingStoreSupported()) return;
+  const db = await openDatabase();
+  const transaction = db.transaction([EMBEDDINGS_STORE, META_STORE], 'readwrite');
+  transaction.objectStore(EMBEDDINGS_STORE).clear();
+  transaction.objectStore(META_STORE).clear();
+  await transactionDone(transaction);
+  db.close();
+  dbPromises.clear();
+}
+
+export async function getEmbeddingStoreStats(): Promise<EmbeddingStoreStats> {
+  const stats: EmbeddingStoreStats = {
+    count: 0,
+    maxEntries: MAX_STORED_EMBEDDINGS,
+    modelId: null,
+    normalizationVersion: null,
+  };
+  if (!isEmbeddingStoreSupported()) return stats;
+
+  const db = await openDatabase();
+  const transaction = db.transaction([EMBEDDINGS_STORE, META_STORE], 'readonly');
+  const [count, config] = await Promise.all([
+    requestToPromise(transaction.objectStore(EMBEDDINGS_STORE).count()),
+    requestToPromise(transaction.objectStore(META_STORE).get(META_KEY)) as Promise<StoreConfig | undefined>,
+  ]);
+  db.close();
+
+  return {
+    ...stats,
+    count,
+    modelId: config?.modelId ?? null,
+    normalizationVersion: config?.normalizationVersion ?? null,
+  };
+}
@@ -1,53 +1,100 @@
 import { pipeline } from '@huggingface/transformers';
 
-let sentimentPipeline: any = null;
+export const DEFAULT_SENTIMENT_PIPELINE = 'Xenova/distilbert-base-uncased-finetuned-sst-2-english';
+
+// Loaded pipelines keyed by Hugging Face model id, so several registry models can coexist
+const sentimentPipelines = new Map<string, Promise<any>>();
 const sentimentCache = new Map<string, SentimentOutput>();
 
-export async function initializeSentimentModel() {
+export async function initializeSentimentModel(modelId: string = DEFAULT_SENTIMENT_PIPELINE) {
+  let sentimentPipeline = sentimentPipelines.get(modelId);
   if (!sentimentPipeline) {
-    console.log('Initializing sentiment model...');
-    try {
-      sentimentPipeline = await pipeline(
-        'sentiment-analysis',
-        'Xenova/distilbert-base-uncased-finetuned-sst-2-english',
-        { device: 'wasm', dtype: 'q8' }
-      );
-      console.log('Sentiment model initialized successfully');
-    } catch (error) {
-      console.error('Failed to initialize sentiment model:', error);
-      throw new Error('Failed to load sentiment analysis model. Please refresh and try again.');
-    }
+    console.log(`Initializing sentiment model ${modelId}...`);
+    sentimentPipeline = pipeline('sentiment-analysis', modelId, { device: 'wasm', dtype: 'q8' })
+      .then(loaded => {
+        console.log('Sentiment model initialized successfully');
+        return loaded;
+      })
+      .catch(error => {
+        sentimentPipelines.delete(modelId);
+        console.error('Failed to initialize sentiment model:', error);
+        throw new Error('Failed to load sentiment analysis model. Please refresh and try again.');
+      });
+    sentimentPipelines.set(modelId, sentimentPipeline);
   }
   return sentimentPipeline;
 }
 
+export interface SentimentLabelScore {
+  label: string;
+  score: number;
+}
+
 export interface SentimentOutput {
   label: string;
   score: number;
+  // Every class score, highest first; only requested for models with more than two classes
+  scores?: SentimentLabelScore[];
 }
 
-export async function analyzeSentiment(text: string): Promise<SentimentOutput> {
-  const cacheKey = text.slice(0, 200);
+// A pipeline call with top_k: null returns every class, highest first
+function toSentimentOutput(result: SentimentLabelScore | SentimentLabelScore[]): SentimentOutput {
+  if (Array.isArray(result)) {
+    return { label: result[0].label, score: result[0].score, scores: result };
+  }
+  return result;
+}
+
+export async function analyzeSentiment(
+  text: string,
+  modelId: string = DEFAULT_SENTIMENT_PIPELINE,
+  allScores: boolean = false
+): Promise<SentimentOutput> {
+  const cacheKey = `${modelId}:${text.slice(0, 200)}`;
   if (sentimentCache.has(cacheKey)) {
     return sentimentCache.get(cacheKey)!;
   }
   
-  const model = await initializeSentimentModel();
-  const result = await model(text) as any;
-  const output = result[0];
+  const model = await initializeSentimentModel(modelId);
+  const result = await model(text, allScores ? { top_k: null } : undefined) as any;
+  const output = allScores ? toSentimentOutput(result) : result[0];
   sentimentCache.set(cacheKey, output);
   return output;
 }
 
-export async function analyzeSentimentBatch(texts: string[]): Promise<SentimentOutput[]> {
-  const model = await initializeSentimentModel();
+export async function analyzeSentimentBatch(
+  texts: string[],
+  modelId: string = DEFAULT_SENTIMENT_PIPELINE,
+  allScores: boolean = false
+): Promise<SentimentOutput[]> {
+  const model = await initializeSentimentModel(modelId);
+  if (allScores) {
+    const results = await model(texts, { top_k: null }) as SentimentLabelScore[][];
+    // A single input comes back as a flat list of class scores
+    return texts.length === 1 && !Array.isArray(results[0])
+      ? [toSentimentOutput(results as unknown as SentimentLabelScore[])]
+      : results.map(toSentimentOutput);
+  }
   const results = await model(texts) as any;
   return results.map((r: any) => r[0] || r);
 }
 
-export function calculatePolarityScore(label: string, score: number): { polarityScore: number; polarity: 'positive' | 'neutral' | 'negative' } {
-  const threshold = 0.65;
-  const neutralThreshold = 0.60; // Lowered from 0.70 for more sensitivity
+export interface PolarityParams {
+  threshold: number;        // Model score at which |polarityScore| reaches 0.3
+  neutralThreshold: number; // Below this model score the label is treated as neutral and dampened
+}
+
+export const DEFAULT_POLARITY_PARAMS: PolarityParams = {
+  threshold: 0.65,
+  neutralThreshold: 0.60, // Lowered from 0.70 for more sensitivity
+};
+
+export function calculatePolarityScore(
+  label: string,
+  score: number,
+  params: PolarityParams = DEFAULT_POLARITY_PARAMS
+): { polarityScore: number; polarity: 'positive' | 'neutral' | 'negative' } {
+  const { threshold, neutralThreshold } = params;
   
   let polarityScore: number;
   let polarity: 'positive' | 'neutral' | 'negative';
@@ -78,9 +125,9 @@ export function calculatePolarityScore(label: string, score: number): { polarity
     polarity = 'neutral';
   }
   
-  // Reduced dampening - only for very low confidence scores below 0.60
-  if (score < 0.60) {
-    const dampening = Math.max(0.5, (score - 0.5) / 0.10); // More lenient than before
+  // Reduced dampening - only for very low confidence scores below the neutral threshold
+  if (score < neutralThreshold) {
+    const dampening = Math.max(0.5, (score - 0.5) / (neutralThreshold - 0.5)); // More lenient than before
     polarityScore *= dampening;
   }
   
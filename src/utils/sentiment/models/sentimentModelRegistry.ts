@@ -0,0 +1,122 @@
+import type { SentimentResult } from '@/types/sentiment';
+import {
+  calculatePolarityScore,
+  DEFAULT_POLARITY_PARAMS,
+  DEFAULT_SENTIMENT_PIPELINE,
+  type PolarityParams,
+  type SentimentOutput,
+} from './sentimentModel';
+
+type Polarity = SentimentResult['polarity'];
+
+export interface PolarityMapping {
+  polarity: Polarity;
+  polarityScore: number; // -1.0 to +1.0
+}
+
+export interface SentimentModelDefinition {
+  id: string;
+  label: string;
+  description: string;
+  // Hugging Face repo loaded through transformers.js
+  modelId: string;
+  // Request every class score instead of only the top label
+  allScores: boolean;
+  // Trained on non-English text too, so it can score texts routed away from the English models
+  multilingual: boolean;
+  // Maps the model's raw labels into polarity/polarityScore
+  toPolarity: (output: SentimentOutput, params?: PolarityParams) => PolarityMapping;
+}
+
+// Class probability summed per polarity, using a model-specific label lookup
+function sumByPolarity(output: SentimentOutput, labelMap: Record<string, Polarity>): Record<Polarity, number> {
+  const totals: Record<Polarity, number> = { positive: 0, neutral: 0, negative: 0 };
+  (output.scores ?? [{ label: output.label, score: output.score }]).forEach(({ label, score }) => {
+    const polarity = labelMap[label.toLowerCase()];
+    if (polarity) totals[polarity] += score;
+  });
+  return totals;
+}
+
+function argmaxPolarity(totals: Record<Polarity, number>): Polarity {
+  return (Object.keys(totals) as Polarity[]).reduce((best, polarity) =>
+    totals[polarity] > totals[best] ? polarity : best
+  , 'neutral');
+}
+
+// cardiffnlp-style checkpoints expose either named labels or LABEL_0..2
+const THREE_CLASS_LABELS: Record<string, Polarity> = {
+  negative: 'negative', label_0: 'negative',
+  neutral: 'neutral', label_1: 'neutral',
+  positive: 'positive', label_2: 'positive',
+};
+
+const STAR_LABELS: Record<string, number> = {
+  '1 star': 1, '2 stars': 2, '3 stars': 3, '4 stars': 4, '5 stars': 5,
+};
+
+export const SENTIMENT_MODELS: SentimentModelDefinition[] = [
+  {
+    id: 'sst2-binary',
+    label: 'DistilBERT SST-2 (binary)',
+    description: 'Positive/negative only; neutral is inferred from low confidence.',
+    modelId: DEFAULT_SENTIMENT_PIPELINE,
+    allScores: false,
+    multilingual: false,
+    toPolarity: (output, params = DEFAULT_POLARITY_PARAMS) =>
+      calculatePolarityScore(output.label, output.score, params),
+  },
+  {
+    id: 'roberta-three-class',
+    label: 'Twitter-RoBERTa (3-class)',
+    description: 'Explicit neutral class, better suited to factual text such as paper abstracts.',
+    modelId: 'Xenova/twitter-roberta-base-sentiment-latest',
+    allScores: true,
+    multilingual: false,
+    toPolarity: (output) => {
+      const totals = sumByPolarity(output, THREE_CLASS_LABELS);
+      return {
+        polarity: argmaxPolarity(totals),
+        polarityScore: totals.positive - totals.negative,
+      };
+    },
+  },
+  {
+    id: 'star-rating',
+    label: 'BERT multilingual (1-5 stars)',
+    description: 'Review-style star rating; 3 stars maps to neutral.',
+    modelId: 'Xenova/bert-base-multilingual-uncased-sentiment',
+    allScores: true,
+    multilingual: true,
+    toPolarity: (output) => {
+      const scores = output.scores ?? [{ label: output.label, score: output.score }];
+      let expectedStars = 0;
+      let totalProbability = 0;
+      const totals: Record<Polarity, number> = { positive: 0, neutral: 0, negative: 0 };
+
+      scores.forEach(({ label, score }) => {
+        const stars = STAR_LABELS[label.toLowerCase()];
+        if (!stars) return;
+        expectedStars += stars * score;
+        totalProbability += score;
+        totals[stars > 3 ? 'positive' : stars < 3 ? 'negative' : 'neutral'] += score;
+      });
+
+      // Expected rating rescaled from 1..5 to -1..+1
+      const polarityScore = totalProbability > 0 ? (expectedStars / totalProbability - 3) / 2 : 0;
+      return { polarity: argmaxPolarity(totals), polarityScore };
+    },
+  },
+];
+
+export const DEFAULT_SENTIMENT_MODEL = 'sst2-binary';
+// Scores non-English texts when the selected model is English-only
+export const DEFAULT_MULTILINGUAL_SENTIMENT_MODEL = 'star-rating';
+
+export function getSentimentModel(id: string = DEFAULT_SENTIMENT_MODEL): SentimentModelDefinition {
+  const model = SENTIMENT_MODELS.find(m => m.id === id);
+  if (!model) {
+    throw new Error(`Unknown sentiment model "${id}". Available: ${SENTIMENT_MODELS.map(m => m.id).join(', ')}`);
+  }
+  return model;
+}
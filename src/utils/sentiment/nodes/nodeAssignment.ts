@@ -0,0 +1,24 @@
+import type { SentimentResult } from '@/types/sentiment';
+
+// Bucket for texts that match no node well enough; the analyze-sentiment function uses the same id
+export const UNASSIGNED_NODE_ID = 'unassigned';
+export const UNASSIGNED_NODE_NAME = 'Unassigned / Off-topic';
+
+// Local analyzer: MiniLM cosine similarity to the best node below which a text is not attributed to any node
+export const DEFAULT_MIN_NODE_SIMILARITY = 0.15;
+
+// Server results: the LLM's self-reported node confidence below which a text is unassigned. It is
+// a judgement, not a cosine, so the two floors are set separately.
+export const DEFAULT_MIN_NODE_CONFIDENCE = 0.15;
+
+export function isUnassigned(nodeId: string): boolean {
+  return nodeId === UNASSIGNED_NODE_ID;
+}
+
+// Moves a result into the Unassigned bucket when its node confidence is below minConfidence
+export function applyMinNodeConfidence(result: SentimentResult, minConfidence: number): SentimentResult {
+  if (result.nodeConfidence === undefined || result.nodeConfidence >= minConfidence || isUnassigned(result.nodeId)) {
+    return result;
+  }
+  return { ...result, nodeId: UNASSIGNED_NODE_ID, nodeName: UNASSIGNED_NODE_NAME };
+}
@@ -0,0 +1,44 @@
+import type { SentimentResult } from '@/types/sentiment';
+import { detectLanguage } from '../utils/languageDetector';
+
+export interface LanguageBucket {
+  language: string;
+  count: number;
+  // Share of all results in the breakdown (0..1)
+  share: number;
+  avgPolarity: number;
+  sentimentDistribution: {
+    positive: number;
+    neutral: number;
+    negative: number;
+  };
+}
+
+// Results saved before language detection are detected on the fly
+export function resultLanguage(result: SentimentResult): string {
+  return result.language ?? detectLanguage(result.text).language;
+}
+
+/**
+ * Per-language counts and sentiment over scored results, largest language first.
+ * Pass scored results only; defaulted placeholders would pull every average to neutral.
+ */
+export function computeLanguageBreakdown(results: SentimentResult[]): LanguageBucket[] {
+  const buckets = new Map<string, SentimentResult[]>();
+  results.forEach(result => {
+    const language = resultLanguage(result);
+    buckets.set(language, [...(buckets.get(language) ?? []), result]);
+  });
+
+  return Array.from(buckets, ([language, languageResults]): LanguageBucket => {
+    const sentimentDistribution = { positive: 0, neutral: 0, negative: 0 };
+    languageResults.forEach(result => { sentimentDistribution[result.polarity]++; });
+    return {
+      language,
+      count: languageResults.length,
+      share: languageResults.length / results.length,
+      avgPolarity: languageResults.reduce((sum, result) => sum + result.polarityScore, 0) / languageResults.length,
+      sentimentDistribution,
+    };
+  }).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,69 @@
+import type { ResultStatus, SentimentResult } from '@/types/sentiment';
+
+export const RESULT_STATUSES: ResultStatus[] = ['analyzed', 'retried', 'recovered-from-malformed', 'defaulted'];
+
+export const RESULT_STATUS_LABELS: Record<ResultStatus, string> = {
+  analyzed: 'Analyzed',
+  retried: 'Retried',
+  'recovered-from-malformed': 'Recovered',
+  defaulted: 'Defaulted',
+};
+
+export function resultStatus(result: SentimentResult): ResultStatus {
+  return result.status ?? 'analyzed';
+}
+
+// Defaulted results carry placeholder scores and must not feed averages or indices
+export function isScored(result: SentimentResult): boolean {
+  return resultStatus(result) !== 'defaulted';
+}
+
+export function scoredResults(results: SentimentResult[]): SentimentResult[] {
+  return results.filter(isScored);
+}
+
+export interface AnalysisCoverage {
+  total: number;
+  scored: number;
+  byStatus: Record<ResultStatus, number>;
+  // Share of texts with real scores (0..1); 0 when there are no results
+  coverage: number;
+  // Mean share of each scored text the model saw (0..1); 1 when every text was seen whole
+  textSeen: number;
+  // Scored texts the model only saw part of (excerpted, or some chunks went unscored)
+  partiallySeen: number;
+  // Ensemble runs: texts sent on to the LLM, and their mean local/LLM polarity agreement (null when none merged)
+  routedToLLM: number;
+  agreement: number | null;
+  // Server results reused from the result cache
+  cached: number;
+}
+
+// Share of a text the model saw; results without coverage were scored on the whole text
+export function textSeenShare(result: SentimentResult): number {
+  const coverage = result.textCoverage;
+  if (!coverage || coverage.totalChars === 0) return 1;
+  return Math.min(1, coverage.seenChars / coverage.totalChars);
+}
+
+export function computeCoverage(results: SentimentResult[]): AnalysisCoverage {
+  const byStatus = Object.fromEntries(RESULT_STATUSES.map(status => [status, 0])) as Record<ResultStatus, number>;
+  results.forEach(result => { byStatus[resultStatus(result)]++; });
+
+  const scored = results.length - byStatus.defaulted;
+  const seenShares = results.filter(isScored).map(textSeenShare);
+  const agreements = results
+    .map(result => result.ensemble?.agreement)
+    .filter((agreement): agreement is number => agreement !== undefined);
+  return {
+    total: results.length,
+    scored,
+    byStatus,
+    coverage: results.length > 0 ? scored / results.length : 0,
+    textSeen: seenShares.length > 0 ? seenShares.reduce((sum, share) => sum + share, 0) / seenShares.length : 1,
+    partiallySeen: seenShares.filter(share => share < 1).length,
+    routedToLLM: results.filter(result => result.ensemble?.routeReason !== undefined).length,
+    agreement: agreements.length > 0 ? agreements.reduce((sum, a) => sum + a, 0) / agreements.length : null,
+    cached: results.filter(result => result.cached).length,
+  };
+}
@@ -0,0 +1,212 @@
+import type { RedditComment, RedditData, RedditPost } from '@/types/reddit';
+import type { SentimentResult } from '@/types/sentiment';
+import { isScored } from '../results/resultStatus';
+import { quotesParentComment } from '../utils/textPreprocessor';
+
+export interface ThreadNode {
+  // Reddit fullname (t3_ for the post, t1_ for comments)
+  id: string;
+  item: RedditData;
+  // Missing when the text was filtered out before analysis (bots, too short) or failed
+  result?: SentimentResult;
+  depth: number;
+  children: ThreadNode[];
+  // The comment's parent was not scraped (or its parent chain loops), so it hangs off the post instead
+  detached?: boolean;
+}
+
+export interface DepthSentiment {
+  depth: number;
+  count: number;
+  avgPolarity: number;
+}
+
+export interface ThreadMetrics {
+  comments: number;
+  scoredComments: number;
+  maxDepth: number;
+  // Mean polarity of scored leaf comments minus the post's (or, unscored, the top-level mean); null without both
+  sentimentDrift: number | null;
+  driftByDepth: DepthSentiment[];
+  // Mean 1 - |child - parent| / 2 over scored reply/parent pairs (1 = replies echo their parent).
+  // Short replies scored with their parent quoted are left out of both pair metrics.
+  replyAgreement: number | null;
+  // Share of scored replies with the same polarity label as their parent
+  stancePropagation: number | null;
+  // Population variance of scored polarity across the thread (0..1)
+  polarityVariance: number;
+  // 0..1: split votes on the post combined with polarity variance
+  controversy: number;
+  // -1..1: how much more negative replies get per level of depth (positive = escalating)
+  escalation: number | null;
+}
+
+export interface CommentThread {
+  post: RedditPost;
+  root: ThreadNode;
+  metrics: ThreadMetrics;
+}
+
+// Variance of values spread evenly over -1..1 is 1/3; treat that as fully divided
+const MAX_EXPECTED_VARIANCE = 1 / 3;
+// Weight of the upvote split in the controversy score when the post has a ratio
+const VOTE_SPLIT_WEIGHT = 0.5;
+// Fewer scored comments than this give no escalation slope
+const MIN_ESCALATION_COMMENTS = 3;
+
+const fullname = (item: RedditData) =>
+  item.parsedId || `${item.dataType === 'post' ? 't3' : 't1'}_${item.id}`;
+
+const scoredPolarity = (node: ThreadNode): number | null =>
+  node.result && isScored(node.result) ? node.result.polarityScore : null;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function walk(node: ThreadNode, visit: (node: ThreadNode, parent: ThreadNode | null) => void, parent: ThreadNode | null = null) {
+  visit(node, parent);
+  node.children.forEach(child => walk(child, visit, node));
+}
+
+/**
+ * Rebuild each post's comment tree from flat scraped data and attach the analysis result of
+ * every item. Results are joined by Reddit id, the id the texts were analyzed under. Posts
+ * without scraped comments and comments whose post was not scraped are left out.
+ */
+export function buildCommentThreads(data: RedditData[], results: SentimentResult[]): CommentThread[] {
+  const resultsById = new Map<string, SentimentResult>();
+  results.forEach(result => {
+    if (result.id !== undefined) resultsById.set(result.id, result);
+  });
+
+  const posts = data.filter((item): item is RedditPost => item.dataType === 'post');
+  const comments = data.filter((item): item is RedditComment => item.dataType === 'comment');
+  const postsById = new Map<string, RedditPost>();
+  posts.forEach(post => {
+    postsById.set(post.id, post);
+    postsById.set(fullname(post), post);
+  });
+
+  const commentsByPost = new Map<RedditPost, RedditComment[]>();
+  comments.forEach(comment => {
+    const post = postsById.get(comment.postId);
+    if (post) commentsByPost.set(post, [...(commentsByPost.get(post) ?? []), comment]);
+  });
+
+  return Array.from(commentsByPost, ([post, postComments]) => {
+    const root: ThreadNode = { id: fullname(post), item: post, result: resultsById.get(post.id), depth: 0, children: [] };
+    const nodes = new Map<string, ThreadNode>();
+    postComments.forEach(comment => {
+      // Duplicates (a comment fetched from two sources) keep their first copy
+      if (nodes.has(fullname(comment))) return;
+      nodes.set(fullname(comment), {
+        id: fullname(comment),
+        item: comment,
+        result: resultsById.get(comment.id),
+        depth: 0,
+        children: [],
+      });
+    });
+
+    const parentOf = (node: ThreadNode) => {
+      const parentId = (node.item as RedditComment).parentId;
+      return parentId?.startsWith('t1_') ? nodes.get(parentId) : undefined;
+    };
+    // A parent chain that loops back on itself (bad data) never reaches the post
+    const reachesPost = (node: ThreadNode) => {
+      const seen = new Set<ThreadNode>();
+      for (let current: ThreadNode | undefined = node; current; current = parentOf(current)) {
+        if (seen.has(current)) return false;
+        seen.add(current);
+      }
+      return true;
+    };
+
+    nodes.forEach(node => {
+      const parent = parentOf(node);
+      if (parent && reachesPost(node)) {
+        parent.children.push(node);
+      } else {
+        // Replies to the post, and replies whose parent comment is missing or loops
+        if ((node.item as RedditComment).parentId?.startsWith('t1_')) node.detached = true;
+        root.children.push(node);
+      }
+    });
+
+    // Depth from the rebuilt tree rather than the scraped field, which some sources lack
+    const setDepth = (node: ThreadNode, depth: number) => {
+      node.depth = depth;
+      node.children.sort((a, b) => b.item.upVotes - a.item.upVotes);
+      node.children.forEach(child => setDepth(child, depth + 1));
+    };
+    setDepth(root, 0);
+
+    return { post, root, metrics: computeThreadMetrics(root, post) };
+  });
+}
+
+// Least-squares slope of polarity against depth
+function depthSlope(points: Array<{ depth: number; polarity: number }>): number | null {
+  if (points.length < MIN_ESCALATION_COMMENTS) return null;
+  const meanDepth = mean(points.map(p => p.depth));
+  const meanPolarity = mean(points.map(p => p.polarity));
+  const spread = points.reduce((sum, p) => sum + (p.depth - meanDepth) ** 2, 0);
+  if (spread === 0) return null;
+  return points.reduce((sum, p) => sum + (p.depth - meanDepth) * (p.polarity - meanPolarity), 0) / spread;
+}
+
+export function computeThreadMetrics(root: ThreadNode, post: RedditPost): ThreadMetrics {
+  const commentNodes: ThreadNode[] = [];
+  const pairAgreements: number[] = [];
+  const pairMatches: boolean[] = [];
+  walk(root, (node, parent) => {
+    if (node === root) return;
+    commentNodes.push(node);
+    const polarity = scoredPolarity(node);
+    const parentPolarity = parent ? scoredPolarity(parent) : null;
+    // Detached replies are not compared with the post they were attached to, and a reply scored
+    // with its parent's text quoted would agree with it by construction
+    if (polarity === null || parentPolarity === null || node.detached) return;
+    if (quotesParentComment(node.result!.text)) return;
+    pairAgreements.push(1 - Math.abs(polarity - parentPolarity) / 2);
+    pairMatches.push(node.result!.polarity === parent!.result!.polarity);
+  });
+
+  const scoredNodes = commentNodes.filter(node => scoredPolarity(node) !== null);
+  const points = scoredNodes.map(node => ({ depth: node.depth, polarity: scoredPolarity(node)! }));
+
+  const byDepth = new Map<number, number[]>();
+  points.forEach(({ depth, polarity }) => byDepth.set(depth, [...(byDepth.get(depth) ?? []), polarity]));
+  const driftByDepth = Array.from(byDepth, ([depth, values]) => ({ depth, count: values.length, avgPolarity: mean(values) }))
+    .sort((a, b) => a.depth - b.depth);
+
+  const rootPolarity = scoredPolarity(root) ?? driftByDepth.find(d => d.depth === 1)?.avgPolarity ?? null;
+  const leafPolarities = scoredNodes.filter(node => node.children.length === 0).map(node => scoredPolarity(node)!);
+  const sentimentDrift = rootPolarity !== null && leafPolarities.length > 0 ? mean(leafPolarities) - rootPolarity : null;
+
+  const allPolarities = [scoredPolarity(root), ...points.map(p => p.polarity)].filter((p): p is number => p !== null);
+  const polarityMean = allPolarities.length > 0 ? mean(allPolarities) : 0;
+  const polarityVariance = allPolarities.length > 1
+    ? mean(allPolarities.map(p => (p - polarityMean) ** 2))
+    : 0;
+
+  // 1 at a 50/50 vote split, 0 when everyone voted the same way; RSS posts report no ratio
+  const varianceScore = Math.min(1, polarityVariance / MAX_EXPECTED_VARIANCE);
+  const controversy = post.upVoteRatio > 0
+    ? VOTE_SPLIT_WEIGHT * (1 - Math.abs(2 * post.upVoteRatio - 1)) + (1 - VOTE_SPLIT_WEIGHT) * varianceScore
+    : varianceScore;
+
+  const slope = depthSlope(points);
+
+  return {
+    comments: commentNodes.length,
+    scoredComments: scoredNodes.length,
+    maxDepth: commentNodes.reduce((max, node) => Math.max(max, node.depth), 0),
+    sentimentDrift,
+    driftByDepth,
+    replyAgreement: pairAgreements.length > 0 ? mean(pairAgreements) : null,
+    stancePropagation: pairMatches.length > 0 ? pairMatches.filter(Boolean).length / pairMatches.length : null,
+    polarityVariance,
+    controversy,
+    escalation: slope === null ? null : Math.max(-1, Math.min(1, -slope)),
+  };
+}
@@ -0,0 +1,211 @@
+// Dimensionality reduction and k-means for topic discovery over sentence embeddings.
+// Everything is seeded so the same corpus yields the same clusters across runs.
+
+export type Vector = Float32Array;
+
+// mulberry32: small deterministic PRNG
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function dot(a: Vector, b: Vector): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function squaredDistance(a: Vector, b: Vector): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return sum;
+}
+
+function normalize(vector: Vector): Vector {
+  const norm = Math.sqrt(dot(vector, vector));
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+function sample<T>(items: T[], size: number, random: () => number): T[] {
+  if (items.length <= size) return items;
+  const pool = [...items];
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, size);
+}
+
+/**
+ * PCA by power iteration with deflation, fitted on a sample and applied to every vector.
+ * Avoids building the full covariance matrix.
+ */
+export function reduceDimensions(
+  vectors: Vector[],
+  dimensions: number = 16,
+  { sampleSize = 2000, iterations = 30, seed = 42 } = {}
+): Vector[] {
+  if (vectors.length === 0) return [];
+  const inputDimensions = vectors[0].length;
+  if (dimensions >= inputDimensions) return vectors;
+
+  const random = createRandom(seed);
+  const mean = new Float32Array(inputDimensions);
+  vectors.forEach(v => { for (let i = 0; i < inputDimensions; i++) mean[i] += v[i] / vectors.length; });
+
+  const centered = sample(vectors, sampleSize, random).map(v => v.map((value, i) => value - mean[i]));
+  const components: Vector[] = [];
+
+  for (let c = 0; c < dimensions; c++) {
+    let component = normalize(Float32Array.from({ length: inputDimensions }, () => random() - 0.5));
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      const next = new Float32Array(inputDimensions);
+      for (const row of centered) {
+        const projection = dot(row, component);
+        for (let i = 0; i < inputDimensions; i++) next[i] += row[i] * projection;
+      }
+      // Deflate against earlier components so each one captures new variance
+      for (const previous of components) {
+        const overlap = dot(next, previous);
+        for (let i = 0; i < inputDimensions; i++) next[i] -= overlap * previous[i];
+      }
+      component = normalize(next);
+    }
+
+    components.push(component);
+  }
+
+  return vectors.map(v => {
+    const centeredVector = v.map((value, i) => value - mean[i]);
+    return Float32Array.from(components, component => dot(centeredVector, component));
+  });
+}
+
+export interface KMeansResult {
+  assignments: number[];
+  centroids: Vector[];
+  inertia: number;
+}
+
+// k-means++ seeding followed by Lloyd iterations
+export function kMeans(points: Vector[], k: number, { maxIterations = 50, seed = 42 } = {}): KMeansResult {
+  const random = createRandom(seed);
+  const clusterCount = Math.max(1, Math.min(k, points.length));
+  const centroids: Vector[] = [Float32Array.from(points[Math.floor(random() * points.length)])];
+  const nearest = points.map(p => squaredDistance(p, centroids[0]));
+
+  while (centroids.length < clusterCount) {
+    const total = nearest.reduce((sum, d) => sum + d, 0);
+    let target = random() * total;
+    let index = 0;
+    while (index < points.length - 1 && target > nearest[index]) {
+      target -= nearest[index];
+      index++;
+    }
+    const centroid = Float32Array.from(points[index]);
+    centroids.push(centroid);
+    points.forEach((p, i) => { nearest[i] = Math.min(nearest[i], squaredDistance(p, centroid)); });
+  }
+
+  const assignments = new Array<number>(points.length).fill(-1);
+  let inertia = 0;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+    inertia = 0;
+
+    points.forEach((point, i) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centroids.forEach((centroid, c) => {
+        const distance = squaredDistance(point, centroid);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = c;
+        }
+      });
+      if (assignments[i] !== best) changed = true;
+      assignments[i] = best;
+      inertia += bestDistance;
+    });
+
+    if (!changed) break;
+
+    const sums = centroids.map(c => new Float32Array(c.length));
+    const counts = new Array<number>(clusterCount).fill(0);
+    points.forEach((point, i) => {
+      const c = assignments[i];
+      counts[c]++;
+      for (let d = 0; d < point.length; d++) sums[c][d] += point[d];
+    });
+    sums.forEach((sum, c) => {
+      // Empty clusters keep their previous centroid
+      if (counts[c] === 0) return;
+      for (let d = 0; d < sum.length; d++) sum[d] /= counts[c];
+      centroids[c] = sum;
+    });
+  }
+
+  return { assignments, centroids, inertia };
+}
+
+// Mean silhouette over a sample of points; higher means tighter, better separated clusters
+export function silhouetteScore(
+  points: Vector[],
+  assignments: number[],
+  { sampleSize = 500, seed = 42 } = {}
+): number {
+  const clusters = new Set(assignments);
+  if (clusters.size < 2) return 0;
+
+  const random = createRandom(seed);
+  const indices = sample(points.map((_, i) => i), sampleSize, random);
+  let total = 0;
+
+  for (const i of indices) {
+    const distanceSums = new Map<number, { sum: number; count: number }>();
+    for (const j of indices) {
+      if (i === j) continue;
+      const entry = distanceSums.get(assignments[j]) || { sum: 0, count: 0 };
+      entry.sum += Math.sqrt(squaredDistance(points[i], points[j]));
+      entry.count++;
+      distanceSums.set(assignments[j], entry);
+    }
+
+    const own = distanceSums.get(assignments[i]);
+    if (!own || own.count === 0) continue;
+    const a = own.sum / own.count;
+    let b = Infinity;
+    distanceSums.forEach((entry, cluster) => {
+      if (cluster !== assignments[i] && entry.count > 0) b = Math.min(b, entry.sum / entry.count);
+    });
+    if (b === Infinity) continue;
+    total += (b - a) / Math.max(a, b);
+  }
+
+  return total / indices.length;
+}
+
+// Try each k and keep the clustering with the best silhouette
+export function chooseKMeans(points: Vector[], candidates: number[], seed: number = 42): KMeansResult & { silhouette: number } {
+  let best: (KMeansResult & { silhouette: number }) | null = null;
+  for (const k of candidates) {
+    const result = kMeans(points, k, { seed });
+    const silhouette = silhouetteScore(points, result.assignments, { seed });
+    if (!best || silhouette > best.silhouette) best = { ...result, silhouette };
+  }
+  return best!;
+}
@@ -0,0 +1,187 @@
+import type { Node } from '@/types/sentiment';
+import {
+  cosineSimilarity,
+  EMBEDDING_MODEL_ID,
+  generateBatchEmbeddings,
+  MULTILINGUAL_EMBEDDING_MODEL_ID,
+  type Embedding,
+} from '../models/embeddingModel';
+import { DEFAULT_NODE_SIMILARITY_THRESHOLD, getNodeEmbeddings } from '../analyzers/localAnalyzer';
+import { extractKeyphrasesByGroup } from '../extractors/keywordExtractor';
+import { detectLanguage, isEnglishLike } from '../utils/languageDetector';
+import { normalizeText } from '../utils/textNormalizer';
+import { chooseKMeans, reduceDimensions } from './clustering';
+
+export type TopicCoverage = 'covered' | 'partial' | 'uncovered';
+
+export interface TopicCluster {
+  id: number;
+  size: number;
+  // Keyphrases distinctive to the cluster, used as its label and as keywords when promoted
+  keyphrases: string[];
+  // Member texts closest to the cluster centroid
+  exemplars: string[];
+  avgPolarity?: number;
+  // Existing node most similar to the cluster centroid
+  bestNode: { nodeId: string; nodeName: string; similarity: number } | null;
+  // Share of member texts whose best node similarity is below the node threshold
+  uncoveredShare: number;
+  coverage: TopicCoverage;
+}
+
+export interface TopicDiscoveryResult {
+  clusters: TopicCluster[];
+  // Cluster id per input text; -1 for texts in clusters smaller than minClusterSize
+  assignments: number[];
+  // Mean silhouette of the chosen clustering (-1..1)
+  silhouette: number;
+  // Model the texts and nodes were embedded with
+  embeddingModelId: string;
+}
+
+export interface TopicDiscoveryOptions {
+  // Fixed cluster count; otherwise chosen by silhouette between 2 and maxClusters
+  clusterCount?: number;
+  maxClusters?: number;
+  // Smaller clusters are treated as noise
+  minClusterSize?: number;
+  // PCA dimensions the 384-d embeddings are reduced to before clustering
+  dimensions?: number;
+  nodeSimilarityThreshold?: number;
+  // Embed with the multilingual model when any text is detected as non-English (default on)
+  multilingual?: boolean;
+  // Aligned with texts, to report each cluster's average polarity
+  polarityScores?: number[];
+  onStatus?: (status: string) => void;
+}
+
+// Uncovered share at or above which a cluster counts as uncovered / partially covered
+const UNCOVERED_SHARE = 0.6;
+const PARTIAL_SHARE = 0.3;
+const EXEMPLARS_PER_CLUSTER = 3;
+
+function clusterCandidates(textCount: number, maxClusters: number): number[] {
+  const upper = Math.max(2, Math.min(maxClusters, Math.floor(textCount / 5)));
+  return Array.from({ length: upper - 1 }, (_, i) => i + 2);
+}
+
+function meanEmbedding(embeddings: Embedding[]): Embedding {
+  const mean = new Float32Array(embeddings[0].length);
+  embeddings.forEach(e => { for (let i = 0; i < mean.length; i++) mean[i] += e[i] / embeddings.length; });
+  return mean;
+}
+
+/**
+ * Clusters texts by MiniLM embedding (PCA-reduced, k-means), labels each cluster with
+ * keyphrases and reports how well the existing nodes cover it. Clusters need one embedding
+ * space, so a single non-English text moves every text and node to the multilingual model.
+ * Embeddings are read from the persistent store, so only texts a local or hybrid run already
+ * embedded with the same model are reused; after a server-only run every text is embedded here. This is heavy: call it through
+ * discoverTopicsInWorker (topicWorkerClient.ts) rather than on the UI thread.
+ */
+export async function discoverTopics(
+  texts: string[],
+  nodes: Node[],
+  options: TopicDiscoveryOptions = {}
+): Promise<TopicDiscoveryResult> {
+  const {
+    clusterCount,
+    maxClusters = 12,
+    minClusterSize = 5,
+    dimensions = 16,
+    nodeSimilarityThreshold = DEFAULT_NODE_SIMILARITY_THRESHOLD,
+    polarityScores,
+    multilingual = true,
+    onStatus,
+  } = options;
+
+  if (texts.length < 2 * minClusterSize) {
+    throw new Error(`Topic discovery needs at least ${2 * minClusterSize} texts`);
+  }
+
+  const embeddingModelId = multilingual && texts.some(text => !isEnglishLike(detectLanguage(text).language))
+    ? MULTILINGUAL_EMBEDDING_MODEL_ID
+    : EMBEDDING_MODEL_ID;
+
+  if (onStatus) onStatus(embeddingModelId === EMBEDDING_MODEL_ID ? 'Embedding texts...' : 'Embedding texts (multilingual)...');
+  const normalizedTexts = texts.map(normalizeText);
+  const embeddingMap = await generateBatchEmbeddings(normalizedTexts, { modelId: embeddingModelId });
+  const embeddings = normalizedTexts.map(text => embeddingMap.get(text)!);
+
+  if (onStatus) onStatus('Clustering...');
+  const reduced = reduceDimensions(embeddings, dimensions);
+  const candidates = clusterCount ? [clusterCount] : clusterCandidates(texts.length, maxClusters);
+  const { assignments: rawAssignments, silhouette } = chooseKMeans(reduced, candidates);
+
+  const members = new Map<number, number[]>();
+  rawAssignments.forEach((cluster, index) => {
+    const list = members.get(cluster) || [];
+    list.push(index);
+    members.set(cluster, list);
+  });
+
+  // Renumber surviving clusters by size; small ones become noise
+  const survivors = Array.from(members.entries())
+    .filter(([, indices]) => indices.length >= minClusterSize)
+    .sort((a, b) => b[1].length - a[1].length);
+  const assignments = new Array<number>(texts.length).fill(-1);
+  survivors.forEach(([, indices], id) => indices.forEach(index => { assignments[index] = id; }));
+
+  if (onStatus) onStatus('Labelling clusters...');
+  const keyphrases = extractKeyphrasesByGroup(
+    texts.map((text, index) => ({ text, cluster: assignments[index] })),
+    d => (d.cluster >= 0 ? String(d.cluster) : undefined),
+    { maxPhrases: 6 }
+  );
+
+  const nodeEmbeddings = nodes.length > 0 ? await getNodeEmbeddings(nodes, embeddingModelId) : new Map<string, Embedding>();
+  const bestNodeSimilarity = (embedding: Embedding) => {
+    let best: TopicCluster['bestNode'] = null;
+    nodes.forEach(node => {
+      const similarity = cosineSimilarity(embedding, nodeEmbeddings.get(node.id)!);
+      if (!best || similarity > best.similarity) best = { nodeId: node.id, nodeName: node.name, similarity };
+    });
+    return best as TopicCluster['bestNode'];
+  };
+
+  const clusters: TopicCluster[] = survivors.map(([, indices], id) => {
+    const centroid = meanEmbedding(indices.map(i => embeddings[i]));
+    const uncovered = indices.filter(i => (bestNodeSimilarity(embeddings[i])?.similarity ?? 0) < nodeSimilarityThreshold);
+    const uncoveredShare = uncovered.length / indices.length;
+
+    const exemplars = [...indices]
+      .sort((a, b) => cosineSimilarity(embeddings[b], centroid) - cosineSimilarity(embeddings[a], centroid))
+      .slice(0, EXEMPLARS_PER_CLUSTER)
+      .map(i => texts[i]);
+
+    return {
+      id,
+      size: indices.length,
+      keyphrases: (keyphrases.get(String(id)) || []).map(k => k.phrase),
+      exemplars,
+      avgPolarity: polarityScores
+        ? indices.reduce((sum, i) => sum + (polarityScores[i] ?? 0), 0) / indices.length
+        : undefined,
+      bestNode: bestNodeSimilarity(centroid),
+      uncoveredShare,
+      coverage: uncoveredShare >= UNCOVERED_SHARE ? 'uncovered' : uncoveredShare >= PARTIAL_SHARE ? 'partial' : 'covered',
+    };
+  });
+
+  console.log(`Topic discovery (${embeddingModelId}): ${clusters.length} clusters (silhouette ${silhouette.toFixed(3)}), ${assignments.filter(a => a < 0).length} noise texts`);
+  return { clusters, assignments, silhouette, embeddingModelId };
+}
+
+// Turn a discovered cluster into a node, named after its top keyphrases
+export function clusterToNode(cluster: TopicCluster): Node {
+  const name = cluster.keyphrases
+    .slice(0, 2)
+    .map(phrase => phrase.replace(/(^|[\s-])(\p{L})/gu, (_, separator, char) => separator + char.toUpperCase()))
+    .join(' & ') || `Topic ${cluster.id + 1}`;
+
+  return {
+    id: crypto.randomUUID(),
+    name,
+    keywords: cluster.keyphrases,
+  };
+}
@@ -0,0 +1,96 @@
+import type { Node } from '@/types/sentiment';
+import type { TopicWorkerRequest, TopicWorkerResponse } from '@/workers/topicWorker';
+import { diversifyKeyphraseGroups, type Keyphrase } from '../extractors/keywordExtractor';
+import { discoverTopics, type TopicDiscoveryOptions, type TopicDiscoveryResult } from './topicDiscovery';
+
+interface PendingJob {
+  onStatus?: (status: string) => void;
+  resolve: (result: TopicDiscoveryResult | Map<string, Keyphrase[]>) => void;
+  reject: (error: Error) => void;
+}
+
+// One worker holds the embedding models for discovery and keyphrase diversification, so repeat runs skip the model load
+let topicWorker: Worker | null = null;
+let jobCounter = 0;
+const pendingJobs = new Map<number, PendingJob>();
+
+function getWorker(): Worker {
+  if (!topicWorker) {
+    topicWorker = new Worker(new URL('../../../workers/topicWorker.ts', import.meta.url), {
+      type: 'module'
+    });
+
+    topicWorker.onmessage = (e: MessageEvent<TopicWorkerResponse>) => {
+      const message = e.data;
+      const job = pendingJobs.get(message.id);
+
+      if (!job) return;
+
+      if (message.type === 'status') {
+        job.onStatus?.(message.status);
+      } else if (message.type === 'discovered') {
+        job.resolve(message.result);
+        pendingJobs.delete(message.id);
+      } else if (message.type === 'diversified') {
+        job.resolve(message.groups);
+        pendingJobs.delete(message.id);
+      } else if (message.type === 'error') {
+        job.reject(new Error(message.error));
+        pendingJobs.delete(message.id);
+      }
+    };
+
+    topicWorker.onerror = (error) => {
+      console.error('Topic worker error:', error);
+      pendingJobs.forEach(job => job.reject(new Error('Topic worker crashed')));
+      pendingJobs.clear();
+      topicWorker = null;
+    };
+  }
+  return topicWorker;
+}
+
+/**
+ * Topic discovery off the UI thread: embedding, PCA, k-means and silhouette all run in a
+ * dedicated worker. Falls back to the current thread where workers are unavailable.
+ */
+export async function discoverTopicsInWorker(
+  texts: string[],
+  nodes: Node[],
+  options: TopicDiscoveryOptions = {}
+): Promise<TopicDiscoveryResult> {
+  if (typeof Worker === 'undefined') {
+    console.warn('Web Workers unavailable, running topic discovery on the main thread');
+    return discoverTopics(texts, nodes, options);
+  }
+
+  const { onStatus, ...workerOptions } = options;
+  const id = ++jobCounter;
+
+  return new Promise<TopicDiscoveryResult>((resolve, reject) => {
+    pendingJobs.set(id, { onStatus, resolve: result => resolve(result as TopicDiscoveryResult), reject });
+    const request: TopicWorkerRequest = { type: 'discover', id, texts, nodes, options: workerOptions };
+    getWorker().postMessage(request);
+  });
+}
+
+/**
+ * MMR-diversified keyphrases for each group (see diversifyKeyphrases). Phrase embeddings are
+ * computed in the topic worker; falls back to the current thread where workers are unavailable.
+ */
+export async function diversifyKeyphrasesInWorker(
+  groups: Map<string, Keyphrase[]>,
+  maxPhrases: number
+): Promise<Map<string, Keyphrase[]>> {
+  if (typeof Worker === 'undefined') {
+    return diversifyKeyphraseGroups(groups, maxPhrases);
+  }
+
+  const id = ++jobCounter;
+
+  return new Promise<Map<string, Keyphrase[]>>((resolve, reject) => {
+    pendingJobs.set(id, { resolve: result => resolve(result as Map<string, Keyphrase[]>), reject });
+    const request: TopicWorkerRequest = { type: 'diversify', id, groups, maxPhrases };
+    getWorker().postMessage(request);
+  });
+}
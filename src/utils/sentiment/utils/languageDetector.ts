@@ -0,0 +1,125 @@
+// Lightweight language identification, used to route texts between the English-only and the
+// multilingual local models. Non-Latin scripts are identified by their Unicode script;
+// Latin-script texts by how many common function words of each language they contain.
+
+export interface LanguageDetection {
+  // ISO 639-1 code, or UNDETERMINED_LANGUAGE when the text gives too little to go on
+  language: string;
+  // 0..1, share of the evidence behind the chosen language
+  confidence: number;
+}
+
+export const UNDETERMINED_LANGUAGE = 'und';
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  pt: 'Portuguese',
+  it: 'Italian',
+  nl: 'Dutch',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+  ar: 'Arabic',
+  hi: 'Hindi',
+  el: 'Greek',
+  he: 'Hebrew',
+  th: 'Thai',
+  [UNDETERMINED_LANGUAGE]: 'Undetermined',
+};
+
+export function languageName(language: string): string {
+  return LANGUAGE_NAMES[language] ?? language.toUpperCase();
+}
+
+// Scripts used by a single language here; Han is shared by Chinese and Japanese (see below)
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/\p{Script=Hangul}/gu, 'ko'],
+  [/\p{Script=Cyrillic}/gu, 'ru'],
+  [/\p{Script=Arabic}/gu, 'ar'],
+  [/\p{Script=Devanagari}/gu, 'hi'],
+  [/\p{Script=Greek}/gu, 'el'],
+  [/\p{Script=Hebrew}/gu, 'he'],
+  [/\p{Script=Thai}/gu, 'th'],
+];
+const HAN = /\p{Script=Han}/gu;
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+// Letters only found in Ukrainian among the Cyrillic languages we tell apart
+const UKRAINIAN_LETTERS = /[іїєґ]/u;
+const LETTER = /\p{L}/gu;
+const WORD = /\p{L}+/gu;
+
+// Frequent function words per Latin-script language; words in several lists count fractionally
+const FUNCTION_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'was', 'were', 'this', 'that', 'with', 'for', 'not', 'you', 'have', 'has',
+    'it', 'of', 'to', 'in', 'be', 'they', 'what', 'but', 'would', 'can', 'just', 'my', 'we'],
+  es: ['el', 'la', 'los', 'las', 'que', 'de', 'y', 'es', 'en', 'un', 'una', 'por', 'con', 'para', 'pero',
+    'muy', 'está', 'son', 'del', 'se', 'lo', 'como', 'más', 'yo', 'también'],
+  fr: ['le', 'la', 'les', 'des', 'et', 'est', 'un', 'une', 'que', 'pas', 'pour', 'dans', 'avec', 'sur',
+    'ce', 'qui', 'je', 'vous', 'il', 'du', 'au', 'mais', 'très', 'être', 'sont'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'ich', 'zu', 'mit', 'auf', 'sich',
+    'den', 'dem', 'es', 'auch', 'für', 'sind', 'wir', 'aber', 'sehr', 'von', 'werden'],
+  pt: ['o', 'os', 'as', 'que', 'de', 'e', 'é', 'não', 'um', 'uma', 'para', 'com', 'em', 'do', 'da',
+    'mas', 'muito', 'são', 'está', 'você', 'isso', 'mais', 'também'],
+  it: ['il', 'lo', 'gli', 'che', 'di', 'e', 'è', 'non', 'un', 'una', 'per', 'con', 'del', 'della',
+    'sono', 'ma', 'molto', 'anche', 'questo', 'come', 'più', 'io'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'niet', 'van', 'dat', 'met', 'voor', 'op', 'zijn', 'ik', 'ook',
+    'maar', 'wat', 'er', 'je', 'dit', 'wordt', 'heeft'],
+};
+
+// Word -> weight per language, built once
+const FUNCTION_WORD_WEIGHTS = (() => {
+  const languagesByWord = new Map<string, string[]>();
+  Object.entries(FUNCTION_WORDS).forEach(([language, words]) => {
+    words.forEach(word => languagesByWord.set(word, [...(languagesByWord.get(word) ?? []), language]));
+  });
+  return new Map(Array.from(languagesByWord, ([word, languages]) => [word, { languages, weight: 1 / languages.length }]));
+})();
+
+// Below this many letters or function-word hits a text is left undetermined
+const MIN_LETTERS = 3;
+const MIN_FUNCTION_WORD_SCORE = 1;
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+export function detectLanguage(text: string): LanguageDetection {
+  const letters = countMatches(text, LETTER);
+  if (letters < MIN_LETTERS) return { language: UNDETERMINED_LANGUAGE, confidence: 0 };
+
+  // Japanese mixes kana with Han characters; Han without kana is read as Chinese
+  const kana = countMatches(text, KANA);
+  const han = countMatches(text, HAN);
+  const scriptCounts: Array<[string, number]> = [
+    ['ja', kana > 0 ? kana + han : 0],
+    ['zh', kana > 0 ? 0 : han],
+    ...SCRIPT_LANGUAGES.map(([pattern, language]): [string, number] => [language, countMatches(text, pattern)]),
+  ];
+  const [scriptLanguage, scriptCount] = scriptCounts.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+
+  // A non-Latin script that makes up most of the letters decides the language
+  if (scriptCount / letters > 0.5) {
+    const language = scriptLanguage === 'ru' && UKRAINIAN_LETTERS.test(text.toLowerCase()) ? 'uk' : scriptLanguage;
+    return { language, confidence: scriptCount / letters };
+  }
+
+  const scores: Record<string, number> = {};
+  (text.toLowerCase().match(WORD) ?? []).forEach(word => {
+    const entry = FUNCTION_WORD_WEIGHTS.get(word);
+    entry?.languages.forEach(language => { scores[language] = (scores[language] ?? 0) + entry.weight; });
+  });
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1] || (a[0] === 'en' ? -1 : b[0] === 'en' ? 1 : 0));
+  const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+  if (ranked.length === 0 || ranked[0][1] < MIN_FUNCTION_WORD_SCORE) {
+    return { language: UNDETERMINED_LANGUAGE, confidence: 0 };
+  }
+  return { language: ranked[0][0], confidence: ranked[0][1] / total };
+}
+
+// English-only models handle English and texts too short to tell; everything else is routed
+export function isEnglishLike(language: string): boolean {
+  return language === 'en' || language === UNDETERMINED_LANGUAGE;
+}
@@ -1,22 +1,47 @@
+// Bump whenever normalizeText output changes; persisted embeddings are keyed by it
+export const NORMALIZATION_VERSION = 2;
+
 export function normalizeText(text: string): string {
   return text
+    .normalize('NFKC') // Fold compatibility forms (full-width letters, ligatures) and compose accents
     .toLowerCase()
     .trim()
     .replace(/\s+/g, ' ') // Normalize whitespace
-    .replace(/[^\w\s.,!?-]/g, '') // Remove special chars but keep punctuation
+    .replace(/[^\p{L}\p{M}\p{N}_\s.,!?。、-]/gu, '') // Remove special chars but keep letters of any script and punctuation
     .slice(0, 5000); // Limit length for performance
 }
 
+// Scripts written without spaces between words; counted as roughly two characters per word
+const UNSPACED_CHARS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/gu;
+
+export function countWords(text: string): number {
+  const unspaced = text.match(UNSPACED_CHARS)?.length ?? 0;
+  const spaced = text.replace(UNSPACED_CHARS, ' ').trim().split(/\s+/).filter(Boolean).length;
+  return spaced + Math.ceil(unspaced / 2);
+}
+
 export function isShortText(text: string): boolean {
-  return text.trim().split(/\s+/).length < 20;
+  return countWords(text) < 20;
 }
 
 export function isLongText(text: string): boolean {
-  return text.trim().split(/\s+/).length > 500;
+  return countWords(text) > 500;
+}
+
+// Latin and CJK sentence endings
+const SENTENCE_PATTERN = /[^.!?。！？]+(?:[.!?。！？]+|$)/g;
+const TERMINATED_SENTENCE_PATTERN = /[^.!?。！？]+[.!?。！？]+/g;
+
+// Split into sentences, keeping a trailing fragment that has no terminal punctuation
+export function splitSentences(text: string): string[] {
+  const sentences = (text.match(SENTENCE_PATTERN) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+  return sentences.length > 0 ? sentences : [text];
 }
 
 export function chunkLongText(text: string, maxTokens: number = 400): string[] {
-  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
+  const sentences = text.match(TERMINATED_SENTENCE_PATTERN) || [text];
   const chunks: string[] = [];
   let currentChunk: string[] = [];
   let tokenCount = 0;
@@ -42,7 +42,48 @@ export function cleanText(text: string): string {
   return cleaned;
 }
 
-export function extractTextWithContext(data: RedditData, posts: RedditPost[]): string {
+// Posts and comments by id, so a comment's thread context is found without scanning the dataset
+export interface ThreadIndex {
+  // Keyed by both the bare id and the t3_ fullname, since comments reference posts either way
+  postsById: Map<string, RedditPost>;
+  // Keyed by t1_ fullname, the form parentId uses
+  commentsById: Map<string, RedditComment>;
+}
+
+export function buildThreadIndex(posts: RedditPost[], comments: RedditComment[]): ThreadIndex {
+  const postsById = new Map<string, RedditPost>();
+  posts.forEach(post => {
+    postsById.set(post.id, post);
+    postsById.set(post.parsedId || `t3_${post.id}`, post);
+  });
+  const commentsById = new Map(comments.map(comment => [comment.parsedId || `t1_${comment.id}`, comment]));
+  return { postsById, commentsById };
+}
+
+export function findThreadPost(comment: RedditComment, index: ThreadIndex): RedditPost | undefined {
+  return index.postsById.get(comment.postId);
+}
+
+// The comment a reply answers; undefined for top-level comments and replies whose parent was not scraped
+export function findParentComment(comment: RedditComment, index: ThreadIndex): RedditComment | undefined {
+  return comment.parentId?.startsWith('t1_') ? index.commentsById.get(comment.parentId) : undefined;
+}
+
+// Comments shorter than this get their thread context prepended
+const SHORT_COMMENT_LENGTH = 100;
+// Parent comments are quoted up to this many characters
+const MAX_PARENT_CONTEXT_LENGTH = 200;
+// Marks the quoted parent comment in a short reply's analysed text
+const PARENT_CONTEXT_LABEL = 'Replying to:';
+
+function truncateContext(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut}...`;
+}
+
+export function extractTextWithContext(data: RedditData, index: ThreadIndex): string {
   if (data.dataType === 'post') {
     const post = data as RedditPost;
     // Combine title and body for full context
@@ -51,23 +92,33 @@ export function extractTextWithContext(data: RedditData, posts: RedditPost[]): s
     return cleanText(`${title}. ${body}`);
   } else {
     const comment = data as RedditComment;
-    
-    // Find the parent post for context
-    const parentPost = posts.find(p => p.id === comment.postId);
-    const postContext = parentPost?.title || '';
-    
-    // Combine post context with comment
     const commentText = comment.body || '';
-    
-    // If comment is short, add post context
-    if (commentText.length < 100 && postContext) {
-      return cleanText(`Context: ${postContext}. Comment: ${commentText}`);
+    if (commentText.length >= SHORT_COMMENT_LENGTH) {
+      return cleanText(commentText);
+    }
+
+    // Short comments lean on what they answer: a reply gets its parent comment, and every
+    // comment gets the post title
+    const postContext = findThreadPost(comment, index)?.title || '';
+    const parentComment = findParentComment(comment, index);
+    const parts = [
+      postContext && `Context: ${postContext}.`,
+      parentComment && `${PARENT_CONTEXT_LABEL} ${truncateContext(cleanText(parentComment.body), MAX_PARENT_CONTEXT_LENGTH).replace(/[.!?]+$/, '')}.`,
+    ].filter(Boolean);
+
+    if (parts.length > 0) {
+      return cleanText(`${parts.join(' ')} Comment: ${commentText}`);
     }
     
     return cleanText(commentText);
   }
 }
 
+// True when an analysed text quotes the parent comment, so its score is not independent of the parent's
+export function quotesParentComment(text: string): boolean {
+  return text.includes(PARENT_CONTEXT_LABEL);
+}
+
 export function shouldIncludeText(text: string, username?: string): boolean {
   // Filter out bots
   if (isBot(text, username)) {
@@ -92,13 +143,21 @@ export function shouldIncludeText(text: string, username?: string): boolean {
 }
 
 export interface EnhancedText {
+  id: string;           // Reddit item id, used to join analysis results back
   text: string;
+  // The post or comment alone, without the thread context prepended to short comments
+  body: string;
   originalIndex: number;
   username: string;
   timestamp: string;
   upvotes: number;
   isPost: boolean;
   postTitle?: string;
+  subreddit?: string;
+  // Comments only: the thread's post (t3_ id), the parent post or comment, and the reply level
+  postId?: string;
+  parentId?: string;
+  depth?: number;
 }
 
 export function extractRedditTexts(
@@ -106,9 +165,13 @@ export function extractRedditTexts(
   posts: RedditPost[]
 ): EnhancedText[] {
   const enhancedTexts: EnhancedText[] = [];
+  const threadIndex = buildThreadIndex(
+    posts,
+    data.filter((item): item is RedditComment => item.dataType === 'comment')
+  );
 
   data.forEach((item, index) => {
-    const rawText = extractTextWithContext(item, posts);
+    const rawText = extractTextWithContext(item, threadIndex);
     const username = item.username;
     
     if (!shouldIncludeText(rawText, username)) {
@@ -116,19 +179,26 @@ export function extractRedditTexts(
     }
 
     const enhanced: EnhancedText = {
+      id: item.id,
       text: rawText,
+      body: item.dataType === 'post' ? rawText : cleanText((item as RedditComment).body || ''),
       originalIndex: index,
       username: username,
       timestamp: item.createdAt,
       upvotes: item.upVotes,
       isPost: item.dataType === 'post',
+      subreddit: item.communityName?.replace(/^r\//, '') || undefined,
     };
 
     if (item.dataType === 'comment') {
-      const parentPost = posts.find(p => p.id === (item as RedditComment).postId);
+      const comment = item as RedditComment;
+      const parentPost = findThreadPost(comment, threadIndex);
       if (parentPost) {
         enhanced.postTitle = parentPost.title;
       }
+      enhanced.postId = comment.postId || undefined;
+      enhanced.parentId = comment.parentId || undefined;
+      enhanced.depth = comment.depth;
     }
 
     enhancedTexts.push(enhanced);
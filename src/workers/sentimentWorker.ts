@@ -0,0 +1,45 @@
+import { runLocalAnalysis, type LocalAnalysisConfig } from '@/utils/sentiment/analyzers/localAnalyzer';
+import type { Node, SentimentResult } from '@/types/sentiment';
+
+export type SentimentWorkerRequest =
+  | { type: 'analyze'; id: number; texts: string[]; nodes: Node[]; config: LocalAnalysisConfig }
+  | { type: 'cancel'; id: number };
+
+export type SentimentWorkerResponse =
+  | { type: 'status'; id: number; status: string }
+  | { type: 'batch'; id: number; results: SentimentResult[]; processedCount: number }
+  | { type: 'complete'; id: number; results: SentimentResult[] }
+  | { type: 'error'; id: number; error: string };
+
+const cancelledJobs = new Set<number>();
+
+const post = (message: SentimentWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<SentimentWorkerRequest>) => {
+  const message = e.data;
+
+  if (message.type === 'cancel') {
+    cancelledJobs.add(message.id);
+    return;
+  }
+
+  const { id, texts, nodes, config } = message;
+
+  try {
+    const results = await runLocalAnalysis(texts, nodes, {
+      onStatus: (status) => post({ type: 'status', id, status }),
+      onBatch: (batchResults, processedCount) => post({ type: 'batch', id, results: batchResults, processedCount }),
+      isCancelled: () => cancelledJobs.has(id),
+    }, config);
+
+    post({ type: 'complete', id, results });
+  } catch (error) {
+    post({
+      type: 'error',
+      id,
+      error: error instanceof Error ? error.message : 'Sentiment analysis failed'
+    });
+  } finally {
+    cancelledJobs.delete(id);
+  }
+};
@@ -0,0 +1,40 @@
+import { discoverTopics, type TopicDiscoveryOptions, type TopicDiscoveryResult } from '@/utils/sentiment/topics/topicDiscovery';
+import { diversifyKeyphraseGroups, type Keyphrase } from '@/utils/sentiment/extractors/keywordExtractor';
+import type { Node } from '@/types/sentiment';
+
+export type TopicWorkerRequest =
+  | { type: 'discover'; id: number; texts: string[]; nodes: Node[]; options: Omit<TopicDiscoveryOptions, 'onStatus'> }
+  | { type: 'diversify'; id: number; groups: Map<string, Keyphrase[]>; maxPhrases: number };
+
+export type TopicWorkerResponse =
+  | { type: 'status'; id: number; status: string }
+  | { type: 'discovered'; id: number; result: TopicDiscoveryResult }
+  | { type: 'diversified'; id: number; groups: Map<string, Keyphrase[]> }
+  | { type: 'error'; id: number; error: string };
+
+const post = (message: TopicWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<TopicWorkerRequest>) => {
+  const request = e.data;
+  const { id } = request;
+
+  try {
+    if (request.type === 'diversify') {
+      const groups = await diversifyKeyphraseGroups(request.groups, request.maxPhrases);
+      post({ type: 'diversified', id, groups });
+      return;
+    }
+
+    const result = await discoverTopics(request.texts, request.nodes, {
+      ...request.options,
+      onStatus: (status) => post({ type: 'status', id, status }),
+    });
+    post({ type: 'discovered', id, result });
+  } catch (error) {
+    post({
+      type: 'error',
+      id,
+      error: error instanceof Error ? error.message : 'Topic discovery failed'
+    });
+  }
+};
@@ -0,0 +1,294 @@
+import { mockChatCompletion } from "./mockLLM.ts";
+
+// Chat completions behind one interface for the edge functions. Every provider speaks the
+// OpenAI request/response shape; what differs is the endpoint, the key, the default model
+// and how HTTP errors map onto our rate limit (429) and credits (402) handling.
+//
+// Selection (env), most specific first:
+//   <SCOPE>_LLM_PROVIDER / LLM_PROVIDER   lovable | perplexity | openai | ollama | mock
+//   <SCOPE>_LLM_MODEL / LLM_MODEL         default model, else the provider's own default
+//   LLM_ALLOWED_MODELS                    comma-separated models a request may pick; unset allows only
+//                                         the default model
+// Provider settings:
+//   lovable     LOVABLE_API_KEY
+//   perplexity  PERPLEXITY_API_KEY
+//   openai      OPENAI_BASE_URL (default https://api.openai.com/v1), OPENAI_API_KEY (optional for
+//               self-hosted servers such as llama.cpp or vLLM)
+//   ollama      OLLAMA_BASE_URL (default http://localhost:11434)
+//   mock        in-process, deterministic; see mockLLM.ts
+
+export type LLMProviderId = 'lovable' | 'perplexity' | 'openai' | 'ollama' | 'mock';
+
+// 'rate_limit' and 'credits_exhausted' map to our 429 and 402 responses; 'spend_cap' is raised
+// by our own spend caps (see llmUsage.ts) before a call is made
+export type LLMErrorKind = 'rate_limit' | 'credits_exhausted' | 'spend_cap' | 'request_failed';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  // Falls back to the provider's default model
+  model?: string;
+  tools?: unknown[];
+  tool_choice?: unknown;
+  temperature?: number;
+  max_tokens?: number;
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: Array<{ function?: { name?: string; arguments?: string } }>;
+    };
+    finish_reason?: string;
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: LLMErrorKind,
+    public readonly provider: LLMProviderId,
+    // Upstream HTTP status, when there was a response
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  // Shown in user-facing errors, e.g. "add credits to your Perplexity account"
+  label: string;
+  defaultModel: string;
+  chatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResponse>;
+}
+
+interface ProviderSpec {
+  label: string;
+  url: string;
+  apiKey: string | null;
+  // Providers that cannot run without a key fail at resolve time rather than per request
+  requiresKey: boolean;
+  defaultModel: string;
+  classifyError: (status: number, body: string) => LLMErrorKind;
+}
+
+// Lovable gateway and Perplexity: plain 429 / 402
+function classifyStandardError(status: number): LLMErrorKind {
+  if (status === 429) return 'rate_limit';
+  if (status === 402) return 'credits_exhausted';
+  return 'request_failed';
+}
+
+// OpenAI reports an exhausted quota as a 429 with code insufficient_quota
+function classifyOpenAIError(status: number, body: string): LLMErrorKind {
+  if (status === 429) return body.includes('insufficient_quota') ? 'credits_exhausted' : 'rate_limit';
+  if (status === 402) return 'credits_exhausted';
+  return 'request_failed';
+}
+
+// Ollama answers 503 when its request queue is full; there are no credits to run out of
+function classifyOllamaError(status: number): LLMErrorKind {
+  return status === 429 || status === 503 ? 'rate_limit' : 'request_failed';
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+function providerSpec(id: Exclude<LLMProviderId, 'mock'>): ProviderSpec {
+  switch (id) {
+    case 'lovable':
+      return {
+        label: 'Lovable AI',
+        url: 'https://ai.gateway.lovable.dev/v1/chat/completions',
+        apiKey: Deno.env.get('LOVABLE_API_KEY') ?? null,
+        requiresKey: true,
+        defaultModel: 'google/gemini-2.5-flash',
+        classifyError: classifyStandardError,
+      };
+    case 'perplexity':
+      return {
+        label: 'Perplexity',
+        url: 'https://api.perplexity.ai/chat/completions',
+        apiKey: Deno.env.get('PERPLEXITY_API_KEY') ?? null,
+        requiresKey: true,
+        defaultModel: 'sonar',
+        classifyError: classifyStandardError,
+      };
+    case 'openai': {
+      const baseUrl = trimSlash(Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1');
+      return {
+        label: 'OpenAI-compatible endpoint',
+        url: `${baseUrl}/chat/completions`,
+        apiKey: Deno.env.get('OPENAI_API_KEY') ?? null,
+        requiresKey: false,
+        defaultModel: 'gpt-4o-mini',
+        classifyError: classifyOpenAIError,
+      };
+    }
+    case 'ollama': {
+      const baseUrl = trimSlash(Deno.env.get('OLLAMA_BASE_URL') || 'http://localhost:11434');
+      return {
+        label: 'Ollama',
+        url: `${baseUrl}/v1/chat/completions`,
+        apiKey: null,
+        requiresKey: false,
+        defaultModel: 'llama3.1',
+        classifyError: classifyOllamaError,
+      };
+    }
+  }
+}
+
+function httpProvider(id: Exclude<LLMProviderId, 'mock'>, spec: ProviderSpec, defaultModel: string): LLMProvider {
+  return {
+    id,
+    label: spec.label,
+    defaultModel,
+    async chatCompletion(request) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (spec.apiKey) headers.Authorization = `Bearer ${spec.apiKey}`;
+
+      let response: Response;
+      try {
+        response = await fetch(spec.url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ ...request, model: request.model || defaultModel }),
+        });
+      } catch (error) {
+        // Typically a local server that is not running
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new LLMProviderError(`${spec.label} unreachable: ${reason}`, 'request_failed', id);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`[llm:${id}] ${response.status} - ${errorText.slice(0, 200)}`);
+        const kind = spec.classifyError(response.status, errorText);
+        throw new LLMProviderError(`AI request failed: ${response.status}`, kind, id, response.status);
+      }
+
+      return await response.json();
+    },
+  };
+}
+
+function mockProvider(defaultModel: string): LLMProvider {
+  return {
+    id: 'mock',
+    label: 'Mock LLM',
+    defaultModel,
+    chatCompletion(request) {
+      const model = request.model || defaultModel;
+      const { status, body } = mockChatCompletion({ ...request, model } as Parameters<typeof mockChatCompletion>[0]);
+      if (status !== 200) {
+        return Promise.reject(new LLMProviderError(`AI request failed: ${status}`, classifyStandardError(status), 'mock', status));
+      }
+      return Promise.resolve(body as ChatCompletionResponse);
+    },
+  };
+}
+
+const PROVIDER_IDS: LLMProviderId[] = ['lovable', 'perplexity', 'openai', 'ollama', 'mock'];
+
+/**
+ * Resolve the provider for one function. `scope` names its env overrides (ANALYZE_SENTIMENT
+ * reads ANALYZE_SENTIMENT_LLM_PROVIDER before LLM_PROVIDER); `fallback` applies when neither is set.
+ * Throws if the provider is unknown or its API key is missing.
+ */
+export function resolveLLMProvider(scope: string, fallback: LLMProviderId): LLMProvider {
+  const configured = (Deno.env.get(`${scope}_LLM_PROVIDER`) || Deno.env.get('LLM_PROVIDER') || fallback).toLowerCase();
+  if (!PROVIDER_IDS.includes(configured as LLMProviderId)) {
+    throw new Error(`Unknown LLM provider "${configured}"; expected one of ${PROVIDER_IDS.join(', ')}`);
+  }
+  const id = configured as LLMProviderId;
+  const modelOverride = Deno.env.get(`${scope}_LLM_MODEL`) || Deno.env.get('LLM_MODEL');
+
+  if (id === 'mock') return mockProvider(modelOverride || 'mock-deterministic');
+
+  const spec = providerSpec(id);
+  if (spec.requiresKey && !spec.apiKey) {
+    throw new Error(`${spec.label} API key is not configured`);
+  }
+  return httpProvider(id, spec, modelOverride || spec.defaultModel);
+}
+
+/**
+ * The model a request asked for, or the provider default when it asked for none.
+ * Returns null for any other model unless LLM_ALLOWED_MODELS lists it, so callers cannot
+ * switch an open deployment to a pricier model.
+ */
+export function resolveModel(provider: LLMProvider, requested: unknown): string | null {
+  if (typeof requested !== 'string' || requested.trim() === '') return provider.defaultModel;
+  const model = requested.trim();
+  if (model === provider.defaultModel) return model;
+  const allowed = (Deno.env.get('LLM_ALLOWED_MODELS') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return allowed.includes(model) ? model : null;
+}
+
+// Context windows by model prefix; unknown models get a conservative default
+const CONTEXT_TOKENS_BY_MODEL_PREFIX: Array<[string, number]> = [
+  ['google/gemini', 1_000_000],
+  ['gemini', 1_000_000],
+  ['openai/gpt-4', 128_000],
+  ['gpt-4', 128_000],
+  ['sonar', 127_000],
+];
+const DEFAULT_CONTEXT_TOKENS = 32_000;
+// Ollama truncates prompts to its num_ctx, which defaults far below what the models support
+const OLLAMA_CONTEXT_TOKENS = 4096;
+
+/**
+ * Prompt plus completion tokens the model accepts. LLM_CONTEXT_TOKENS overrides the lookup,
+ * e.g. for an Ollama or llama.cpp server started with a larger context.
+ */
+export function modelContextTokens(provider: LLMProvider, model: string): number {
+  const override = Number(Deno.env.get('LLM_CONTEXT_TOKENS'));
+  if (Number.isFinite(override) && override > 0) return override;
+  if (provider.id === 'ollama') return OLLAMA_CONTEXT_TOKENS;
+  const match = CONTEXT_TOKENS_BY_MODEL_PREFIX.find(([prefix]) => model.startsWith(prefix));
+  return match ? match[1] : DEFAULT_CONTEXT_TOKENS;
+}
+
+// Completion limits by model prefix, longer prefixes first; max_tokens above them is rejected
+const OUTPUT_TOKENS_BY_MODEL_PREFIX: Array<[string, number]> = [
+  ['google/gemini', 65_536],
+  ['gemini', 65_536],
+  ['openai/gpt-4.1', 32_768],
+  ['gpt-4.1', 32_768],
+  ['openai/gpt-4o', 16_384],
+  ['gpt-4o', 16_384],
+  ['openai/gpt-4', 4_096],
+  ['gpt-4', 4_096],
+];
+const DEFAULT_OUTPUT_TOKENS = 8_192;
+
+/**
+ * Completion tokens the model may return in one response. LLM_MAX_OUTPUT_TOKENS overrides the
+ * lookup, e.g. for a local server or a model missing from the table.
+ */
+export function modelMaxOutputTokens(provider: LLMProvider, model: string): number {
+  const override = Number(Deno.env.get('LLM_MAX_OUTPUT_TOKENS'));
+  if (Number.isFinite(override) && override > 0) return override;
+  const match = OUTPUT_TOKENS_BY_MODEL_PREFIX.find(([prefix]) => model.startsWith(prefix));
+  return match ? match[1] : DEFAULT_OUTPUT_TOKENS;
+}
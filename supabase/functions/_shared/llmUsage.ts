@@ -0,0 +1,267 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  LLMProviderError,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type LLMProvider,
+} from "./llmProvider.ts";
+
+// Token, latency and cost accounting for LLM calls, written to the llm_usage table.
+//
+// Prices are list prices in USD per million tokens, looked up by model prefix. Env overrides:
+//   LLM_PRICE_INPUT_PER_M / LLM_PRICE_OUTPUT_PER_M   price for every model, e.g. a negotiated rate
+// Spend caps (env, optional; a request may only tighten the per-run cap):
+//   LLM_SPEND_CAP_USD_PER_RUN                        one analysis run or keyword request
+//   LLM_SPEND_CAP_USD_PER_DAY                        all functions together, per UTC day
+
+// Service-role client for usage rows; without one, calls are still metered but not stored
+export function createUsageClient(): SupabaseClient | null {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return supabaseUrl && serviceKey ? createClient(supabaseUrl, serviceKey) : null;
+}
+
+// The signed-in user behind a request, whom its usage is recorded for; null for the
+// publishable key, an expired session or when usage is not stored
+export async function requestUserId(client: SupabaseClient | null, req: Request): Promise<string | null> {
+  const jwt = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!client || !jwt) return null;
+  const { data: { user } } = await client.auth.getUser(jwt);
+  return user?.id ?? null;
+}
+
+export interface ModelPrice {
+  inputPerM: number;
+  outputPerM: number;
+}
+
+// Longer prefixes first, so "gpt-4o-mini" is not priced as "gpt-4o"
+const PRICE_BY_MODEL_PREFIX: Array<[string, ModelPrice]> = [
+  ['google/gemini-2.5-flash-lite', { inputPerM: 0.1, outputPerM: 0.4 }],
+  ['google/gemini-2.5-flash', { inputPerM: 0.3, outputPerM: 2.5 }],
+  ['google/gemini-2.5-pro', { inputPerM: 1.25, outputPerM: 10 }],
+  ['openai/gpt-4o-mini', { inputPerM: 0.15, outputPerM: 0.6 }],
+  ['openai/gpt-4o', { inputPerM: 2.5, outputPerM: 10 }],
+  ['gpt-4o-mini', { inputPerM: 0.15, outputPerM: 0.6 }],
+  ['gpt-4o', { inputPerM: 2.5, outputPerM: 10 }],
+  ['sonar-pro', { inputPerM: 3, outputPerM: 15 }],
+  ['sonar', { inputPerM: 1, outputPerM: 1 }],
+];
+const FREE: ModelPrice = { inputPerM: 0, outputPerM: 0 };
+
+// Matches the chars-per-token estimate analyze-sentiment plans its batches with
+const CHARS_PER_TOKEN = 4;
+
+function envNumber(name: string): number | null {
+  const value = Number(Deno.env.get(name));
+  return Deno.env.get(name) && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Price of a model. Local and mock providers are free; unknown hosted models are priced at 0
+ * (with a warning) rather than guessed.
+ */
+export function modelPrice(provider: LLMProvider, model: string): ModelPrice {
+  const input = envNumber('LLM_PRICE_INPUT_PER_M');
+  const output = envNumber('LLM_PRICE_OUTPUT_PER_M');
+  if (input !== null && output !== null) return { inputPerM: input, outputPerM: output };
+  if (provider.id === 'ollama' || provider.id === 'mock') return FREE;
+  const match = PRICE_BY_MODEL_PREFIX.find(([prefix]) => model.startsWith(prefix));
+  if (!match) {
+    console.warn(`[llm-usage] No price for ${provider.id}/${model}; recording its cost as 0`);
+    return FREE;
+  }
+  return match[1];
+}
+
+export function estimateCost(price: ModelPrice, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * price.inputPerM + completionTokens * price.outputPerM) / 1_000_000;
+}
+
+export interface SpendCaps {
+  perRunUsd: number | null;
+  perDayUsd: number | null;
+}
+
+// A request's maxCostUsd can lower the configured per-run cap but never raise it
+export function resolveSpendCaps(requestedPerRun?: unknown): SpendCaps {
+  const configured = envNumber('LLM_SPEND_CAP_USD_PER_RUN');
+  const requested = typeof requestedPerRun === 'number' && Number.isFinite(requestedPerRun) && requestedPerRun > 0
+    ? requestedPerRun
+    : null;
+  const perRunUsd = configured !== null && requested !== null
+    ? Math.min(configured, requested)
+    : configured ?? requested;
+  return { perRunUsd, perDayUsd: envNumber('LLM_SPEND_CAP_USD_PER_DAY') };
+}
+
+export interface UsageTotals {
+  calls: number;
+  retries: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  // Summed over calls; parallel calls overlap, so this exceeds wall-clock time
+  latencyMs: number;
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return { calls: 0, retries: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, latencyMs: 0 };
+}
+
+// Start of the current UTC day, the window of the daily cap
+function utcDayStart(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+}
+
+// Summed by the llm_spend_usd function; throws when the spend cannot be read, since a cap
+// checked against a guess would fail open
+async function sumCost(client: SupabaseClient | null, filter: { since?: string; runId?: string }): Promise<number> {
+  if (!client) return 0;
+  const { data, error } = await client.rpc('llm_spend_usd', {
+    ...(filter.since && { p_since: filter.since }),
+    ...(filter.runId && { p_run_id: filter.runId }),
+  });
+  if (error) throw new Error(`Failed to load spend: ${error.message}`);
+  // NUMERIC arrives as a string or number depending on its size
+  return Number(data ?? 0);
+}
+
+/** Spend recorded today (UTC) across all functions; 0 when usage is not stored. Throws when unreadable. */
+export function spentToday(client: SupabaseClient | null): Promise<number> {
+  return sumCost(client, { since: utcDayStart() });
+}
+
+/** Spend recorded for one run so far, e.g. before a paused job resumes. Throws when unreadable. */
+export function spentOnRun(client: SupabaseClient | null, runId: string): Promise<number> {
+  return sumCost(client, { runId });
+}
+
+// Providers that omit usage (some local servers) are estimated from the characters sent and received
+function estimateUsage(request: ChatCompletionRequest, response: ChatCompletionResponse | null) {
+  const promptChars = request.messages.reduce((sum, message) => sum + message.content.length, 0);
+  const message = response?.choices?.[0]?.message;
+  const completionChars = (message?.content?.length ?? 0)
+    + (message?.tool_calls ?? []).reduce((sum, call) => sum + (call.function?.arguments?.length ?? 0), 0);
+  return {
+    promptTokens: Math.ceil(promptChars / CHARS_PER_TOKEN),
+    completionTokens: Math.ceil(completionChars / CHARS_PER_TOKEN),
+  };
+}
+
+interface UsageMeterOptions {
+  functionName: string;
+  // Groups the calls of one run, e.g. an analysis job id
+  runId: string;
+  userId?: string | null;
+  caps?: SpendCaps;
+  // The run was started by an earlier invocation, whose recorded spend counts toward the per-run cap
+  resumed?: boolean;
+}
+
+/**
+ * Wraps a provider's chatCompletion: times each call, totals its tokens and cost, and records
+ * one llm_usage row per call (best effort). With spend caps set, a call that would start after
+ * a cap was reached fails with an LLMProviderError of kind 'spend_cap' instead.
+ */
+export class UsageMeter {
+  readonly totals: UsageTotals = emptyUsageTotals();
+  readonly caps: SpendCaps;
+  // Spend from before this invocation, each read once when its cap is first checked
+  private dailySpend: Promise<number> | null = null;
+  private priorRunSpend: Promise<number> | null = null;
+
+  constructor(
+    private readonly client: SupabaseClient | null,
+    private readonly provider: LLMProvider,
+    private readonly options: UsageMeterOptions
+  ) {
+    this.caps = options.caps ?? { perRunUsd: null, perDayUsd: null };
+  }
+
+  private async checkCaps(): Promise<void> {
+    const { perRunUsd, perDayUsd } = this.caps;
+    if (perRunUsd !== null) {
+      this.priorRunSpend ??= this.options.resumed ? spentOnRun(this.client, this.options.runId) : Promise.resolve(0);
+      const priorRunSpend = await this.readSpend(this.priorRunSpend, `Spend cap of $${perRunUsd.toFixed(2)} per run`);
+      if (priorRunSpend + this.totals.costUsd >= perRunUsd) {
+        throw new LLMProviderError(
+          `Spend cap of $${perRunUsd.toFixed(2)} per run reached`, 'spend_cap', this.provider.id);
+      }
+    }
+    if (perDayUsd !== null) {
+      this.dailySpend ??= spentToday(this.client);
+      const dailySpend = await this.readSpend(this.dailySpend, `Daily spend cap of $${perDayUsd.toFixed(2)}`);
+      if (dailySpend + this.totals.costUsd >= perDayUsd) {
+        throw new LLMProviderError(
+          `Daily spend cap of $${perDayUsd.toFixed(2)} reached`, 'spend_cap', this.provider.id);
+      }
+    }
+  }
+
+  // An unknown spend stops the run like a reached cap, rather than letting it past the cap
+  private readSpend(spend: Promise<number>, cap: string): Promise<number> {
+    return spend.catch((error: Error) => {
+      throw new LLMProviderError(`${cap} could not be checked: ${error.message}`, 'spend_cap', this.provider.id);
+    });
+  }
+
+  async chatCompletion(request: ChatCompletionRequest, { retry = false }: { retry?: boolean } = {}): Promise<ChatCompletionResponse> {
+    await this.checkCaps();
+
+    const model = request.model || this.provider.defaultModel;
+    const started = Date.now();
+    let response: ChatCompletionResponse | null = null;
+    let failure: unknown = null;
+    try {
+      response = await this.provider.chatCompletion(request);
+    } catch (error) {
+      failure = error;
+    }
+    const latencyMs = Date.now() - started;
+
+    // Failed calls are recorded for their latency; providers do not bill them
+    const reported = response?.usage;
+    const estimated = !failure && (reported?.prompt_tokens === undefined || reported?.completion_tokens === undefined);
+    const fallback = estimateUsage(request, response);
+    const promptTokens = failure ? 0 : reported?.prompt_tokens ?? fallback.promptTokens;
+    const completionTokens = failure ? 0 : reported?.completion_tokens ?? fallback.completionTokens;
+    const costUsd = estimateCost(modelPrice(this.provider, model), promptTokens, completionTokens);
+
+    this.totals.calls++;
+    if (retry) this.totals.retries++;
+    this.totals.promptTokens += promptTokens;
+    this.totals.completionTokens += completionTokens;
+    this.totals.costUsd += costUsd;
+    this.totals.latencyMs += latencyMs;
+
+    await this.record({
+      model,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      tokens_estimated: estimated,
+      latency_ms: latencyMs,
+      retry,
+      cost_usd: costUsd,
+      status: failure ? 'error' : 'ok',
+      error_kind: failure instanceof LLMProviderError ? failure.kind : failure ? 'request_failed' : null,
+    });
+
+    if (failure || !response) throw failure;
+    return response;
+  }
+
+  private async record(row: Record<string, unknown>): Promise<void> {
+    if (!this.client) return;
+    const { error } = await this.client.from('llm_usage').insert({
+      ...row,
+      function_name: this.options.functionName,
+      run_id: this.options.runId,
+      provider: this.provider.id,
+      user_id: this.options.userId ?? null,
+    });
+    // Usage rows are bookkeeping; a failed insert must not fail the call
+    if (error) console.error('[llm-usage] Failed to record usage:', error.message);
+  }
+}
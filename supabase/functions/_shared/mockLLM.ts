@@ -0,0 +1,203 @@
+// Deterministic stand-in for a chat completions endpoint, shared by the in-process 'mock' LLM
+// provider and the mock-llm-gateway function. Same prompt in, same answer out, no network.
+//
+// Tool calls named submit_analysis_results get one lexicon-scored result per prompt text
+// (the analyze-sentiment prompt format), with a rationale and the matched words as evidence
+// when the schema asks for them (explain mode); any other request gets a JSON array of keywords
+// built from the first quoted phrase in the prompt (the generate-keywords format).
+//
+// Failure injection (env, counted per isolate):
+//   MOCK_LLM_RATE_LIMIT_AFTER=N   answer 429 once N requests have succeeded
+//   MOCK_LLM_CREDITS_AFTER=N      answer 402 once N requests have succeeded
+//   MOCK_LLM_DROP_EVERY=N         omit every Nth result from a batch
+//   MOCK_LLM_MALFORMED_EVERY=N    truncate the tool call arguments of every Nth request
+
+export interface MockChatMessage {
+  role: string;
+  content: string;
+}
+
+// Only the KPI ids and whether explanations are requested are read from the analysis tool schema
+interface AnalysisToolParameters {
+  properties?: {
+    results?: { items?: { properties?: { kpiScores?: { properties?: Record<string, unknown> }; rationale?: unknown } } };
+  };
+}
+
+export interface MockChatRequest {
+  model?: string;
+  messages?: MockChatMessage[];
+  tools?: Array<{ function?: { name?: string; parameters?: AnalysisToolParameters } }>;
+}
+
+// HTTP-shaped outcome so callers can treat it like a gateway response
+export interface MockChatResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+interface PromptText {
+  index: number;
+  id: string;
+  text: string;
+}
+
+const POSITIVE_WORDS = ['good', 'great', 'love', 'excellent', 'helpful', 'easy', 'fair', 'trust', 'happy', 'better', 'best', 'clear'];
+const NEGATIVE_WORDS = ['bad', 'terrible', 'hate', 'awful', 'broken', 'hard', 'unfair', 'scam', 'angry', 'worse', 'worst', 'confusing'];
+const KEYWORD_FACETS = [
+  'policy', 'governance', 'measurement', 'outcomes', 'frameworks', 'ethics', 'implementation',
+  'incentives', 'equity', 'accountability', 'evaluation', 'adoption', 'sustainability', 'metrics',
+];
+
+function envCount(name: string): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+let requestCount = 0;
+
+function parseNodes(systemPrompt: string): Array<{ id: string; name: string }> {
+  const list = systemPrompt.match(/Nodes: \[(.*?)\]\./)?.[1] ?? '';
+  return Array.from(list.matchAll(/([^,\s:]+):"([^"]*)"/g), match => ({ id: match[1], name: match[2] }));
+}
+
+function parseTexts(userPrompt: string): PromptText[] {
+  const texts: PromptText[] = [];
+  for (const line of userPrompt.split('\n')) {
+    const match = line.match(/^\[(\d+)\] id=("(?:[^"\\]|\\.)*") "([\s\S]*)"$/);
+    if (match) texts.push({ index: Number(match[1]), id: JSON.parse(match[2]), text: match[3] });
+  }
+  return texts;
+}
+
+function countWords(words: string[], tokens: string[]): number {
+  return tokens.filter(token => words.includes(token)).length;
+}
+
+// The first occurrence of a word in the original text, as written
+function findWord(text: string, word: string): string | null {
+  return text.match(new RegExp(`\\b${word}\\b`, 'i'))?.[0] ?? null;
+}
+
+function scoreText(text: PromptText, nodes: Array<{ id: string; name: string }>, kpiIds: string[], explain: boolean) {
+  const tokens = text.text.toLowerCase().split(/[^a-z']+/).filter(Boolean);
+  const positive = countWords(POSITIVE_WORDS, tokens);
+  const negative = countWords(NEGATIVE_WORDS, tokens);
+  const polarityScore = positive + negative > 0 ? (positive - negative) / (positive + negative) : 0;
+
+  // Best node: most name words present in the text
+  let bestNode = { id: 'unassigned', name: '', hits: 0, words: [] as string[] };
+  nodes.forEach(node => {
+    const words = node.name.toLowerCase().split(/[^a-z']+/).filter(word => word.length > 2);
+    const hits = countWords(words, tokens);
+    if (hits > bestNode.hits) bestNode = { id: node.id, name: node.name, hits, words };
+  });
+
+  const sentimentWords = tokens.filter(token => POSITIVE_WORDS.includes(token) || NEGATIVE_WORDS.includes(token));
+  const nodeWord = bestNode.words.find(word => tokens.includes(word));
+  const evidence = [
+    ...sentimentWords.slice(0, 2).map(word => ({ quote: findWord(text.text, word), supports: 'polarity' })),
+    ...(nodeWord ? [{ quote: findWord(text.text, nodeWord), supports: 'node' }] : []),
+  ].filter(span => span.quote);
+
+  return {
+    index: text.index,
+    id: text.id,
+    bestMatchingNodeId: bestNode.id,
+    nodeConfidence: bestNode.hits > 0 ? 0.8 : 0.1,
+    polarity: polarityScore > 0.15 ? 'positive' : polarityScore < -0.15 ? 'negative' : 'neutral',
+    polarityScore,
+    confidence: positive + negative > 0 ? 0.8 : 0.5,
+    kpiScores: Object.fromEntries(kpiIds.map(id => [id, polarityScore])),
+    ...(explain && {
+      rationale: `${sentimentWords.length > 0 ? `Sentiment words: ${sentimentWords.join(', ')}.` : 'No sentiment words.'} ` +
+        (bestNode.hits > 0 ? `Mentions ${bestNode.name}.` : 'Matches no node.'),
+      evidence,
+    }),
+  };
+}
+
+// Topic words of the first quoted phrase crossed with fixed facets, e.g. "open science policy"
+function mockKeywords(prompt: string): string[] {
+  const topic = prompt.match(/"([^"]+)"/)?.[1] ?? 'research';
+  const words = topic.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2 && word !== 'and');
+  const stems = [words.join(' '), ...words].filter(Boolean);
+  return stems.flatMap(stem => KEYWORD_FACETS.map(facet => `${stem} ${facet}`)).slice(0, 30);
+}
+
+function usageFor(messages: MockChatMessage[], output: string) {
+  // Rough 4-characters-per-token estimate, stable across runs
+  const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+  const completionTokens = Math.ceil(output.length / 4);
+  return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+}
+
+export function mockChatCompletion(request: MockChatRequest): MockChatResponse {
+  const rateLimitAfter = envCount('MOCK_LLM_RATE_LIMIT_AFTER');
+  if (rateLimitAfter && requestCount >= rateLimitAfter) {
+    return { status: 429, body: { error: 'Rate limited (mock)' } };
+  }
+  const creditsAfter = envCount('MOCK_LLM_CREDITS_AFTER');
+  if (creditsAfter && requestCount >= creditsAfter) {
+    return { status: 402, body: { error: 'Credits exhausted (mock)' } };
+  }
+  requestCount++;
+
+  const messages = request.messages || [];
+  const systemPrompt = messages.find(m => m.role === 'system')?.content ?? '';
+  const userPrompt = messages.find(m => m.role === 'user')?.content ?? '';
+  const tool = request.tools?.find(t => t.function?.name === 'submit_analysis_results');
+
+  if (!tool) {
+    const content = JSON.stringify(mockKeywords(userPrompt));
+    console.log(`[mock-llm] Request ${requestCount}: keywords`);
+    return {
+      status: 200,
+      body: {
+        id: `mock-${requestCount}`,
+        model: request.model ?? 'mock',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+        usage: usageFor(messages, content),
+      },
+    };
+  }
+
+  const resultProperties = tool.function?.parameters?.properties?.results?.items?.properties;
+  const kpiIds = Object.keys(resultProperties?.kpiScores?.properties ?? {});
+  const explain = resultProperties?.rationale !== undefined;
+  const nodes = parseNodes(systemPrompt);
+  const dropEvery = envCount('MOCK_LLM_DROP_EVERY');
+  const results = parseTexts(userPrompt)
+    .filter((_, i) => !dropEvery || (i + 1) % dropEvery !== 0)
+    .map(text => scoreText(text, nodes, kpiIds, explain));
+
+  let args = JSON.stringify({ results });
+  const malformedEvery = envCount('MOCK_LLM_MALFORMED_EVERY');
+  if (malformedEvery && requestCount % malformedEvery === 0) {
+    args = args.slice(0, Math.floor(args.length * 0.8));
+  }
+
+  console.log(`[mock-llm] Request ${requestCount}: ${results.length} results`);
+
+  return {
+    status: 200,
+    body: {
+      id: `mock-${requestCount}`,
+      model: request.model ?? 'mock',
+      choices: [{
+        index: 0,
+        finish_reason: 'tool_calls',
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{
+            id: `call-${requestCount}`,
+            type: 'function',
+            function: { name: 'submit_analysis_results', arguments: args },
+          }],
+        },
+      }],
+      usage: usageFor(messages, args),
+    },
+  };
+}
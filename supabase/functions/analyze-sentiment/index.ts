@@ -1,4 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  LLMProviderError,
+  modelContextTokens,
+  modelMaxOutputTokens,
+  resolveLLMProvider,
+  resolveModel,
+} from "../_shared/llmProvider.ts";
+import { requestUserId, resolveSpendCaps, UsageMeter } from "../_shared/llmUsage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,43 +20,626 @@ interface Node {
   keywords: string[];
 }
 
+interface KPIDefinition {
+  id: string;
+  label: string;
+  polarity: 'positive' | 'inverted';
+  description?: string;
+  concepts?: string[];
+}
+
+type KPIScores = Record<string, number>;
+
+// How a result was produced; defaulted results carry placeholder values only
+type ResultStatus = 'analyzed' | 'retried' | 'recovered-from-malformed' | 'defaulted';
+
+// A text with the caller's id, echoed back on its result so it can be joined to its source
+interface TextItem {
+  id: string;
+  text: string;
+}
+
 interface SentimentResult {
+  id: string;
   text: string;
   nodeId: string;
   nodeName: string;
   polarity: 'positive' | 'neutral' | 'negative';
   polarityScore: number;
-  kpiScores: {
-    trust: number;
-    optimism: number;
-    frustration: number;
-    clarity: number;
-    access: number;
-    fairness: number;
-  };
+  kpiScores: KPIScores;
   confidence: number;
+  nodeConfidence?: number;
+  status: ResultStatus;
+  analyzer: 'server';
+  model: string;
+  textCoverage?: TextCoverage;
+  explanation?: ResultExplanation;
+  // Served from analysis_result_cache instead of a model call
+  cached?: boolean;
+}
+
+// How much of a text the model saw: long texts are chunked, and very long ones excerpted
+interface TextCoverage {
+  seenChars: number;
+  totalChars: number;
+  chunks: number;
+  chunksScored: number;
+}
+
+// A verbatim span of the text backing one part of the verdict, located by character offsets
+interface EvidenceSpan {
+  quote: string;
+  // 'polarity', 'node' or a KPI id
+  supports: string;
+  start: number;
+  end: number;
+}
+
+// Explain mode only: why the model scored a text the way it did
+interface ResultExplanation {
+  rationale: string;
+  evidence: EvidenceSpan[];
 }
 
 interface AnalysisItem {
+  // Position within the batch and the item id, echoed by the model for realignment
+  index?: number;
+  id?: string;
   polarity: 'positive' | 'neutral' | 'negative';
   polarityScore: number;
   bestMatchingNodeId: string;
   confidence: number;
-  kpiScores: {
-    trust: number;
-    optimism: number;
-    frustration: number;
-    clarity: number;
-    access: number;
-    fairness: number;
+  nodeConfidence?: number;
+  kpiScores: KPIScores;
+  // Explain mode; evidence is raw model output until locateEvidence checks it against the text
+  rationale?: string;
+  evidence?: unknown;
+}
+
+// Texts that fit none of the nodes; must match UNASSIGNED_NODE_ID on the client
+const UNASSIGNED_NODE = { id: 'unassigned', name: 'Unassigned / Off-topic' };
+
+// Used when the client does not send a KPI set (older clients)
+const DEFAULT_KPIS: KPIDefinition[] = [
+  { id: 'trust', label: 'Trust', polarity: 'positive' },
+  { id: 'optimism', label: 'Optimism', polarity: 'positive' },
+  { id: 'frustration', label: 'Frustration', polarity: 'inverted' },
+  { id: 'clarity', label: 'Clarity', polarity: 'positive' },
+  { id: 'access', label: 'Access', polarity: 'positive' },
+  { id: 'fairness', label: 'Fairness', polarity: 'positive' },
+];
+
+const KPI_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// Copy only the requested KPI ids, defaulting missing or non-numeric values to 0
+function normalizeKpiScores(raw: unknown, kpiIds: string[]): KPIScores {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const scores: KPIScores = {};
+  for (const id of kpiIds) {
+    const value = source[id];
+    scores[id] = typeof value === 'number' ? value : 0;
+  }
+  return scores;
+}
+
+// Request body: a new or resumed analysis ({items, nodes, kpis} or {jobId}), a job status
+// lookup, or dropping the cached results of a node set
+interface AnalyzeRequest {
+  action?: 'status' | 'invalidate_cache';
+  jobId?: string;
+  jobIds?: unknown;
+  items?: unknown;
+  texts?: unknown;
+  nodes?: Node[];
+  kpis?: KPIDefinition[];
+  // Model for this run; the provider default when omitted
+  model?: string;
+  // Ask for a rationale and evidence spans per text
+  explain?: boolean;
+  // false skips cache lookups (results are still written to the cache)
+  cache?: boolean;
+  // Per-run spend cap in USD; can only lower LLM_SPEND_CAP_USD_PER_RUN
+  maxCostUsd?: number;
+}
+
+// Older clients send plain strings; their ids are the positions in the request
+function toTextItems(body: { items?: unknown; texts?: unknown }): TextItem[] | null {
+  if (Array.isArray(body.items)) {
+    const valid = body.items.every(item =>
+      item && typeof item.id === 'string' && item.id.length > 0 && typeof item.text === 'string'
+    );
+    return valid ? body.items.map(item => ({ id: item.id, text: item.text })) : null;
+  }
+  if (Array.isArray(body.texts)) {
+    return body.texts.map((text, index) => ({ id: String(index), text: String(text) }));
+  }
+  return null;
+}
+
+/**
+ * Pair parsed results with the batch items they belong to: by echoed id first, then by
+ * echoed index. Each item takes at most one result; results matching nothing are dropped,
+ * and items left without a result come back undefined so the caller can mark them.
+ * Only when no result echoes either key and the counts agree do positions decide.
+ */
+function alignResults(parsed: AnalysisItem[], batchItems: TextItem[]): (AnalysisItem | undefined)[] {
+  const aligned: (AnalysisItem | undefined)[] = new Array(batchItems.length).fill(undefined);
+  const positionById = new Map(batchItems.map((item, i) => [item.id, i]));
+
+  const echoesKeys = parsed.some(r => r.id !== undefined || r.index !== undefined);
+  if (!echoesKeys) {
+    if (parsed.length === batchItems.length) parsed.forEach((r, i) => { aligned[i] = r; });
+    return aligned;
+  }
+
+  const unplaced: AnalysisItem[] = [];
+  for (const result of parsed) {
+    const position = result.id !== undefined ? positionById.get(result.id) : undefined;
+    if (position !== undefined && !aligned[position]) aligned[position] = result;
+    else unplaced.push(result);
+  }
+  for (const result of unplaced) {
+    const position = result.index;
+    if (
+      typeof position === 'number' && Number.isInteger(position) &&
+      position >= 0 && position < batchItems.length && !aligned[position] &&
+      // An id that names a different item wins over the index
+      (result.id === undefined || !positionById.has(result.id))
+    ) {
+      aligned[position] = result;
+    }
+  }
+  return aligned;
+}
+
+const MAX_RATIONALE_CHARS = 500;
+const MAX_EVIDENCE_SPANS = 6;
+
+/**
+ * Keep the evidence quotes that occur verbatim in the text (case-insensitively) and name a
+ * known target, with their offsets. Paraphrased or invented quotes are dropped.
+ */
+function locateEvidence(text: string, raw: unknown, targets: Set<string>): EvidenceSpan[] {
+  if (!Array.isArray(raw)) return [];
+  const lowerText = text.toLowerCase();
+  const spans: EvidenceSpan[] = [];
+  for (const entry of raw) {
+    const { quote, supports } = (entry && typeof entry === 'object' ? entry : {}) as { quote?: unknown; supports?: unknown };
+    if (typeof quote !== 'string' || typeof supports !== 'string' || !targets.has(supports)) continue;
+    const needle = quote.trim().replace(/^["'\u201c\u201d]+|["'\u201c\u201d]+$/g, '');
+    if (needle.length === 0) continue;
+    const start = lowerText.indexOf(needle.toLowerCase());
+    if (start < 0) continue;
+    spans.push({ quote: text.slice(start, start + needle.length), supports, start, end: start + needle.length });
+    if (spans.length >= MAX_EVIDENCE_SPANS) break;
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+function toExplanation(text: string, result: AnalysisItem, targets: Set<string>): ResultExplanation | undefined {
+  const rationale = typeof result.rationale === 'string' ? result.rationale.trim().slice(0, MAX_RATIONALE_CHARS) : '';
+  const evidence = locateEvidence(text, result.evidence, targets);
+  return rationale || evidence.length > 0 ? { rationale, evidence } : undefined;
+}
+
+// Placeholder for an item the model produced nothing usable for; excluded from aggregates by the client
+function defaultedResult(item: TextItem, kpiIds: string[], model: string): SentimentResult {
+  return {
+    id: item.id,
+    text: item.text,
+    nodeId: UNASSIGNED_NODE.id,
+    nodeName: UNASSIGNED_NODE.name,
+    polarity: 'neutral',
+    polarityScore: 0,
+    kpiScores: normalizeKpiScores(null, kpiIds),
+    confidence: 0,
+    status: 'defaulted',
+    analyzer: 'server',
+    model,
   };
 }
 
-const BATCH_SIZE = 100;
 const PARALLEL_BATCHES = 3;
 
+// Token budgeting uses the same rough 4-characters-per-token estimate as the client's chunkLongText
+const CHARS_PER_TOKEN = 4;
+const MAX_OUTPUT_TOKENS = 30000;
+// Caps a batch even on huge-context models, so batches stay quick to run and cheap to retry
+const MAX_BATCH_INPUT_TOKENS = 24000;
+// Floor for small-context models whose system prompt leaves little room
+const MIN_BATCH_INPUT_TOKENS = 200;
+const MAX_UNITS_PER_BATCH = 100;
+// Long texts are split into sentence chunks of about this size and each chunk is scored
+const CHUNK_TOKENS = 400;
+// Beyond this many chunks a text is excerpted: first, last and evenly spaced chunks between
+const MAX_CHUNKS_PER_TEXT = 8;
+// Estimated completion size of one result: fixed fields plus one score per KPI
+const RESULT_BASE_TOKENS = 60;
+const RESULT_TOKENS_PER_KPI = 6;
+// Explain mode adds a rationale and a few quoted spans to each result
+const RESULT_EXPLAIN_TOKENS = 150;
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Limits for one run, derived from the model's context window and output limit and the prompt's fixed part
+interface BatchPlan {
+  inputBudget: number;
+  outputTokens: number;
+  maxUnits: number;
+  chunkTokens: number;
+  maxChunksPerText: number;
+}
+
+function planBatches(
+  contextTokens: number,
+  maxOutputTokens: number,
+  systemPrompt: string,
+  kpiCount: number,
+  explain: boolean
+): BatchPlan {
+  const outputTokens = Math.min(MAX_OUTPUT_TOKENS, maxOutputTokens, Math.floor(contextTokens / 2));
+  const inputBudget = Math.max(
+    MIN_BATCH_INPUT_TOKENS,
+    Math.min(MAX_BATCH_INPUT_TOKENS, contextTokens - outputTokens - estimateTokens(systemPrompt))
+  );
+  const resultTokens = RESULT_BASE_TOKENS + RESULT_TOKENS_PER_KPI * kpiCount + (explain ? RESULT_EXPLAIN_TOKENS : 0);
+  const chunkTokens = Math.min(CHUNK_TOKENS, inputBudget);
+  return {
+    inputBudget,
+    outputTokens,
+    maxUnits: Math.max(1, Math.min(MAX_UNITS_PER_BATCH, Math.floor(outputTokens / resultTokens))),
+    chunkTokens,
+    maxChunksPerText: Math.max(1, Math.min(MAX_CHUNKS_PER_TEXT, Math.floor(inputBudget / chunkTokens))),
+  };
+}
+
+// Split at sentence ends, then at word boundaries for sentences longer than a chunk
+function splitIntoPieces(text: string, maxChars: number): string[] {
+  const sentences = text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g) || [text];
+  return sentences.flatMap(sentence => {
+    const trimmed = sentence.trim();
+    if (trimmed.length <= maxChars) return trimmed ? [trimmed] : [];
+    const pieces: string[] = [];
+    let current = '';
+    for (const word of trimmed.split(' ')) {
+      if (current && current.length + word.length + 1 > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      // A single word longer than a chunk is cut outright
+      for (let start = 0; start < word.length; start += maxChars) {
+        const part = word.slice(start, start + maxChars);
+        if (part.length === maxChars) pieces.push(part);
+        else current = current ? `${current} ${part}` : part;
+      }
+    }
+    if (current) pieces.push(current);
+    return pieces;
+  });
+}
+
+// Sentence chunks of up to chunkTokens each, in text order
+function chunkText(text: string, chunkTokens: number): string[] {
+  const maxChars = chunkTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return [text];
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of splitIntoPieces(text, maxChars)) {
+    if (current && current.length + piece.length + 1 > maxChars) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current} ${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks.length > 0 ? chunks : [text];
+}
+
+// Evenly spaced positions that always include the first and the last chunk
+function excerptPositions(chunkCount: number, maxChunks: number): number[] {
+  if (chunkCount <= maxChunks) return Array.from({ length: chunkCount }, (_, i) => i);
+  if (maxChunks === 1) return [0];
+  return Array.from({ length: maxChunks }, (_, i) => Math.round((i * (chunkCount - 1)) / (maxChunks - 1)));
+}
+
+// One prompt line: a whole text, or one chunk of a long text
+interface PromptUnit {
+  id: string;
+  text: string;
+}
+
+// The units a text is sent as, with what the model will see of it
+interface TextUnits {
+  units: PromptUnit[];
+  chunks: number;
+  totalChars: number;
+  tokens: number;
+}
+
+function toTextUnits(item: TextItem, plan: BatchPlan): TextUnits {
+  const text = item.text.replace(/\s+/g, ' ').trim();
+  const chunks = chunkText(text, plan.chunkTokens);
+  const units = chunks.length === 1
+    ? [{ id: item.id, text: chunks[0] }]
+    : excerptPositions(chunks.length, plan.maxChunksPerText).map(position => ({
+        id: `${item.id}#${position + 1}`,
+        text: chunks[position],
+      }));
+  return {
+    units,
+    chunks: chunks.length,
+    totalChars: text.length,
+    tokens: units.reduce((sum, unit) => sum + estimateTokens(unit.text) + 8, 0),
+  };
+}
+
+/**
+ * Start offsets of each batch. Items stay in order and whole: all units of a text go into
+ * the same batch so its chunk scores can be combined. A text larger than the budget on its
+ * own still gets a batch to itself.
+ */
+function packBatches(items: TextItem[], plan: BatchPlan): number[] {
+  const bounds: number[] = [];
+  let batchTokens = 0;
+  let batchUnits = 0;
+  items.forEach((item, index) => {
+    const { units, tokens } = toTextUnits(item, plan);
+    const fits = batchTokens + tokens <= plan.inputBudget && batchUnits + units.length <= plan.maxUnits;
+    if (bounds.length === 0 || !fits) {
+      bounds.push(index);
+      batchTokens = 0;
+      batchUnits = 0;
+    }
+    batchTokens += tokens;
+    batchUnits += units.length;
+  });
+  return bounds;
+}
+
+// Fixed-size bounds for jobs created before packing
+function legacyBatchBounds(itemCount: number, batchSize: number): number[] {
+  return Array.from({ length: Math.ceil(itemCount / batchSize) }, (_, i) => i * batchSize);
+}
+
+/**
+ * Combine chunk results into one result for their text. Chunks weigh in by length and
+ * confidence; the node and polarity are the ones with the most weight behind them.
+ */
+function combineChunkResults(parts: Array<{ result: AnalysisItem; chars: number }>, kpiIds: string[]): AnalysisItem {
+  if (parts.length === 1) return parts[0].result;
+
+  const weightOf = (part: { result: AnalysisItem; chars: number }) =>
+    part.chars * Math.max(0.05, typeof part.result.confidence === 'number' ? part.result.confidence : 0.3);
+  const totalWeight = parts.reduce((sum, part) => sum + weightOf(part), 0);
+  const weightedMean = (value: (result: AnalysisItem) => number) =>
+    parts.reduce((sum, part) => sum + value(part.result) * weightOf(part), 0) / totalWeight;
+  const heaviest = (key: (result: AnalysisItem) => string) => {
+    const totals = new Map<string, number>();
+    parts.forEach(part => totals.set(key(part.result), (totals.get(key(part.result)) ?? 0) + weightOf(part)));
+    return Array.from(totals.entries()).sort((a, b) => b[1] - a[1])[0];
+  };
+
+  const [nodeId] = heaviest(result => result.bestMatchingNodeId);
+  const nodeParts = parts.filter(part => part.result.bestMatchingNodeId === nodeId);
+  // Diluted by the share of the text that was about another node
+  const nodeConfidence = nodeParts.reduce(
+    (sum, part) => sum + (typeof part.result.nodeConfidence === 'number' ? part.result.nodeConfidence : 0.5) * weightOf(part),
+    0
+  ) / totalWeight;
+  const kpiScores = Object.fromEntries(kpiIds.map(id => [
+    id,
+    weightedMean(result => normalizeKpiScores(result.kpiScores, kpiIds)[id]),
+  ]));
+
+  // Explain mode: the rationale of the chunk carrying the most weight for the chosen node, evidence from every chunk
+  const leadPart = nodeParts.reduce((best, part) => (weightOf(part) > weightOf(best) ? part : best));
+  const evidence = parts.flatMap(part => (Array.isArray(part.result.evidence) ? part.result.evidence : []));
+
+  return {
+    polarity: heaviest(result => result.polarity || 'neutral')[0] as AnalysisItem['polarity'],
+    polarityScore: weightedMean(result => (typeof result.polarityScore === 'number' ? result.polarityScore : 0)),
+    bestMatchingNodeId: nodeId,
+    confidence: weightedMean(result => (typeof result.confidence === 'number' ? result.confidence : 0.3)),
+    nodeConfidence,
+    kpiScores,
+    ...(leadPart.result.rationale !== undefined && { rationale: leadPart.result.rationale }),
+    ...(evidence.length > 0 && { evidence }),
+  };
+}
+
+type JobStatus = 'running' | 'paused' | 'completed';
+type BatchStatus = 'completed' | 'failed';
+
+// Row of public.analysis_jobs
+interface AnalysisJob {
+  id: string;
+  user_id: string | null;
+  status: JobStatus;
+  stop_reason: string | null;
+  input_hash: string;
+  // Texts the run sends to the model; cache hits are kept apart in cached_results
+  items: TextItem[];
+  nodes: Node[];
+  kpis: KPIDefinition[];
+  model: string | null;
+  explain: boolean;
+  total_texts: number;
+  // Fixed batch size of jobs created before token-budget batching
+  batch_size: number | null;
+  // Start offset of each batch in items
+  batch_bounds: number[] | null;
+  total_batches: number;
+  batch_status: Record<string, BatchStatus>;
+  results: Record<string, SentimentResult[]>;
+  // Results served from the cache when the job was created
+  cached_results: SentimentResult[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A running job not updated for this long is assumed dead (e.g. the invocation timed out) and taken over
+const STALE_JOB_MS = 2 * 60 * 1000;
+// How often a reconnecting client's stream checks a job another invocation is running
+const FOLLOW_POLL_MS = 3000;
+// Leave headroom below the function timeout when following a job
+const FOLLOW_BUDGET_MS = 240 * 1000;
+
+// Text hashes per cache query, to keep the request URL short
+const CACHE_LOOKUP_CHUNK = 200;
+
+const JOB_SUMMARY_COLUMNS = 'id, status, stop_reason, model, total_texts, total_batches, batch_status, created_at, updated_at';
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Bump when the prompt or the result shape changes in a way that makes cached results stale
+const PROMPT_VERSION = 'v1';
+
+// One cache row is one text scored against one node set, model and prompt
+interface CacheKey {
+  nodeFingerprint: string;
+  model: string;
+  promptVersion: string;
+}
+
+// What the cache keeps of a result; id and text come from the request that hits it
+type CachedPayload = Omit<SentimentResult, 'id' | 'text' | 'analyzer' | 'model' | 'cached'>;
+
+// Whitespace and Unicode form do not change a score, so they do not split cache entries
+function cacheTextHash(text: string): Promise<string> {
+  return sha256Hex(text.normalize('NFC').replace(/\s+/g, ' ').trim());
+}
+
+// Node ids, names and keywords; any edit to the node set makes its old entries unreachable
+function nodeFingerprint(nodes: Node[]): Promise<string> {
+  const canonical = [...nodes]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(node => [node.id, node.name, [...(node.keywords ?? [])].sort()]);
+  return sha256Hex(JSON.stringify(canonical));
+}
+
+// The prompt version plus everything else the prompt is built from: KPI definitions and explain mode
+async function promptVersion(kpis: KPIDefinition[], explain: boolean): Promise<string> {
+  const kpiHash = await sha256Hex(JSON.stringify(
+    kpis.map(kpi => [kpi.id, kpi.label, kpi.polarity, kpi.description ?? '', kpi.concepts ?? []])
+  ));
+  return `${PROMPT_VERSION}:${kpiHash.slice(0, 16)}${explain ? ':explain' : ''}`;
+}
+
+// A job is reused only for the same texts under the same cache key, so edits to node keywords or
+// KPI concepts and descriptions start a new job instead of resuming one built from the old prompt
+function hashInput(items: TextItem[], key: CacheKey): Promise<string> {
+  return sha256Hex(JSON.stringify({
+    model: key.model,
+    nodes: key.nodeFingerprint,
+    prompt: key.promptVersion,
+    items: items.map(item => [item.id, item.text]),
+  }));
+}
+
+/**
+ * Split items into cached results and the texts still to analyze. Lookup failures count
+ * as misses; the run never fails because of the cache.
+ */
+async function lookupCache(
+  client: SupabaseClient,
+  items: TextItem[],
+  key: CacheKey,
+  model: string,
+  evidenceTargets: Set<string>
+): Promise<{ hits: SentimentResult[]; misses: TextItem[] }> {
+  const hashes = await Promise.all(items.map(item => cacheTextHash(item.text)));
+  const payloads = new Map<string, CachedPayload>();
+  for (let start = 0; start < hashes.length; start += CACHE_LOOKUP_CHUNK) {
+    const { data, error } = await client
+      .from('analysis_result_cache')
+      .select('text_hash, result')
+      .eq('node_fingerprint', key.nodeFingerprint)
+      .eq('model', key.model)
+      .eq('prompt_version', key.promptVersion)
+      .in('text_hash', Array.from(new Set(hashes.slice(start, start + CACHE_LOOKUP_CHUNK))));
+    if (error) {
+      console.error('[analyze-sentiment] Cache lookup failed, analyzing without it:', error.message);
+      return { hits: [], misses: items };
+    }
+    (data || []).forEach(row => payloads.set(row.text_hash, row.result as CachedPayload));
+  }
+
+  const hits: SentimentResult[] = [];
+  const misses: TextItem[] = [];
+  items.forEach((item, i) => {
+    const payload = payloads.get(hashes[i]);
+    if (!payload) {
+      misses.push(item);
+      return;
+    }
+    // Evidence offsets are re-located, since the cached text may differ in whitespace
+    const evidence = payload.explanation ? locateEvidence(item.text, payload.explanation.evidence, evidenceTargets) : [];
+    hits.push({
+      ...payload,
+      id: item.id,
+      text: item.text,
+      analyzer: 'server',
+      model,
+      cached: true,
+      ...(payload.explanation && { explanation: { ...payload.explanation, evidence } }),
+    });
+  });
+
+  if (hits.length > 0) {
+    const hitHashes = Array.from(new Set(items.flatMap((item, i) => (payloads.has(hashes[i]) ? [hashes[i]] : []))));
+    const { error } = await client
+      .from('analysis_result_cache')
+      .update({ last_hit_at: new Date().toISOString() })
+      .eq('node_fingerprint', key.nodeFingerprint)
+      .eq('model', key.model)
+      .eq('prompt_version', key.promptVersion)
+      .in('text_hash', hitHashes);
+    if (error) console.error('[analyze-sentiment] Failed to touch cache entries:', error.message);
+  }
+  return { hits, misses };
+}
+
+// Store a batch's scored results; defaulted placeholders are never cached
+async function writeCache(client: SupabaseClient, results: SentimentResult[], key: CacheKey): Promise<void> {
+  const scored = results.filter(result => result.status !== 'defaulted' && !result.cached);
+  if (scored.length === 0) return;
+  const rows = await Promise.all(scored.map(async ({ id: _id, text, analyzer: _analyzer, model: _model, cached: _cached, ...payload }) => ({
+    text_hash: await cacheTextHash(text),
+    node_fingerprint: key.nodeFingerprint,
+    model: key.model,
+    prompt_version: key.promptVersion,
+    result: payload,
+  })));
+  const { error } = await client
+    .from('analysis_result_cache')
+    .upsert(rows, { onConflict: 'text_hash,node_fingerprint,model,prompt_version' });
+  if (error) console.error('[analyze-sentiment] Failed to write cache:', error.message);
+}
+
+function isJobActive(job: AnalysisJob): boolean {
+  return job.status === 'running' && Date.now() - new Date(job.updated_at).getTime() < STALE_JOB_MS;
+}
+
+function completedBatchCount(job: Pick<AnalysisJob, 'batch_status'>): number {
+  return Object.values(job.batch_status).filter(status => status === 'completed').length;
+}
+
+// Service-role client; jobs are optional, so analysis still runs when it is not configured
+function createJobClient(): SupabaseClient | null {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return supabaseUrl && serviceKey ? createClient(supabaseUrl, serviceKey) : null;
+}
+
 // Aggressive JSON object extraction - finds all valid objects even in malformed JSON
-function extractJsonObjects(text: string): AnalysisItem[] {
+function extractJsonObjects(text: string, kpiIds: string[]): AnalysisItem[] {
   const results: AnalysisItem[] = [];
   
   // Pattern to match individual result objects
@@ -61,18 +653,14 @@ function extractJsonObjects(text: string): AnalysisItem[] {
         const obj = JSON.parse(match);
         if (obj.polarity && obj.bestMatchingNodeId) {
           results.push({
+            index: typeof obj.index === 'number' ? obj.index : undefined,
+            id: typeof obj.id === 'string' ? obj.id : undefined,
             polarity: obj.polarity,
             polarityScore: typeof obj.polarityScore === 'number' ? obj.polarityScore : 0,
             bestMatchingNodeId: obj.bestMatchingNodeId,
             confidence: typeof obj.confidence === 'number' ? obj.confidence : 0.5,
-            kpiScores: {
-              trust: obj.kpiScores?.trust ?? 0,
-              optimism: obj.kpiScores?.optimism ?? 0,
-              frustration: obj.kpiScores?.frustration ?? 0,
-              clarity: obj.kpiScores?.clarity ?? 0,
-              access: obj.kpiScores?.access ?? 0,
-              fairness: obj.kpiScores?.fairness ?? 0,
-            }
+            nodeConfidence: typeof obj.nodeConfidence === 'number' ? obj.nodeConfidence : undefined,
+            kpiScores: normalizeKpiScores(obj.kpiScores, kpiIds)
           });
         }
       } catch {
@@ -93,18 +681,14 @@ function extractJsonObjects(text: string): AnalysisItem[] {
           const obj = JSON.parse(cleanLine);
           if (obj.polarity && obj.bestMatchingNodeId) {
             results.push({
+              index: typeof obj.index === 'number' ? obj.index : undefined,
+              id: typeof obj.id === 'string' ? obj.id : undefined,
               polarity: obj.polarity,
               polarityScore: typeof obj.polarityScore === 'number' ? obj.polarityScore : 0,
               bestMatchingNodeId: obj.bestMatchingNodeId,
               confidence: typeof obj.confidence === 'number' ? obj.confidence : 0.5,
-              kpiScores: {
-                trust: obj.kpiScores?.trust ?? 0,
-                optimism: obj.kpiScores?.optimism ?? 0,
-                frustration: obj.kpiScores?.frustration ?? 0,
-                clarity: obj.kpiScores?.clarity ?? 0,
-                access: obj.kpiScores?.access ?? 0,
-                fairness: obj.kpiScores?.fairness ?? 0,
-              }
+              nodeConfidence: typeof obj.nodeConfidence === 'number' ? obj.nodeConfidence : undefined,
+              kpiScores: normalizeKpiScores(obj.kpiScores, kpiIds)
             });
           }
         } catch {
@@ -133,13 +717,9 @@ serve(async (req) => {
       });
     }
 
-    let texts: string[];
-    let nodes: Node[];
-    
+    let body: AnalyzeRequest;
     try {
-      const body = JSON.parse(requestText);
-      texts = body.texts;
-      nodes = body.nodes;
+      body = JSON.parse(requestText);
     } catch (parseErr) {
       console.error('[analyze-sentiment] Failed to parse request body:', parseErr);
       return new Response(JSON.stringify({ error: 'Invalid JSON in request body' }), {
@@ -147,14 +727,124 @@ serve(async (req) => {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
+
+    const jobClient = createJobClient();
+    // Jobs and usage belong to the signed-in caller; anonymous runs have no owner
+    const callerId = await requestUserId(jobClient, req);
+
+    // Job history: summaries of the given jobs, without inputs or results
+    if (body.action === 'status') {
+      const jobIds = Array.isArray(body.jobIds) ? body.jobIds.filter((id: unknown) => typeof id === 'string') : [];
+      if (!jobClient || jobIds.length === 0) {
+        return new Response(JSON.stringify({ jobs: [] }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      // Only the caller's own jobs and anonymous ones are reported
+      const { data, error } = await jobClient
+        .from('analysis_jobs')
+        .select(JOB_SUMMARY_COLUMNS)
+        .in('id', jobIds)
+        .or(callerId ? `user_id.is.null,user_id.eq.${callerId}` : 'user_id.is.null');
+      if (error) throw new Error(`Failed to load jobs: ${error.message}`);
+      const jobs = (data || []).map(job => ({
+        ...job,
+        completed_batches: completedBatchCount(job),
+        batch_status: undefined,
+        active: isJobActive(job as AnalysisJob),
+      }));
+      return new Response(JSON.stringify({ jobs }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Drop every cached result scored against this node set, e.g. after its nodes were re-scoped
+    if (body.action === 'invalidate_cache') {
+      if (!Array.isArray(body.nodes) || body.nodes.length === 0) {
+        return new Response(JSON.stringify({ error: 'No nodes provided' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (!jobClient) {
+        return new Response(JSON.stringify({ deleted: 0 }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      const { count, error } = await jobClient
+        .from('analysis_result_cache')
+        .delete({ count: 'exact' })
+        .eq('node_fingerprint', await nodeFingerprint(body.nodes));
+      if (error) throw new Error(`Failed to invalidate cache: ${error.message}`);
+      console.log(`[analyze-sentiment] Invalidated ${count ?? 0} cached results`);
+      return new Response(JSON.stringify({ deleted: count ?? 0 }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    let job: AnalysisJob | null = null;
+    let createdHere = false;
+    let requestItems: TextItem[] | null;
+    let requestNodes: Node[];
+    let requestKpis: KPIDefinition[];
+    let requestModel: string | null;
+    let explain: boolean;
+
+    const provider = resolveLLMProvider('ANALYZE_SENTIMENT', 'lovable');
+
+    if (typeof body.jobId === 'string') {
+      // Resume or reconnect: the job carries its own inputs
+      if (!jobClient) throw new Error('Analysis jobs are not configured');
+      const { data, error } = await jobClient.from('analysis_jobs').select('*').eq('id', body.jobId).maybeSingle();
+      if (error) throw new Error(`Failed to load job: ${error.message}`);
+      // Another user's job is reported as missing rather than streamed back; anonymous jobs stay open
+      if (!data || (data.user_id !== null && data.user_id !== callerId)) {
+        return new Response(JSON.stringify({ error: 'Job not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      job = data as AnalysisJob;
+      requestItems = job.items;
+      requestNodes = job.nodes;
+      requestKpis = job.kpis;
+      // Jobs from before model selection ran on the provider default
+      requestModel = job.model ?? provider.defaultModel;
+      explain = job.explain === true;
+    } else {
+      requestItems = toTextItems(body);
+      requestNodes = body.nodes ?? [];
+      requestKpis = Array.isArray(body.kpis) && body.kpis.length > 0 ? body.kpis : DEFAULT_KPIS;
+      requestModel = resolveModel(provider, body.model);
+      explain = body.explain === true;
+    }
+
+    if (!requestModel) {
+      return new Response(JSON.stringify({ error: `Model not allowed: ${body.model}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
     
-    if (!texts || !Array.isArray(texts) || texts.length === 0) {
+    // A job whose texts were all cache hits has nothing left to send, which is fine
+    if (!requestItems || (requestItems.length === 0 && !job)) {
       return new Response(JSON.stringify({ error: 'No texts provided' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
+    const items: TextItem[] = requestItems;
+    const nodes: Node[] = requestNodes;
+    const kpis: KPIDefinition[] = requestKpis;
+    const model: string = requestModel;
+    if (new Set(items.map(item => item.id)).size !== items.length) {
+      return new Response(JSON.stringify({ error: 'Item ids must be unique' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     if (!nodes || !Array.isArray(nodes) || nodes.length === 0) {
       return new Response(JSON.stringify({ error: 'No nodes provided' }), {
         status: 400,
@@ -162,32 +852,135 @@ serve(async (req) => {
       });
     }
 
-    console.log(`[analyze-sentiment] Starting: ${texts.length} texts, ${nodes.length} nodes, batch ${BATCH_SIZE}, parallelism ${PARALLEL_BATCHES}`);
-
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    const invalidKpi = kpis.find(k => !k || typeof k.id !== 'string' || !KPI_ID_PATTERN.test(k.id) || typeof k.label !== 'string');
+    if (invalidKpi) {
+      return new Response(JSON.stringify({ error: `Invalid KPI definition: ${invalidKpi?.id ?? '(missing id)'}` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
+    const kpiIds = kpis.map(k => k.id);
+    const evidenceTargets = new Set(['polarity', 'node', ...kpiIds]);
+
     const nodesList = nodes.map(n => `${n.id}:"${n.name}"`).join(', ');
+    const kpiGuide = kpis.map(k => {
+      const direction = k.polarity === 'inverted'
+        ? 'higher when the text expresses more of it (it usually rises with negative sentiment)'
+        : 'higher when the text expresses it positively';
+      const about = k.description || (k.concepts && k.concepts.length > 0 ? `related to ${k.concepts.join(', ')}` : k.label);
+      return `  - ${k.id} (${k.label}): ${about}; ${direction}`;
+    }).join('\n');
     const systemPrompt = `You are a sentiment analyzer. Nodes: [${nodesList}].
-For each text in order, return EXACTLY one result object with:
-- bestMatchingNodeId: pick from nodes above
+For each text, return EXACTLY one result object with:
+- index: the number shown in brackets before the text
+- id: the id shown after the index
+- bestMatchingNodeId: pick from nodes above, or "${UNASSIGNED_NODE.id}" if the text is about none of them
+- nodeConfidence: 0 to 1, how clearly the text is about that node
 - polarity: "positive", "neutral", or "negative"  
 - polarityScore: -1 to +1
 - confidence: 0 to 1
-- kpiScores: {trust, optimism, frustration, clarity, access, fairness} each -1 to +1
+- kpiScores: {${kpiIds.join(', ')}} each -1 to +1
+${kpiGuide}
+${explain ? `- rationale: one or two sentences on why the text got this polarity, node and KPI scores
+- evidence: the short phrases copied verbatim from the text that support the verdict, each as {quote, supports}
+  where supports is "polarity", "node", or the id of a KPI scored beyond +/-0.2
+` : ''}
+Ids ending in #n are excerpts (chunk n) of one longer text; score each excerpt on its own.
 
-IMPORTANT: Return EXACTLY ${BATCH_SIZE} results for ${BATCH_SIZE} texts, in order.`;
+IMPORTANT: Return exactly one result per text and copy its index and id unchanged.`;
 
-    const totalBatches = Math.ceil(texts.length / BATCH_SIZE);
+    const plan = planBatches(
+      modelContextTokens(provider, model), modelMaxOutputTokens(provider, model), systemPrompt, kpiIds.length, explain
+    );
+    const cacheKey: CacheKey = {
+      nodeFingerprint: await nodeFingerprint(nodes),
+      model,
+      promptVersion: await promptVersion(kpis, explain),
+    };
+    // A new run sends only cache misses to the model
+    let cacheHits: SentimentResult[] = [];
+    let uncachedItems: TextItem[] = items;
+
+    // Identical inputs from the same caller pick up their latest unfinished job instead of starting over
+    if (!job && jobClient) {
+      const inputHash = await hashInput(items, cacheKey);
+      const unfinished = jobClient
+        .from('analysis_jobs')
+        .select('*')
+        .eq('input_hash', inputHash)
+        .neq('status', 'completed');
+      const { data: existing } = await (callerId ? unfinished.eq('user_id', callerId) : unfinished.is('user_id', null))
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (existing) {
+        job = existing as AnalysisJob;
+      } else {
+        if (body.cache !== false) {
+          ({ hits: cacheHits, misses: uncachedItems } = await lookupCache(jobClient, items, cacheKey, model, evidenceTargets));
+          console.log(`[analyze-sentiment] Cache: ${cacheHits.length} hits, ${uncachedItems.length} misses`);
+        }
+
+        const newBounds = packBatches(uncachedItems, plan);
+        const { data: created, error } = await jobClient
+          .from('analysis_jobs')
+          .insert({
+            user_id: callerId,
+            input_hash: inputHash,
+            items: uncachedItems,
+            cached_results: cacheHits,
+            nodes,
+            kpis,
+            model,
+            explain,
+            total_texts: items.length,
+            batch_size: null,
+            batch_bounds: newBounds,
+            total_batches: newBounds.length,
+          })
+          .select('*')
+          .single();
+        if (error) {
+          console.error('[analyze-sentiment] Failed to create job, continuing without persistence:', error.message);
+        } else {
+          job = created as AnalysisJob;
+          createdHere = true;
+        }
+      }
+    }
+
+    // A job holds only the texts it sends to the model; its cache hits were stored apart
+    const llmItems: TextItem[] = job ? job.items : uncachedItems;
+    const cachedResults: SentimentResult[] = job ? job.cached_results ?? [] : cacheHits;
+    const totalTexts = llmItems.length + cachedResults.length;
+
+    // Runs without a job are still recorded, under an id of their own; a resumed job's earlier
+    // spend counts toward its per-run cap
+    const usage = new UsageMeter(jobClient, provider, {
+      functionName: 'analyze-sentiment',
+      runId: job?.id ?? crypto.randomUUID(),
+      userId: job?.user_id ?? callerId,
+      caps: resolveSpendCaps(body.maxCostUsd),
+      resumed: job !== null && !createdHere,
+    });
+
+    // Another invocation is still working on this job: stream its progress instead of competing
+    const followOnly = job !== null && !createdHere && isJobActive(job);
+    // A job keeps the batches it was planned with, so its batch indices stay valid across resumes
+    const batchBounds = job?.batch_bounds
+      ?? (job?.batch_size ? legacyBatchBounds(llmItems.length, job.batch_size) : packBatches(llmItems, plan));
+    const totalBatches = batchBounds.length;
+
+    console.log(`[analyze-sentiment] Starting: ${llmItems.length} texts (${cachedResults.length} cached), ${nodes.length} nodes, ${kpiIds.length} KPIs, ${totalBatches} batches (${plan.inputBudget} input tokens each), parallelism ${PARALLEL_BATCHES}, model ${provider.id}/${model}, job ${job?.id ?? 'none'}${followOnly ? ' (following)' : ''}`);
 
     const analysisTools = [
       {
         type: "function",
         function: {
           name: "submit_analysis_results",
-          description: "Submit the sentiment analysis results for all texts in order",
+          description: "Submit one sentiment analysis result per text, each echoing its index and id",
           parameters: {
             type: "object",
             properties: {
@@ -196,24 +989,37 @@ IMPORTANT: Return EXACTLY ${BATCH_SIZE} results for ${BATCH_SIZE} texts, in orde
                 items: {
                   type: "object",
                   properties: {
+                    index: { type: "integer" },
+                    id: { type: "string" },
                     polarity: { type: "string", enum: ["positive", "neutral", "negative"] },
                     polarityScore: { type: "number" },
                     bestMatchingNodeId: { type: "string" },
                     confidence: { type: "number" },
+                    nodeConfidence: { type: "number" },
                     kpiScores: {
                       type: "object",
-                      properties: {
-                        trust: { type: "number" },
-                        optimism: { type: "number" },
-                        frustration: { type: "number" },
-                        clarity: { type: "number" },
-                        access: { type: "number" },
-                        fairness: { type: "number" }
-                      },
-                      required: ["trust", "optimism", "frustration", "clarity", "access", "fairness"]
-                    }
+                      properties: Object.fromEntries(kpiIds.map(id => [id, { type: "number" }])),
+                      required: kpiIds
+                    },
+                    ...(explain && {
+                      rationale: { type: "string" },
+                      evidence: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            quote: { type: "string" },
+                            supports: { type: "string", enum: Array.from(evidenceTargets) }
+                          },
+                          required: ["quote", "supports"]
+                        }
+                      }
+                    })
                   },
-                  required: ["polarity", "polarityScore", "bestMatchingNodeId", "confidence", "kpiScores"]
+                  required: [
+                    "index", "id", "polarity", "polarityScore", "bestMatchingNodeId", "confidence", "kpiScores",
+                    ...(explain ? ["rationale", "evidence"] : [])
+                  ]
                 }
               }
             },
@@ -234,50 +1040,48 @@ IMPORTANT: Return EXACTLY ${BATCH_SIZE} results for ${BATCH_SIZE} texts, in orde
 
         sendEvent('progress', { 
           type: 'start', 
-          totalTexts: texts.length, 
-          totalBatches 
+          totalTexts,
+          totalBatches,
+          cachedTexts: cachedResults.length,
+          model,
+          jobId: job?.id ?? null,
+          resumedBatches: job ? completedBatchCount(job) : 0,
+          following: followOnly
         });
 
-        const allResults: SentimentResult[] = [];
-
         // Process a single batch with aggressive parsing
-        async function processBatch(batchIndex: number, batchTexts: string[], isRetry: boolean = false): Promise<SentimentResult[]> {
+        async function processBatch(batchIndex: number, batchItems: TextItem[], isRetry: boolean = false): Promise<SentimentResult[]> {
           const retryLabel = isRetry ? ' (retry)' : '';
-          console.log(`[analyze-sentiment] Batch ${batchIndex + 1}/${totalBatches}${retryLabel} (${batchTexts.length} texts)`);
+          console.log(`[analyze-sentiment] Batch ${batchIndex + 1}/${totalBatches}${retryLabel} (${batchItems.length} texts)`);
           
-          const textsForPrompt = batchTexts.map((t, i) => `[${i}] "${t.slice(0, 200)}"`).join('\n');
-          const userPrompt = `Analyze these ${batchTexts.length} texts. Return exactly ${batchTexts.length} results in order:\n${textsForPrompt}`;
-
-          const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${LOVABLE_API_KEY}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              model: "google/gemini-2.5-flash",
-              messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-              ],
-              tools: analysisTools,
-              tool_choice: { type: "function", function: { name: "submit_analysis_results" } },
-              max_tokens: 30000,
-            }),
+          const textUnits = batchItems.map(item => toTextUnits(item, plan));
+          const units = textUnits.flatMap(entry => entry.units);
+          // Chunk ids are the item id plus "#n" and could clash with another item's id
+          const unitIds = new Set<string>();
+          units.forEach(unit => {
+            while (unitIds.has(unit.id)) unit.id += '#';
+            unitIds.add(unit.id);
           });
 
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error(`[analyze-sentiment] Batch ${batchIndex + 1} error: ${response.status} - ${errorText.slice(0, 200)}`);
-            
-            if (response.status === 429) throw new Error('rate_limit');
-            if (response.status === 402) throw new Error('credits_exhausted');
-            throw new Error(`AI request failed: ${response.status}`);
-          }
+          // One line per text or chunk, so the index/id prefix is unambiguous
+          const textsForPrompt = units.map((unit, i) => `[${i}] id=${JSON.stringify(unit.id)} "${unit.text}"`).join('\n');
+          const userPrompt = `Analyze these ${units.length} texts. Return exactly ${units.length} results, one per index:\n${textsForPrompt}`;
 
-          const data = await response.json();
+          // Rate limit, credit and spend cap errors surface as LLMProviderError and stop the run
+          const data = await usage.chatCompletion({
+            model,
+            messages: [
+              { role: "system", content: systemPrompt },
+              { role: "user", content: userPrompt }
+            ],
+            tools: analysisTools,
+            tool_choice: { type: "function", function: { name: "submit_analysis_results" } },
+            max_tokens: plan.outputTokens,
+          }, { retry: isRetry });
           
           let parsed: AnalysisItem[] = [];
+          // Set when results had to be salvaged from something other than a well-formed tool call
+          let recovered = false;
           const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
           
           // Try 1: Parse from tool call arguments
@@ -285,12 +1089,13 @@ IMPORTANT: Return EXACTLY ${BATCH_SIZE} results for ${BATCH_SIZE} texts, in orde
             try {
               const args = JSON.parse(toolCall.function.arguments);
               parsed = args.results || [];
-              console.log(`[analyze-sentiment] Batch ${batchIndex + 1} tool call: ${parsed.length}/${batchTexts.length} results`);
+              console.log(`[analyze-sentiment] Batch ${batchIndex + 1} tool call: ${parsed.length}/${batchItems.length} results`);
             } catch (toolParseError) {
               console.error(`[analyze-sentiment] Tool parse error batch ${batchIndex + 1}:`, toolParseError);
               // Try aggressive extraction from malformed tool call
               const rawArgs = toolCall.function.arguments || '';
-              parsed = extractJsonObjects(rawArgs);
+              parsed = extractJsonObjects(rawArgs, kpiIds);
+              recovered = true;
               if (parsed.length > 0) {
                 console.log(`[analyze-sentiment] Recovered ${parsed.length} from malformed tool call`);
               }
@@ -301,6 +1106,7 @@ IMPORTANT: Return EXACTLY ${BATCH_SIZE} results for ${BATCH_SIZE} texts, in orde
           if (parsed.length === 0) {
             const content = data.choices?.[0]?.message?.content || '';
             if (content) {
+              recovered = true;
               console.log(`[analyze-sentiment] Batch ${batchIndex + 1} trying content fallback (${content.length} chars)`);
               try {
                 let jsonStr = content.trim();
@@ -315,7 +1121,7 @@ IMPORTANT: Return EXACTLY ${BATCH_SIZE} results for ${BATCH_SIZE} texts, in orde
                 }
               } catch {
                 // Try aggressive extraction
-                parsed = extractJsonObjects(content);
+                parsed = extractJsonObjects(content, kpiIds);
                 if (parsed.length > 0) {
                   console.log(`[analyze-sentiment] Aggressive extraction from content: ${parsed.length} results`);
                 }
@@ -326,44 +1132,73 @@ IMPORTANT: Return EXACTLY ${BATCH_SIZE} results for ${BATCH_SIZE} texts, in orde
           // Try 3: If still empty, extract from raw response
           if (parsed.length === 0) {
             const rawResponse = JSON.stringify(data);
-            parsed = extractJsonObjects(rawResponse);
+            parsed = extractJsonObjects(rawResponse, kpiIds);
+            recovered = true;
             if (parsed.length > 0) {
               console.log(`[analyze-sentiment] Last resort extraction: ${parsed.length} results`);
             }
           }
 
           // Log parsing success rate
-          const parseRate = Math.round((parsed.length / batchTexts.length) * 100);
-          console.log(`[analyze-sentiment] Batch ${batchIndex + 1}: ${parsed.length}/${batchTexts.length} parsed (${parseRate}%)`);
+          const parseRate = Math.round((parsed.length / units.length) * 100);
+          console.log(`[analyze-sentiment] Batch ${batchIndex + 1}: ${parsed.length}/${units.length} parsed (${parseRate}%)`);
 
-          // Map results, using defaults for missing items
-          const batchResults: SentimentResult[] = [];
-          for (let i = 0; i < batchTexts.length; i++) {
-            const result = parsed[i] || {
-              polarity: 'neutral' as const,
-              polarityScore: 0,
-              bestMatchingNodeId: nodes[0].id,
-              confidence: 0.3,
-              kpiScores: { trust: 0, optimism: 0, frustration: 0, clarity: 0, access: 0, fairness: 0 }
+          // Realign by id/index, using defaults for items the model skipped
+          const alignedUnits = alignResults(parsed, units);
+          const unmatchedCount = alignedUnits.filter(r => !r).length;
+          if (unmatchedCount > 0) {
+            console.warn(`[analyze-sentiment] Batch ${batchIndex + 1}: ${unmatchedCount} texts or chunks without a matching result`);
+          }
+
+          // Fold chunk results back into one result per item
+          let unitOffset = 0;
+          const aligned = textUnits.map(entry => {
+            const parts = entry.units
+              .map((unit, k) => ({ result: alignedUnits[unitOffset + k], chars: unit.text.length }))
+              .filter((part): part is { result: AnalysisItem; chars: number } => part.result !== undefined);
+            unitOffset += entry.units.length;
+            const textCoverage: TextCoverage = {
+              // Chunks drop the spaces they were split at, so a fully scored text counts as whole
+              seenChars: parts.length === entry.chunks
+                ? entry.totalChars
+                : parts.reduce((sum, part) => sum + part.chars, 0),
+              totalChars: entry.totalChars,
+              chunks: entry.chunks,
+              chunksScored: parts.length,
             };
+            return parts.length > 0 ? { result: combineChunkResults(parts, kpiIds), textCoverage } : undefined;
+          });
 
-            const matchedNode = nodes.find(n => n.id === result.bestMatchingNodeId) || nodes[0];
+          const status: ResultStatus = recovered ? 'recovered-from-malformed' : isRetry ? 'retried' : 'analyzed';
+          const batchResults: SentimentResult[] = [];
+          for (let i = 0; i < batchItems.length; i++) {
+            if (!aligned[i]) {
+              batchResults.push(defaultedResult(batchItems[i], kpiIds, model));
+              continue;
+            }
+            const { result, textCoverage } = aligned[i]!;
+
+            // An unknown node id is not evidence for any particular node
+            const matchedNode = nodes.find(n => n.id === result.bestMatchingNodeId) || UNASSIGNED_NODE;
+            const explanation = explain ? toExplanation(batchItems[i].text, result, evidenceTargets) : undefined;
 
             batchResults.push({
-              text: batchTexts[i],
+              id: batchItems[i].id,
+              text: batchItems[i].text,
               nodeId: matchedNode.id,
               nodeName: matchedNode.name,
               polarity: result.polarity || 'neutral',
               polarityScore: typeof result.polarityScore === 'number' ? result.polarityScore : 0,
-              kpiScores: {
-                trust: result.kpiScores?.trust ?? 0,
-                optimism: result.kpiScores?.optimism ?? 0,
-                frustration: result.kpiScores?.frustration ?? 0,
-                clarity: result.kpiScores?.clarity ?? 0,
-                access: result.kpiScores?.access ?? 0,
-                fairness: result.kpiScores?.fairness ?? 0,
-              },
+              kpiScores: normalizeKpiScores(result.kpiScores, kpiIds),
               confidence: typeof result.confidence === 'number' ? Math.min(0.95, result.confidence) : 0.3,
+              ...(typeof result.nodeConfidence === 'number' && {
+                nodeConfidence: Math.max(0, Math.min(1, result.nodeConfidence)),
+              }),
+              status,
+              analyzer: 'server',
+              model,
+              textCoverage,
+              ...(explanation && { explanation }),
             });
           }
 
@@ -371,19 +1206,19 @@ IMPORTANT: Return EXACTLY ${BATCH_SIZE} results for ${BATCH_SIZE} texts, in orde
         }
 
         // Wrapper with retry for empty/low results
-        async function processBatchWithRetry(batchIndex: number, batchTexts: string[]): Promise<SentimentResult[]> {
+        async function processBatchWithRetry(batchIndex: number, batchItems: TextItem[]): Promise<SentimentResult[]> {
           try {
-            const results = await processBatch(batchIndex, batchTexts, false);
+            const results = await processBatch(batchIndex, batchItems, false);
             
             // Count how many results have actual analysis (not just defaults)
-            const analyzedCount = results.filter(r => r.confidence > 0.3).length;
-            const successRate = analyzedCount / batchTexts.length;
+            const analyzedCount = results.filter(r => r.status !== 'defaulted').length;
+            const successRate = analyzedCount / batchItems.length;
             
             // If less than 50% were actually analyzed, retry once
-            if (successRate < 0.5 && batchTexts.length > 0) {
+            if (successRate < 0.5 && batchItems.length > 0) {
               console.log(`[analyze-sentiment] Batch ${batchIndex + 1} low success (${Math.round(successRate * 100)}%), retrying...`);
-              const retryResults = await processBatch(batchIndex, batchTexts, true);
-              const retryAnalyzedCount = retryResults.filter(r => r.confidence > 0.3).length;
+              const retryResults = await processBatch(batchIndex, batchItems, true);
+              const retryAnalyzedCount = retryResults.filter(r => r.status !== 'defaulted').length;
               
               // Use retry if better
               if (retryAnalyzedCount > analyzedCount) {
@@ -394,105 +1229,228 @@ IMPORTANT: Return EXACTLY ${BATCH_SIZE} results for ${BATCH_SIZE} texts, in orde
             
             return results;
           } catch (error) {
-            if (error instanceof Error && (error.message === 'rate_limit' || error.message === 'credits_exhausted')) {
+            if (error instanceof LLMProviderError && error.kind !== 'request_failed') {
               throw error;
             }
             console.log(`[analyze-sentiment] Batch ${batchIndex + 1} failed, retrying...`);
             try {
-              return await processBatch(batchIndex, batchTexts, true);
+              return await processBatch(batchIndex, batchItems, true);
             } catch (retryError) {
+              // Rate limits, exhausted credits and spend caps pause the job, on the retry as on the first attempt
+              if (retryError instanceof LLMProviderError && retryError.kind !== 'request_failed') {
+                throw retryError;
+              }
               console.error(`[analyze-sentiment] Batch ${batchIndex + 1} retry also failed`);
-              // Return default results rather than failing completely
-              return batchTexts.map(text => ({
-                text,
-                nodeId: nodes[0].id,
-                nodeName: nodes[0].name,
-                polarity: 'neutral' as const,
-                polarityScore: 0,
-                kpiScores: { trust: 0, optimism: 0, frustration: 0, clarity: 0, access: 0, fairness: 0 },
-                confidence: 0.1,
-              }));
+              // Return flagged placeholders rather than failing completely
+              return batchItems.map(item => defaultedResult(item, kpiIds, model));
             }
           }
         }
 
+        // Results per batch index, for completed, replayed and failed batches alike
+        const batchResults = new Map<number, SentimentResult[]>();
+        // Batches whose results are persisted; everything else is retried when the job resumes
+        const completedBatches = new Set<number>();
+        const batchItemsAt = (batchIndex: number) => llmItems.slice(batchBounds[batchIndex], batchBounds[batchIndex + 1] ?? llmItems.length);
+        const processedCount = () =>
+          cachedResults.length + Array.from(batchResults.values()).reduce((sum, results) => sum + results.length, 0);
+
+        const emitBatch = (batchIndex: number, results: SentimentResult[], replayed: boolean = false) => {
+          batchResults.set(batchIndex, results);
+          sendEvent('batch_complete', { 
+            batch: batchIndex + 1, 
+            totalBatches,
+            results: results,
+            processedCount: processedCount(),
+            totalCount: totalTexts,
+            // Running totals of this invocation's model calls
+            usage: usage.totals,
+            ...(replayed && { replayed: true }),
+          });
+        };
+
+        // Stream batches a job has already completed that this stream has not sent yet
+        const replayCompleted = (source: AnalysisJob) => {
+          Object.entries(source.batch_status).forEach(([key, status]) => {
+            const batchIndex = Number(key);
+            if (status !== 'completed' || completedBatches.has(batchIndex) || !source.results[key]) return;
+            completedBatches.add(batchIndex);
+            emitBatch(batchIndex, source.results[key], true);
+          });
+        };
+
+        const recordBatch = async (batchIndex: number, status: BatchStatus, results: SentimentResult[] | null) => {
+          if (!job || !jobClient) return;
+          try {
+            const { error } = await jobClient.rpc('record_analysis_batch', {
+              p_job_id: job.id,
+              p_batch_index: batchIndex,
+              p_status: status,
+              p_results: results,
+            });
+            if (error) throw error;
+          } catch (error) {
+            // The results still reach the client; only resuming this batch is lost
+            console.error(`[analyze-sentiment] Failed to record batch ${batchIndex + 1}:`, error);
+          }
+        };
+
+        const updateJob = async (fields: Partial<Pick<AnalysisJob, 'status' | 'stop_reason'>>) => {
+          if (!job || !jobClient) return;
+          const { error } = await jobClient.from('analysis_jobs').update(fields).eq('id', job.id);
+          if (error) console.error('[analyze-sentiment] Failed to update job:', error.message);
+        };
+
         let rateLimited = false;
         let creditsExhausted = false;
+        let spendCapped = false;
+        let jobStatus: JobStatus | null = job?.status ?? null;
+        let stopReason: string | null = null;
 
-        for (let groupStart = 0; groupStart < totalBatches && !rateLimited && !creditsExhausted; groupStart += PARALLEL_BATCHES) {
-          const groupEnd = Math.min(groupStart + PARALLEL_BATCHES, totalBatches);
-          const batchPromises: Promise<{ batchIndex: number; results: SentimentResult[] }>[] = [];
+        // Cache hits reach the client first, as one extra batch outside the job's numbering
+        if (cachedResults.length > 0) {
+          sendEvent('batch_complete', {
+            batch: 0,
+            totalBatches,
+            results: cachedResults,
+            processedCount: processedCount(),
+            totalCount: totalTexts,
+            cached: true,
+          });
+        }
 
-          for (let batchIndex = groupStart; batchIndex < groupEnd; batchIndex++) {
-            const startIdx = batchIndex * BATCH_SIZE;
-            const batchTexts = texts.slice(startIdx, startIdx + BATCH_SIZE);
-            
-            sendEvent('progress', { 
-              type: 'batch_start', 
-              batch: batchIndex + 1, 
-              totalBatches,
-              processedCount: allResults.length
-            });
+        if (job) replayCompleted(job);
 
-            batchPromises.push(
-              processBatchWithRetry(batchIndex, batchTexts)
-                .then(results => ({ batchIndex, results }))
-                .catch(error => {
-                  if (error.message === 'rate_limit') {
-                    rateLimited = true;
-                    sendEvent('error', { 
-                      type: 'rate_limit', 
-                      message: 'Rate limited, returning partial results',
-                      partialResults: allResults.length
-                    });
-                  } else if (error.message === 'credits_exhausted') {
-                    creditsExhausted = true;
-                    sendEvent('error', { 
-                      type: 'credits_exhausted', 
-                      message: 'AI credits exhausted'
-                    });
-                  } else {
-                    sendEvent('batch_error', { 
-                      batch: batchIndex + 1, 
-                      error: error.message 
-                    });
-                  }
-                  return { batchIndex, results: [] };
-                })
-            );
+        if (followOnly && job && jobClient) {
+          // Reconnected while another invocation runs the job: relay its batches as they are recorded
+          let current: AnalysisJob = job;
+          while (isJobActive(current) && Date.now() - startTime < FOLLOW_BUDGET_MS) {
+            await new Promise(resolve => setTimeout(resolve, FOLLOW_POLL_MS));
+            const { data, error } = await jobClient.from('analysis_jobs').select('*').eq('id', job.id).maybeSingle();
+            if (error || !data) break;
+            current = data as AnalysisJob;
+            replayCompleted(current);
           }
+          jobStatus = current.status;
+          stopReason = current.stop_reason;
+        } else {
+          await updateJob({ status: 'running', stop_reason: null });
 
-          const batchResultsArray = await Promise.all(batchPromises);
+          const pendingBatches = Array.from({ length: totalBatches }, (_, i) => i).filter(i => !completedBatches.has(i));
+          if (completedBatches.size > 0) {
+            console.log(`[analyze-sentiment] Resuming job ${job?.id}: ${completedBatches.size}/${totalBatches} batches already done`);
+          }
 
-          for (const { batchIndex, results } of batchResultsArray.sort((a, b) => a.batchIndex - b.batchIndex)) {
-            if (results.length > 0) {
-              allResults.push(...results);
+          for (let groupStart = 0; groupStart < pendingBatches.length && !rateLimited && !creditsExhausted && !spendCapped; groupStart += PARALLEL_BATCHES) {
+            const group = pendingBatches.slice(groupStart, groupStart + PARALLEL_BATCHES);
+            const batchPromises: Promise<{ batchIndex: number; results: SentimentResult[] }>[] = [];
+
+            for (const batchIndex of group) {
+              const batchItems = batchItemsAt(batchIndex);
               
-              sendEvent('batch_complete', { 
+              sendEvent('progress', { 
+                type: 'batch_start', 
                 batch: batchIndex + 1, 
                 totalBatches,
-                results: results,
-                processedCount: allResults.length,
-                totalCount: texts.length
+                processedCount: processedCount()
               });
+
+              batchPromises.push(
+                processBatchWithRetry(batchIndex, batchItems)
+                  .then(async results => {
+                    // A batch with nothing but placeholders is left for the next resume
+                    const scored = results.some(r => r.status !== 'defaulted');
+                    if (scored) completedBatches.add(batchIndex);
+                    await recordBatch(batchIndex, scored ? 'completed' : 'failed', scored ? results : null);
+                    if (scored && jobClient) await writeCache(jobClient, results, cacheKey);
+                    return { batchIndex, results };
+                  })
+                  .catch(error => {
+                    const kind = error instanceof LLMProviderError ? error.kind : null;
+                    if (kind === 'rate_limit') {
+                      rateLimited = true;
+                      sendEvent('error', { 
+                        type: 'rate_limit', 
+                        message: job ? 'Rate limited, job paused; run again to resume' : 'Rate limited, returning partial results',
+                        partialResults: processedCount()
+                      });
+                    } else if (kind === 'credits_exhausted') {
+                      creditsExhausted = true;
+                      sendEvent('error', { 
+                        type: 'credits_exhausted', 
+                        message: `${provider.label} credits exhausted`
+                      });
+                    } else if (kind === 'spend_cap') {
+                      // Parallel batches may each report the cap; the client needs it once
+                      if (!spendCapped) {
+                        sendEvent('error', {
+                          type: 'spend_cap',
+                          message: job ? `${error.message}, job paused` : `${error.message}, returning partial results`,
+                          partialResults: processedCount()
+                        });
+                      }
+                      spendCapped = true;
+                    } else {
+                      sendEvent('batch_error', { 
+                        batch: batchIndex + 1, 
+                        error: error.message 
+                      });
+                    }
+                    return { batchIndex, results: [] };
+                  })
+              );
+            }
+
+            const batchResultsArray = await Promise.all(batchPromises);
+
+            for (const { batchIndex, results } of batchResultsArray.sort((a, b) => a.batchIndex - b.batchIndex)) {
+              if (results.length > 0) emitBatch(batchIndex, results);
             }
           }
+
+          if (completedBatches.size === totalBatches) {
+            jobStatus = 'completed';
+          } else {
+            jobStatus = 'paused';
+            stopReason = rateLimited ? 'rate_limit'
+              : creditsExhausted ? 'credits_exhausted'
+              : spendCapped ? 'spend_cap'
+              : 'batch_errors';
+          }
+          await updateJob({ status: jobStatus, stop_reason: stopReason });
         }
 
+        // Every item gets a result; batches never run come back as defaulted placeholders
+        const allResults: SentimentResult[] = [
+          ...cachedResults,
+          ...Array.from({ length: totalBatches }, (_, batchIndex) =>
+            batchResults.get(batchIndex) ?? batchItemsAt(batchIndex).map(item => defaultedResult(item, kpiIds, model))
+          ).flat(),
+        ];
+
         const totalTime = Date.now() - startTime;
         
         // Calculate actual analysis success rate
-        const analyzedResults = allResults.filter(r => r.confidence > 0.3);
-        const successRate = Math.round((analyzedResults.length / texts.length) * 100);
+        const analyzedResults = allResults.filter(r => r.status !== 'defaulted');
+        const successRate = totalTexts > 0 ? Math.round((analyzedResults.length / totalTexts) * 100) : 100;
         
-        console.log(`[analyze-sentiment] Complete: ${allResults.length}/${texts.length} results (${successRate}% analyzed) in ${totalTime}ms`);
+        console.log(`[analyze-sentiment] Complete: ${allResults.length}/${totalTexts} results (${successRate}% analyzed, ${cachedResults.length} from cache) in ${totalTime}ms, ${usage.totals.calls} model calls, $${usage.totals.costUsd.toFixed(4)}`);
 
         sendEvent('complete', { 
           results: allResults,
           processedCount: allResults.length,
-          totalCount: texts.length,
+          totalCount: totalTexts,
+          statusCounts: Object.fromEntries(
+            (['analyzed', 'retried', 'recovered-from-malformed', 'defaulted'] as ResultStatus[])
+              .map(status => [status, allResults.filter(r => r.status === status).length])
+          ),
           executionTimeMs: totalTime,
-          successRate
+          successRate,
+          cache: { hits: cachedResults.length, misses: llmItems.length },
+          usage: { ...usage.totals, caps: usage.caps },
+          jobId: job?.id ?? null,
+          jobStatus,
+          stopReason
         });
 
         controller.close();
@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { LLMProviderError, resolveLLMProvider, resolveModel, type ChatCompletionResponse } from "../_shared/llmProvider.ts";
+import { createUsageClient, requestUserId, resolveSpendCaps, UsageMeter } from "../_shared/llmUsage.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,11 +13,16 @@ serve(async (req) => {
   }
 
   try {
-    const { nodeName, existingKeywords = [] } = await req.json();
-    const PERPLEXITY_API_KEY = Deno.env.get("PERPLEXITY_API_KEY");
-    
-    if (!PERPLEXITY_API_KEY) {
-      throw new Error("PERPLEXITY_API_KEY is not configured");
+    const { nodeName, existingKeywords = [], model: requestedModel, maxCostUsd } = await req.json();
+    // Perplexity searches the web for the literature; other providers answer from the model alone
+    const provider = resolveLLMProvider("GENERATE_KEYWORDS", "perplexity");
+    const model = resolveModel(provider, requestedModel);
+
+    if (!model) {
+      return new Response(
+        JSON.stringify({ error: `Model not allowed: ${requestedModel}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
     const prompt = `Search recent peer-reviewed research papers, academic journals, and scholarly literature about "${nodeName}". 
@@ -33,41 +40,47 @@ ${existingKeywords.length > 0 ? `- Different from these existing keywords: ${exi
 
 Prioritize sophisticated academic terminology over common words. Return ONLY a JSON array of keyword strings. Example: ["keyword1", "keyword2", ...]`;
 
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${PERPLEXITY_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "sonar",
+    const usageClient = createUsageClient();
+    const usage = new UsageMeter(usageClient, provider, {
+      functionName: "generate-keywords",
+      runId: crypto.randomUUID(),
+      userId: await requestUserId(usageClient, req),
+      caps: resolveSpendCaps(maxCostUsd),
+    });
+
+    let data: ChatCompletionResponse;
+    try {
+      data = await usage.chatCompletion({
+        model,
         messages: [
           { role: "user", content: prompt }
         ],
         temperature: 0.3,
         max_tokens: 1000,
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
+      });
+    } catch (error) {
+      if (error instanceof LLMProviderError && error.kind === "rate_limit") {
         return new Response(
           JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
           { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
-      if (response.status === 402) {
+      if (error instanceof LLMProviderError && error.kind === "credits_exhausted") {
+        return new Response(
+          JSON.stringify({ error: `Payment required. Please add credits to your ${provider.label} account.` }),
+          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      if (error instanceof LLMProviderError && error.kind === "spend_cap") {
         return new Response(
-          JSON.stringify({ error: "Payment required. Please add credits to your Perplexity API account." }),
+          JSON.stringify({ error: error.message }),
           { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
+      console.error("AI gateway error:", error);
       throw new Error("Failed to generate keywords");
     }
 
-    const data = await response.json();
     const content = data.choices?.[0]?.message?.content;
 
     if (!content) {
@@ -103,7 +116,7 @@ Prioritize sophisticated academic terminology over common words. Return ONLY a J
     );
 
     return new Response(
-      JSON.stringify({ keywords: newKeywords.slice(0, 30) }),
+      JSON.stringify({ keywords: newKeywords.slice(0, 30), usage: usage.totals }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       }
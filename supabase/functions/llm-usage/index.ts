@@ -0,0 +1,182 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { resolveLLMProvider, resolveModel } from "../_shared/llmProvider.ts";
+import { createUsageClient, modelPrice, requestUserId, resolveSpendCaps, spentToday } from "../_shared/llmUsage.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Request body: a usage summary over the last `days`, or the price of the analysis model
+// the client estimates a run's cost with
+interface UsageRequest {
+  action?: 'summary' | 'pricing';
+  days?: number;
+  model?: string;
+}
+
+// Row of public.llm_usage, as far as the summary reads it
+interface UsageRow {
+  function_name: string;
+  run_id: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  retry: boolean;
+  cost_usd: number | string;
+  status: 'ok' | 'error';
+  created_at: string;
+}
+
+interface UsageBucket {
+  calls: number;
+  retries: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+interface RunUsage extends UsageBucket {
+  runId: string;
+  functionName: string;
+  model: string;
+  startedAt: string;
+  endedAt: string;
+}
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+// Rows per request; PostgREST caps responses at 1000 rows by default
+const PAGE_SIZE = 1000;
+// Runs listed in the summary, most recent first
+const MAX_RUNS = 100;
+
+function emptyBucket(): UsageBucket {
+  return { calls: 0, retries: 0, errors: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, latencyMs: 0 };
+}
+
+function addRow(bucket: UsageBucket, row: UsageRow): void {
+  bucket.calls++;
+  if (row.retry) bucket.retries++;
+  if (row.status === 'error') bucket.errors++;
+  bucket.promptTokens += row.prompt_tokens;
+  bucket.completionTokens += row.completion_tokens;
+  // NUMERIC columns arrive as strings
+  bucket.costUsd += Number(row.cost_usd);
+  bucket.latencyMs += row.latency_ms;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body: UsageRequest = await req.json().catch(() => ({}));
+    const client = createUsageClient();
+
+    // Pricing is public, so anonymous runs can still be estimated
+    if (body.action === 'pricing') {
+      const provider = resolveLLMProvider('ANALYZE_SENTIMENT', 'lovable');
+      const model = resolveModel(provider, body.model);
+      if (!model) {
+        return new Response(JSON.stringify({ error: `Model not allowed: ${body.model}` }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      return new Response(JSON.stringify({
+        provider: provider.id,
+        model,
+        price: modelPrice(provider, model),
+        caps: resolveSpendCaps(),
+        spentTodayUsd: await spentToday(client),
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // The service-role client bypasses RLS, so where usage is stored the summary needs a
+    // signed-in caller and is filtered to their own calls
+    const userId = await requestUserId(client, req);
+    if (client && !userId) {
+      return new Response(JSON.stringify({ error: 'Sign in to see LLM usage' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const days = typeof body.days === 'number' && body.days > 0 ? Math.min(Math.floor(body.days), MAX_DAYS) : DEFAULT_DAYS;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const rows: UsageRow[] = [];
+    if (client && userId) {
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await client
+          .from('llm_usage')
+          .select('function_name, run_id, model, prompt_tokens, completion_tokens, latency_ms, retry, cost_usd, status, created_at')
+          .eq('user_id', userId)
+          .gte('created_at', since)
+          .order('created_at', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+        if (error) throw new Error(`Failed to load usage: ${error.message}`);
+        rows.push(...(data as UsageRow[]));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+    }
+
+    const totals = emptyBucket();
+    const byDay = new Map<string, UsageBucket>();
+    const byRun = new Map<string, RunUsage>();
+    rows.forEach(row => {
+      addRow(totals, row);
+
+      // UTC days, matching the daily spend cap
+      const day = row.created_at.slice(0, 10);
+      const dayBucket = byDay.get(day) ?? emptyBucket();
+      byDay.set(day, dayBucket);
+      addRow(dayBucket, row);
+
+      let run = byRun.get(row.run_id);
+      if (!run) {
+        run = {
+          ...emptyBucket(),
+          runId: row.run_id,
+          functionName: row.function_name,
+          model: row.model,
+          startedAt: row.created_at,
+          endedAt: row.created_at,
+        };
+        byRun.set(row.run_id, run);
+      }
+      addRow(run, row);
+      run.endedAt = row.created_at;
+    });
+
+    console.log(`[llm-usage] Summary over ${days} days: ${rows.length} calls in ${byRun.size} runs`);
+
+    return new Response(JSON.stringify({
+      days,
+      totals,
+      byDay: Array.from(byDay.entries()).map(([date, bucket]) => ({ date, ...bucket })).reverse(),
+      byRun: Array.from(byRun.values()).reverse().slice(0, MAX_RUNS),
+      caps: resolveSpendCaps(),
+      // The daily cap counts every user's calls, so today's spend is the deployment total
+      spentTodayUsd: await spentToday(client),
+      stored: client !== null,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[llm-usage] Error:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Usage lookup failed'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,48 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { mockChatCompletion, type MockChatRequest } from "../_shared/mockLLM.ts";
+
+// HTTP stand-in for an OpenAI-compatible chat completions endpoint, for local runs and tests.
+// Point a function at it with LLM_PROVIDER=openai,
+// OPENAI_BASE_URL=http://localhost:54321/functions/v1/mock-llm-gateway and OPENAI_API_KEY set to
+// the service role key; deployed alongside the real functions, it answers no one else.
+// Responses and failure injection are described in _shared/mockLLM.ts.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceKey || req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return new Response(JSON.stringify({ error: 'The mock gateway requires the service role key' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Malformed bodies get a 400 with CORS headers, like any other failure the gateway reports
+  let request: MockChatRequest | null = null;
+  try {
+    request = await req.json();
+  } catch {
+    // handled below
+  }
+  if (!request || typeof request !== 'object') {
+    return new Response(JSON.stringify({ error: 'Request body must be a JSON object' }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const { status, body } = mockChatCompletion(request);
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+});
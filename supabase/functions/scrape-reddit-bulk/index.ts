@@ -1,5 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -110,6 +110,9 @@ interface RedditPost {
   thumbnailUrl: string;
   createdAt: string;
   scrapedAt: string;
+  // Search collection: the query that found the item, and the node it was generated for
+  matchedQuery?: string;
+  matchedNodeId?: string;
   dataType: 'post';
 }
 
@@ -128,16 +131,63 @@ interface RedditComment {
   scrapedAt: string;
   upVotes: number;
   numberOfreplies: number;
+  // Reply level below the post (0 = top-level); missing when the source has no thread structure
+  depth?: number;
+  // Search collection: the query that found the comment (or its post), and the node it was generated for
+  matchedQuery?: string;
+  matchedNodeId?: string;
   html: string;
   dataType: 'comment';
 }
 
-// Track execution start time for timeout protection
-const EXECUTION_START = Date.now();
+interface CommentTreeOptions {
+  // Posts per subreddit whose comment trees are fetched, most commented first
+  postsWithComments: number;
+  // Reply levels fetched below the post (1 = top-level comments only)
+  depth: number;
+  // Top-level comments requested per post
+  breadth: number;
+  // Comments kept per post, including those expanded from "load more" stubs
+  maxPerPost: number;
+  // Fetch comments hidden behind "load more" stubs
+  expandMore: boolean;
+}
+
+const DEFAULT_COMMENT_OPTIONS: CommentTreeOptions = {
+  postsWithComments: 5,
+  depth: 4,
+  breadth: 20,
+  maxPerPost: 40,
+  expandMore: true,
+};
+
+// Reddit returns at most 10 levels and takes at most 100 ids per morechildren call
+const MAX_COMMENT_DEPTH = 10;
+const MAX_COMMENTS_PER_POST = 500;
+const MORE_CHILDREN_BATCH = 100;
+// Bounds the extra requests one post can cost
+const MAX_MORE_REQUESTS_PER_POST = 3;
+
+const clampInt = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, Math.floor(value))) : fallback;
+
+function resolveCommentOptions(body: Record<string, unknown>): CommentTreeOptions {
+  return {
+    postsWithComments: clampInt(body.commentPostsPerSubreddit, DEFAULT_COMMENT_OPTIONS.postsWithComments, 0, 100),
+    depth: clampInt(body.commentDepth, DEFAULT_COMMENT_OPTIONS.depth, 1, MAX_COMMENT_DEPTH),
+    breadth: clampInt(body.commentsPerPost, DEFAULT_COMMENT_OPTIONS.breadth, 1, 500),
+    maxPerPost: clampInt(body.maxCommentsPerPost, DEFAULT_COMMENT_OPTIONS.maxPerPost, 1, MAX_COMMENTS_PER_POST),
+    expandMore: body.expandMoreComments !== false,
+  };
+}
+
+// Track execution start time for timeout protection; reset per request, since a warm
+// instance serves many requests
+let executionStart = Date.now();
 const MAX_EXECUTION_TIME = 50000; // 50 seconds (leave buffer for response)
 
 function isNearTimeout(): boolean {
-  return Date.now() - EXECUTION_START > MAX_EXECUTION_TIME;
+  return Date.now() - executionStart > MAX_EXECUTION_TIME;
 }
 
 function getTimestampForRange(timeRange: TimeRange): number {
@@ -237,12 +287,211 @@ async function getRedditAccessToken(): Promise<string | null> {
   }
 }
 
+// The fields read from Reddit's (and Arctic Shift's Reddit-shaped) comment JSON
+interface RawComment {
+  id: string;
+  body?: string;
+  author?: string;
+  author_fullname?: string;
+  permalink?: string;
+  parent_id?: string;
+  link_id?: string;
+  created_utc?: number;
+  created?: number;
+  score?: number;
+  depth?: number;
+  // Reddit sends an empty string when there are no replies
+  replies?: RawListing | string;
+}
+
+// A listing entry: a comment (t1) or a "load more" stub whose children are comment ids
+interface RawThing {
+  kind: string;
+  data: RawComment & { children?: string[] };
+}
+
+interface RawListing {
+  data?: { children?: RawThing[] };
+}
+
+const replyThings = (c: RawComment): RawThing[] =>
+  typeof c.replies === 'object' ? c.replies?.data?.children || [] : [];
+
+const isRemovedComment = (c: RawComment) =>
+  !c.body || c.body === '[deleted]' || c.body === '[removed]' || c.author === '[deleted]';
+
+// Raw Reddit (or Reddit-shaped archive) comment data to our format
+function toRedditComment(
+  c: RawComment,
+  postId: string,
+  subreddit: string,
+  scrapedAt: string,
+  depth?: number
+): RedditComment {
+  return {
+    id: c.id,
+    parsedId: `t1_${c.id}`,
+    url: `https://www.reddit.com${c.permalink || ''}`,
+    postId,
+    parentId: c.parent_id || '',
+    username: c.author || '[unknown]',
+    userId: c.author_fullname || '',
+    category: '',
+    communityName: `r/${subreddit}`,
+    body: c.body || '',
+    createdAt: new Date((c.created_utc || c.created || Date.now() / 1000) * 1000).toISOString(),
+    scrapedAt,
+    upVotes: c.score || 0,
+    numberOfreplies: replyThings(c).filter(r => r.kind === 't1').length,
+    ...(depth !== undefined && { depth }),
+    html: '',
+    dataType: 'comment'
+  };
+}
+
+interface CommentWalk {
+  postId: string;
+  subreddit: string;
+  scrapedAt: string;
+  options: CommentTreeOptions;
+  comments: RedditComment[];
+  // Ids behind "load more" stubs, expanded afterwards
+  moreIds: string[];
+}
+
+/**
+ * Depth-first walk of a comment listing, keeping parent links. Removed comments are
+ * skipped but their replies are still walked, so a reply may point at a parent that
+ * is not in the result.
+ */
+function walkCommentListing(children: RawThing[], walk: CommentWalk, depth: number): void {
+  for (const item of children) {
+    if (walk.comments.length >= walk.options.maxPerPost) return;
+
+    if (item.kind === 'more') {
+      // "Continue this thread" stubs have no ids; they only mark the depth limit
+      if (walk.options.expandMore) walk.moreIds.push(...(item.data?.children || []));
+      continue;
+    }
+    if (item.kind !== 't1') continue;
+
+    const c = item.data;
+    const commentDepth = typeof c.depth === 'number' ? c.depth : depth;
+    if (!isRemovedComment(c)) {
+      walk.comments.push(toRedditComment(c, walk.postId, walk.subreddit, walk.scrapedAt, commentDepth));
+    }
+    if (commentDepth + 1 < walk.options.depth) {
+      walkCommentListing(replyThings(c), walk, commentDepth + 1);
+    }
+  }
+}
+
+// Where comment trees come from: the OAuth API or the public JSON endpoints
+interface CommentSource {
+  label: string;
+  headers: Record<string, string>;
+  treeUrl: (subreddit: string, postId: string, options: CommentTreeOptions) => string;
+  moreChildrenUrl: (linkId: string, ids: string[]) => string;
+}
+
+function oauthCommentSource(accessToken: string): CommentSource {
+  return {
+    label: 'OAuth',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'User-Agent': 'ResearchSentimentTracker/1.0 (by /u/research_tracker)'
+    },
+    treeUrl: (subreddit, postId, options) =>
+      `https://oauth.reddit.com/r/${subreddit}/comments/${postId}?limit=${options.breadth}&depth=${options.depth}&sort=top&raw_json=1`,
+    moreChildrenUrl: (linkId, ids) =>
+      `https://oauth.reddit.com/api/morechildren?api_type=json&link_id=${linkId}&children=${ids.join(',')}&limit_children=false&sort=top&raw_json=1`,
+  };
+}
+
+const publicCommentSource: CommentSource = {
+  label: 'JSON',
+  headers: {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept': 'application/json'
+  },
+  treeUrl: (subreddit, postId, options) =>
+    `https://www.reddit.com/r/${subreddit}/comments/${postId}.json?limit=${options.breadth}&depth=${options.depth}&sort=top&raw_json=1`,
+  moreChildrenUrl: (linkId, ids) =>
+    `https://www.reddit.com/api/morechildren.json?api_type=json&link_id=${linkId}&children=${ids.join(',')}&limit_children=false&sort=top&raw_json=1`,
+};
+
+// Expand "load more" stubs; morechildren returns a flat list that keeps each comment's parent_id and depth
+async function expandMoreComments(walk: CommentWalk, source: CommentSource): Promise<void> {
+  for (let request = 0; request < MAX_MORE_REQUESTS_PER_POST; request++) {
+    if (walk.moreIds.length === 0 || walk.comments.length >= walk.options.maxPerPost || isNearTimeout()) return;
+
+    const ids = walk.moreIds.splice(0, MORE_CHILDREN_BATCH);
+    const response = await fetch(source.moreChildrenUrl(walk.postId, ids), { headers: source.headers });
+    if (!response.ok) {
+      console.log(`[${source.label}] morechildren failed for ${walk.postId}: ${response.status}`);
+      return;
+    }
+
+    const data = await response.json();
+    const things: RawThing[] = data?.json?.data?.things || [];
+    for (const item of things) {
+      if (walk.comments.length >= walk.options.maxPerPost) return;
+      if (item.kind === 'more') {
+        walk.moreIds.push(...(item.data?.children || []));
+        continue;
+      }
+      const c = item.data;
+      if (item.kind !== 't1' || isRemovedComment(c) || (c.depth ?? 0) >= walk.options.depth) continue;
+      walk.comments.push(toRedditComment(c, walk.postId, walk.subreddit, walk.scrapedAt, c.depth ?? 0));
+    }
+  }
+}
+
+// Comment trees for the most commented posts, fetched one post at a time to stay under rate limits
+async function fetchCommentTrees(
+  posts: RedditPost[],
+  subreddit: string,
+  scrapedAt: string,
+  options: CommentTreeOptions,
+  source: CommentSource
+): Promise<RedditComment[]> {
+  const comments: RedditComment[] = [];
+  const postsWithComments = posts
+    .filter(p => p.numberOfComments > 0)
+    .sort((a, b) => b.numberOfComments - a.numberOfComments)
+    .slice(0, options.postsWithComments);
+
+  for (const post of postsWithComments) {
+    if (isNearTimeout()) break;
+    try {
+      const response = await fetch(source.treeUrl(subreddit, post.id, options), { headers: source.headers });
+      if (!response.ok) continue;
+
+      const data = await response.json();
+      if (!Array.isArray(data) || data.length < 2) continue;
+
+      const walk: CommentWalk = { postId: post.parsedId, subreddit, scrapedAt, options, comments: [], moreIds: [] };
+      walkCommentListing(data[1]?.data?.children || [], walk, 0);
+      if (options.expandMore) await expandMoreComments(walk, source);
+      comments.push(...walk.comments);
+
+      // Small delay between comment fetches
+      await new Promise(r => setTimeout(r, 100));
+    } catch {
+      // Continue without comments for this post
+    }
+  }
+
+  return comments;
+}
+
 // PRIMARY: Reddit OAuth API - has full engagement data and proper sorting
 async function scrapeViaRedditOAuth(
   subreddit: string,
   timeRange: TimeRange,
   sortMode: SortMode,
-  limit: number = 25
+  limit: number = 25,
+  commentOptions: CommentTreeOptions = DEFAULT_COMMENT_OPTIONS
 ): Promise<{ posts: RedditPost[]; comments: RedditComment[]; method: string }> {
   const posts: RedditPost[] = [];
   const comments: RedditComment[] = [];
@@ -311,60 +560,7 @@ async function scrapeViaRedditOAuth(
       });
     }
 
-    // Fetch comments for top 3 posts that have comments
-    const postsWithComments = posts.filter(p => p.numberOfComments > 0).slice(0, 3);
-    
-    for (const post of postsWithComments) {
-      try {
-        const commentsUrl = `https://oauth.reddit.com/r/${subreddit}/comments/${post.id}?limit=10&depth=1&raw_json=1`;
-        
-        const commentsResponse = await fetch(commentsUrl, {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'User-Agent': 'ResearchSentimentTracker/1.0 (by /u/research_tracker)'
-          }
-        });
-
-        if (commentsResponse.ok) {
-          const commentsData = await commentsResponse.json();
-          
-          if (Array.isArray(commentsData) && commentsData.length >= 2) {
-            const commentsListing = commentsData[1]?.data?.children || [];
-            
-            for (const item of commentsListing) {
-              if (item.kind !== 't1') continue;
-              const c = item.data;
-              
-              if (!c.body || c.body === '[deleted]' || c.body === '[removed]' || c.author === '[deleted]') continue;
-              
-              comments.push({
-                id: c.id,
-                parsedId: `t1_${c.id}`,
-                url: `https://www.reddit.com${c.permalink || ''}`,
-                postId: `t3_${post.id}`,
-                parentId: c.parent_id || '',
-                username: c.author || '[unknown]',
-                userId: c.author_fullname || '',
-                category: '',
-                communityName: `r/${subreddit}`,
-                body: c.body,
-                createdAt: new Date((c.created_utc || c.created || Date.now() / 1000) * 1000).toISOString(),
-                scrapedAt,
-                upVotes: c.score || 0,
-                numberOfreplies: c.replies?.data?.children?.length || 0,
-                html: '',
-                dataType: 'comment'
-              });
-            }
-          }
-        }
-        
-        // Small delay between comment fetches
-        await new Promise(r => setTimeout(r, 100));
-      } catch {
-        // Continue without comments for this post
-      }
-    }
+    comments.push(...await fetchCommentTrees(posts, subreddit, scrapedAt, commentOptions, oauthCommentSource(accessToken)));
 
     if (posts.length > 0) {
       const avgUpvotes = Math.round(posts.reduce((a, p) => a + p.upVotes, 0) / posts.length);
@@ -384,7 +580,8 @@ async function scrapeViaRedditJSON(
   subreddit: string,
   timeRange: TimeRange,
   sortMode: SortMode,
-  limit: number = 25
+  limit: number = 25,
+  commentOptions: CommentTreeOptions = DEFAULT_COMMENT_OPTIONS
 ): Promise<{ posts: RedditPost[]; comments: RedditComment[]; method: string }> {
   const posts: RedditPost[] = [];
   const comments: RedditComment[] = [];
@@ -446,9 +643,11 @@ async function scrapeViaRedditJSON(
       });
     }
 
+    comments.push(...await fetchCommentTrees(posts, subreddit, scrapedAt, commentOptions, publicCommentSource));
+
     if (posts.length > 0) {
       const avgUpvotes = Math.round(posts.reduce((a, p) => a + p.upVotes, 0) / posts.length);
-      console.log(`[JSON] r/${subreddit} (${sortMode}): ${posts.length} posts (avg ${avgUpvotes} upvotes)`);
+      console.log(`[JSON] r/${subreddit} (${sortMode}): ${posts.length} posts (avg ${avgUpvotes} upvotes), ${comments.length} comments`);
     }
 
     return { posts, comments, method: 'json' };
@@ -527,11 +726,82 @@ function parseRSSXML(xmlText: string, subreddit: string, scrapedAt: string): Red
   return posts;
 }
 
+// Comment entries of a post's RSS feed. The feed carries no thread structure, so parentId
+// and depth are left empty and the comments read as direct replies to the post.
+function parseCommentRSSXML(xmlText: string, post: RedditPost, subreddit: string, scrapedAt: string): RedditComment[] {
+  const comments: RedditComment[] = [];
+  const entryMatches = xmlText.match(/<entry>[\s\S]*?<\/entry>/g) || [];
+
+  for (const entry of entryMatches) {
+    const id = entry.match(/<id>(t1_[^<]+)<\/id>/)?.[1];
+    if (!id) continue; // The post itself is the feed's first entry
+
+    const contentMatch = entry.match(/<content type="html">([^]*?)<\/content>/);
+    const body = contentMatch
+      ? decodeHTMLEntities(decodeHTMLEntities(contentMatch[1]).replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim()
+      : '';
+    const username = entry.match(/<author><name>\/u\/([^<]+)<\/name>/)?.[1] || '[unknown]';
+    if (!body || body === '[deleted]' || body === '[removed]' || username === '[deleted]') continue;
+
+    comments.push({
+      id: id.replace('t1_', ''),
+      parsedId: id,
+      url: entry.match(/<link href="([^"]+)"/)?.[1] || '',
+      postId: post.parsedId,
+      parentId: '',
+      username,
+      userId: '',
+      category: '',
+      communityName: `r/${subreddit}`,
+      body,
+      createdAt: entry.match(/<(?:published|updated)>([^<]+)<\/(?:published|updated)>/)?.[1] || scrapedAt,
+      scrapedAt,
+      upVotes: 0, // RSS doesn't have this
+      numberOfreplies: 0,
+      html: '',
+      dataType: 'comment'
+    });
+  }
+
+  return comments;
+}
+
+// RSS has no comment counts, so the first posts of the feed get their comments fetched
+async function fetchCommentsViaRSS(
+  posts: RedditPost[],
+  subreddit: string,
+  scrapedAt: string,
+  options: CommentTreeOptions
+): Promise<RedditComment[]> {
+  const comments: RedditComment[] = [];
+  for (const post of posts.slice(0, options.postsWithComments)) {
+    if (isNearTimeout()) break;
+    try {
+      const response = await fetch(
+        `https://www.reddit.com/r/${subreddit}/comments/${post.id}/.rss?limit=${options.breadth}&depth=${options.depth}`,
+        {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15',
+            'Accept': 'application/rss+xml, application/xml, text/xml, */*'
+          }
+        }
+      );
+      if (!response.ok) continue;
+      comments.push(...parseCommentRSSXML(await response.text(), post, subreddit, scrapedAt).slice(0, options.maxPerPost));
+      await new Promise(r => setTimeout(r, 100));
+    } catch {
+      // Continue without comments for this post
+    }
+  }
+  return comments;
+}
+
 // FALLBACK 2: RSS scrape - uses sort mode with time parameter
 async function scrapeViaRSS(
   subreddit: string, 
   timeRange: TimeRange,
-  sortMode: SortMode
+  sortMode: SortMode,
+  commentOptions: CommentTreeOptions = DEFAULT_COMMENT_OPTIONS
 ): Promise<{ posts: RedditPost[]; comments: RedditComment[]; method: string }> {
   const posts: RedditPost[] = [];
   const comments: RedditComment[] = [];
@@ -560,9 +830,10 @@ async function scrapeViaRSS(
     const xmlText = await response.text();
     const parsedPosts = parseRSSXML(xmlText, subreddit, scrapedAt);
     posts.push(...parsedPosts);
+    comments.push(...await fetchCommentsViaRSS(posts, subreddit, scrapedAt, commentOptions));
     
     if (posts.length > 0) {
-      console.log(`[RSS] r/${subreddit} (${sortMode}): ${posts.length} posts (no engagement data)`);
+      console.log(`[RSS] r/${subreddit} (${sortMode}): ${posts.length} posts, ${comments.length} comments (no engagement data)`);
     }
 
   } catch (error) {
@@ -576,7 +847,8 @@ async function scrapeViaRSS(
 async function scrapeViaArcticShift(
   subreddit: string,
   timeRange: TimeRange,
-  limit: number = 50
+  limit: number = 50,
+  commentOptions: CommentTreeOptions = DEFAULT_COMMENT_OPTIONS
 ): Promise<{ posts: RedditPost[]; comments: RedditComment[]; method: string }> {
   const posts: RedditPost[] = [];
   const comments: RedditComment[] = [];
@@ -632,7 +904,38 @@ async function scrapeViaArcticShift(
       });
     }
 
-    // Fetch comments
+    // Comment trees of the most commented posts, in Reddit's listing format
+    const postsWithComments = posts
+      .filter(p => p.numberOfComments > 0)
+      .sort((a, b) => b.numberOfComments - a.numberOfComments)
+      .slice(0, commentOptions.postsWithComments);
+    for (const post of postsWithComments) {
+      if (isNearTimeout()) break;
+      try {
+        const treeUrl = `https://arctic-shift.photon-reddit.com/api/comments/tree?link_id=${post.parsedId}&limit=${commentOptions.maxPerPost}`;
+        const treeResponse = await fetch(treeUrl, {
+          headers: { 'User-Agent': 'ResearchSentimentTracker/1.0' }
+        });
+        if (!treeResponse.ok) continue;
+
+        const treeData = await treeResponse.json();
+        // The archive has no morechildren endpoint; stubs beyond the limit stay unexpanded
+        const walk: CommentWalk = {
+          postId: post.parsedId,
+          subreddit,
+          scrapedAt,
+          options: { ...commentOptions, expandMore: false },
+          comments: [],
+          moreIds: [],
+        };
+        walkCommentListing(Array.isArray(treeData?.data) ? treeData.data : [], walk, 0);
+        comments.push(...walk.comments);
+      } catch {
+        // Comments are optional
+      }
+    }
+
+    // Top comments across the subreddit, for posts outside the fetched trees
     try {
       const commentsUrl = `https://arctic-shift.photon-reddit.com/api/comments/search?subreddit=${subreddit}&after=${afterTimestamp}&limit=${Math.min(limit, 50)}&sort=desc&sort_type=score`;
       
@@ -642,30 +945,13 @@ async function scrapeViaArcticShift(
 
       if (commentsResponse.ok) {
         const commentsData = await commentsResponse.json();
-        const commentsArray = commentsData?.data || commentsData || [];
+        const commentsArray: RawComment[] = commentsData?.data || commentsData || [];
+        const seen = new Set(comments.map(c => c.parsedId));
 
         if (Array.isArray(commentsArray)) {
           for (const c of commentsArray) {
-            if (!c.body || c.body === '[deleted]' || c.body === '[removed]' || c.author === '[deleted]') continue;
-
-            comments.push({
-              id: c.id,
-              parsedId: `t1_${c.id}`,
-              url: `https://www.reddit.com${c.permalink || ''}`,
-              postId: c.link_id || '',
-              parentId: c.parent_id || '',
-              username: c.author || '[unknown]',
-              userId: c.author_fullname || '',
-              category: '',
-              communityName: `r/${subreddit}`,
-              body: c.body,
-              createdAt: new Date((c.created_utc || c.created) * 1000).toISOString(),
-              scrapedAt,
-              upVotes: c.score || 0,
-              numberOfreplies: 0,
-              html: '',
-              dataType: 'comment'
-            });
+            if (isRemovedComment(c) || seen.has(`t1_${c.id}`)) continue;
+            comments.push(toRedditComment(c, c.link_id || '', subreddit, scrapedAt));
           }
         }
       }
@@ -686,35 +972,47 @@ async function scrapeViaArcticShift(
   }
 }
 
+interface SubredditResult {
+  posts: RedditPost[];
+  comments: RedditComment[];
+  method: string;
+  success: boolean;
+  // Backfill: paging stopped at the item cap or the time limit before the window was exhausted
+  truncated?: 'cap' | 'timeout';
+  // Backfill window cut off by the time limit: where to pick it up again
+  resume?: WindowResume;
+}
+
 // Scrape with fallback chain: OAuth → JSON → RSS → Arctic Shift
 async function scrapeWithFallback(
   subreddit: string,
   timeRange: TimeRange,
   sortMode: SortMode,
-  limit: number
-): Promise<{ posts: RedditPost[]; comments: RedditComment[]; method: string; success: boolean }> {
+  limit: number,
+  commentOptions: CommentTreeOptions
+): Promise<SubredditResult> {
   
   // Try Reddit OAuth first (best - authenticated, proper sorting, full data)
-  const oauthResult = await scrapeViaRedditOAuth(subreddit, timeRange, sortMode, limit);
+  const oauthResult = await scrapeViaRedditOAuth(subreddit, timeRange, sortMode, limit, commentOptions);
   if (oauthResult.posts.length > 0) {
     return { ...oauthResult, success: true };
   }
 
   // Try public JSON endpoint (may get rate limited)
-  const jsonResult = await scrapeViaRedditJSON(subreddit, timeRange, sortMode, limit);
+  const jsonResult = await scrapeViaRedditJSON(subreddit, timeRange, sortMode, limit, commentOptions);
   if (jsonResult.posts.length > 0) {
     return { ...jsonResult, success: true };
   }
 
   // Try RSS (no engagement data but reliable)
-  const rssResult = await scrapeViaRSS(subreddit, timeRange, sortMode);
+  const rssResult = await scrapeViaRSS(subreddit, timeRange, sortMode, commentOptions);
   if (rssResult.posts.length > 0) {
     return { ...rssResult, success: true };
   }
 
   // Last resort: Arctic Shift (only has 'top' by score, historical data)
   if (sortMode === 'top') {
-    const arcticResult = await scrapeViaArcticShift(subreddit, timeRange, limit);
+    const arcticResult = await scrapeViaArcticShift(subreddit, timeRange, limit, commentOptions);
     if (arcticResult.posts.length > 0) {
       return { ...arcticResult, success: true };
     }
@@ -723,24 +1021,1123 @@ async function scrapeWithFallback(
   return { posts: [], comments: [], method: 'all_failed', success: false };
 }
 
+// A node's name and keywords (from NodeManager), to search for
+interface NodeQueryInput {
+  nodeId: string;
+  nodeName: string;
+  keywords: string[];
+}
+
+interface SearchQuery {
+  // "<node name>: <term>"; unique across the plan, and the progress label of the query
+  key: string;
+  nodeId: string;
+  term: string;
+}
+
+// Posts sent by Reddit's search and Arctic Shift's post search
+interface RawPost {
+  id: string;
+  title?: string;
+  selftext?: string;
+  author?: string;
+  author_fullname?: string;
+  subreddit?: string;
+  permalink?: string;
+  url?: string;
+  num_comments?: number;
+  link_flair_text?: string;
+  score?: number;
+  upvote_ratio?: number;
+  is_video?: boolean;
+  over_18?: boolean;
+  thumbnail?: string;
+  created_utc?: number;
+  created?: number;
+  removed_by_category?: string | null;
+}
+
+type SearchScope = 'subreddits' | 'sitewide';
+
+const DEFAULT_QUERIES_PER_NODE = 5;
+const MAX_QUERIES_PER_NODE = 20;
+// Whole-plan cap, whatever the node count
+const MAX_SEARCH_QUERIES = 120;
+const DEFAULT_RESULTS_PER_QUERY = 25;
+const MAX_RESULTS_PER_QUERY = 100;
+// Comment trees per query; search hits spread over many posts, so fewer than per subreddit
+const MAX_COMMENT_POSTS_PER_QUERY = 2;
+
+// Reddit search has no rising order; newest comes closest
+const SEARCH_SORT: Record<SortMode, string> = { top: 'top', hot: 'hot', rising: 'new' };
+
+/**
+ * One query per term, the node name first and then its keywords in order, up to the per-node
+ * budget. Terms repeated within or across nodes are searched once, for the first node.
+ */
+function buildSearchQueries(nodes: NodeQueryInput[], queriesPerNode: number): SearchQuery[] {
+  const queries: SearchQuery[] = [];
+  const seenTerms = new Set<string>();
+
+  for (const node of nodes) {
+    let budget = queriesPerNode;
+    for (const raw of [node.nodeName, ...node.keywords]) {
+      if (budget === 0 || queries.length >= MAX_SEARCH_QUERIES) break;
+      const term = raw.trim().replace(/\s+/g, ' ');
+      if (!term || seenTerms.has(term.toLowerCase())) continue;
+      seenTerms.add(term.toLowerCase());
+      queries.push({ key: `${node.nodeName}: ${term}`, nodeId: node.nodeId, term });
+      budget--;
+    }
+  }
+
+  return queries;
+}
+
+function resolveNodeQueries(value: unknown): NodeQueryInput[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((node): node is NodeQueryInput =>
+      typeof node?.nodeId === 'string' && typeof node?.nodeName === 'string')
+    .map(node => ({
+      nodeId: node.nodeId,
+      nodeName: node.nodeName,
+      keywords: Array.isArray(node.keywords) ? node.keywords.filter((k: unknown): k is string => typeof k === 'string') : [],
+    }));
+}
+
+// Multi-word terms are searched as phrases
+const searchPhrase = (term: string) => (term.includes(' ') ? `"${term}"` : term);
+
+function rawPostToRedditPost(p: RawPost, scrapedAt: string): RedditPost {
+  const subreddit = p.subreddit || '';
+  return {
+    id: p.id,
+    parsedId: `t3_${p.id}`,
+    url: `https://www.reddit.com${p.permalink || `/r/${subreddit}/comments/${p.id}`}`,
+    username: p.author || '[unknown]',
+    userId: p.author_fullname || '',
+    title: p.title || '',
+    communityName: `r/${subreddit}`,
+    parsedCommunityName: subreddit,
+    body: p.selftext || '',
+    html: '',
+    link: p.url || '',
+    numberOfComments: p.num_comments || 0,
+    flair: p.link_flair_text || '',
+    upVotes: p.score || 0,
+    upVoteRatio: p.upvote_ratio || 0,
+    isVideo: p.is_video || false,
+    isAd: false,
+    over18: p.over_18 || false,
+    thumbnailUrl: p.thumbnail || '',
+    createdAt: new Date((p.created_utc || p.created || 0) * 1000).toISOString(),
+    scrapedAt,
+    dataType: 'post'
+  };
+}
+
+// Reddit search, site-wide or restricted to the scope subreddits; OAuth first, then public JSON
+async function searchRedditPosts(
+  query: SearchQuery,
+  scope: string[],
+  params: ScrapeParams,
+  scrapedAt: string,
+  accessToken: string | null
+): Promise<{ posts: RedditPost[]; source: CommentSource | null; method: string }> {
+  const searchParams = new URLSearchParams({
+    q: searchPhrase(query.term),
+    sort: SEARCH_SORT[params.sortMode],
+    t: getRedditTimeParam(params.timeRange),
+    limit: String(params.resultsPerQuery),
+    type: 'link',
+    raw_json: '1',
+  });
+  if (scope.length > 0) searchParams.set('restrict_sr', '1');
+  const path = scope.length > 0 ? `/r/${scope.join('+')}/search` : '/search';
+
+  const sources: Array<{ source: CommentSource; url: string }> = [
+    ...(accessToken ? [{ source: oauthCommentSource(accessToken), url: `https://oauth.reddit.com${path}?${searchParams}` }] : []),
+    { source: publicCommentSource, url: `https://www.reddit.com${path}.json?${searchParams}` },
+  ];
+
+  for (const { source, url } of sources) {
+    try {
+      const response = await fetch(url, { headers: source.headers });
+      if (!response.ok) {
+        console.log(`[Search ${source.label}] Failed "${query.term}": ${response.status}`);
+        continue;
+      }
+      const data = await response.json();
+      const children: Array<{ kind: string; data: RawPost }> = data?.data?.children || [];
+      const posts = children
+        .filter(child => child.kind === 't3' && child.data.author !== '[deleted]' && !child.data.removed_by_category)
+        .map(child => rawPostToRedditPost(child.data, scrapedAt));
+      return { posts, source, method: source === publicCommentSource ? 'json' : 'oauth' };
+    } catch (error) {
+      console.log(`[Search ${source.label}] Error "${query.term}": ${error}`);
+    }
+  }
+
+  return { posts: [], source: null, method: 'reddit_failed' };
+}
+
+// Arctic Shift full-text search over post titles and bodies, and over comment bodies, which
+// Reddit's search does not cover. Scoped searches drop hits from other subreddits.
+async function searchArcticShift(
+  query: SearchQuery,
+  scope: string[],
+  params: ScrapeParams,
+  scrapedAt: string
+): Promise<{ posts: RedditPost[]; comments: RedditComment[] }> {
+  const posts: RedditPost[] = [];
+  const comments: RedditComment[] = [];
+  const inScope = (subreddit?: string) =>
+    scope.length === 0 || scope.some(s => s.toLowerCase() === (subreddit || '').toLowerCase());
+  const common = `after=${getTimestampForRange(params.timeRange)}&limit=${params.resultsPerQuery}&sort=desc&sort_type=score`;
+
+  try {
+    const postsResponse = await fetch(
+      `https://arctic-shift.photon-reddit.com/api/posts/search?query=${encodeURIComponent(query.term)}&${common}`,
+      { headers: { 'User-Agent': 'ResearchSentimentTracker/1.0' } }
+    );
+    if (postsResponse.ok) {
+      const postsData = await postsResponse.json();
+      const postsArray: RawPost[] = postsData?.data || [];
+      if (Array.isArray(postsArray)) {
+        posts.push(...postsArray
+          .filter(p => p.author !== '[deleted]' && !p.removed_by_category && inScope(p.subreddit))
+          .map(p => rawPostToRedditPost(p, scrapedAt)));
+      }
+    } else {
+      console.log(`[Search Arctic] Posts failed "${query.term}": ${postsResponse.status}`);
+    }
+  } catch (error) {
+    console.log(`[Search Arctic] Posts error "${query.term}": ${error}`);
+  }
+
+  try {
+    const commentsResponse = await fetch(
+      `https://arctic-shift.photon-reddit.com/api/comments/search?body=${encodeURIComponent(query.term)}&${common}`,
+      { headers: { 'User-Agent': 'ResearchSentimentTracker/1.0' } }
+    );
+    if (commentsResponse.ok) {
+      const commentsData = await commentsResponse.json();
+      const commentsArray: Array<RawComment & { subreddit?: string }> = commentsData?.data || [];
+      if (Array.isArray(commentsArray)) {
+        for (const c of commentsArray) {
+          if (isRemovedComment(c) || !inScope(c.subreddit)) continue;
+          comments.push(toRedditComment(c, c.link_id || '', c.subreddit || '', scrapedAt));
+        }
+      }
+    }
+  } catch {
+    // Comments are optional
+  }
+
+  return { posts, comments };
+}
+
+// Run one search query against Reddit and Arctic Shift, fetch comment trees of its most
+// commented hits, and tag everything with the query. Items are unique by parsedId.
+async function searchWithFallback(query: SearchQuery, scope: string[], params: ScrapeParams): Promise<SubredditResult> {
+  const scrapedAt = new Date().toISOString();
+  const accessToken = await getRedditAccessToken();
+
+  const [reddit, arctic] = await Promise.all([
+    searchRedditPosts(query, scope, params, scrapedAt, accessToken),
+    searchArcticShift(query, scope, params, scrapedAt),
+  ]);
+
+  const posts = new Map<string, RedditPost>();
+  [...reddit.posts, ...arctic.posts].forEach(post => {
+    if (!posts.has(post.parsedId)) posts.set(post.parsedId, post);
+  });
+
+  // Trees come from whichever Reddit endpoint answered the search, grouped by subreddit
+  const comments = new Map<string, RedditComment>();
+  const treeOptions = {
+    ...params.commentOptions,
+    postsWithComments: Math.min(params.commentOptions.postsWithComments, MAX_COMMENT_POSTS_PER_QUERY),
+  };
+  const treePosts = Array.from(posts.values())
+    .filter(p => p.numberOfComments > 0)
+    .sort((a, b) => b.numberOfComments - a.numberOfComments)
+    .slice(0, treeOptions.postsWithComments);
+  const treeSource = reddit.source ?? publicCommentSource;
+  for (const post of treePosts) {
+    const trees = await fetchCommentTrees([post], post.parsedCommunityName, scrapedAt, treeOptions, treeSource);
+    trees.forEach(comment => comments.set(comment.parsedId, comment));
+  }
+  arctic.comments.forEach(comment => {
+    if (!comments.has(comment.parsedId)) comments.set(comment.parsedId, comment);
+  });
+
+  const tag = { matchedQuery: query.term, matchedNodeId: query.nodeId };
+  const taggedPosts = Array.from(posts.values(), post => ({ ...post, ...tag }));
+  const taggedComments = Array.from(comments.values(), comment => ({ ...comment, ...tag }));
+  const method = [reddit.method, arctic.posts.length + arctic.comments.length > 0 ? 'arctic' : null].filter(Boolean).join('+');
+
+  console.log(`[Search] "${query.term}" (${query.key}): ${taggedPosts.length} posts, ${taggedComments.length} comments via ${method}`);
+  return {
+    posts: taggedPosts,
+    comments: taggedComments,
+    method,
+    success: taggedPosts.length + taggedComments.length > 0,
+  };
+}
+
+
+// Explicit date range for a backfill, in unix seconds (end exclusive), with per-subreddit caps
+interface BackfillRange {
+  startTime: number;
+  endTime: number;
+  maxPostsPerSubreddit: number;
+  maxCommentsPerSubreddit: number;
+}
+
+interface BackfillWindow {
+  // "<subreddit> <window start date>"
+  key: string;
+  subreddit: string;
+  after: number;
+  before: number;
+}
+
+// Where one kind's paging stopped: the next `after` cursor and the items collected toward the cap
+interface PageCursor {
+  after: number;
+  collected: number;
+}
+
+// A window's paging state per kind (null once that kind is finished), and whether a cap cut it short
+interface WindowResume {
+  posts: PageCursor | null;
+  comments: PageCursor | null;
+  capped: boolean;
+}
+
+interface ArcticPages<T> {
+  items: T[];
+  ok: boolean;
+  truncated?: 'cap' | 'timeout';
+  cursor?: PageCursor;
+}
+
+const ARCTIC_PAGE_SIZE = 100;
+const DAY_SECONDS = 24 * 60 * 60;
+const DEFAULT_BACKFILL_POSTS = 300;
+const MAX_BACKFILL_POSTS = 5000;
+const DEFAULT_BACKFILL_COMMENTS = 600;
+const MAX_BACKFILL_COMMENTS = 10000;
+// Ranges are split into weekly windows, widened to keep at most this many per subreddit. Each
+// window is a unit of its own with an even share of the caps, so a capped backfill still spans
+// the whole range instead of stopping in its first weeks.
+const BACKFILL_WINDOW_SECONDS = 7 * DAY_SECONDS;
+const MAX_BACKFILL_WINDOWS = 24;
+
+// Unix seconds, or anything Date.parse reads (ISO dates)
+function toUnixSeconds(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return Math.floor(value);
+  if (typeof value === 'string') {
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+  }
+  return null;
+}
+
+// Null when the range is missing or empty; ranges ending in the future end now
+function resolveBackfillRange(body: Record<string, unknown>): BackfillRange | null {
+  const startTime = toUnixSeconds(body.startTime);
+  const endTime = toUnixSeconds(body.endTime);
+  if (startTime === null || endTime === null) return null;
+  const cappedEnd = Math.min(endTime, Math.floor(Date.now() / 1000));
+  if (startTime >= cappedEnd) return null;
+  return {
+    startTime,
+    endTime: cappedEnd,
+    maxPostsPerSubreddit: clampInt(body.maxPostsPerSubreddit, DEFAULT_BACKFILL_POSTS, 0, MAX_BACKFILL_POSTS),
+    maxCommentsPerSubreddit: clampInt(body.maxCommentsPerSubreddit, DEFAULT_BACKFILL_COMMENTS, 0, MAX_BACKFILL_COMMENTS),
+  };
+}
+
+function backfillWindowCount(range: BackfillRange): number {
+  return Math.min(MAX_BACKFILL_WINDOWS, Math.max(1, Math.ceil((range.endTime - range.startTime) / BACKFILL_WINDOW_SECONDS)));
+}
+
+// Windows per subreddit, subreddit by subreddit, each oldest first
+function backfillWindows(range: BackfillRange, subreddits: string[]): BackfillWindow[] {
+  const count = backfillWindowCount(range);
+  const width = Math.ceil((range.endTime - range.startTime) / count);
+  return subreddits.flatMap(subreddit => Array.from({ length: count }, (_, i) => {
+    const after = range.startTime + i * width;
+    return {
+      key: `${subreddit} ${new Date(after * 1000).toISOString().slice(0, 10)}`,
+      subreddit,
+      after,
+      before: Math.min(range.endTime, after + width),
+    };
+  }));
+}
+
+/**
+ * Page through Arctic Shift's search oldest first, moving `after` to the last item seen, until
+ * the window is exhausted, the cap is hit or the invocation nears its time limit. Both bounds
+ * are exclusive, so the first page starts a second early to include items on the window start,
+ * and pages overlap by a second so items sharing a timestamp across a page break are not lost;
+ * ids dedupe them. A timeout returns the cursor to continue from, which `from` takes back.
+ */
+async function pageArcticShift<T extends { id: string; created_utc?: number }>(
+  kind: 'posts' | 'comments',
+  subreddit: string,
+  after: number,
+  before: number,
+  cap: number,
+  from?: PageCursor
+): Promise<ArcticPages<T>> {
+  const items: T[] = [];
+  const seen = new Set<string>();
+  const room = () => cap - (from?.collected ?? 0) - items.length;
+  let cursor = from?.after ?? after - 1;
+
+  while (room() > 0) {
+    if (isNearTimeout()) {
+      return { items, ok: true, truncated: 'timeout', cursor: { after: cursor, collected: cap - room() } };
+    }
+
+    const url = `https://arctic-shift.photon-reddit.com/api/${kind}/search?subreddit=${subreddit}&after=${cursor}&before=${before}&limit=${ARCTIC_PAGE_SIZE}&sort=asc`;
+    const response = await fetch(url, { headers: { 'User-Agent': 'ResearchSentimentTracker/1.0' } });
+    if (!response.ok) {
+      console.log(`[Backfill] ${kind} failed r/${subreddit}: ${response.status}`);
+      return { items, ok: items.length > 0 || (from?.collected ?? 0) > 0 };
+    }
+
+    const pageData = await response.json();
+    const page: T[] = Array.isArray(pageData?.data) ? pageData.data : [];
+    const fresh = page.filter(item => !seen.has(item.id));
+    const pageRoom = room();
+    fresh.slice(0, pageRoom).forEach(item => {
+      seen.add(item.id);
+      items.push(item);
+    });
+
+    if (fresh.length > pageRoom) return { items, ok: true, truncated: 'cap' };
+    if (page.length < ARCTIC_PAGE_SIZE || fresh.length === 0) return { items, ok: true };
+    cursor = Math.max(cursor, (page[page.length - 1].created_utc ?? cursor) - 1);
+  }
+
+  return { items, ok: true, truncated: 'cap' };
+}
+
+/**
+ * One subreddit window of a backfill, from the Arctic Shift archive. `previous` is the partial
+ * result of an invocation that timed out in this window; paging continues from its cursors and
+ * the items it collected are kept.
+ */
+async function backfillWindow(
+  window: BackfillWindow,
+  range: BackfillRange,
+  windowsPerSubreddit: number,
+  previous?: SubredditResult
+): Promise<SubredditResult> {
+  const scrapedAt = new Date().toISOString();
+  const { subreddit, after, before } = window;
+  const resume = previous?.resume;
+  const postPages: ArcticPages<RawPost> = resume?.posts === null
+    ? { items: [], ok: true }
+    : await pageArcticShift<RawPost>(
+      'posts', subreddit, after, before, Math.ceil(range.maxPostsPerSubreddit / windowsPerSubreddit), resume?.posts
+    );
+  // Comments wait until the posts are finished, so the window resumes from a single cursor per kind
+  const commentPages: ArcticPages<RawComment> = resume?.comments === null
+    ? { items: [], ok: true }
+    : postPages.truncated === 'timeout'
+      ? { items: [], ok: true, truncated: 'timeout', cursor: resume?.comments ?? { after: after - 1, collected: 0 } }
+      : await pageArcticShift<RawComment>(
+        'comments', subreddit, after, before, Math.ceil(range.maxCommentsPerSubreddit / windowsPerSubreddit), resume?.comments
+      );
+
+  // The resumed page overlaps the last one by a second, so items carried over are skipped
+  const carriedPosts = resume ? previous!.posts : [];
+  const carriedComments = resume ? previous!.comments : [];
+  const carriedPostIds = new Set(carriedPosts.map(p => p.id));
+  const carriedCommentIds = new Set(carriedComments.map(c => c.id));
+  const posts = [
+    ...carriedPosts,
+    ...postPages.items
+      .filter(p => !carriedPostIds.has(p.id) && p.author !== '[deleted]' && !p.removed_by_category)
+      .map(p => rawPostToRedditPost({ ...p, subreddit: p.subreddit || subreddit }, scrapedAt)),
+  ];
+  const comments = [
+    ...carriedComments,
+    ...commentPages.items
+      .filter(c => !carriedCommentIds.has(c.id) && !isRemovedComment(c))
+      .map(c => toRedditComment(c, c.link_id || '', subreddit, scrapedAt)),
+  ];
+  const timedOut = postPages.truncated === 'timeout' || commentPages.truncated === 'timeout';
+  const capped = !!resume?.capped || postPages.truncated === 'cap' || commentPages.truncated === 'cap';
+  const truncated = timedOut ? 'timeout' : capped ? 'cap' : undefined;
+
+  console.log(`[Backfill] ${window.key}: ${posts.length} posts, ${comments.length} comments${resume ? ' (resumed)' : ''}${truncated ? ` (stopped at ${truncated})` : ''}`);
+  return {
+    posts,
+    comments,
+    method: 'arctic',
+    // An empty window is a quiet week, not a failure
+    success: postPages.ok,
+    ...(truncated && { truncated }),
+    ...(timedOut && {
+      resume: {
+        // Only a timeout leaves a cursor
+        posts: postPages.cursor ?? null,
+        comments: commentPages.cursor ?? null,
+        capped,
+      },
+    }),
+  };
+}
+
+// listing: each subreddit's top/hot/rising listing; search: queries built from node keywords;
+// backfill: every post and comment of an explicit date range, from the archive
+type CollectionMode = 'listing' | 'search' | 'backfill';
+
+interface ScrapeParams {
+  // Missing on jobs queued before search collection, which were all listings
+  mode?: CollectionMode;
+  timeRange: TimeRange;
+  sortMode: SortMode;
+  postsPerSubreddit: number;
+  fastMode: boolean;
+  saveToDb: boolean;
+  commentOptions: CommentTreeOptions;
+  // Search mode: the query plan, where to search, and the hits kept per source and query
+  queries: SearchQuery[];
+  searchScope: SearchScope;
+  resultsPerQuery: number;
+  // Backfill mode: the range and caps; null otherwise
+  backfill: BackfillRange | null;
+}
+
+interface ScrapeOutcome {
+  posts: RedditPost[];
+  comments: RedditComment[];
+  // Per subreddit in listing mode, per query in search mode
+  unitStats: Record<string, { posts: number; comments: number; method: string }>;
+  failedUnits: string[];
+  methodStats: { oauth: number; json: number; rss: number; arctic: number; failed: number };
+  summary: Record<string, unknown>;
+}
+
+type ScrapeJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Row of public.scrape_jobs
+interface ScrapeJob {
+  id: string;
+  user_id: string | null;
+  status: ScrapeJobStatus;
+  error: string | null;
+  params: ScrapeParams;
+  // The subreddits listed, or the search scope
+  subreddits: string[];
+  // Index into the job's units (see scrapeUnits)
+  next_index: number;
+  results: Record<string, SubredditResult>;
+  invocations: number;
+  summary: Record<string, unknown> | null;
+  data: Array<RedditPost | RedditComment> | null;
+  data_source_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Batch size 3 (subreddits or queries) for API requests to avoid rate limiting
+const SCRAPE_BATCH_SIZE = 3;
+const DELAY_BETWEEN_BATCHES_MS = 1000; // 1 second between batches
+
+// A running job whose invocation has not checkpointed for this long is assumed dead and taken over
+const STALE_JOB_MS = 2 * 60 * 1000;
+// A queued job no invocation picked up this long after its last checkpoint is re-invoked by a status poll
+const QUEUED_PICKUP_MS = 15 * 1000;
+
+// Everything but the scraped items, which only completed jobs return and only when asked
+const JOB_STATUS_COLUMNS = 'id, user_id, status, error, params, subreddits, next_index, invocations, summary, data_source_id, created_at, updated_at';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Service-role client; background jobs are optional, so scrapes still run in one invocation without it
+function createJobClient(): SupabaseClient | null {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return supabaseUrl && serviceKey ? createClient(supabaseUrl, serviceKey) : null;
+}
+
+// Signed-in user behind a request's bearer token; null for anonymous requests and the anon key
+async function requestUserId(client: SupabaseClient, req: Request): Promise<string | null> {
+  const jwt = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!jwt) return null;
+  const { data: { user } } = await client.auth.getUser(jwt);
+  return user?.id ?? null;
+}
+
+// Only the function itself, re-invoking with the service key, may run a job's next slice
+function isServiceRequest(req: Request): boolean {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceKey && req.headers.get('Authorization') === `Bearer ${serviceKey}`;
+}
+
+// Keep work going after the response is sent; the edge runtime would otherwise stop it
+function runInBackground(work: Promise<unknown>): void {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime;
+  if (runtime) runtime.waitUntil(work);
+}
+
+function resolveScrapeParams(body: Record<string, unknown>): ScrapeParams {
+  const {
+    timeRange = 'day',
+    sortMode = 'top',
+    postsPerSubreddit = 25,
+    saveToDb = true,
+    fastMode = true
+  } = body;
+  const mode: CollectionMode = body.mode === 'search' || body.mode === 'backfill' ? body.mode : 'listing';
+  return {
+    mode,
+    timeRange: timeRange as TimeRange,
+    sortMode: sortMode as SortMode,
+    postsPerSubreddit: postsPerSubreddit as number,
+    fastMode: fastMode !== false,
+    saveToDb: saveToDb !== false,
+    commentOptions: resolveCommentOptions(body),
+    queries: mode === 'search'
+      ? buildSearchQueries(
+          resolveNodeQueries(body.nodeQueries),
+          clampInt(body.queriesPerNode, DEFAULT_QUERIES_PER_NODE, 1, MAX_QUERIES_PER_NODE)
+        )
+      : [],
+    searchScope: body.searchScope === 'sitewide' ? 'sitewide' : 'subreddits',
+    resultsPerQuery: clampInt(body.resultsPerQuery, DEFAULT_RESULTS_PER_QUERY, 1, MAX_RESULTS_PER_QUERY),
+    backfill: mode === 'backfill' ? resolveBackfillRange(body) : null,
+  };
+}
+
+// What a scrape is batched, checkpointed and reported in: subreddits, search query keys, or
+// backfill windows
+function scrapeUnits(params: ScrapeParams, subreddits: string[]): string[] {
+  if (params.mode === 'search') return params.queries.map(query => query.key);
+  if (params.mode === 'backfill') return params.backfill ? backfillWindows(params.backfill, subreddits).map(w => w.key) : [];
+  return subreddits;
+}
+
+function scrapeUnit(unit: string, params: ScrapeParams, subreddits: string[], previous?: SubredditResult): Promise<SubredditResult> {
+  if (params.mode === 'search') {
+    const query = params.queries.find(q => q.key === unit)!;
+    return searchWithFallback(query, params.searchScope === 'sitewide' ? [] : subreddits, params);
+  }
+  if (params.mode === 'backfill' && params.backfill) {
+    const window = backfillWindows(params.backfill, subreddits).find(w => w.key === unit)!;
+    return backfillWindow(window, params.backfill, backfillWindowCount(params.backfill), previous);
+  }
+  return scrapeWithFallback(unit, params.timeRange, params.sortMode, params.postsPerSubreddit, params.commentOptions);
+}
+
+// Scrape units in batches until all are done or the invocation nears its time limit.
+// onBatch sees each finished batch, in order; units not reached are missing from the result.
+// `previous` holds results checkpointed by earlier invocations, for windows to resume from.
+async function scrapeBatches(
+  units: string[],
+  subreddits: string[],
+  params: ScrapeParams,
+  onBatch?: (batch: string[], results: Record<string, SubredditResult>) => Promise<void>,
+  previous: Record<string, SubredditResult> = {}
+): Promise<Record<string, SubredditResult>> {
+  const results: Record<string, SubredditResult> = {};
+
+  for (let i = 0; i < units.length; i += SCRAPE_BATCH_SIZE) {
+    if (isNearTimeout()) {
+      console.log(`[Scraper] Approaching timeout at batch ${Math.floor(i/SCRAPE_BATCH_SIZE) + 1}, stopping with ${units.length - i} left`);
+      break;
+    }
+
+    const batch = units.slice(i, i + SCRAPE_BATCH_SIZE);
+    console.log(`[Batch ${Math.floor(i/SCRAPE_BATCH_SIZE) + 1}/${Math.ceil(units.length/SCRAPE_BATCH_SIZE)}] ${batch.join(', ')}`);
+
+    const batchResults = await Promise.all(batch.map(unit => scrapeUnit(unit, params, subreddits, previous[unit])));
+    const batchByUnit: Record<string, SubredditResult> = {};
+    batch.forEach((unit, j) => { batchByUnit[unit] = batchResults[j]; });
+    Object.assign(results, batchByUnit);
+    if (onBatch) await onBatch(batch, batchByUnit);
+
+    // Delay between batches to avoid rate limiting
+    if (i + SCRAPE_BATCH_SIZE < units.length && !isNearTimeout()) {
+      await new Promise(resolve => setTimeout(resolve, DELAY_BETWEEN_BATCHES_MS));
+    }
+  }
+
+  return results;
+}
+
+// Merge per-unit results into the filtered posts and comments and the response summary
+function assembleScrape(
+  units: string[],
+  subreddits: string[],
+  results: Record<string, SubredditResult>,
+  params: ScrapeParams
+): ScrapeOutcome {
+  const { timeRange, sortMode, fastMode, commentOptions } = params;
+  const search = params.mode === 'search';
+  const backfill = params.mode === 'backfill' ? params.backfill : null;
+  const allPosts: RedditPost[] = [];
+  const allComments: RedditComment[] = [];
+  const unitStats: ScrapeOutcome['unitStats'] = {};
+  const failedUnits: string[] = [];
+  const truncatedUnits: string[] = [];
+  const methodStats = { oauth: 0, json: 0, rss: 0, arctic: 0, failed: 0 };
+  // Search queries overlap; an item keeps the first query (in plan order) that found it.
+  // Backfill windows share a boundary second, so an item can come back from both.
+  const seenIds = new Set<string>();
+  const unseen = (item: RedditPost | RedditComment) => {
+    if (seenIds.has(item.parsedId)) return false;
+    seenIds.add(item.parsedId);
+    return true;
+  };
+
+  units.forEach(unit => {
+    const result = results[unit];
+    if (!result) return;
+    const { posts, comments, method, success } = result;
+    if (result.truncated) truncatedUnits.push(unit);
+
+    if (!success) {
+      failedUnits.push(unit);
+      methodStats.failed++;
+    } else {
+      // Search results combine sources, e.g. oauth+arctic
+      method.split('+').forEach(part => {
+        if (part === 'oauth') methodStats.oauth++;
+        else if (part === 'json') methodStats.json++;
+        else if (part === 'rss') methodStats.rss++;
+        else if (part === 'arctic') methodStats.arctic++;
+      });
+    }
+
+    allPosts.push(...(search || backfill ? posts.filter(unseen) : posts));
+    allComments.push(...(search || backfill ? comments.filter(unseen) : comments));
+    unitStats[unit] = { posts: posts.length, comments: comments.length, method };
+  });
+
+  const totalUpvotes = allPosts.reduce((a, p) => a + p.upVotes, 0);
+  const avgUpvotes = allPosts.length > 0 ? Math.round(totalUpvotes / allPosts.length) : 0;
+  const postsWithEngagement = allPosts.filter(p => p.upVotes > 0 || p.numberOfComments > 0).length;
+
+  console.log(`[Scraper] Raw total: ${allPosts.length} posts (${postsWithEngagement} with engagement, avg ${avgUpvotes} upvotes), ${allComments.length} comments`);
+  console.log(`[Scraper] Methods: OAuth=${methodStats.oauth}, JSON=${methodStats.json}, RSS=${methodStats.rss}, Arctic=${methodStats.arctic}, Failed=${methodStats.failed}`);
+
+  // Sort by engagement; a backfill corpus stays in time order
+  const createdMs = (item: RedditPost | RedditComment) => new Date(item.createdAt).getTime();
+  if (backfill) {
+    allPosts.sort((a, b) => createdMs(a) - createdMs(b));
+    allComments.sort((a, b) => createdMs(a) - createdMs(b));
+  } else {
+    allPosts.sort((a, b) => (b.upVotes + b.numberOfComments) - (a.upVotes + a.numberOfComments));
+    allComments.sort((a, b) => b.upVotes - a.upVotes);
+  }
+
+  // Filter by time range, or the backfill's explicit range
+  const inRange = backfill
+    ? (item: RedditPost | RedditComment) => createdMs(item) >= backfill.startTime * 1000 && createdMs(item) < backfill.endTime * 1000
+    : (item: RedditPost | RedditComment) => createdMs(item) >= getTimestampForRange(timeRange) * 1000;
+  const timeFilteredPosts = allPosts.filter(inRange);
+  const timeFilteredComments = allComments.filter(inRange);
+
+  // Apply AI-relevance filter for general subreddits; search hits are relevant by their node query
+  const filteredPosts = search ? timeFilteredPosts : timeFilteredPosts.filter(p => {
+    // Always keep posts from AI-specific subreddits
+    if (isAISpecificSubreddit(p.parsedCommunityName)) return true;
+    // For general subreddits, check if content is AI-related
+    const textToCheck = `${p.title} ${p.body}`;
+    return isAIRelated(textToCheck);
+  });
+
+  const keptPostIds = new Set(filteredPosts.map(p => p.parsedId));
+  const filteredComments = search ? timeFilteredComments : timeFilteredComments.filter(c => {
+    // Always keep comments from AI-specific subreddits
+    if (isAISpecificSubreddit(c.communityName.replace('r/', ''))) return true;
+    // Replies in a kept thread stay with it, so threads are not cut into fragments
+    if (keptPostIds.has(c.postId)) return true;
+    // For general subreddits, check if content is AI-related
+    return isAIRelated(c.body);
+  });
+
+  const aiFilteredOut = (timeFilteredPosts.length - filteredPosts.length) + (timeFilteredComments.length - filteredComments.length);
+  console.log(`[Scraper] After time filter: ${timeFilteredPosts.length} posts, ${timeFilteredComments.length} comments`);
+  console.log(`[Scraper] After AI filter: ${filteredPosts.length} posts, ${filteredComments.length} comments (${aiFilteredOut} non-AI items filtered)`);
+
+  // Search hits are counted per subreddit they came from, with the queries reported apart;
+  // backfill windows are rolled up into their subreddit
+  const subredditStats = search || backfill
+    ? countBySubreddit(filteredPosts, filteredComments, search ? 'search' : 'arctic')
+    : unitStats;
+  const successCount = Object.keys(subredditStats).filter(k => subredditStats[k].posts > 0).length;
+
+  return {
+    posts: filteredPosts,
+    comments: filteredComments,
+    unitStats,
+    failedUnits,
+    methodStats,
+    summary: {
+      mode: params.mode ?? 'listing',
+      totalPosts: filteredPosts.length,
+      totalComments: filteredComments.length,
+      postsWithEngagement,
+      avgUpvotes,
+      subredditsScraped: successCount,
+      subredditsRequested: search && params.searchScope === 'sitewide' ? 0 : subreddits.length,
+      failedSubreddits: search || backfill ? 0 : failedUnits.length,
+      timeRange,
+      sortMode,
+      fastMode,
+      methodStats,
+      subredditStats,
+      commentOptions,
+      maxCommentDepth: filteredComments.reduce((max, c) => Math.max(max, c.depth ?? 0), 0),
+      ...(search && {
+        searchScope: params.searchScope,
+        queriesRun: Object.keys(unitStats).length,
+        failedQueries: failedUnits.length,
+        queryStats: unitStats,
+      }),
+      ...(backfill && {
+        corpus: describeCorpus(backfill, subreddits, filteredPosts, filteredComments),
+        windowsRun: Object.keys(unitStats).length,
+        failedWindows: failedUnits,
+        // Windows that stopped at their share of the cap or the time limit, so are not complete
+        truncatedWindows: truncatedUnits,
+        windowStats: unitStats,
+      })
+    },
+  };
+}
+
+// Range and per-day volume of a backfill corpus, for trend analysis over the range
+function describeCorpus(range: BackfillRange, subreddits: string[], posts: RedditPost[], comments: RedditComment[]) {
+  const dailyCounts: Record<string, { posts: number; comments: number }> = {};
+  const day = (item: RedditPost | RedditComment) => (dailyCounts[item.createdAt.slice(0, 10)] ??= { posts: 0, comments: 0 });
+  posts.forEach(p => { day(p).posts++; });
+  comments.forEach(c => { day(c).comments++; });
+
+  return {
+    startTime: new Date(range.startTime * 1000).toISOString(),
+    endTime: new Date(range.endTime * 1000).toISOString(),
+    subreddits,
+    windowsPerSubreddit: backfillWindowCount(range),
+    maxPostsPerSubreddit: range.maxPostsPerSubreddit,
+    maxCommentsPerSubreddit: range.maxCommentsPerSubreddit,
+    dailyCounts: Object.fromEntries(Object.entries(dailyCounts).sort(([a], [b]) => a.localeCompare(b))),
+  };
+}
+
+function countBySubreddit(posts: RedditPost[], comments: RedditComment[], method: string): ScrapeOutcome['unitStats'] {
+  const stats: ScrapeOutcome['unitStats'] = {};
+  const entry = (subreddit: string) => (stats[subreddit] ??= { posts: 0, comments: 0, method });
+  posts.forEach(p => { entry(p.parsedCommunityName).posts++; });
+  comments.forEach(c => { entry(c.communityName.replace('r/', '')).comments++; });
+  return stats;
+}
+
+async function saveDataSource(
+  supabase: SupabaseClient,
+  userId: string,
+  outcome: ScrapeOutcome,
+  params: ScrapeParams
+): Promise<string | null> {
+  const { timeRange, sortMode, fastMode, commentOptions } = params;
+  const search = params.mode === 'search';
+  const backfill = params.mode === 'backfill' ? params.backfill : null;
+  const dateLabel = (seconds: number) => new Date(seconds * 1000).toISOString().slice(0, 10);
+  const timeRangeLabel = {
+    'day': 'Today',
+    '3days': 'Past 3 Days',
+    'week': 'Past Week',
+    'month': 'Past Month'
+  }[timeRange as string] || timeRange;
+
+  const sortModeLabel = {
+    'top': 'Top',
+    'hot': 'Hot',
+    'rising': 'Rising'
+  }[sortMode as string] || sortMode;
+
+  const { data: dataSource, error: insertError } = await supabase
+    .from('data_sources')
+    .insert({
+      user_id: userId,
+      name: backfill
+        // The end is exclusive; name the last day covered
+        ? `Reddit Backfill ${dateLabel(backfill.startTime)} to ${dateLabel(backfill.endTime - 1)}, ${outcome.summary.subredditsRequested} subreddits`
+        : search
+          ? `Reddit Search ${sortModeLabel} - ${timeRangeLabel}, ${params.queries.length} queries (${new Date().toLocaleDateString()})`
+          : `Reddit ${sortModeLabel} - ${timeRangeLabel} (${new Date().toLocaleDateString()})`,
+      source_type: 'reddit_json',
+      url: null,
+      content: {
+        posts: outcome.posts,
+        comments: outcome.comments,
+        subredditStats: outcome.summary.subredditStats,
+        timeRange,
+        sortMode,
+        fastMode,
+        failedSubreddits: search || backfill ? [] : outcome.failedUnits,
+        methodStats: outcome.methodStats,
+        commentOptions,
+        scrapedAt: new Date().toISOString(),
+        totalSubreddits: outcome.summary.subredditsRequested,
+        ...(search && {
+          searchScope: params.searchScope,
+          queries: params.queries,
+          queryStats: outcome.unitStats,
+          failedQueries: outcome.failedUnits,
+        }),
+        ...(backfill && {
+          mode: 'backfill',
+          corpus: outcome.summary.corpus,
+          failedWindows: outcome.failedUnits,
+          truncatedWindows: outcome.summary.truncatedWindows,
+        })
+      },
+      item_count: outcome.posts.length + outcome.comments.length
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    console.error('[DB] Insert error:', insertError);
+    return null;
+  }
+  console.log(`[DB] Saved: ${dataSource.id}`);
+  return dataSource.id;
+}
+
+async function logScrapeMetrics(
+  supabase: SupabaseClient,
+  outcome: ScrapeOutcome,
+  params: ScrapeParams,
+  executionTimeMs: number
+): Promise<void> {
+  const totalItems = outcome.posts.length + outcome.comments.length;
+  try {
+    await supabase
+      .from('scrape_metrics')
+      .insert({
+        scrape_type: params.mode === 'search' ? 'reddit_search' : params.mode === 'backfill' ? 'reddit_backfill' : 'reddit',
+        time_range: params.mode === 'backfill' ? 'custom' : params.timeRange,
+        sort_mode: params.sortMode,
+        fast_mode: params.fastMode,
+        subreddits_attempted: outcome.summary.subredditsRequested,
+        subreddits_successful: outcome.summary.subredditsScraped,
+        posts_collected: outcome.posts.length,
+        comments_collected: outcome.comments.length,
+        total_items: totalItems,
+        execution_time_ms: executionTimeMs
+      });
+    console.log(`[Metrics] Logged: ${totalItems} items in ${executionTimeMs}ms`);
+  } catch (metricsError) {
+    console.error('[Metrics] Failed to log:', metricsError);
+  }
+}
+
+// Ask a fresh invocation to take the job's next slice; it answers as soon as it has claimed it
+async function invokeJobSlice(jobId: string): Promise<void> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/scrape-reddit-bulk`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${serviceKey}`,
+      },
+      body: JSON.stringify({ action: 'continue', jobId }),
+    });
+    if (!response.ok) console.error(`[Job ${jobId}] Re-invocation failed: ${response.status}`);
+  } catch (error) {
+    // A status poll re-invokes the job once it has sat queued for a while
+    console.error(`[Job ${jobId}] Re-invocation failed:`, error);
+  }
+}
+
+// Scrape the job's next slice, checkpointing after every batch; hand the rest to the next
+// invocation, or assemble, save and complete the job when the last subreddit or query is done
+async function processJobSlice(client: SupabaseClient, job: ScrapeJob): Promise<void> {
+  const units = scrapeUnits(job.params, job.subreddits);
+  let nextIndex = job.next_index;
+  console.log(`[Job ${job.id}] Invocation ${job.invocations}: ${units.length - nextIndex} of ${units.length} ${job.params.mode === 'search' ? 'queries' : 'subreddits'} left`);
+
+  try {
+    const sliceResults = await scrapeBatches(units.slice(nextIndex), job.subreddits, job.params, async (batch, batchResults) => {
+      // Only units finished in order count as done. A backfill window the time limit cut off is
+      // stored with its cursor for the next invocation to resume; units after it are redone.
+      const cutOff = batch.findIndex(unit => batchResults[unit].truncated === 'timeout');
+      const done = cutOff === -1 ? batch.length : cutOff;
+      const checkpointed = batch.slice(0, cutOff === -1 ? batch.length : cutOff + 1);
+      nextIndex += done;
+      const { error } = await client.rpc('record_scrape_slice', {
+        p_job_id: job.id,
+        p_results: Object.fromEntries(checkpointed.map(unit => [unit, batchResults[unit]])),
+        p_next_index: nextIndex,
+      });
+      if (error) throw new Error(`Failed to checkpoint job: ${error.message}`);
+    }, job.results);
+
+    if (nextIndex < units.length) {
+      const { error } = await client.from('scrape_jobs').update({ status: 'queued' }).eq('id', job.id);
+      if (error) throw new Error(`Failed to requeue job: ${error.message}`);
+      await invokeJobSlice(job.id);
+      return;
+    }
+
+    const outcome = assembleScrape(units, job.subreddits, { ...job.results, ...sliceResults }, job.params);
+    const dataSourceId = job.params.saveToDb && job.user_id && outcome.posts.length + outcome.comments.length > 0
+      ? await saveDataSource(client, job.user_id, outcome, job.params)
+      : null;
+    await logScrapeMetrics(client, outcome, job.params, Date.now() - new Date(job.created_at).getTime());
+
+    const { error } = await client
+      .from('scrape_jobs')
+      .update({
+        status: 'completed',
+        summary: { ...outcome.summary, invocations: job.invocations },
+        data: [...outcome.posts, ...outcome.comments],
+        data_source_id: dataSourceId,
+        // The per-subreddit results are now in data
+        results: {},
+      })
+      .eq('id', job.id);
+    if (error) throw new Error(`Failed to complete job: ${error.message}`);
+    console.log(`[Job ${job.id}] Completed after ${job.invocations} invocations`);
+  } catch (error) {
+    console.error(`[Job ${job.id}] Failed:`, error);
+    await client
+      .from('scrape_jobs')
+      .update({ status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' })
+      .eq('id', job.id);
+  }
+}
+
+// Progress of a job for the status endpoint; re-invokes jobs whose invocation chain broke off.
+// A signed-in user's job is reported to that user only; anonymous jobs to whoever has the id.
+async function describeJob(
+  client: SupabaseClient,
+  jobId: string,
+  includeData: boolean,
+  callerId: string | null
+): Promise<Response> {
+  const { data, error } = await client.from('scrape_jobs').select(JOB_STATUS_COLUMNS).eq('id', jobId).maybeSingle();
+  if (error) throw new Error(`Failed to load job: ${error.message}`);
+  const job = data as Omit<ScrapeJob, 'results' | 'data'> | null;
+  // Someone else's job answers like a missing one, so job ids cannot be probed
+  if (!job || (job.user_id !== null && job.user_id !== callerId)) return jsonResponse({ error: 'Job not found' }, 404);
+
+  const units = scrapeUnits(job.params, job.subreddits);
+  const idleMs = Date.now() - new Date(job.updated_at).getTime();
+  const stalled = (job.status === 'queued' && idleMs > QUEUED_PICKUP_MS)
+    || (job.status === 'running' && idleMs > STALE_JOB_MS);
+  if (stalled) {
+    console.log(`[Job ${job.id}] ${job.status} and idle for ${Math.round(idleMs / 1000)}s, re-invoking`);
+    await invokeJobSlice(job.id);
+  }
+
+  let items: ScrapeJob['data'] = null;
+  if (includeData && job.status === 'completed') {
+    const { data: row, error: dataError } = await client.from('scrape_jobs').select('data').eq('id', jobId).single();
+    if (dataError) throw new Error(`Failed to load job data: ${dataError.message}`);
+    items = (row as Pick<ScrapeJob, 'data'>).data ?? [];
+  }
+
+  const finished = job.status === 'completed' || job.status === 'failed';
+  return jsonResponse({
+    job: {
+      id: job.id,
+      status: job.status,
+      error: job.error,
+      mode: job.params.mode ?? 'listing',
+      subreddits: job.subreddits,
+      units,
+      completedUnits: job.next_index,
+      currentBatch: finished ? [] : units.slice(job.next_index, job.next_index + SCRAPE_BATCH_SIZE),
+      invocations: job.invocations,
+      active: job.status === 'running' && idleMs <= STALE_JOB_MS,
+      summary: job.summary,
+      dataSourceId: job.data_source_id,
+      createdAt: job.created_at,
+      updatedAt: job.updated_at,
+    },
+    ...(items && { data: items }),
+  });
+}
+
+// Request body: a scrape ({subreddits?, timeRange, ..., background?}; with mode 'search' also
+// {nodeQueries, queriesPerNode?, resultsPerQuery?, searchScope?}; with mode 'backfill' also
+// {startTime, endTime, maxPostsPerSubreddit?, maxCommentsPerSubreddit?}), a job status check
+// ({action: 'status', jobId, includeData?}; signed-in users' jobs need their token) or the next
+// slice of a job ({action: 'continue', jobId}, sent by the function to itself with the service key)
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  executionStart = Date.now();
+
   try {
-    const { 
-      subreddits, 
-      timeRange = 'day',
-      sortMode = 'top',
-      postsPerSubreddit = 25,
-      saveToDb = true,
-      fastMode = true
-    } = await req.json();
-
-    const targetSubreddits = subreddits || (fastMode ? FAST_MODE_SUBREDDITS : DEFAULT_SUBREDDITS);
+    const body = await req.json();
+
+    if (body.action === 'status' || body.action === 'continue') {
+      const jobClient = createJobClient();
+      if (!jobClient) return jsonResponse({ error: 'Scrape jobs are not configured' }, 503);
+      if (typeof body.jobId !== 'string') return jsonResponse({ error: 'jobId is required' }, 400);
+
+      if (body.action === 'status') {
+        return await describeJob(jobClient, body.jobId, body.includeData === true, await requestUserId(jobClient, req));
+      }
+      if (!isServiceRequest(req)) return jsonResponse({ error: 'Forbidden' }, 403);
+
+      const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+      const { data: claimed, error } = await jobClient.rpc('claim_scrape_job', { p_job_id: body.jobId, p_stale_before: staleBefore });
+      if (error) throw new Error(`Failed to claim job: ${error.message}`);
+      const job = (claimed as ScrapeJob[] | null)?.[0];
+      if (!job) {
+        // Finished, or another invocation holds it
+        return jsonResponse({ accepted: false });
+      }
+      runInBackground(processJobSlice(jobClient, job));
+      return jsonResponse({ accepted: true, jobId: job.id }, 202);
+    }
+
+    const params = resolveScrapeParams(body);
+    const { subreddits } = body;
+    const targetSubreddits: string[] = subreddits || (params.fastMode ? FAST_MODE_SUBREDDITS : DEFAULT_SUBREDDITS);
+    const { timeRange, sortMode, fastMode, commentOptions } = params;
+    const units = scrapeUnits(params, targetSubreddits);
+    if (params.mode === 'search' && units.length === 0) {
+      return jsonResponse({ error: 'Search needs nodeQueries with at least one node name or keyword' }, 400);
+    }
+    if (params.mode === 'backfill' && !params.backfill) {
+      return jsonResponse({ error: 'Backfill needs startTime before endTime (unix seconds or ISO dates), starting in the past' }, 400);
+    }
     
     console.log(`[Scraper] Starting: ${targetSubreddits.length} subreddits, timeRange=${timeRange}, sortMode=${sortMode}, fastMode=${fastMode}`);
+    if (params.mode === 'search') {
+      console.log(`[Scraper] Search: ${units.length} queries, ${params.searchScope === 'sitewide' ? 'site-wide' : `within ${targetSubreddits.length} subreddits`}, up to ${params.resultsPerQuery} hits per source`);
+    }
+    if (params.backfill) {
+      const { startTime, endTime, maxPostsPerSubreddit, maxCommentsPerSubreddit } = params.backfill;
+      console.log(`[Scraper] Backfill: ${new Date(startTime * 1000).toISOString()} to ${new Date(endTime * 1000).toISOString()}, ${units.length} windows, up to ${maxPostsPerSubreddit} posts and ${maxCommentsPerSubreddit} comments per subreddit`);
+    }
+    console.log(`[Scraper] Comments: ${commentOptions.postsWithComments} posts/subreddit, depth ${commentOptions.depth}, up to ${commentOptions.maxPerPost} per post`);
 
     // Auth is optional - function works without login
     const authHeader = req.headers.get('Authorization');
@@ -763,195 +2160,50 @@ serve(async (req) => {
     console.log(`[Auth] User: ${user ? user.email : 'anonymous'}`);
     
     // If no user, disable DB saving
-    const actualSaveToDb = saveToDb && user !== null;
-
-    // Scrape with optimized parallelism
-    const allPosts: RedditPost[] = [];
-    const allComments: RedditComment[] = [];
-    const subredditStats: Record<string, { posts: number; comments: number; method: string }> = {};
-    const failedSubreddits: string[] = [];
-    const methodStats = { oauth: 0, json: 0, rss: 0, arctic: 0, failed: 0 };
-
-    // Batch size 3 for API requests to avoid rate limiting
-    const batchSize = 3;
-    const delayBetweenBatches = 1000; // 1 second between batches
-
-    for (let i = 0; i < targetSubreddits.length; i += batchSize) {
-      if (isNearTimeout()) {
-        console.log(`[Scraper] Approaching timeout at batch ${Math.floor(i/batchSize) + 1}, returning partial results`);
-        break;
-      }
-
-      const batch = targetSubreddits.slice(i, i + batchSize);
-      console.log(`[Batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(targetSubreddits.length/batchSize)}] ${batch.join(', ')}`);
-      
-      const batchResults = await Promise.all(
-        batch.map((sub: string) => scrapeWithFallback(sub, timeRange as TimeRange, sortMode as SortMode, postsPerSubreddit))
-      );
-
-      for (let j = 0; j < batch.length; j++) {
-        const subreddit = batch[j];
-        const { posts, comments, method, success } = batchResults[j];
-        
-        if (!success) {
-          failedSubreddits.push(subreddit);
-          methodStats.failed++;
-        } else {
-          if (method === 'oauth') methodStats.oauth++;
-          else if (method === 'json') methodStats.json++;
-          else if (method === 'rss') methodStats.rss++;
-          else if (method === 'arctic') methodStats.arctic++;
-        }
-        
-        allPosts.push(...posts);
-        allComments.push(...comments);
-        subredditStats[subreddit] = { posts: posts.length, comments: comments.length, method };
-      }
-
-      // Delay between batches to avoid rate limiting
-      if (i + batchSize < targetSubreddits.length && !isNearTimeout()) {
-        await new Promise(resolve => setTimeout(resolve, delayBetweenBatches));
-      }
-    }
-
-    const totalUpvotes = allPosts.reduce((a, p) => a + p.upVotes, 0);
-    const avgUpvotes = allPosts.length > 0 ? Math.round(totalUpvotes / allPosts.length) : 0;
-    const postsWithEngagement = allPosts.filter(p => p.upVotes > 0 || p.numberOfComments > 0).length;
-    
-    console.log(`[Scraper] Raw total: ${allPosts.length} posts (${postsWithEngagement} with engagement, avg ${avgUpvotes} upvotes), ${allComments.length} comments`);
-    console.log(`[Scraper] Methods: OAuth=${methodStats.oauth}, JSON=${methodStats.json}, RSS=${methodStats.rss}, Arctic=${methodStats.arctic}, Failed=${methodStats.failed}`);
-
-    // Sort by engagement
-    allPosts.sort((a, b) => (b.upVotes + b.numberOfComments) - (a.upVotes + a.numberOfComments));
-    allComments.sort((a, b) => b.upVotes - a.upVotes);
-
-    // Filter by time range
-    const cutoffTimestamp = getTimestampForRange(timeRange as TimeRange) * 1000;
-    const timeFilteredPosts = allPosts.filter(p => new Date(p.createdAt).getTime() >= cutoffTimestamp);
-    const timeFilteredComments = allComments.filter(c => new Date(c.createdAt).getTime() >= cutoffTimestamp);
-
-    // Apply AI-relevance filter for general subreddits
-    const filteredPosts = timeFilteredPosts.filter(p => {
-      // Always keep posts from AI-specific subreddits
-      if (isAISpecificSubreddit(p.parsedCommunityName)) return true;
-      // For general subreddits, check if content is AI-related
-      const textToCheck = `${p.title} ${p.body}`;
-      return isAIRelated(textToCheck);
-    });
-
-    const filteredComments = timeFilteredComments.filter(c => {
-      // Always keep comments from AI-specific subreddits
-      if (isAISpecificSubreddit(c.communityName.replace('r/', ''))) return true;
-      // For general subreddits, check if content is AI-related
-      return isAIRelated(c.body);
-    });
-
-    const aiFilteredOut = (timeFilteredPosts.length - filteredPosts.length) + (timeFilteredComments.length - filteredComments.length);
-    console.log(`[Scraper] After time filter: ${timeFilteredPosts.length} posts, ${timeFilteredComments.length} comments`);
-    console.log(`[Scraper] After AI filter: ${filteredPosts.length} posts, ${filteredComments.length} comments (${aiFilteredOut} non-AI items filtered)`);
+    const actualSaveToDb = params.saveToDb && user !== null;
 
-    // Save to database (only if user is authenticated)
-    let dataSourceId = null;
-    const finalData = [...filteredPosts, ...filteredComments];
-    
-    if (actualSaveToDb && finalData.length > 0 && user) {
-      const timeRangeLabel = {
-        'day': 'Today',
-        '3days': 'Past 3 Days',
-        'week': 'Past Week',
-        'month': 'Past Month'
-      }[timeRange as string] || timeRange;
-
-      const sortModeLabel = {
-        'top': 'Top',
-        'hot': 'Hot',
-        'rising': 'Rising'
-      }[sortMode as string] || sortMode;
-
-      const { data: dataSource, error: insertError } = await supabase
-        .from('data_sources')
+    // Background runs are split across invocations; the response only carries the job id to poll
+    const jobClient = body.background === true ? createJobClient() : null;
+    if (jobClient) {
+      const { data: created, error } = await jobClient
+        .from('scrape_jobs')
         .insert({
-          user_id: user.id,
-          name: `Reddit ${sortModeLabel} - ${timeRangeLabel} (${new Date().toLocaleDateString()})`,
-          source_type: 'reddit_json',
-          url: null,
-          content: {
-            posts: filteredPosts,
-            comments: filteredComments,
-            subredditStats,
-            timeRange,
-            sortMode,
-            fastMode,
-            failedSubreddits,
-            methodStats,
-            scrapedAt: new Date().toISOString(),
-            totalSubreddits: targetSubreddits.length
-          },
-          item_count: finalData.length
+          user_id: user?.id ?? null,
+          params: { ...params, saveToDb: actualSaveToDb },
+          subreddits: targetSubreddits,
         })
-        .select()
+        .select('id')
         .single();
-
-      if (insertError) {
-        console.error('[DB] Insert error:', insertError);
+      if (error) {
+        console.error('[Scraper] Failed to create job, scraping in this invocation:', error.message);
       } else {
-        dataSourceId = dataSource.id;
-        console.log(`[DB] Saved: ${dataSourceId}`);
+        console.log(`[Job ${created.id}] Queued`);
+        runInBackground(invokeJobSlice(created.id));
+        return jsonResponse({ success: true, jobId: created.id, status: 'queued', units }, 202);
       }
     }
 
-    const successCount = Object.keys(subredditStats).filter(k => subredditStats[k].posts > 0).length;
-    const executionTimeMs = Date.now() - EXECUTION_START;
+    const results = await scrapeBatches(units, targetSubreddits, params);
+    const outcome = assembleScrape(units, targetSubreddits, results, params);
+    const finalData = [...outcome.posts, ...outcome.comments];
+
+    // Save to database (only if user is authenticated)
+    const dataSourceId = actualSaveToDb && finalData.length > 0 && user
+      ? await saveDataSource(supabase, user.id, outcome, params)
+      : null;
 
     // Log scrape metrics (always, regardless of auth)
-    try {
-      await supabase
-        .from('scrape_metrics')
-        .insert({
-          scrape_type: 'reddit',
-          time_range: timeRange,
-          sort_mode: sortMode,
-          fast_mode: fastMode,
-          subreddits_attempted: targetSubreddits.length,
-          subreddits_successful: successCount,
-          posts_collected: filteredPosts.length,
-          comments_collected: filteredComments.length,
-          total_items: finalData.length,
-          execution_time_ms: executionTimeMs
-        });
-      console.log(`[Metrics] Logged: ${finalData.length} items in ${executionTimeMs}ms`);
-    } catch (metricsError) {
-      console.error('[Metrics] Failed to log:', metricsError);
-    }
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        dataSourceId,
-        summary: {
-          totalPosts: filteredPosts.length,
-          totalComments: filteredComments.length,
-          postsWithEngagement,
-          avgUpvotes,
-          subredditsScraped: successCount,
-          subredditsRequested: targetSubreddits.length,
-          failedSubreddits: failedSubreddits.length,
-          timeRange,
-          sortMode,
-          fastMode,
-          methodStats,
-          subredditStats
-        },
-        data: finalData
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    await logScrapeMetrics(supabase, outcome, params, Date.now() - executionStart);
+
+    return jsonResponse({
+      success: true,
+      dataSourceId,
+      summary: outcome.summary,
+      data: finalData
+    });
 
   } catch (error) {
     console.error('[Scraper] Fatal error:', error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
   }
 });
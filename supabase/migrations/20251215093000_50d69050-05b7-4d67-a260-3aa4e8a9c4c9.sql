@@ -0,0 +1,60 @@
+-- Server-side sentiment analysis runs, persisted per batch so they can be resumed
+CREATE TABLE public.analysis_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'paused', 'completed')),
+  -- Why a paused job stopped: rate_limit, credits_exhausted or batch_errors
+  stop_reason TEXT,
+  -- SHA-256 over the items, the model and the node and prompt fingerprints of the cache key;
+  -- identical inputs from the same caller resume the same job
+  input_hash TEXT NOT NULL,
+  items JSONB NOT NULL,
+  nodes JSONB NOT NULL,
+  kpis JSONB NOT NULL,
+  total_texts INTEGER NOT NULL,
+  batch_size INTEGER NOT NULL,
+  total_batches INTEGER NOT NULL,
+  -- Batch index -> 'completed' | 'failed'; missing indices are pending
+  batch_status JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Batch index -> results of that batch, for completed batches
+  results JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_analysis_jobs_input_hash ON public.analysis_jobs(input_hash, created_at DESC);
+CREATE INDEX idx_analysis_jobs_user_id ON public.analysis_jobs(user_id);
+
+-- The edge function writes with the service role; signed-in users can read their own jobs
+ALTER TABLE public.analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own analysis jobs"
+  ON public.analysis_jobs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_analysis_jobs_updated_at
+  BEFORE UPDATE ON public.analysis_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record one batch atomically; parallel batches of the same job must not overwrite each other
+CREATE OR REPLACE FUNCTION public.record_analysis_batch(
+  p_job_id UUID,
+  p_batch_index INTEGER,
+  p_status TEXT,
+  p_results JSONB
+)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.analysis_jobs
+  SET
+    batch_status = batch_status || jsonb_build_object(p_batch_index::text, p_status),
+    results = CASE
+      WHEN p_results IS NULL THEN results - p_batch_index::text
+      ELSE results || jsonb_build_object(p_batch_index::text, p_results)
+    END
+  WHERE id = p_job_id;
+$$;
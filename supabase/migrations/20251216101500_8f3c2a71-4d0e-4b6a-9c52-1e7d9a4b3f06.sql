@@ -0,0 +1,2 @@
+-- Model chosen per analysis run; resumed batches must use the same one
+ALTER TABLE public.analysis_jobs ADD COLUMN model TEXT;
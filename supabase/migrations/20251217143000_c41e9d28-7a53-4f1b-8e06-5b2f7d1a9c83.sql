@@ -0,0 +1,3 @@
+-- Batches are packed to a token budget instead of a fixed size; store where each one starts
+ALTER TABLE public.analysis_jobs ADD COLUMN batch_bounds JSONB;
+ALTER TABLE public.analysis_jobs ALTER COLUMN batch_size DROP NOT NULL;
@@ -0,0 +1,2 @@
+-- Explain mode asks the model for a rationale and evidence spans; a job keeps it across resumes
+ALTER TABLE public.analysis_jobs ADD COLUMN explain BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,23 @@
+-- Scored results reused across runs: one row per text scored against a node set, model and prompt
+CREATE TABLE public.analysis_result_cache (
+  -- SHA-256 of the whitespace-normalized text
+  text_hash TEXT NOT NULL,
+  -- SHA-256 of the node ids, names and keywords
+  node_fingerprint TEXT NOT NULL,
+  model TEXT NOT NULL,
+  -- Prompt version plus a hash of the KPI definitions and explain mode
+  prompt_version TEXT NOT NULL,
+  -- The result without its id and text
+  result JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_hit_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (text_hash, node_fingerprint, model, prompt_version)
+);
+
+CREATE INDEX idx_analysis_result_cache_node_fingerprint ON public.analysis_result_cache(node_fingerprint);
+
+-- Only the edge function (service role) reads and writes the cache
+ALTER TABLE public.analysis_result_cache ENABLE ROW LEVEL SECURITY;
+
+-- Cache hits of a job, returned again when it is resumed or reconnected to
+ALTER TABLE public.analysis_jobs ADD COLUMN cached_results JSONB NOT NULL DEFAULT '[]'::jsonb;
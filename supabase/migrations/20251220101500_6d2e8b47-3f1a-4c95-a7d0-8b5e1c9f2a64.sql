@@ -0,0 +1,33 @@
+-- One row per LLM call made by an edge function, for cost reporting and spend caps
+CREATE TABLE public.llm_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  function_name TEXT NOT NULL,
+  -- Groups the calls of one run: the analysis job id, or a per-request id
+  run_id TEXT NOT NULL,
+  user_id UUID,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  -- True when the provider reported no usage and tokens were estimated from characters
+  tokens_estimated BOOLEAN NOT NULL DEFAULT false,
+  latency_ms INTEGER NOT NULL,
+  retry BOOLEAN NOT NULL DEFAULT false,
+  -- Estimated from list prices (USD); 0 for local models and failed calls
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL CHECK (status IN ('ok', 'error')),
+  -- rate_limit, credits_exhausted or request_failed for failed calls
+  error_kind TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_llm_usage_created_at ON public.llm_usage(created_at DESC);
+CREATE INDEX idx_llm_usage_run_id ON public.llm_usage(run_id);
+
+-- Edge functions write with the service role; signed-in users can read their own calls
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own LLM usage"
+  ON public.llm_usage
+  FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,70 @@
+-- Background bulk Reddit scrapes, run as a chain of function invocations that each scrape a slice
+-- of the subreddit list and checkpoint it here, so full runs are not cut off by the time limit
+CREATE TABLE public.scrape_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID,
+  -- queued: waiting for the next invocation; running: an invocation is scraping a slice
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  error TEXT,
+  -- timeRange, sortMode, postsPerSubreddit, fastMode, saveToDb and commentOptions of the request
+  params JSONB NOT NULL,
+  subreddits JSONB NOT NULL,
+  -- Checkpoint: subreddits before this index are scraped and their results stored
+  next_index INTEGER NOT NULL DEFAULT 0,
+  -- Subreddit -> { posts, comments, method, success } for scraped subreddits; cleared on completion
+  results JSONB NOT NULL DEFAULT '{}'::jsonb,
+  invocations INTEGER NOT NULL DEFAULT 0,
+  -- Filtered posts and comments and the response summary, set on completion
+  summary JSONB,
+  data JSONB,
+  data_source_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_scrape_jobs_user_id ON public.scrape_jobs(user_id);
+
+-- The edge function writes with the service role; signed-in users can read their own jobs
+ALTER TABLE public.scrape_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own scrape jobs"
+  ON public.scrape_jobs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_scrape_jobs_updated_at
+  BEFORE UPDATE ON public.scrape_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hand the job to one invocation: queued jobs, and running jobs whose invocation stopped
+-- checkpointing before p_stale_before. Returns no row when another invocation holds it.
+CREATE OR REPLACE FUNCTION public.claim_scrape_job(
+  p_job_id UUID,
+  p_stale_before TIMESTAMP WITH TIME ZONE
+)
+RETURNS SETOF public.scrape_jobs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.scrape_jobs
+  SET status = 'running', invocations = invocations + 1
+  WHERE id = p_job_id
+    AND (status = 'queued' OR (status = 'running' AND updated_at < p_stale_before))
+  RETURNING *;
+$$;
+
+-- Checkpoint one scraped batch without sending the job's earlier results back and forth
+CREATE OR REPLACE FUNCTION public.record_scrape_slice(
+  p_job_id UUID,
+  p_results JSONB,
+  p_next_index INTEGER
+)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.scrape_jobs
+  SET results = results || p_results, next_index = p_next_index
+  WHERE id = p_job_id;
+$$;
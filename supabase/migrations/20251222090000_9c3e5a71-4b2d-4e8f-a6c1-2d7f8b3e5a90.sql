@@ -0,0 +1,16 @@
+-- Spend summed in the database: a select of the rows is cut off at PostgREST's row limit,
+-- which would let spend caps undercount. Runs with the caller's rights, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.llm_spend_usd(
+  p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_run_id TEXT DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(cost_usd), 0)
+  FROM public.llm_usage
+  WHERE (p_since IS NULL OR created_at >= p_since)
+    AND (p_run_id IS NULL OR run_id = p_run_id);
+$$;